@@ -13,6 +13,18 @@ const envSchema = z.object({
   DISCORD_APP_ID: z.string().min(1, 'DISCORD_APP_ID is required'),
   DISCORD_GUILD_ID: z.string().optional(),
 
+  // Command Publishing
+  // auto: publish only when commands changed; force: always; dry-run: log the diff only
+  COMMANDS_PUBLISH_MODE: z.enum(['auto', 'force', 'dry-run']).default('auto'),
+  COMMANDS_STATE_PATH: z.string().default('./data/commands-state.json'),
+
+  // Interactions Delivery
+  // gateway: connect to Discord's gateway (default)
+  // http: serve Discord's interactions endpoint over HTTP instead
+  INTERACTIONS_MODE: z.enum(['gateway', 'http']).default('gateway'),
+  DISCORD_PUBLIC_KEY: z.string().optional(),
+  HTTP_PORT: z.coerce.number().int().min(1).max(65535).default(8080),
+
   // Database Configuration
   DB_PATH: z.string().default('./data/bot.sqlite'),
 
@@ -23,6 +35,24 @@ const envSchema = z.object({
   LOG_LEVEL: z
     .enum(['debug', 'info', 'warn', 'error'])
     .default('info'),
+
+  // Rate Limiting (token buckets: capacity = burst size, refill = ms per token)
+  RATE_LIMIT_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+  RATE_LIMIT_USER_CAPACITY: z.coerce.number().int().positive().default(10),
+  RATE_LIMIT_USER_REFILL_MS: z.coerce.number().int().positive().default(3000),
+  RATE_LIMIT_GUILD_CAPACITY: z.coerce.number().int().positive().default(60),
+  RATE_LIMIT_GUILD_REFILL_MS: z.coerce.number().int().positive().default(500),
+  RATE_LIMIT_COMMAND_CAPACITY: z.coerce.number().int().positive().default(5),
+  RATE_LIMIT_COMMAND_REFILL_MS: z.coerce.number().int().positive().default(5000),
+
+  // Shutdown: how long to wait for in-flight interactions before exiting
+  SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().nonnegative().default(10000),
+}).refine((env) => env.INTERACTIONS_MODE !== 'http' || !!env.DISCORD_PUBLIC_KEY, {
+  message: 'DISCORD_PUBLIC_KEY is required when INTERACTIONS_MODE is http',
+  path: ['DISCORD_PUBLIC_KEY'],
 });
 
 /**
@@ -51,6 +81,48 @@ function parseEnv(): EnvConfig {
  */
 export const env = parseEnv();
 
+/**
+ * Token bucket settings for one rate limit scope
+ */
+export interface RateLimitBucketConfig {
+  /** Maximum tokens (burst size) */
+  capacity: number;
+  /** Milliseconds to refill one token */
+  refillIntervalMs: number;
+}
+
+/**
+ * Rate limit settings for the command router
+ */
+export interface RateLimitConfig {
+  enabled: boolean;
+  /** Bucket per user across all commands */
+  user: RateLimitBucketConfig;
+  /** Bucket per guild across all users */
+  guild: RateLimitBucketConfig;
+  /** Bucket per user per command */
+  command: RateLimitBucketConfig;
+}
+
+/**
+ * Rate limit settings derived from the environment
+ */
+export const rateLimitConfig: RateLimitConfig = {
+  enabled: env.RATE_LIMIT_ENABLED,
+  user: {
+    capacity: env.RATE_LIMIT_USER_CAPACITY,
+    refillIntervalMs: env.RATE_LIMIT_USER_REFILL_MS,
+  },
+  guild: {
+    capacity: env.RATE_LIMIT_GUILD_CAPACITY,
+    refillIntervalMs: env.RATE_LIMIT_GUILD_REFILL_MS,
+  },
+  command: {
+    capacity: env.RATE_LIMIT_COMMAND_CAPACITY,
+    refillIntervalMs: env.RATE_LIMIT_COMMAND_REFILL_MS,
+  },
+};
+
 /**
  * Check if running in development mode
  */
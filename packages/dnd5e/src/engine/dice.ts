@@ -1,11 +1,19 @@
 /**
  * Dice rolling utilities.
  *
- * Handles standard dice notation like "1d20", "2d6+3", etc.
+ * Handles standard dice notation like "1d20", "2d6+3", etc. Parsing and
+ * rolling go through the dice expression engine (see expression.ts), so
+ * `DICE_LIMITS` apply; use `rollExpression` for anything beyond one dice
+ * group and a flat modifier.
  */
 
 import type { RNG } from './rng.js';
 import { defaultRNG } from './rng.js';
+import {
+  expressionModifier,
+  parseDiceExpression,
+  rollDiceExpression,
+} from './expression.js';
 
 /**
  * Result of rolling dice.
@@ -32,36 +40,40 @@ export interface ParsedDice {
 
 /**
  * Parse a dice expression like "2d6+3" or "1d20-2".
+ *
+ * @returns null unless the expression is one plain dice group with an
+ *   optional flat modifier
  */
 export function parseDice(expression: string): ParsedDice | null {
-  const match = expression.match(/^(\d+)?d(\d+)([+-]\d+)?$/i);
-  if (!match) return null;
-
-  const count = match[1] ? parseInt(match[1], 10) : 1;
-  const sides = parseInt(match[2]!, 10);
-  const modifier = match[3] ? parseInt(match[3], 10) : 0;
-
-  if (count < 1 || sides < 1) return null;
+  const parsed = parseDiceExpression(expression);
+  if (!parsed.success) return null;
+
+  const { root, diceCount } = parsed.value;
+  const group = root.type === 'binary' ? root.left : root;
+  const modifier = expressionModifier(parsed.value);
+  if (
+    group.type !== 'dice' ||
+    group.count !== diceCount ||
+    group.keepDrop ||
+    group.explode ||
+    group.reroll ||
+    modifier === null
+  ) {
+    return null;
+  }
 
-  return { count, sides, modifier };
+  return { count: group.count, sides: group.sides, modifier };
 }
 
 /**
  * Roll dice from a parsed expression.
+ *
+ * @throws Error if the dice exceed `DICE_LIMITS`
  */
 export function rollParsedDice(
   parsed: ParsedDice,
   rng: RNG = defaultRNG
 ): DiceRollResult {
-  const rolls: number[] = [];
-
-  for (let i = 0; i < parsed.count; i++) {
-    rolls.push(rng.rollInt(1, parsed.sides));
-  }
-
-  const rollTotal = rolls.reduce((sum, r) => sum + r, 0);
-  const total = rollTotal + parsed.modifier;
-
   const modStr =
     parsed.modifier > 0
       ? `+${parsed.modifier}`
@@ -70,6 +82,19 @@ export function rollParsedDice(
         : '';
   const expression = `${parsed.count}d${parsed.sides}${modStr}`;
 
+  const { count, sides } = parsed;
+  const notation = `${count}d${sides}`;
+  const result = rollDiceExpression(
+    { notation, root: { type: 'dice', count, sides }, diceCount: count },
+    rng
+  );
+  if (!result.success) {
+    throw new Error(`Cannot roll ${expression}: ${result.error}`);
+  }
+
+  const rolls = result.value.groups[0]!.dice.map((die) => die.value);
+  const total = result.value.total + parsed.modifier;
+
   return { expression, rolls, modifier: parsed.modifier, total };
 }
 
@@ -89,7 +114,7 @@ export function rollDice(
  * Roll a single die with a given number of sides.
  */
 export function rollD(sides: number, rng: RNG = defaultRNG): number {
-  return rng.rollInt(1, sides);
+  return rollParsedDice({ count: 1, sides, modifier: 0 }, rng).total;
 }
 
 /**
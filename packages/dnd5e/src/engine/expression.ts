@@ -0,0 +1,682 @@
+/**
+ * Dice expression language.
+ *
+ * Parses and rolls expressions such as "2d6+1d4+3", "4d6kh3", "2d20kl1",
+ * "d6!", "4d6r<2" or "(1d8+2)*2". Supported syntax:
+ *
+ * - Dice: `NdS` or `dS` (one die), `d%` for d100
+ * - Keep/drop: `khN`, `klN`, `dhN`, `dlN` (N defaults to 1; `kN` = `khN`)
+ * - Exploding: `!` rolls again on the highest face, `!>N` on faces matching
+ * - Reroll: `rN`, `r<N`, `r<=N`, `r>N`, `r>=N` reroll until the face no longer
+ *   matches; `ro` rerolls once
+ * - Numbers, `+`, `-`, `*`, `/` (rounds down) and parentheses
+ *
+ * Every roll keeps a per-die breakdown. Hard limits on expression length,
+ * dice count, sides and total rolls keep a single roll cheap.
+ */
+
+import type { RNG } from './rng.js';
+import { defaultRNG } from './rng.js';
+import { failure, success, type RuleResult } from '../types.js';
+
+/**
+ * Hard limits for dice expressions.
+ */
+export const DICE_LIMITS = {
+  /** Longest accepted expression, in characters */
+  maxLength: 100,
+  /** Dice requested across all groups */
+  maxDice: 100,
+  /** Sides per die */
+  maxSides: 1000,
+  /** Dice actually rolled, including rerolls and explosions */
+  maxRolls: 1000,
+  /** Largest number literal */
+  maxNumber: 100_000,
+} as const;
+
+/**
+ * Face comparison used by rerolls and explosions.
+ */
+export interface DiceComparison {
+  operator: '=' | '<' | '<=' | '>' | '>=';
+  value: number;
+}
+
+/**
+ * Keep or drop the highest or lowest dice of a group.
+ */
+export interface KeepDrop {
+  mode: 'keep' | 'drop';
+  which: 'highest' | 'lowest';
+  count: number;
+}
+
+/**
+ * A group of identical dice with its modifiers, e.g. "4d6kh3".
+ */
+export interface DiceGroupNode {
+  type: 'dice';
+  count: number;
+  sides: number;
+  reroll?: { comparison: DiceComparison; once: boolean };
+  /** Roll an extra die whenever a face matches (default: highest face) */
+  explode?: DiceComparison;
+  keepDrop?: KeepDrop;
+}
+
+/**
+ * Node of a parsed dice expression.
+ */
+export type DiceExpressionNode =
+  /** A constant, or the value of a `{name}` reference (e.g. "{str_mod}") */
+  | { type: 'number'; value: number; reference?: string }
+  | DiceGroupNode
+  | { type: 'negate'; operand: DiceExpressionNode }
+  | {
+      type: 'binary';
+      operator: '+' | '-' | '*' | '/';
+      left: DiceExpressionNode;
+      right: DiceExpressionNode;
+    }
+  | { type: 'parens'; expression: DiceExpressionNode };
+
+/**
+ * Parsed dice expression, ready to roll.
+ */
+export interface DiceExpression {
+  /** Normalized notation, e.g. "1d20+5" for "d20 + 5" */
+  notation: string;
+  root: DiceExpressionNode;
+  /** Dice requested across all groups */
+  diceCount: number;
+}
+
+/**
+ * One rolled die.
+ */
+export interface DieResult {
+  value: number;
+  /** Rerolled dice and dice removed by keep/drop do not count */
+  status: 'kept' | 'dropped' | 'rerolled';
+  /** This die triggered an extra roll */
+  exploded: boolean;
+}
+
+/**
+ * Result of rolling one dice group.
+ */
+export interface DiceGroupResult {
+  notation: string;
+  sides: number;
+  dice: DieResult[];
+  /** Sum of the kept dice */
+  total: number;
+}
+
+/**
+ * Result of rolling a dice expression.
+ */
+export interface DiceExpressionResult {
+  notation: string;
+  /** Dice groups in the order they appear */
+  groups: DiceGroupResult[];
+  /** The expression with each group replaced by its dice, e.g. "2d6 [3, 5] + 3" */
+  breakdown: string;
+  total: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+class ParseError extends Error {}
+
+/**
+ * Check whether a face matches a comparison.
+ */
+export function matchesComparison(comparison: DiceComparison, face: number): boolean {
+  switch (comparison.operator) {
+    case '=':
+      return face === comparison.value;
+    case '<':
+      return face < comparison.value;
+    case '<=':
+      return face <= comparison.value;
+    case '>':
+      return face > comparison.value;
+    case '>=':
+      return face >= comparison.value;
+  }
+}
+
+/**
+ * Count the faces of a die matching a comparison.
+ */
+function matchingFaces(comparison: DiceComparison, sides: number): number {
+  let faces = 0;
+  for (let face = 1; face <= sides; face++) {
+    if (matchesComparison(comparison, face)) faces++;
+  }
+  return faces;
+}
+
+/**
+ * A named reference such as `{str_mod}` or `{hp.max}` at the start of the
+ * remaining input
+ */
+const REFERENCE_TOKEN = /^\{\s*([\w.]+)\s*\}/;
+
+/**
+ * Error for an unknown reference, listing the names that are available
+ */
+function unknownReference(
+  name: string,
+  references: Readonly<Record<string, number>>
+): string {
+  const available = Object.keys(references)
+    .sort()
+    .map((key) => `{${key}}`);
+  return available.length > 0
+    ? `Unknown reference {${name}}. Available: ${available.join(', ')}`
+    : `Unknown reference {${name}}; no references are available`;
+}
+
+function parse(
+  input: string,
+  references: Readonly<Record<string, number>>
+): DiceExpression {
+  const source = input.toLowerCase();
+  let pos = 0;
+  let diceCount = 0;
+
+  const describePos = () =>
+    pos < source.length ? `"${source[pos]}" at position ${pos + 1}` : 'end of expression';
+
+  const skipSpaces = () => {
+    while (source[pos] === ' ') pos++;
+  };
+
+  const peek = (text: string) => source.startsWith(text, pos);
+
+  const readInt = (): number | null => {
+    const match = /^\d+/.exec(source.slice(pos));
+    if (!match) return null;
+    pos += match[0].length;
+    const value = parseInt(match[0], 10);
+    if (value > DICE_LIMITS.maxNumber) {
+      throw new ParseError(
+        `Number ${match[0]} is too large (max ${DICE_LIMITS.maxNumber})`
+      );
+    }
+    return value;
+  };
+
+  const expectInt = (after: string): number => {
+    const value = readInt();
+    if (value === null) {
+      throw new ParseError(`Expected a number after "${after}", got ${describePos()}`);
+    }
+    return value;
+  };
+
+  const readComparison = (after: string, optional: boolean): DiceComparison | null => {
+    const operator = (['<=', '>=', '<', '>', '='] as const).find((op) => peek(op));
+    if (operator) {
+      pos += operator.length;
+      return { operator, value: expectInt(`${after}${operator}`) };
+    }
+    const value = readInt();
+    if (value !== null) return { operator: '=', value };
+    if (optional) return null;
+    throw new ParseError(`Expected a number after "${after}", got ${describePos()}`);
+  };
+
+  const parseDiceGroup = (count: number): DiceGroupNode => {
+    pos++; // "d"
+    let sides: number;
+    if (peek('%')) {
+      pos++;
+      sides = 100;
+    } else {
+      sides = expectInt('d');
+    }
+
+    if (count < 1) {
+      throw new ParseError('Must roll at least 1 die');
+    }
+    if (sides < 1 || sides > DICE_LIMITS.maxSides) {
+      throw new ParseError(`Dice must have between 1 and ${DICE_LIMITS.maxSides} sides`);
+    }
+    diceCount += count;
+    if (diceCount > DICE_LIMITS.maxDice) {
+      throw new ParseError(`Too many dice (max ${DICE_LIMITS.maxDice})`);
+    }
+
+    const group: DiceGroupNode = { type: 'dice', count, sides };
+    const notation = () => formatNode(group);
+
+    for (;;) {
+      const keepDrop = /^(kh|kl|dh|dl|k)/.exec(source.slice(pos))?.[0];
+      if (keepDrop) {
+        if (group.keepDrop) {
+          throw new ParseError(
+            `Only one keep or drop is allowed per dice group (${notation()})`
+          );
+        }
+        pos += keepDrop.length;
+        const keepCount = readInt() ?? 1;
+        if (keepCount < 1 || keepCount > count) {
+          throw new ParseError(
+            `Cannot ${keepDrop.startsWith('k') ? 'keep' : 'drop'} ${keepCount} of ${count} dice`
+          );
+        }
+        group.keepDrop = {
+          mode: keepDrop.startsWith('k') ? 'keep' : 'drop',
+          which: keepDrop.endsWith('l') ? 'lowest' : 'highest',
+          count: keepCount,
+        };
+        continue;
+      }
+
+      if (peek('r')) {
+        if (group.reroll) {
+          throw new ParseError(
+            `Only one reroll is allowed per dice group (${notation()})`
+          );
+        }
+        const once = peek('ro');
+        pos += once ? 2 : 1;
+        const comparison = readComparison(once ? 'ro' : 'r', false)!;
+        if (matchingFaces(comparison, sides) === sides) {
+          throw new ParseError(`Rerolling ${notation()} on every face would never stop`);
+        }
+        group.reroll = { comparison, once };
+        continue;
+      }
+
+      if (peek('!')) {
+        if (group.explode) {
+          throw new ParseError(
+            `Only one explosion is allowed per dice group (${notation()})`
+          );
+        }
+        pos++;
+        const comparison = readComparison('!', true) ?? { operator: '=', value: sides };
+        if (matchingFaces(comparison, sides) === sides) {
+          throw new ParseError(`Exploding ${notation()} on every face would never stop`);
+        }
+        group.explode = comparison;
+        continue;
+      }
+
+      return group;
+    }
+  };
+
+  const parsePrimary = (): DiceExpressionNode => {
+    skipSpaces();
+
+    if (peek('(')) {
+      pos++;
+      const expression = parseSum();
+      skipSpaces();
+      if (!peek(')')) {
+        throw new ParseError(`Expected ")", got ${describePos()}`);
+      }
+      pos++;
+      return { type: 'parens', expression };
+    }
+
+    if (peek('d')) {
+      return parseDiceGroup(1);
+    }
+
+    if (peek('{')) {
+      const match = REFERENCE_TOKEN.exec(source.slice(pos));
+      if (!match) {
+        throw new ParseError(`Expected a reference like {str_mod}, got ${describePos()}`);
+      }
+      const name = match[1]!;
+      // Own keys only, so {constructor} is not Object.prototype's
+      const value = Object.hasOwn(references, name) ? references[name] : undefined;
+      if (value === undefined) {
+        throw new ParseError(unknownReference(name, references));
+      }
+      if (!Number.isInteger(value)) {
+        throw new ParseError(`Reference {${name}} is not a whole number (${value})`);
+      }
+      pos += match[0].length;
+      // "{level}d8" rolls as many dice as the value
+      return peek('d')
+        ? parseDiceGroup(value)
+        : { type: 'number', value, reference: name };
+    }
+
+    const value = readInt();
+    if (value === null) {
+      throw new ParseError(`Expected a number or dice, got ${describePos()}`);
+    }
+    return peek('d') ? parseDiceGroup(value) : { type: 'number', value };
+  };
+
+  const parseUnary = (): DiceExpressionNode => {
+    skipSpaces();
+    if (peek('-')) {
+      pos++;
+      return { type: 'negate', operand: parseUnary() };
+    }
+    if (peek('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  const parseBinary = (
+    operators: ReadonlyArray<'+' | '-' | '*' | '/'>,
+    parseOperand: () => DiceExpressionNode
+  ): DiceExpressionNode => {
+    let left = parseOperand();
+    for (;;) {
+      skipSpaces();
+      const operator = operators.find((op) => peek(op));
+      if (!operator) return left;
+      pos++;
+      left = { type: 'binary', operator, left, right: parseOperand() };
+    }
+  };
+
+  const parseProduct = () => parseBinary(['*', '/'], parseUnary);
+  const parseSum = (): DiceExpressionNode => parseBinary(['+', '-'], parseProduct);
+
+  const root = parseSum();
+  skipSpaces();
+  if (pos < source.length) {
+    throw new ParseError(`Unexpected ${describePos()}`);
+  }
+
+  return { notation: formatNode(root), root, diceCount };
+}
+
+/**
+ * Parse a dice expression like "2d6+1d4+3" or "4d6kh3".
+ *
+ * `{name}` references, e.g. "1d20+{dex_mod}", take their value from
+ * `references` (keyed by lowercase name); the breakdown of a roll names the
+ * reference next to its value.
+ *
+ * Fails with a readable message on syntax errors, unknown references or
+ * exceeded limits.
+ */
+export function parseDiceExpression(
+  input: string,
+  references: Readonly<Record<string, number>> = {}
+): RuleResult<DiceExpression> {
+  const trimmed = input.trim();
+
+  if (trimmed.length === 0) {
+    return failure('Dice expression is empty');
+  }
+  if (trimmed.length > DICE_LIMITS.maxLength) {
+    return failure(
+      `Dice expression is too long (max ${DICE_LIMITS.maxLength} characters)`
+    );
+  }
+
+  try {
+    return success(parse(trimmed, references));
+  } catch (error) {
+    if (error instanceof ParseError) return failure(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Sum the constants of an expression that only adds and subtracts, e.g. 3
+ * for "1d20+5-2" and 0 for "4d6kh3".
+ *
+ * @returns The flat modifier, or null if the expression multiplies or divides
+ */
+export function expressionModifier(expression: DiceExpression): number | null {
+  const visit = (node: DiceExpressionNode, sign: 1 | -1): number | null => {
+    switch (node.type) {
+      case 'number':
+        return sign * node.value;
+      case 'dice':
+        return 0;
+      case 'negate':
+        return visit(node.operand, -sign as 1 | -1);
+      case 'parens':
+        return visit(node.expression, sign);
+      case 'binary': {
+        if (node.operator !== '+' && node.operator !== '-') return null;
+        const left = visit(node.left, sign);
+        const right = visit(node.right, node.operator === '-' ? (-sign as 1 | -1) : sign);
+        return left === null || right === null ? null : left + right;
+      }
+    }
+  };
+
+  return visit(expression.root, 1);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formatting
+// ─────────────────────────────────────────────────────────────────────────────
+
+function formatComparison(comparison: DiceComparison): string {
+  return comparison.operator === '='
+    ? `${comparison.value}`
+    : `${comparison.operator}${comparison.value}`;
+}
+
+function formatGroup(group: DiceGroupNode): string {
+  let notation = `${group.count}d${group.sides}`;
+  if (group.reroll) {
+    notation += `${group.reroll.once ? 'ro' : 'r'}${formatComparison(group.reroll.comparison)}`;
+  }
+  if (group.explode) {
+    const isDefault =
+      group.explode.operator === '=' && group.explode.value === group.sides;
+    notation += isDefault ? '!' : `!${formatComparison(group.explode)}`;
+  }
+  if (group.keepDrop) {
+    const { mode, which, count } = group.keepDrop;
+    notation += `${mode[0]}${which[0]}${count}`;
+  }
+  return notation;
+}
+
+/**
+ * Format a node, replacing dice groups with `formatDice` when given.
+ * Spaced (breakdown) formatting names the reference of a value, e.g. "3 (dex_mod)".
+ */
+function formatNode(
+  node: DiceExpressionNode,
+  formatDice: (group: DiceGroupNode) => string = formatGroup,
+  spaced = false
+): string {
+  const format = (child: DiceExpressionNode) => formatNode(child, formatDice, spaced);
+
+  switch (node.type) {
+    case 'number': {
+      const value = node.value < 0 ? `(${node.value})` : `${node.value}`;
+      return spaced && node.reference ? `${value} (${node.reference})` : value;
+    }
+    case 'dice':
+      return formatDice(node);
+    case 'negate':
+      return `-${format(node.operand)}`;
+    case 'parens':
+      return `(${format(node.expression)})`;
+    case 'binary': {
+      const operator = spaced ? ` ${node.operator} ` : node.operator;
+      return `${format(node.left)}${operator}${format(node.right)}`;
+    }
+  }
+}
+
+/**
+ * Format one die of a breakdown: dropped and rerolled dice are struck
+ * through, dice that exploded are marked with "!".
+ */
+function formatDie(die: DieResult): string {
+  if (die.status !== 'kept') return `~~${die.value}~~`;
+  return die.exploded ? `${die.value}!` : `${die.value}`;
+}
+
+/**
+ * Format a group result, e.g. "4d6kh3 [6, 5, ~~2~~, 4]".
+ */
+export function formatDiceGroup(group: DiceGroupResult): string {
+  return `${group.notation} [${group.dice.map(formatDie).join(', ')}]`;
+}
+
+/**
+ * Format an expression roll, e.g. "2d6+3: 2d6 [3, 5] + 3 = 11".
+ */
+export function formatDiceExpressionRoll(result: DiceExpressionResult): string {
+  return `${result.notation}: ${result.breakdown} = ${result.total}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rolling
+// ─────────────────────────────────────────────────────────────────────────────
+
+class RollLimitError extends Error {}
+
+function rollGroup(
+  group: DiceGroupNode,
+  roll: (sides: number) => number
+): DiceGroupResult {
+  const dice: DieResult[] = [];
+
+  for (let i = 0; i < group.count; i++) {
+    let value = roll(group.sides);
+
+    if (group.reroll) {
+      while (matchesComparison(group.reroll.comparison, value)) {
+        dice.push({ value, status: 'rerolled', exploded: false });
+        value = roll(group.sides);
+        if (group.reroll.once) break;
+      }
+    }
+
+    dice.push({ value, status: 'kept', exploded: false });
+
+    if (group.explode) {
+      while (matchesComparison(group.explode, value)) {
+        dice[dice.length - 1]!.exploded = true;
+        value = roll(group.sides);
+        dice.push({ value, status: 'kept', exploded: false });
+      }
+    }
+  }
+
+  if (group.keepDrop) {
+    const { mode, which, count } = group.keepDrop;
+    const candidates = dice.filter((die) => die.status === 'kept');
+    // Highest first; ties keep roll order
+    const ordered = [...candidates].sort((a, b) => b.value - a.value);
+    if (which === 'lowest') ordered.reverse();
+
+    const kept = new Set(
+      mode === 'keep' ? ordered.slice(0, count) : ordered.slice(count)
+    );
+    for (const die of candidates) {
+      if (!kept.has(die)) die.status = 'dropped';
+    }
+  }
+
+  const total = dice
+    .filter((die) => die.status === 'kept')
+    .reduce((sum, die) => sum + die.value, 0);
+
+  return { notation: formatGroup(group), sides: group.sides, dice, total };
+}
+
+/**
+ * Roll a parsed dice expression.
+ *
+ * Fails if rerolls and explosions exceed the roll limit.
+ */
+export function rollDiceExpression(
+  expression: DiceExpression,
+  rng: RNG = defaultRNG
+): RuleResult<DiceExpressionResult> {
+  let rolls = 0;
+  const roll = (sides: number) => {
+    if (++rolls > DICE_LIMITS.maxRolls) {
+      throw new RollLimitError(
+        `Too many rerolls or explosions (max ${DICE_LIMITS.maxRolls} dice rolled)`
+      );
+    }
+    return rng.rollInt(1, sides);
+  };
+
+  const groups = new Map<DiceGroupNode, DiceGroupResult>();
+
+  const evaluate = (node: DiceExpressionNode): number => {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'dice': {
+        const result = rollGroup(node, roll);
+        groups.set(node, result);
+        return result.total;
+      }
+      case 'negate':
+        return -evaluate(node.operand);
+      case 'parens':
+        return evaluate(node.expression);
+      case 'binary': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        switch (node.operator) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+            if (right === 0) throw new RollLimitError('Cannot divide by zero');
+            return Math.floor(left / right);
+        }
+      }
+    }
+  };
+
+  try {
+    const total = evaluate(expression.root);
+    const breakdown = formatNode(
+      expression.root,
+      (group) => formatDiceGroup(groups.get(group)!),
+      true
+    );
+
+    return success({
+      notation: expression.notation,
+      groups: [...groups.values()],
+      breakdown,
+      total,
+    });
+  } catch (error) {
+    if (error instanceof RollLimitError) return failure(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Parse and roll a dice expression in one step.
+ */
+export function rollExpression(
+  input: string,
+  rng: RNG = defaultRNG,
+  references: Readonly<Record<string, number>> = {}
+): RuleResult<DiceExpressionResult> {
+  const parsed = parseDiceExpression(input, references);
+  if (!parsed.success) return parsed;
+  return rollDiceExpression(parsed.value, rng);
+}
@@ -15,6 +15,48 @@ export {
   formatDiceRoll,
 } from './dice.js';
 
+export type {
+  DiceComparison,
+  DiceExpression,
+  DiceExpressionNode,
+  DiceExpressionResult,
+  DiceGroupNode,
+  DiceGroupResult,
+  DieResult,
+  KeepDrop,
+} from './expression.js';
+export {
+  DICE_LIMITS,
+  parseDiceExpression,
+  expressionModifier,
+  rollDiceExpression,
+  rollExpression,
+  formatDiceGroup,
+  formatDiceExpressionRoll,
+} from './expression.js';
+
+export type { DicePool, DicePoolResult } from './pool.js';
+export { formatDicePoolNotation, parseDicePoolNotation, rollDicePool } from './pool.js';
+
+export type {
+  AttackOdds,
+  D20Roll,
+  DiceDistribution,
+  DistributionStats,
+  Outcome,
+} from './probability.js';
+export {
+  DISTRIBUTION_LIMITS,
+  computeDistribution,
+  expressionDistribution,
+  summarizeDistribution,
+  probabilityAtLeast,
+  asD20Roll,
+  attackOdds,
+  formatProbability,
+  formatHistogram,
+} from './probability.js';
+
 export type { Modifier, ModifierStack } from './modifiers.js';
 export {
   createModifierStack,
@@ -0,0 +1,163 @@
+/**
+ * Success-counting dice pools.
+ *
+ * Rolls N dice and counts those at or above a target instead of summing
+ * them, as in World of Darkness ("7d10, 8 or more succeeds") or Shadowrun
+ * ("12d6, 5 or more succeeds"). Optionally each 1 cancels a success, and
+ * dice at or above an "again" threshold (usually 10) roll an extra die.
+ *
+ * Pools roll through the dice expression engine, so they share its limits
+ * and per-die breakdown.
+ */
+
+import type { RNG } from './rng.js';
+import { defaultRNG } from './rng.js';
+import {
+  DICE_LIMITS,
+  rollDiceExpression,
+  type DiceGroupNode,
+  type DiceGroupResult,
+} from './expression.js';
+import { failure, success, type RuleResult } from '../types.js';
+
+/**
+ * A dice pool to roll.
+ */
+export interface DicePool {
+  count: number;
+  sides: number;
+  /** Lowest face that counts as a success */
+  target: number;
+  /** Each 1 cancels a success */
+  subtractOnes?: boolean;
+  /** Each die at or above this face rolls an extra die, e.g. 10 for "10-again" */
+  again?: number;
+}
+
+/**
+ * Result of rolling a dice pool.
+ */
+export interface DicePoolResult {
+  /** Pool notation, e.g. "7d10!>=8f1" */
+  notation: string;
+  /** Every die rolled, extra dice included */
+  group: DiceGroupResult;
+  /** The dice with successes in bold, e.g. "7d10 [**8**, 3, **10!**, ...]" */
+  breakdown: string;
+  /** Dice at or above the target */
+  successes: number;
+  /** Dice showing 1 */
+  ones: number;
+  /** Successes left after ones are subtracted, never below 0 */
+  net: number;
+  /** Ones were subtracted, no die succeeded and at least one showed 1 */
+  botch: boolean;
+}
+
+/**
+ * Format the notation of a pool: the dice, "!" or "!>=N" for again, the
+ * target after ">=" and "f1" when ones subtract, e.g. "7d10!>=8f1".
+ */
+export function formatDicePoolNotation(pool: DicePool): string {
+  let notation = `${pool.count}d${pool.sides}`;
+  if (pool.again !== undefined) {
+    notation += pool.again === pool.sides ? '!' : `!>=${pool.again}`;
+  }
+  notation += `>=${pool.target}`;
+  if (pool.subtractOnes) notation += 'f1';
+  return notation;
+}
+
+/**
+ * Pool notation as formatted by `formatDicePoolNotation`
+ */
+const POOL_NOTATION = /^(\d+)d(\d+)(!(?:>=(\d+))?)?>=(\d+)(f1)?$/;
+
+/**
+ * Read back a pool from its notation, e.g. "7d10!>=8f1".
+ *
+ * The pool is not checked against the dice limits; `rollDicePool` does that.
+ *
+ * @returns The pool, or null if the notation is not a pool's
+ */
+export function parseDicePoolNotation(notation: string): DicePool | null {
+  const match = POOL_NOTATION.exec(notation);
+  if (!match) return null;
+
+  const [, count, sides, again, againValue, target, ones] = match;
+  const pool: DicePool = {
+    count: Number(count),
+    sides: Number(sides),
+    target: Number(target),
+  };
+  if (again) pool.again = againValue ? Number(againValue) : pool.sides;
+  if (ones) pool.subtractOnes = true;
+  return pool;
+}
+
+/**
+ * Check a pool against the dice limits.
+ *
+ * @returns Error message if the pool cannot be rolled, undefined otherwise
+ */
+function validatePool(pool: DicePool): string | undefined {
+  const { count, sides, target, again } = pool;
+
+  if (count < 1) return 'Must roll at least 1 die';
+  if (count > DICE_LIMITS.maxDice) return `Too many dice (max ${DICE_LIMITS.maxDice})`;
+  if (sides < 2 || sides > DICE_LIMITS.maxSides) {
+    return `Dice must have between 2 and ${DICE_LIMITS.maxSides} sides`;
+  }
+  if (target < 1 || target > sides) {
+    return `Target must be between 1 and ${sides}`;
+  }
+  if (again !== undefined && (again < 2 || again > sides)) {
+    return `Again must be between 2 and ${sides}`;
+  }
+  return undefined;
+}
+
+/**
+ * Roll a dice pool and count its successes.
+ *
+ * Fails if the pool breaks the dice limits, including too many extra dice.
+ */
+export function rollDicePool(
+  pool: DicePool,
+  rng: RNG = defaultRNG
+): RuleResult<DicePoolResult> {
+  const error = validatePool(pool);
+  if (error) return failure(error);
+
+  const root: DiceGroupNode = {
+    type: 'dice',
+    count: pool.count,
+    sides: pool.sides,
+    explode: pool.again === undefined ? undefined : { operator: '>=', value: pool.again },
+  };
+  const rolled = rollDiceExpression(
+    { notation: `${pool.count}d${pool.sides}`, root, diceCount: pool.count },
+    rng
+  );
+  if (!rolled.success) return failure(rolled.error);
+
+  const group = rolled.value.groups[0]!;
+  const successes = group.dice.filter((die) => die.value >= pool.target).length;
+  const ones = group.dice.filter((die) => die.value === 1).length;
+  const subtracted = pool.subtractOnes ? ones : 0;
+
+  const dice = group.dice.map((die) => {
+    const face = die.exploded ? `${die.value}!` : `${die.value}`;
+    return die.value >= pool.target ? `**${face}**` : face;
+  });
+
+  return success({
+    notation: formatDicePoolNotation(pool),
+    group,
+    breakdown: `${pool.count}d${pool.sides} [${dice.join(', ')}]`,
+    successes,
+    ones,
+    net: Math.max(0, successes - subtracted),
+    botch: subtracted > 0 && successes === 0,
+  });
+}
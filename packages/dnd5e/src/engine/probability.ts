@@ -0,0 +1,512 @@
+/**
+ * Exact probability distributions of dice expressions.
+ *
+ * Computes every possible total of an expression with its probability by
+ * convolving per-die distributions, instead of sampling rolls. Keep/drop,
+ * rerolls and arithmetic are exact; exploding dice are followed until the
+ * remaining probability is negligible (below 1e-12).
+ *
+ * Also answers d20 questions such as "what are my odds to hit AC 15 with +7
+ * at advantage?", including natural 20 and natural 1 rules.
+ */
+
+import type { AdvantageState } from '@discord-bot/dnd5e-types';
+import {
+  matchesComparison,
+  parseDiceExpression,
+  type DiceExpression,
+  type DiceExpressionNode,
+  type DiceGroupNode,
+} from './expression.js';
+import { failure, success, type RuleResult } from '../types.js';
+
+/**
+ * Limits on the work of computing a distribution.
+ */
+export const DISTRIBUTION_LIMITS = {
+  /** Probability-mass combinations (roughly: loop iterations) per expression */
+  maxWork: 5_000_000,
+  /** Explosion chains are cut off once less probability than this remains */
+  explosionCutoff: 1e-12,
+} as const;
+
+/**
+ * One possible total and its probability.
+ */
+export interface Outcome {
+  value: number;
+  probability: number;
+}
+
+/**
+ * Exact distribution of an expression's total.
+ */
+export interface DiceDistribution {
+  /** Possible totals in ascending order; probabilities sum to 1 */
+  outcomes: Outcome[];
+}
+
+/**
+ * Summary statistics of a distribution.
+ */
+export interface DistributionStats {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Odds of an attack roll against an AC.
+ */
+export interface AttackOdds {
+  /** Probability to hit, including critical hits */
+  hit: number;
+  /** Probability of a natural 20 */
+  crit: number;
+}
+
+/**
+ * A d20 roll plus a flat bonus, as in "1d20+7" or "2d20kh1+7".
+ */
+export interface D20Roll {
+  advantage: AdvantageState;
+  bonus: number;
+}
+
+type Dist = Map<number, number>;
+
+class DistributionLimitError extends Error {}
+
+/**
+ * Tracks the work done so far and stops runaway computations.
+ */
+function createBudget() {
+  let work = 0;
+  return (amount: number) => {
+    work += amount;
+    if (work > DISTRIBUTION_LIMITS.maxWork) {
+      throw new DistributionLimitError(
+        'Expression is too complex to compute exactly; try fewer dice or sides'
+      );
+    }
+  };
+}
+
+type Budget = ReturnType<typeof createBudget>;
+
+function add(dist: Dist, value: number, probability: number): void {
+  dist.set(value, (dist.get(value) ?? 0) + probability);
+}
+
+/**
+ * Distribution of `f(a, b)` for independent `a` and `b`.
+ */
+function combine(
+  a: Dist,
+  b: Dist,
+  spend: Budget,
+  f: (x: number, y: number) => number
+): Dist {
+  spend(a.size * b.size);
+  const result: Dist = new Map();
+  for (const [x, px] of a) {
+    for (const [y, py] of b) {
+      add(result, f(x, y), px * py);
+    }
+  }
+  return result;
+}
+
+/**
+ * Distribution of one die before explosions (rerolls applied).
+ */
+function faceDistribution(group: DiceGroupNode): Dist {
+  const { sides, reroll } = group;
+  const dist: Dist = new Map();
+  const uniform = 1 / sides;
+
+  if (!reroll) {
+    for (let face = 1; face <= sides; face++) dist.set(face, uniform);
+    return dist;
+  }
+
+  let rerolled = 0;
+  for (let face = 1; face <= sides; face++) {
+    if (matchesComparison(reroll.comparison, face)) rerolled++;
+  }
+  const rerollChance = rerolled / sides;
+
+  for (let face = 1; face <= sides; face++) {
+    const kept = matchesComparison(reroll.comparison, face) ? 0 : 1;
+    if (reroll.once) {
+      // Kept as rolled, or rolled again (and kept whatever comes up)
+      dist.set(face, kept * uniform + rerollChance * uniform);
+    } else {
+      // Rerolled until it no longer matches: uniform over the other faces
+      dist.set(face, kept / (sides - rerolled));
+    }
+  }
+  return dist;
+}
+
+/**
+ * Distribution of one die including its explosions.
+ *
+ * Extra dice from explosions are plain rolls, as when rolling.
+ */
+function explodingDieDistribution(group: DiceGroupNode, spend: Budget): Dist {
+  const first = faceDistribution(group);
+  const explode = group.explode;
+  if (!explode) return first;
+
+  const { sides } = group;
+  let exploding = 0;
+  for (let face = 1; face <= sides; face++) {
+    if (matchesComparison(explode, face)) exploding++;
+  }
+
+  // Depth after which the chain's remaining probability is negligible
+  const depth = Math.ceil(
+    Math.log(DISTRIBUTION_LIMITS.explosionCutoff) / Math.log(exploding / sides)
+  );
+
+  // Build the chain of extra dice from the deepest level up
+  let chain: Dist = new Map();
+  for (let face = 1; face <= sides; face++) chain.set(face, 1 / sides);
+  for (let level = 0; level < depth; level++) {
+    spend(sides * chain.size);
+    const next: Dist = new Map();
+    for (let face = 1; face <= sides; face++) {
+      if (!matchesComparison(explode, face)) {
+        add(next, face, 1 / sides);
+        continue;
+      }
+      for (const [value, probability] of chain) {
+        add(next, face + value, probability / sides);
+      }
+    }
+    chain = next;
+  }
+
+  spend(first.size * chain.size);
+  const result: Dist = new Map();
+  for (const [face, probability] of first) {
+    if (!matchesComparison(explode, face)) {
+      add(result, face, probability);
+      continue;
+    }
+    for (const [value, chainProbability] of chain) {
+      add(result, face + value, probability * chainProbability);
+    }
+  }
+  return result;
+}
+
+/**
+ * Distribution of the sum of the highest (or lowest) `keep` of `count` dice.
+ *
+ * Walks the faces from best to worst, tracking how many dice were placed so
+ * far and the sum of those kept; each step places `c` of the remaining dice
+ * on the current face with probability C(remaining, c) * p^c.
+ */
+function keptSumDistribution(
+  die: Dist,
+  count: number,
+  keep: number,
+  highest: boolean,
+  spend: Budget
+): Dist {
+  const faces = [...die.keys()].sort((a, b) => (highest ? b - a : a - b));
+
+  const binomial: number[][] = [];
+  for (let n = 0; n <= count; n++) {
+    binomial[n] = [1];
+    for (let k = 1; k <= n; k++) {
+      binomial[n]![k] = (binomial[n - 1]![k - 1] ?? 0) + (binomial[n - 1]![k] ?? 0);
+    }
+  }
+
+  // states[placed] maps kept sum -> probability
+  let states: Dist[] = [new Map([[0, 1]])];
+  for (const face of faces) {
+    const p = die.get(face)!;
+    const next: Dist[] = [];
+    for (let placed = 0; placed < states.length; placed++) {
+      const sums = states[placed];
+      if (!sums) continue;
+      const remaining = count - placed;
+      spend(sums.size * (remaining + 1));
+      for (let c = 0; c <= remaining; c++) {
+        const weight = binomial[remaining]![c]! * p ** c;
+        if (weight === 0) continue;
+        const keptHere = Math.min(c, Math.max(0, keep - placed));
+        const target = (next[placed + c] ??= new Map());
+        for (const [sum, probability] of sums) {
+          add(target, sum + keptHere * face, probability * weight);
+        }
+      }
+    }
+    states = next;
+  }
+
+  return states[count] ?? new Map();
+}
+
+function groupDistribution(group: DiceGroupNode, spend: Budget): Dist {
+  const { count, keepDrop } = group;
+
+  if (keepDrop) {
+    if (group.explode) {
+      throw new DistributionLimitError(
+        'Cannot compute keep/drop on exploding dice exactly'
+      );
+    }
+    const keep = keepDrop.mode === 'keep' ? keepDrop.count : count - keepDrop.count;
+    const highest = (keepDrop.mode === 'keep') === (keepDrop.which === 'highest');
+    return keptSumDistribution(faceDistribution(group), count, keep, highest, spend);
+  }
+
+  const die = explodingDieDistribution(group, spend);
+  let total: Dist = new Map([[0, 1]]);
+  for (let i = 0; i < count; i++) {
+    total = combine(total, die, spend, (x, y) => x + y);
+  }
+  return total;
+}
+
+function nodeDistribution(node: DiceExpressionNode, spend: Budget): Dist {
+  switch (node.type) {
+    case 'number':
+      return new Map([[node.value, 1]]);
+    case 'dice':
+      return groupDistribution(node, spend);
+    case 'negate': {
+      const operand = nodeDistribution(node.operand, spend);
+      return new Map([...operand].map(([value, p]) => [-value, p]));
+    }
+    case 'parens':
+      return nodeDistribution(node.expression, spend);
+    case 'binary': {
+      const left = nodeDistribution(node.left, spend);
+      const right = nodeDistribution(node.right, spend);
+      switch (node.operator) {
+        case '+':
+          return combine(left, right, spend, (x, y) => x + y);
+        case '-':
+          return combine(left, right, spend, (x, y) => x - y);
+        case '*':
+          return combine(left, right, spend, (x, y) => x * y);
+        case '/':
+          if (right.has(0)) {
+            throw new DistributionLimitError('Cannot divide by zero');
+          }
+          return combine(left, right, spend, (x, y) => Math.floor(x / y));
+      }
+    }
+  }
+}
+
+/**
+ * Compute the exact distribution of a parsed dice expression.
+ *
+ * Fails if the expression is too complex (see `DISTRIBUTION_LIMITS`), may
+ * divide by zero, or keeps/drops exploding dice.
+ */
+export function computeDistribution(
+  expression: DiceExpression
+): RuleResult<DiceDistribution> {
+  try {
+    const dist = nodeDistribution(expression.root, createBudget());
+    const outcomes = [...dist]
+      .filter(([, probability]) => probability > 0)
+      .map(([value, probability]) => ({ value, probability }))
+      .sort((a, b) => a.value - b.value);
+    return success({ outcomes });
+  } catch (error) {
+    if (error instanceof DistributionLimitError) return failure(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Parse a dice expression and compute its exact distribution.
+ */
+export function expressionDistribution(input: string): RuleResult<DiceDistribution> {
+  const parsed = parseDiceExpression(input);
+  if (!parsed.success) return parsed;
+  return computeDistribution(parsed.value);
+}
+
+/**
+ * Mean, standard deviation and range of a distribution.
+ */
+export function summarizeDistribution(distribution: DiceDistribution): DistributionStats {
+  const { outcomes } = distribution;
+  const mean = outcomes.reduce((sum, o) => sum + o.value * o.probability, 0);
+  const variance = outcomes.reduce(
+    (sum, o) => sum + (o.value - mean) ** 2 * o.probability,
+    0
+  );
+
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: outcomes[0]?.value ?? 0,
+    max: outcomes[outcomes.length - 1]?.value ?? 0,
+  };
+}
+
+/**
+ * Probability that the total is at least `target`.
+ */
+export function probabilityAtLeast(
+  distribution: DiceDistribution,
+  target: number
+): number {
+  const probability = distribution.outcomes
+    .filter((o) => o.value >= target)
+    .reduce((sum, o) => sum + o.probability, 0);
+  return Math.min(1, probability);
+}
+
+/**
+ * Recognize a d20 roll plus flat bonuses: "1d20+7", "2d20kh1+7" (advantage),
+ * "2d20kl1-1" (disadvantage).
+ *
+ * @returns The advantage state and total bonus, or null for anything else
+ */
+export function asD20Roll(expression: DiceExpression): D20Roll | null {
+  let d20: AdvantageState | null = null;
+  let bonus = 0;
+
+  const visit = (node: DiceExpressionNode, sign: 1 | -1): boolean => {
+    switch (node.type) {
+      case 'number':
+        bonus += sign * node.value;
+        return true;
+      case 'parens':
+        return visit(node.expression, sign);
+      case 'binary':
+        if (node.operator !== '+' && node.operator !== '-') return false;
+        return (
+          visit(node.left, sign) &&
+          visit(node.right, node.operator === '-' ? (-sign as 1 | -1) : sign)
+        );
+      case 'dice': {
+        if (d20 !== null || sign < 0 || node.sides !== 20) return false;
+        if (node.reroll || node.explode) return false;
+        if (node.count === 1 && !node.keepDrop) {
+          d20 = 'none';
+          return true;
+        }
+        const { keepDrop } = node;
+        if (node.count !== 2 || keepDrop?.mode !== 'keep' || keepDrop.count !== 1) {
+          return false;
+        }
+        d20 = keepDrop.which === 'highest' ? 'advantage' : 'disadvantage';
+        return true;
+      }
+      default:
+        return false;
+    }
+  };
+
+  if (!visit(expression.root, 1) || d20 === null) return null;
+  return { advantage: d20, bonus };
+}
+
+/**
+ * Odds of an attack roll hitting an AC.
+ *
+ * A natural 20 always hits and a natural 1 always misses.
+ *
+ * @example
+ * attackOdds({ bonus: 7, ac: 15, advantage: 'advantage' }) // { hit: 0.8775, crit: 0.0975 }
+ */
+export function attackOdds({
+  bonus,
+  ac,
+  advantage = 'none',
+}: {
+  bonus: number;
+  ac: number;
+  advantage?: AdvantageState;
+}): AttackOdds {
+  // Chance that the kept d20 shows exactly `face`
+  const faceChance = (face: number): number => {
+    const atMost = (n: number) => n / 20;
+    switch (advantage) {
+      case 'advantage':
+        return atMost(face) ** 2 - atMost(face - 1) ** 2;
+      case 'disadvantage':
+        return (1 - atMost(face - 1)) ** 2 - (1 - atMost(face)) ** 2;
+      default:
+        return 1 / 20;
+    }
+  };
+
+  let hit = 0;
+  for (let face = 2; face <= 19; face++) {
+    if (face + bonus >= ac) hit += faceChance(face);
+  }
+  const crit = faceChance(20);
+
+  return { hit: hit + crit, crit };
+}
+
+/**
+ * Format a probability as a percentage, e.g. "27.78%" or "<0.01%".
+ */
+export function formatProbability(probability: number): string {
+  if (probability > 0 && probability < 0.0001) return '<0.01%';
+  if (probability < 1 && probability > 0.9999) return '>99.99%';
+  return `${(probability * 100).toFixed(2)}%`;
+}
+
+/**
+ * Format a distribution as a compact text histogram, one row per total (or
+ * per range of totals when there are more than `maxRows`):
+ *
+ * ```text
+ *  2 ███▍                2.78%
+ *  7 ████████████████████ 16.67%
+ * ```
+ */
+export function formatHistogram(
+  distribution: DiceDistribution,
+  { maxRows = 12, width = 20 }: { maxRows?: number; width?: number } = {}
+): string {
+  const { outcomes } = distribution;
+  if (outcomes.length === 0) return '';
+
+  const min = outcomes[0]!.value;
+  const max = outcomes[outcomes.length - 1]!.value;
+  const bucketSize = Math.max(1, Math.ceil((max - min + 1) / maxRows));
+
+  const rows: Array<{ label: string; probability: number }> = [];
+  if (bucketSize === 1) {
+    for (const o of outcomes)
+      rows.push({ label: `${o.value}`, probability: o.probability });
+  } else {
+    for (let start = min; start <= max; start += bucketSize) {
+      const end = Math.min(max, start + bucketSize - 1);
+      const probability = outcomes
+        .filter((o) => o.value >= start && o.value <= end)
+        .reduce((sum, o) => sum + o.probability, 0);
+      rows.push({ label: start === end ? `${start}` : `${start}-${end}`, probability });
+    }
+  }
+
+  const labelWidth = Math.max(...rows.map((row) => row.label.length));
+  const peak = Math.max(...rows.map((row) => row.probability));
+  const eighths = ['', '▏', '▎', '▍', '▌', '▋', '▊', '▉'];
+
+  return rows
+    .map(({ label, probability }) => {
+      const length = Math.round((probability / peak) * width * 8);
+      const bar = '█'.repeat(Math.floor(length / 8)) + eighths[length % 8];
+      return `${label.padStart(labelWidth)} ${bar.padEnd(width)} ${formatProbability(probability)}`;
+    })
+    .join('\n');
+}
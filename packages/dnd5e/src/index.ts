@@ -63,6 +63,52 @@ export {
   formatDiceRoll,
 } from './engine/dice.js';
 
+export type {
+  DiceComparison,
+  DiceExpression,
+  DiceExpressionNode,
+  DiceExpressionResult,
+  DiceGroupNode,
+  DiceGroupResult,
+  DieResult,
+  KeepDrop,
+} from './engine/expression.js';
+export {
+  DICE_LIMITS,
+  parseDiceExpression,
+  expressionModifier,
+  rollDiceExpression,
+  rollExpression,
+  formatDiceGroup,
+  formatDiceExpressionRoll,
+} from './engine/expression.js';
+
+export type { DicePool, DicePoolResult } from './engine/pool.js';
+export {
+  formatDicePoolNotation,
+  parseDicePoolNotation,
+  rollDicePool,
+} from './engine/pool.js';
+
+export type {
+  AttackOdds,
+  D20Roll,
+  DiceDistribution,
+  DistributionStats,
+  Outcome,
+} from './engine/probability.js';
+export {
+  DISTRIBUTION_LIMITS,
+  computeDistribution,
+  expressionDistribution,
+  summarizeDistribution,
+  probabilityAtLeast,
+  asD20Roll,
+  attackOdds,
+  formatProbability,
+  formatHistogram,
+} from './engine/probability.js';
+
 export type { Modifier, ModifierStack } from './engine/modifiers.js';
 export {
   createModifierStack,
@@ -89,6 +135,16 @@ export {
 
 export { abilityMod, formatAbilityMod } from './rules/ability.js';
 
+export type { AbilityScoreMethod, GeneratedAbilityScores } from './rules/generation.js';
+export {
+  ABILITY_SCORE_METHODS,
+  STANDARD_ARRAY,
+  POINT_BUY_POINTS,
+  isInAbilityOrder,
+  generateAbilityScores,
+  assignAbilityScores,
+} from './rules/generation.js';
+
 export type { SkillBonusResult, SkillCheckResult } from './rules/checks.js';
 export {
   computeSkillBonus,
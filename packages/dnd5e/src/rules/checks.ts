@@ -6,7 +6,7 @@ import type { Ability, Skill, AdvantageState } from '@discord-bot/dnd5e-types';
 import { SKILL_TO_ABILITY } from '@discord-bot/dnd5e-types';
 import type { RNG } from '../engine/rng.js';
 import { defaultRNG } from '../engine/rng.js';
-import { rollD20 } from '../engine/dice.js';
+import { rollExpression, type DiceGroupResult } from '../engine/expression.js';
 import { abilityMod } from './ability.js';
 import { proficiencyBonusForLevel } from './proficiency.js';
 import type { Character5eSnapshot } from '../types.js';
@@ -80,6 +80,28 @@ export function computeSkillBonus(
   };
 }
 
+/**
+ * The d20 roll of each advantage state.
+ */
+const D20_NOTATION: Record<AdvantageState, string> = {
+  none: '1d20',
+  advantage: '2d20kh1',
+  disadvantage: '2d20kl1',
+};
+
+/**
+ * Roll the d20 of a check or attack. With advantage or disadvantage two
+ * are rolled and one kept; the group's total is the d20 that counts.
+ */
+export function rollD20Group(advantageState: AdvantageState, rng: RNG): DiceGroupResult {
+  const notation = D20_NOTATION[advantageState];
+  const result = rollExpression(notation, rng);
+  if (!result.success) {
+    throw new Error(`Cannot roll ${notation}: ${result.error}`);
+  }
+  return result.value.groups[0]!;
+}
+
 /**
  * Roll a skill check.
  */
@@ -91,23 +113,10 @@ export function rollSkillCheck(
 ): SkillCheckResult {
   const bonusResult = computeSkillBonus(character, skill);
 
-  // Roll d20(s) based on advantage state
-  const d20Rolls: number[] = [];
-  d20Rolls.push(rollD20(rng));
-
-  if (advantageState !== 'none') {
-    d20Rolls.push(rollD20(rng));
-  }
-
-  // Choose roll based on advantage/disadvantage
-  let chosenRoll: number;
-  if (advantageState === 'advantage') {
-    chosenRoll = Math.max(...d20Rolls);
-  } else if (advantageState === 'disadvantage') {
-    chosenRoll = Math.min(...d20Rolls);
-  } else {
-    chosenRoll = d20Rolls[0]!;
-  }
+  // Roll d20(s) based on advantage state; the kept one counts
+  const d20 = rollD20Group(advantageState, rng);
+  const d20Rolls = d20.dice.map((die) => die.value);
+  const chosenRoll = d20.total;
 
   const total = chosenRoll + bonusResult.total;
 
@@ -173,21 +182,9 @@ export function rollAbilityCheck(
 ): SkillCheckResult {
   const bonusResult = computeAbilityCheckBonus(character, ability);
 
-  const d20Rolls: number[] = [];
-  d20Rolls.push(rollD20(rng));
-
-  if (advantageState !== 'none') {
-    d20Rolls.push(rollD20(rng));
-  }
-
-  let chosenRoll: number;
-  if (advantageState === 'advantage') {
-    chosenRoll = Math.max(...d20Rolls);
-  } else if (advantageState === 'disadvantage') {
-    chosenRoll = Math.min(...d20Rolls);
-  } else {
-    chosenRoll = d20Rolls[0]!;
-  }
+  const d20 = rollD20Group(advantageState, rng);
+  const d20Rolls = d20.dice.map((die) => die.value);
+  const chosenRoll = d20.total;
 
   const total = chosenRoll + bonusResult.total;
 
@@ -5,9 +5,9 @@
 import type { Ability, AdvantageState } from '@discord-bot/dnd5e-types';
 import type { RNG } from '../../engine/rng.js';
 import { defaultRNG } from '../../engine/rng.js';
-import { rollD20 } from '../../engine/dice.js';
 import { abilityMod } from '../ability.js';
 import { proficiencyBonusForLevel } from '../proficiency.js';
+import { rollD20Group } from '../checks.js';
 import type { Character5eSnapshot, Weapon5e } from '../../types.js';
 import {
   createModifierStack,
@@ -126,23 +126,10 @@ export function rollAttack(
 ): AttackRollResult {
   const bonusResult = computeAttackBonus(attacker, weapon, options);
 
-  // Roll d20(s) based on advantage state
-  const d20Rolls: number[] = [];
-  d20Rolls.push(rollD20(rng));
-
-  if (advantageState !== 'none') {
-    d20Rolls.push(rollD20(rng));
-  }
-
-  // Choose roll based on advantage/disadvantage
-  let chosenRoll: number;
-  if (advantageState === 'advantage') {
-    chosenRoll = Math.max(...d20Rolls);
-  } else if (advantageState === 'disadvantage') {
-    chosenRoll = Math.min(...d20Rolls);
-  } else {
-    chosenRoll = d20Rolls[0]!;
-  }
+  // Roll d20(s) based on advantage state; the kept one counts
+  const d20 = rollD20Group(advantageState, rng);
+  const d20Rolls = d20.dice.map((die) => die.value);
+  const chosenRoll = d20.total;
 
   const total = chosenRoll + bonusResult.total;
 
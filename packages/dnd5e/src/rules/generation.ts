@@ -0,0 +1,152 @@
+/**
+ * Ability score generation.
+ */
+
+import type { Ability, AbilityScores } from '@discord-bot/dnd5e-types';
+import { ABILITIES } from '@discord-bot/dnd5e-types';
+import type { RNG } from '../engine/rng.js';
+import { defaultRNG } from '../engine/rng.js';
+import { rollExpression, type DiceExpressionResult } from '../engine/expression.js';
+import { validatePointBuy } from './ability.js';
+import { failure, success, type RuleResult } from '../types.js';
+
+/**
+ * Supported ways to generate ability scores.
+ */
+export const ABILITY_SCORE_METHODS = [
+  '4d6-drop-lowest',
+  '3d6-in-order',
+  'standard-array',
+  'point-buy',
+] as const;
+
+export type AbilityScoreMethod = (typeof ABILITY_SCORE_METHODS)[number];
+
+/**
+ * The standard array, highest first.
+ */
+export const STANDARD_ARRAY: readonly number[] = [15, 14, 13, 12, 10, 8];
+
+/**
+ * Points available for point buy.
+ */
+export const POINT_BUY_POINTS = 27;
+
+/**
+ * Dice rolled for each score by the rolled methods.
+ */
+const METHOD_NOTATION: Partial<Record<AbilityScoreMethod, string>> = {
+  '4d6-drop-lowest': '4d6dl1',
+  '3d6-in-order': '3d6',
+};
+
+/**
+ * Six generated ability scores.
+ */
+export interface GeneratedAbilityScores {
+  method: AbilityScoreMethod;
+  /** In ability order (str..cha) if the method fixes it, otherwise as generated */
+  scores: number[];
+  /** The roll behind each score, for rolled methods */
+  rolls: DiceExpressionResult[];
+  /** Points spent, for point buy */
+  pointsSpent?: number;
+}
+
+/**
+ * Whether a method produces scores in ability order (str..cha) rather than
+ * a set of scores the player arranges.
+ */
+export function isInAbilityOrder(method: AbilityScoreMethod): boolean {
+  return method === '3d6-in-order' || method === 'point-buy';
+}
+
+/**
+ * Generate six ability scores.
+ *
+ * @param method - Generation method
+ * @param options.rng - Random number source for rolled methods
+ * @param options.pointBuy - Scores bought with point buy, in ability order
+ */
+export function generateAbilityScores(
+  method: AbilityScoreMethod,
+  options: { rng?: RNG; pointBuy?: readonly number[] } = {}
+): RuleResult<GeneratedAbilityScores> {
+  const { rng = defaultRNG, pointBuy } = options;
+
+  if (method === 'standard-array') {
+    return success({ method, scores: [...STANDARD_ARRAY], rolls: [] });
+  }
+
+  if (method === 'point-buy') {
+    if (!pointBuy || pointBuy.length !== ABILITIES.length) {
+      return failure(
+        `Point buy needs six scores (${ABILITIES.join(', ')}), got ${pointBuy?.length ?? 0}`
+      );
+    }
+    const fraction = pointBuy.find((score) => !Number.isInteger(score));
+    if (fraction !== undefined) {
+      return failure(`Score ${fraction} is not a whole number`);
+    }
+
+    const scores = [...pointBuy];
+    const validation = validatePointBuy(
+      Object.fromEntries(ABILITIES.map((ability, i) => [ability, scores[i]!])),
+      POINT_BUY_POINTS
+    );
+    if (!validation.valid) {
+      return failure(validation.error!);
+    }
+    return success({ method, scores, rolls: [], pointsSpent: validation.totalCost });
+  }
+
+  const rolls: DiceExpressionResult[] = [];
+  for (let i = 0; i < ABILITIES.length; i++) {
+    const result = rollExpression(METHOD_NOTATION[method]!, rng);
+    if (!result.success) {
+      throw new Error(`Cannot roll ${method}: ${result.error}`);
+    }
+    rolls.push(result.value);
+  }
+  return success({ method, scores: rolls.map((roll) => roll.total), rolls });
+}
+
+/**
+ * Assign generated scores to abilities.
+ *
+ * Scores of methods in ability order go to str..cha. The others go highest
+ * first to the abilities in `priority`, which must list all six.
+ *
+ * @param generated - Generated scores
+ * @param priority - Abilities from highest to lowest score
+ */
+export function assignAbilityScores(
+  generated: GeneratedAbilityScores,
+  priority?: readonly Ability[]
+): RuleResult<AbilityScores> {
+  if (isInAbilityOrder(generated.method)) {
+    if (priority) {
+      return failure(`${generated.method} scores are already in ability order`);
+    }
+    return success(
+      Object.fromEntries(
+        ABILITIES.map((ability, i) => [ability, generated.scores[i]!])
+      ) as AbilityScores
+    );
+  }
+
+  if (
+    !priority ||
+    priority.length !== ABILITIES.length ||
+    new Set(priority).size !== ABILITIES.length
+  ) {
+    return failure('List each of the six abilities once, from highest to lowest score');
+  }
+
+  const highestFirst = [...generated.scores].sort((a, b) => b - a);
+  return success(
+    Object.fromEntries(
+      priority.map((ability, i) => [ability, highestFirst[i]!])
+    ) as AbilityScores
+  );
+}
@@ -11,6 +11,16 @@ export {
   validatePointBuy,
 } from './ability.js';
 
+export type { AbilityScoreMethod, GeneratedAbilityScores } from './generation.js';
+export {
+  ABILITY_SCORE_METHODS,
+  STANDARD_ARRAY,
+  POINT_BUY_POINTS,
+  isInAbilityOrder,
+  generateAbilityScores,
+  assignAbilityScores,
+} from './generation.js';
+
 export type {
   SkillBonusResult,
   SkillCheckResult,
@@ -0,0 +1,58 @@
+/**
+ * Tests for the simple dice helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatDiceRoll,
+  parseDice,
+  rollD20,
+  rollDice,
+  rollParsedDice,
+} from '../../src/engine/dice.js';
+import { createMockRNG } from '../../src/engine/rng.js';
+
+describe('parseDice', () => {
+  it('should parse one dice group with a flat modifier', () => {
+    expect(parseDice('2d6+3')).toEqual({ count: 2, sides: 6, modifier: 3 });
+    expect(parseDice('1d20-2')).toEqual({ count: 1, sides: 20, modifier: -2 });
+    expect(parseDice('d8')).toEqual({ count: 1, sides: 8, modifier: 0 });
+  });
+
+  it('should return null for anything else', () => {
+    expect(parseDice('banana')).toBeNull();
+    expect(parseDice('1d6+1d4')).toBeNull();
+    expect(parseDice('4d6kh3')).toBeNull();
+    expect(parseDice('(1d8+2)*2')).toBeNull();
+  });
+});
+
+describe('rollDice', () => {
+  it('should roll the dice and add the modifier', () => {
+    const result = rollDice('2d6+3', createMockRNG([4, 5]));
+
+    expect(result).toEqual({
+      expression: '2d6+3',
+      rolls: [4, 5],
+      modifier: 3,
+      total: 12,
+    });
+    expect(formatDiceRoll(result!)).toBe('2d6+3: [4, 5] (9) +3 = 12');
+  });
+
+  it('should return null for an invalid expression', () => {
+    expect(rollDice('nope')).toBeNull();
+  });
+
+  it('should throw when the dice exceed the limits', () => {
+    expect(() => rollParsedDice({ count: 1001, sides: 6, modifier: 0 })).toThrow(
+      'Cannot roll 1001d6'
+    );
+  });
+});
+
+describe('rollD20', () => {
+  it('should roll a single d20', () => {
+    expect(rollD20(createMockRNG([17]))).toBe(17);
+  });
+});
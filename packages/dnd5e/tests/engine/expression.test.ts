@@ -0,0 +1,274 @@
+/**
+ * Tests for the dice expression parser and evaluator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DICE_LIMITS,
+  expressionModifier,
+  formatDiceExpressionRoll,
+  parseDiceExpression,
+  rollDiceExpression,
+  rollExpression,
+} from '../../src/engine/expression.js';
+import { createMockRNG, createSeededRNG } from '../../src/engine/rng.js';
+
+function roll(input: string, values: number[]) {
+  const result = rollExpression(input, createMockRNG(values));
+  if (!result.success) throw new Error(result.error);
+  return result.value;
+}
+
+function parseError(input: string): string {
+  const result = parseDiceExpression(input);
+  if (result.success) throw new Error(`Expected "${input}" to fail`);
+  return result.error;
+}
+
+describe('parseDiceExpression', () => {
+  it('should normalize notation', () => {
+    const result = parseDiceExpression(' D20 + 5 ');
+    expect(result.success && result.value.notation).toBe('1d20+5');
+  });
+
+  it('should parse d% as d100', () => {
+    const result = parseDiceExpression('d%');
+    expect(result.success && result.value.notation).toBe('1d100');
+  });
+
+  it('should count dice across groups', () => {
+    const result = parseDiceExpression('2d6+1d4+3');
+    expect(result.success && result.value.diceCount).toBe(3);
+  });
+
+  it('should report unexpected characters with their position', () => {
+    expect(parseError('2d6 x 3')).toBe('Unexpected "x" at position 5');
+    expect(parseError('2d6+')).toBe('Expected a number or dice, got end of expression');
+    expect(parseError('(1d6')).toBe('Expected ")", got end of expression');
+  });
+
+  it('should reject invalid keep and drop counts', () => {
+    expect(parseError('2d20kh3')).toBe('Cannot keep 3 of 2 dice');
+    expect(parseError('4d6dl0')).toBe('Cannot drop 0 of 4 dice');
+    expect(parseError('4d6kh3kl1')).toBe(
+      'Only one keep or drop is allowed per dice group (4d6kh3)'
+    );
+  });
+
+  it('should reject rerolls and explosions that never stop', () => {
+    expect(parseError('1d6r<7')).toBe('Rerolling 1d6 on every face would never stop');
+    expect(parseError('1d6!>0')).toBe('Exploding 1d6 on every face would never stop');
+    expect(parseError('1d1!')).toBe('Exploding 1d1 on every face would never stop');
+  });
+
+  it('should enforce limits', () => {
+    expect(parseError('')).toBe('Dice expression is empty');
+    expect(parseError('1+'.repeat(50) + '1')).toBe(
+      `Dice expression is too long (max ${DICE_LIMITS.maxLength} characters)`
+    );
+    expect(parseError('60d6+41d6')).toBe(`Too many dice (max ${DICE_LIMITS.maxDice})`);
+    expect(parseError('1d1001')).toBe(
+      `Dice must have between 1 and ${DICE_LIMITS.maxSides} sides`
+    );
+    expect(parseError('0d6')).toBe('Must roll at least 1 die');
+    expect(parseError('999999')).toBe(
+      `Number 999999 is too large (max ${DICE_LIMITS.maxNumber})`
+    );
+  });
+});
+
+describe('rollExpression', () => {
+  it('should sum several dice groups and a modifier', () => {
+    const result = roll('2d6+1d4+3', [3, 5, 2]);
+
+    expect(result.total).toBe(13);
+    expect(result.groups.map((group) => group.total)).toEqual([8, 2]);
+    expect(result.breakdown).toBe('2d6 [3, 5] + 1d4 [2] + 3');
+  });
+
+  it('should keep the highest dice', () => {
+    const result = roll('4d6kh3', [6, 2, 5, 4]);
+
+    expect(result.total).toBe(15);
+    expect(result.groups[0]!.dice.map((die) => die.status)).toEqual([
+      'kept',
+      'dropped',
+      'kept',
+      'kept',
+    ]);
+    expect(result.breakdown).toBe('4d6kh3 [6, ~~2~~, 5, 4]');
+  });
+
+  it('should keep the lowest dice', () => {
+    expect(roll('2d20kl1', [15, 7]).total).toBe(7);
+  });
+
+  it('should drop the lowest dice', () => {
+    expect(roll('4d6dl1', [1, 4, 4, 6]).total).toBe(14);
+  });
+
+  it('should drop only one of tied dice', () => {
+    const result = roll('3d6dl1', [2, 2, 5]);
+
+    expect(result.total).toBe(7);
+    expect(result.breakdown).toBe('3d6dl1 [2, ~~2~~, 5]');
+  });
+
+  it('should explode on the highest face', () => {
+    const result = roll('1d6!', [6, 6, 3]);
+
+    expect(result.total).toBe(15);
+    expect(result.breakdown).toBe('1d6! [6!, 6!, 3]');
+  });
+
+  it('should explode on a threshold', () => {
+    expect(roll('1d10!>8', [9, 10, 2]).total).toBe(21);
+  });
+
+  it('should reroll until the threshold is passed', () => {
+    const result = roll('2d6r<2', [1, 1, 4, 6]);
+
+    expect(result.total).toBe(10);
+    expect(result.breakdown).toBe('2d6r<2 [~~1~~, ~~1~~, 4, 6]');
+  });
+
+  it('should reroll only once with ro', () => {
+    expect(roll('1d6ro1', [1, 1]).total).toBe(1);
+  });
+
+  it('should apply keep/drop after rerolls and explosions', () => {
+    // 1 rerolled into 6 (explodes into 2), then 3: keep the highest two of 6, 2, 3
+    const result = roll('2d6r1!kh2', [1, 6, 2, 3]);
+
+    expect(result.total).toBe(9);
+    expect(result.breakdown).toBe('2d6r1!kh2 [~~1~~, 6!, ~~2~~, 3]');
+  });
+
+  it('should follow arithmetic precedence and parentheses', () => {
+    expect(roll('1+2*3', []).total).toBe(7);
+    expect(roll('(1+2)*3', []).total).toBe(9);
+    expect(roll('-1d4+10', [3]).total).toBe(7);
+    expect(roll('(1d8+2)*2', [5]).breakdown).toBe('(1d8 [5] + 2) * 2');
+  });
+
+  it('should round division down', () => {
+    expect(roll('7/2', []).total).toBe(3);
+    expect(roll('-7/2', []).total).toBe(-4);
+  });
+
+  it('should fail on division by zero', () => {
+    const result = rollExpression('1d6/0', createMockRNG([4]));
+    expect(result).toEqual({ success: false, error: 'Cannot divide by zero' });
+  });
+
+  it('should stop runaway explosions at the roll limit', () => {
+    const alwaysMax = { rollInt: (_min: number, max: number) => max - 1 };
+    const parsed = parseDiceExpression('1d6!>4');
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+
+    const result = rollDiceExpression(parsed.value, alwaysMax);
+    expect(result).toEqual({
+      success: false,
+      error: `Too many rerolls or explosions (max ${DICE_LIMITS.maxRolls} dice rolled)`,
+    });
+  });
+
+  it('should be deterministic with a seeded RNG', () => {
+    const first = rollExpression('4d6kh3+1d8!', createSeededRNG(42));
+    const second = rollExpression('4d6kh3+1d8!', createSeededRNG(42));
+
+    expect(first).toEqual(second);
+  });
+});
+
+describe('formatDiceExpressionRoll', () => {
+  it('should show notation, breakdown and total', () => {
+    expect(formatDiceExpressionRoll(roll('2d6 + 3', [4, 5]))).toBe(
+      '2d6+3: 2d6 [4, 5] + 3 = 12'
+    );
+  });
+});
+
+describe('expressionModifier', () => {
+  const modifier = (input: string) => {
+    const result = parseDiceExpression(input);
+    if (!result.success) throw new Error(result.error);
+    return expressionModifier(result.value);
+  };
+
+  it('should sum added and subtracted constants', () => {
+    expect(modifier('1d20+5')).toBe(5);
+    expect(modifier('2d6+1d4-3+1')).toBe(-2);
+    expect(modifier('1d20-(2-5)')).toBe(3);
+    expect(modifier('-(1d4+2)')).toBe(-2);
+    expect(modifier('4d6kh3')).toBe(0);
+  });
+
+  it('should give up on multiplication and division', () => {
+    expect(modifier('(1d8+2)*2')).toBeNull();
+    expect(modifier('1d20+10/2')).toBeNull();
+  });
+});
+
+describe('references', () => {
+  const references = { str_mod: 3, prof: 2, 'hp.max': 45, dex_mod: -1, level: 5 };
+
+  const rollWith = (input: string, values: number[]) => {
+    const result = rollExpression(input, createMockRNG(values), references);
+    if (!result.success) throw new Error(result.error);
+    return result.value;
+  };
+
+  it('should roll with reference values and name them in the breakdown', () => {
+    const result = rollWith('1d20+{STR_MOD}+{ prof }', [13]);
+
+    expect(result.total).toBe(18);
+    expect(result.notation).toBe('1d20+3+2');
+    expect(result.breakdown).toBe('1d20 [13] + 3 (str_mod) + 2 (prof)');
+    expect(rollWith('{hp.max}/2', []).total).toBe(22);
+  });
+
+  it('should parenthesize negative values', () => {
+    const result = rollWith('1d20+{dex_mod}', [10]);
+
+    expect(result.total).toBe(9);
+    expect(result.notation).toBe('1d20+(-1)');
+    expect(result.breakdown).toBe('1d20 [10] + (-1) (dex_mod)');
+  });
+
+  it('should roll a referenced number of dice', () => {
+    expect(rollWith('{level}d8', [1, 2, 3, 4, 5]).notation).toBe('5d8');
+  });
+
+  it('should list the available references for unknown ones', () => {
+    expect(parseDiceExpression('1d20+{wis_mod}', references)).toEqual({
+      success: false,
+      error:
+        'Unknown reference {wis_mod}. Available: {dex_mod}, {hp.max}, {level}, {prof}, {str_mod}',
+    });
+    expect(parseError('1d20+{prof}')).toBe(
+      'Unknown reference {prof}; no references are available'
+    );
+  });
+
+  it('should not resolve inherited object keys', () => {
+    expect(parseError('1d20+{constructor}')).toBe(
+      'Unknown reference {constructor}; no references are available'
+    );
+    expect(parseDiceExpression('{__proto__}', references)).toMatchObject({
+      success: false,
+      error: expect.stringContaining('Unknown reference {__proto__}.'),
+    });
+  });
+
+  it('should reject malformed references and fractions', () => {
+    expect(parseError('1d20+{}')).toBe(
+      'Expected a reference like {str_mod}, got "{" at position 6'
+    );
+    expect(parseDiceExpression('{speed}', { speed: 7.5 })).toEqual({
+      success: false,
+      error: 'Reference {speed} is not a whole number (7.5)',
+    });
+  });
+});
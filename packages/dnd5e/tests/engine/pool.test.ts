@@ -0,0 +1,135 @@
+/**
+ * Tests for success-counting dice pools.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatDicePoolNotation,
+  parseDicePoolNotation,
+  rollDicePool,
+  type DicePool,
+  type DicePoolResult,
+} from '../../src/engine/pool.js';
+import { createMockRNG, createSeededRNG } from '../../src/engine/rng.js';
+
+function pool(input: DicePool, values: number[]): DicePoolResult {
+  const result = rollDicePool(input, createMockRNG(values));
+  if (!result.success) throw new Error(result.error);
+  return result.value;
+}
+
+describe('rollDicePool', () => {
+  it('should count dice at or above the target', () => {
+    const result = pool({ count: 5, sides: 10, target: 8 }, [8, 3, 10, 7, 1]);
+
+    expect(result).toMatchObject({ successes: 2, ones: 1, net: 2, botch: false });
+    expect(result.breakdown).toBe('5d10 [**8**, 3, **10**, 7, 1]');
+  });
+
+  it('should subtract ones from the successes', () => {
+    expect(
+      pool({ count: 4, sides: 10, target: 6, subtractOnes: true }, [9, 1, 6, 1])
+    ).toMatchObject({ successes: 2, net: 0, botch: false });
+    expect(
+      pool({ count: 3, sides: 10, target: 6, subtractOnes: true }, [9, 7, 1])
+    ).toMatchObject({ successes: 2, net: 1 });
+  });
+
+  it('should botch on ones without any success', () => {
+    const botch = { count: 3, sides: 10, target: 6, subtractOnes: true };
+
+    expect(pool(botch, [4, 1, 2])).toMatchObject({ net: 0, botch: true });
+    expect(pool(botch, [4, 3, 2])).toMatchObject({ net: 0, botch: false });
+    expect(pool({ ...botch, subtractOnes: false }, [4, 1, 2]).botch).toBe(false);
+  });
+
+  it('should roll an extra die for each die at or above again', () => {
+    const result = pool({ count: 2, sides: 10, target: 8, again: 10 }, [10, 10, 3, 5]);
+
+    expect(result.successes).toBe(2);
+    expect(result.group.dice.map((die) => die.value)).toEqual([10, 10, 3, 5]);
+    expect(result.breakdown).toBe('2d10 [**10!**, **10!**, 3, 5]');
+  });
+
+  it('should count successes on Shadowrun-style d6 pools', () => {
+    const rng = createSeededRNG(3);
+    for (let i = 0; i < 20; i++) {
+      const result = rollDicePool({ count: 12, sides: 6, target: 5 }, rng);
+      if (!result.success) throw new Error(result.error);
+
+      expect(result.value.group.dice).toHaveLength(12);
+      expect(result.value.successes).toBe(
+        result.value.group.dice.filter((die) => die.value >= 5).length
+      );
+    }
+  });
+
+  it('should reject pools outside the dice limits', () => {
+    expect(rollDicePool({ count: 0, sides: 10, target: 8 })).toEqual({
+      success: false,
+      error: 'Must roll at least 1 die',
+    });
+    expect(rollDicePool({ count: 101, sides: 10, target: 8 })).toEqual({
+      success: false,
+      error: 'Too many dice (max 100)',
+    });
+    expect(rollDicePool({ count: 5, sides: 10, target: 11 })).toEqual({
+      success: false,
+      error: 'Target must be between 1 and 10',
+    });
+    expect(rollDicePool({ count: 5, sides: 10, target: 8, again: 1 })).toEqual({
+      success: false,
+      error: 'Again must be between 2 and 10',
+    });
+  });
+
+  it('should stop runaway extra dice', () => {
+    const result = rollDicePool(
+      { count: 1, sides: 10, target: 8, again: 2 },
+      { rollInt: () => 10 }
+    );
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Too many rerolls or explosions (max 1000 dice rolled)',
+    });
+  });
+});
+
+describe('formatDicePoolNotation', () => {
+  it('should show the target, again and ones', () => {
+    expect(formatDicePoolNotation({ count: 7, sides: 10, target: 8 })).toBe('7d10>=8');
+    expect(
+      formatDicePoolNotation({
+        count: 7,
+        sides: 10,
+        target: 8,
+        again: 10,
+        subtractOnes: true,
+      })
+    ).toBe('7d10!>=8f1');
+    expect(formatDicePoolNotation({ count: 7, sides: 10, target: 8, again: 9 })).toBe(
+      '7d10!>=9>=8'
+    );
+  });
+});
+
+describe('parseDicePoolNotation', () => {
+  it('should read back formatted pools', () => {
+    const pools: DicePool[] = [
+      { count: 7, sides: 10, target: 8 },
+      { count: 7, sides: 10, target: 8, again: 10, subtractOnes: true },
+      { count: 7, sides: 10, target: 8, again: 9 },
+      { count: 12, sides: 6, target: 5 },
+    ];
+
+    for (const input of pools) {
+      expect(parseDicePoolNotation(formatDicePoolNotation(input))).toEqual(input);
+    }
+  });
+
+  it('should return null for other notation', () => {
+    expect(parseDicePoolNotation('1d20+5')).toBeNull();
+    expect(parseDicePoolNotation('7d10!')).toBeNull();
+  });
+});
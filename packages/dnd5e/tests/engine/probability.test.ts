@@ -0,0 +1,256 @@
+/**
+ * Tests for exact dice distributions and attack odds.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDiceExpression, rollExpression } from '../../src/engine/expression.js';
+import {
+  asD20Roll,
+  attackOdds,
+  expressionDistribution,
+  formatHistogram,
+  formatProbability,
+  probabilityAtLeast,
+  summarizeDistribution,
+  type DiceDistribution,
+} from '../../src/engine/probability.js';
+import { createMockRNG } from '../../src/engine/rng.js';
+
+function distribution(input: string): DiceDistribution {
+  const result = expressionDistribution(input);
+  if (!result.success) throw new Error(result.error);
+  return result.value;
+}
+
+function probabilityOf(dist: DiceDistribution, value: number): number {
+  return dist.outcomes.find((o) => o.value === value)?.probability ?? 0;
+}
+
+/**
+ * Distribution found by rolling every combination of `dice` dice with `sides` faces
+ */
+function bruteForce(input: string, dice: number, sides: number): Map<number, number> {
+  const totals = new Map<number, number>();
+  const combinations = sides ** dice;
+  for (let i = 0; i < combinations; i++) {
+    const values = [];
+    for (let n = i, d = 0; d < dice; d++, n = Math.floor(n / sides)) {
+      values.push((n % sides) + 1);
+    }
+    const result = rollExpression(input, createMockRNG(values));
+    if (!result.success) throw new Error(result.error);
+    totals.set(
+      result.value.total,
+      (totals.get(result.value.total) ?? 0) + 1 / combinations
+    );
+  }
+  return totals;
+}
+
+describe('expressionDistribution', () => {
+  it('should compute 2d6 exactly', () => {
+    const dist = distribution('2d6');
+
+    expect(dist.outcomes).toHaveLength(11);
+    expect(probabilityOf(dist, 7)).toBeCloseTo(6 / 36, 12);
+    expect(probabilityOf(dist, 2)).toBeCloseTo(1 / 36, 12);
+  });
+
+  it('should sum probabilities to 1', () => {
+    for (const input of ['3d8+2', '4d6kh3', '2d20kl1', '1d6!', '2d6r<3', '(1d4+1)*2']) {
+      const total = distribution(input).outcomes.reduce(
+        (sum, o) => sum + o.probability,
+        0
+      );
+      expect(total).toBeCloseTo(1, 9);
+    }
+  });
+
+  it('should match every combination rolled by the evaluator', () => {
+    const cases: Array<[string, number, number]> = [
+      ['4d6kh3', 4, 6],
+      ['3d6dl1-1d6', 4, 6],
+      ['3d4kl2*2', 3, 4],
+      ['2d6/2+1', 2, 6],
+    ];
+
+    for (const [input, dice, sides] of cases) {
+      const expected = bruteForce(input, dice, sides);
+      const dist = distribution(input);
+
+      expect(dist.outcomes.map((o) => o.value)).toEqual(
+        [...expected.keys()].sort((a, b) => a - b)
+      );
+      for (const { value, probability } of dist.outcomes) {
+        expect(probability).toBeCloseTo(expected.get(value)!, 12);
+      }
+    }
+  });
+
+  it('should know the mean of 4d6 drop lowest', () => {
+    expect(summarizeDistribution(distribution('4d6kh3')).mean).toBeCloseTo(12.2446, 4);
+  });
+
+  it('should reroll until the face no longer matches', () => {
+    const dist = distribution('1d6r1');
+
+    expect(probabilityOf(dist, 1)).toBe(0);
+    expect(probabilityOf(dist, 2)).toBeCloseTo(1 / 5, 12);
+  });
+
+  it('should reroll once with ro', () => {
+    const dist = distribution('1d6ro1');
+
+    expect(probabilityOf(dist, 1)).toBeCloseTo(1 / 36, 12);
+    expect(probabilityOf(dist, 6)).toBeCloseTo(7 / 36, 12);
+  });
+
+  it('should follow explosions', () => {
+    const dist = distribution('1d6!');
+
+    expect(probabilityOf(dist, 6)).toBe(0);
+    expect(probabilityOf(dist, 7)).toBeCloseTo(1 / 36, 12);
+    expect(summarizeDistribution(dist).mean).toBeCloseTo(4.2, 9);
+  });
+
+  it('should fail on possible division by zero', () => {
+    expect(expressionDistribution('10/(1d4-1)')).toEqual({
+      success: false,
+      error: 'Cannot divide by zero',
+    });
+  });
+
+  it('should fail on keep/drop of exploding dice', () => {
+    expect(expressionDistribution('4d6!kh3')).toEqual({
+      success: false,
+      error: 'Cannot compute keep/drop on exploding dice exactly',
+    });
+  });
+
+  it('should stop expressions that are too complex', () => {
+    const result = expressionDistribution('100d1000');
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toMatch(/too complex/);
+  });
+
+  it('should pass on parse errors', () => {
+    expect(expressionDistribution('2d')).toEqual({
+      success: false,
+      error: 'Expected a number after "d", got end of expression',
+    });
+  });
+});
+
+describe('summarizeDistribution', () => {
+  it('should compute mean, standard deviation and range', () => {
+    const stats = summarizeDistribution(distribution('2d6+3'));
+
+    expect(stats.mean).toBeCloseTo(10, 12);
+    expect(stats.stdDev).toBeCloseTo(Math.sqrt(35 / 6), 12);
+    expect(stats.min).toBe(5);
+    expect(stats.max).toBe(15);
+  });
+});
+
+describe('probabilityAtLeast', () => {
+  it('should sum the probabilities of totals at or above the target', () => {
+    const dist = distribution('1d20');
+
+    expect(probabilityAtLeast(dist, 15)).toBeCloseTo(0.3, 12);
+    expect(probabilityAtLeast(dist, 1)).toBe(1);
+    expect(probabilityAtLeast(dist, 21)).toBe(0);
+  });
+
+  it('should match advantage odds', () => {
+    expect(probabilityAtLeast(distribution('2d20kh1+7'), 15)).toBeCloseTo(0.8775, 12);
+  });
+});
+
+describe('asD20Roll', () => {
+  const d20Roll = (input: string) => {
+    const parsed = parseDiceExpression(input);
+    if (!parsed.success) throw new Error(parsed.error);
+    return asD20Roll(parsed.value);
+  };
+
+  it('should recognize d20 rolls with flat bonuses', () => {
+    expect(d20Roll('1d20+7')).toEqual({ advantage: 'none', bonus: 7 });
+    expect(d20Roll('2d20kh1+5+2')).toEqual({ advantage: 'advantage', bonus: 7 });
+    expect(d20Roll('2d20kl1-1')).toEqual({ advantage: 'disadvantage', bonus: -1 });
+    expect(d20Roll('3-(1-1d20)')).toEqual({ advantage: 'none', bonus: 2 });
+  });
+
+  it('should reject anything else', () => {
+    expect(d20Roll('1d20+1d4')).toBeNull();
+    expect(d20Roll('2d20')).toBeNull();
+    expect(d20Roll('1d20*2')).toBeNull();
+    expect(d20Roll('10-1d20')).toBeNull();
+    expect(d20Roll('1d12+3')).toBeNull();
+    expect(d20Roll('1d20r1')).toBeNull();
+  });
+});
+
+describe('attackOdds', () => {
+  it('should compute odds to hit AC 15 with +7 at advantage', () => {
+    const odds = attackOdds({ bonus: 7, ac: 15, advantage: 'advantage' });
+
+    expect(odds.hit).toBeCloseTo(0.8775, 12);
+    expect(odds.crit).toBeCloseTo(0.0975, 12);
+  });
+
+  it('should compute straight and disadvantage odds', () => {
+    expect(attackOdds({ bonus: 7, ac: 15 }).hit).toBeCloseTo(0.65, 12);
+    expect(attackOdds({ bonus: 7, ac: 15, advantage: 'disadvantage' }).hit).toBeCloseTo(
+      0.4225,
+      12
+    );
+  });
+
+  it('should always miss on a natural 1 and hit on a natural 20', () => {
+    expect(attackOdds({ bonus: 20, ac: 10 }).hit).toBeCloseTo(0.95, 12);
+    expect(attackOdds({ bonus: 0, ac: 30 }).hit).toBeCloseTo(0.05, 12);
+  });
+});
+
+describe('formatProbability', () => {
+  it('should format percentages with two decimals', () => {
+    expect(formatProbability(1 / 6)).toBe('16.67%');
+    expect(formatProbability(1)).toBe('100.00%');
+    expect(formatProbability(0)).toBe('0.00%');
+  });
+
+  it('should not round tiny or near-certain probabilities away', () => {
+    expect(formatProbability(0.00001)).toBe('<0.01%');
+    expect(formatProbability(0.99999)).toBe('>99.99%');
+  });
+});
+
+describe('formatHistogram', () => {
+  it('should draw one row per total', () => {
+    expect(formatHistogram(distribution('1d4'), { width: 4 })).toBe(
+      ['1 ████ 25.00%', '2 ████ 25.00%', '3 ████ 25.00%', '4 ████ 25.00%'].join('\n')
+    );
+  });
+
+  it('should scale bars to the most likely total', () => {
+    const rows = formatHistogram(distribution('2d6'), { width: 12 }).split('\n');
+
+    expect(rows).toHaveLength(11);
+    expect(rows[0]).toBe(' 2 ██           2.78%');
+    expect(rows[5]).toBe(' 7 ████████████ 16.67%');
+  });
+
+  it('should group totals into ranges when there are too many', () => {
+    const rows = formatHistogram(distribution('1d100'), { maxRows: 4, width: 4 }).split(
+      '\n'
+    );
+
+    expect(rows).toEqual([
+      '  1-25 ████ 25.00%',
+      ' 26-50 ████ 25.00%',
+      ' 51-75 ████ 25.00%',
+      '76-100 ████ 25.00%',
+    ]);
+  });
+});
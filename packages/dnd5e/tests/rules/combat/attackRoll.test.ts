@@ -0,0 +1,120 @@
+/**
+ * Tests for attack rolls, with weapons defined inline.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rollAttack } from '../../../src/rules/combat/attack.js';
+import { createMockRNG } from '../../../src/engine/rng.js';
+import type { Character5eSnapshot, Weapon5e } from '../../../src/types.js';
+
+const WARHAMMER: Weapon5e = {
+  id: 'warhammer',
+  name: 'Warhammer',
+  attackType: 'melee',
+  damageDice: '1d8',
+  damageType: 'bludgeoning',
+};
+
+function createTestCharacter(
+  overrides: Partial<Character5eSnapshot> = {}
+): Character5eSnapshot {
+  return {
+    name: 'Fighter',
+    level: 5,
+    abilityScores: {
+      str: 16,
+      dex: 14,
+      con: 12,
+      int: 10,
+      wis: 13,
+      cha: 8,
+    },
+    ...overrides,
+  };
+}
+
+describe('rollAttack', () => {
+  it('should roll one d20 and add the attack bonus', () => {
+    const result = rollAttack(
+      createTestCharacter(),
+      WARHAMMER,
+      'none',
+      {},
+      createMockRNG([12])
+    );
+
+    expect(result).toMatchObject({
+      d20Rolls: [12],
+      chosenRoll: 12,
+      modifier: 6,
+      total: 18,
+      isCrit: false,
+      isCritFail: false,
+    });
+    expect(result.explain).toBe('d20 (12) + 6 = 18');
+  });
+
+  it('should keep the higher d20 with advantage', () => {
+    const result = rollAttack(
+      createTestCharacter(),
+      WARHAMMER,
+      'advantage',
+      {},
+      createMockRNG([8, 17])
+    );
+
+    expect(result.d20Rolls).toEqual([8, 17]);
+    expect(result.chosenRoll).toBe(17);
+    expect(result.explain).toBe('d20 [8, 17] (ADV: 17) + 6 = 23');
+  });
+
+  it('should keep the lower d20 with disadvantage', () => {
+    const result = rollAttack(
+      createTestCharacter(),
+      WARHAMMER,
+      'disadvantage',
+      {},
+      createMockRNG([8, 17])
+    );
+
+    expect(result.chosenRoll).toBe(8);
+    expect(result.total).toBe(14);
+  });
+
+  it('should flag natural 20s and 1s on the kept die', () => {
+    const crit = rollAttack(
+      createTestCharacter(),
+      WARHAMMER,
+      'advantage',
+      {},
+      createMockRNG([1, 20])
+    );
+    const miss = rollAttack(
+      createTestCharacter(),
+      WARHAMMER,
+      'disadvantage',
+      {},
+      createMockRNG([1, 20])
+    );
+
+    expect(crit.isCrit).toBe(true);
+    expect(crit.explain).toContain('**CRIT!**');
+    expect(miss.isCritFail).toBe(true);
+    expect(miss.explain).toContain('**MISS!**');
+  });
+
+  it('should add weapon and misc bonuses', () => {
+    const weapon = { ...WARHAMMER, attackBonus: 1 };
+
+    const result = rollAttack(
+      createTestCharacter(),
+      weapon,
+      'none',
+      { miscBonus: 2 },
+      createMockRNG([10])
+    );
+
+    expect(result.modifier).toBe(9);
+    expect(result.total).toBe(19);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for damage rolls.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rollDamage, rollGenericDamage } from '../../../src/rules/combat/damage.js';
+import { createMockRNG } from '../../../src/engine/rng.js';
+import type { Character5eSnapshot, Weapon5e } from '../../../src/types.js';
+
+const GREATSWORD: Weapon5e = {
+  id: 'greatsword',
+  name: 'Greatsword',
+  attackType: 'melee',
+  damageDice: '2d6',
+  damageType: 'slashing',
+  properties: ['heavy', 'two-handed'],
+};
+
+const RAPIER: Weapon5e = {
+  id: 'rapier',
+  name: 'Rapier',
+  attackType: 'melee',
+  damageDice: '1d8',
+  damageType: 'piercing',
+  properties: ['finesse'],
+};
+
+function createTestCharacter(
+  overrides: Partial<Character5eSnapshot> = {}
+): Character5eSnapshot {
+  return {
+    name: 'Fighter',
+    level: 5,
+    abilityScores: {
+      str: 16,
+      dex: 18,
+      con: 12,
+      int: 10,
+      wis: 13,
+      cha: 8,
+    },
+    ...overrides,
+  };
+}
+
+describe('rollDamage', () => {
+  it('should roll the weapon dice and add the ability modifier', () => {
+    const result = rollDamage(
+      createTestCharacter(),
+      GREATSWORD,
+      {},
+      createMockRNG([4, 5])
+    );
+
+    expect(result).toMatchObject({
+      source: 'Greatsword',
+      diceRolls: [4, 5],
+      diceTotal: 9,
+      modifier: 3,
+      total: 12,
+      damageType: 'slashing',
+      isCrit: false,
+    });
+    expect(result.explain).toBe('2d6: [4, 5] (9) +3 = 12 slashing');
+  });
+
+  it('should use DEX for finesse weapons when it is higher', () => {
+    const result = rollDamage(createTestCharacter(), RAPIER, {}, createMockRNG([6]));
+
+    expect(result.modifier).toBe(4);
+    expect(result.total).toBe(10);
+  });
+
+  it('should add weapon and misc bonuses', () => {
+    const weapon = { ...GREATSWORD, damageBonus: 1 };
+
+    const result = rollDamage(
+      createTestCharacter(),
+      weapon,
+      { miscBonus: 2 },
+      createMockRNG([1, 1])
+    );
+
+    expect(result.modifier).toBe(6);
+    expect(result.total).toBe(8);
+  });
+
+  it('should double the dice but not the modifier on a crit', () => {
+    const result = rollDamage(
+      createTestCharacter(),
+      GREATSWORD,
+      { isCrit: true },
+      createMockRNG([6, 5, 4, 3])
+    );
+
+    expect(result.diceRolls).toEqual([6, 5, 4, 3]);
+    expect(result.total).toBe(21);
+    expect(result.explain).toBe(
+      '**CRIT** 4d6 (crit): [6, 5, 4, 3] (18) +3 = 21 slashing'
+    );
+  });
+
+  it('should reject weapons with invalid damage dice', () => {
+    const weapon = { ...GREATSWORD, damageDice: '2d6!' };
+
+    expect(() => rollDamage(createTestCharacter(), weapon)).toThrow(
+      'Invalid damage dice expression: 2d6!'
+    );
+  });
+});
+
+describe('rollGenericDamage', () => {
+  it('should roll the dice and add their flat modifier', () => {
+    const result = rollGenericDamage(
+      '1d8+2',
+      'fire',
+      'Fire Bolt',
+      {},
+      createMockRNG([5])
+    );
+
+    expect(result).toMatchObject({
+      source: 'Fire Bolt',
+      diceRolls: [5],
+      modifier: 2,
+      total: 7,
+      damageType: 'fire',
+    });
+    expect(result.explain).toBe('1d8: [5] (5) +2 = 7 fire');
+  });
+
+  it('should double the dice and add the misc bonus on a crit', () => {
+    const result = rollGenericDamage(
+      '2d6-1',
+      'necrotic',
+      'Inflict Wounds',
+      { isCrit: true, miscBonus: 3 },
+      createMockRNG([1, 2, 3, 4])
+    );
+
+    expect(result.diceTotal).toBe(10);
+    expect(result.modifier).toBe(2);
+    expect(result.total).toBe(12);
+    expect(result.explain).toBe('4d6 (crit): [1, 2, 3, 4] (10) +2 = 12 necrotic');
+  });
+
+  it('should reject anything but one dice group and a flat modifier', () => {
+    expect(() => rollGenericDamage('1d6+1d4', 'fire', 'Spell')).toThrow(
+      'Invalid damage dice expression: 1d6+1d4'
+    );
+    expect(() => rollGenericDamage('(1d8+2)*2', 'fire', 'Spell')).toThrow(
+      'Invalid damage dice expression'
+    );
+  });
+});
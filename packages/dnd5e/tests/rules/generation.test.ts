@@ -0,0 +1,140 @@
+/**
+ * Tests for ability score generation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assignAbilityScores,
+  generateAbilityScores,
+  type GeneratedAbilityScores,
+} from '../../src/rules/generation.js';
+import { createMockRNG, createSeededRNG } from '../../src/engine/rng.js';
+
+function generated(
+  ...args: Parameters<typeof generateAbilityScores>
+): GeneratedAbilityScores {
+  const result = generateAbilityScores(...args);
+  if (!result.success) throw new Error(result.error);
+  return result.value;
+}
+
+describe('generateAbilityScores', () => {
+  it('should drop the lowest of 4d6 for each score', () => {
+    const rng = createMockRNG([
+      6, 1, 5, 5, 3, 3, 3, 3, 2, 4, 6, 6, 1, 1, 1, 1, 6, 6, 6, 6, 4, 2, 3, 5,
+    ]);
+    const result = generated('4d6-drop-lowest', { rng });
+
+    expect(result.scores).toEqual([16, 9, 16, 3, 18, 12]);
+    expect(result.rolls[0]?.breakdown).toBe('4d6dl1 [6, ~~1~~, 5, 5]');
+  });
+
+  it('should give the same scores for the same seed', () => {
+    const first = generated('4d6-drop-lowest', { rng: createSeededRNG(42) });
+    const second = generated('4d6-drop-lowest', { rng: createSeededRNG(42) });
+
+    expect(first.scores).toEqual(second.scores);
+  });
+
+  it('should keep rolled scores within range', () => {
+    const rng = createSeededRNG(7);
+
+    for (let i = 0; i < 50; i++) {
+      const dropLowest = generated('4d6-drop-lowest', { rng });
+      const inOrder = generated('3d6-in-order', { rng });
+
+      for (const { scores, rolls } of [dropLowest, inOrder]) {
+        expect(scores).toHaveLength(6);
+        expect(rolls.map((roll) => roll.total)).toEqual(scores);
+        for (const score of scores) {
+          expect(score).toBeGreaterThanOrEqual(3);
+          expect(score).toBeLessThanOrEqual(18);
+        }
+      }
+      for (const roll of dropLowest.rolls) {
+        const faces = roll.groups[0]!.dice.map((die) => die.value);
+        expect(roll.total).toBe(
+          faces.reduce((sum, face) => sum + face, 0) - Math.min(...faces)
+        );
+      }
+    }
+  });
+
+  it('should return the standard array without rolling', () => {
+    const result = generated('standard-array', { rng: createMockRNG([]) });
+
+    expect(result.scores).toEqual([15, 14, 13, 12, 10, 8]);
+    expect(result.rolls).toEqual([]);
+  });
+
+  it('should accept point buy within 27 points', () => {
+    const result = generated('point-buy', { pointBuy: [15, 14, 13, 8, 10, 12] });
+
+    expect(result.scores).toEqual([15, 14, 13, 8, 10, 12]);
+    expect(result.pointsSpent).toBe(27);
+    expect(generated('point-buy', { pointBuy: [8, 8, 8, 8, 8, 8] }).pointsSpent).toBe(0);
+  });
+
+  it('should reject invalid point buys', () => {
+    expect(
+      generateAbilityScores('point-buy', { pointBuy: [15, 15, 15, 10, 8, 8] })
+    ).toEqual({
+      success: false,
+      error: 'Total cost 29 exceeds maximum 27',
+    });
+    expect(generateAbilityScores('point-buy', { pointBuy: [16, 8, 8, 8, 8, 8] })).toEqual(
+      {
+        success: false,
+        error: 'str score 16 is outside point buy range (8-15)',
+      }
+    );
+    expect(generateAbilityScores('point-buy', { pointBuy: [15, 14] })).toEqual({
+      success: false,
+      error: 'Point buy needs six scores (str, dex, con, int, wis, cha), got 2',
+    });
+    expect(generateAbilityScores('point-buy')).toMatchObject({ success: false });
+  });
+});
+
+describe('assignAbilityScores', () => {
+  it('should assign in-order methods to str..cha', () => {
+    const rng = createMockRNG([1, 2, 3, 6, 6, 6, 2, 2, 2, 4, 4, 4, 5, 5, 5, 1, 1, 1]);
+    const scores = generated('3d6-in-order', { rng });
+
+    expect(assignAbilityScores(scores)).toEqual({
+      success: true,
+      value: { str: 6, dex: 18, con: 6, int: 12, wis: 15, cha: 3 },
+    });
+    expect(
+      assignAbilityScores(scores, ['str', 'dex', 'con', 'int', 'wis', 'cha'])
+    ).toEqual({
+      success: false,
+      error: '3d6-in-order scores are already in ability order',
+    });
+  });
+
+  it('should assign the highest scores to the first abilities in priority', () => {
+    const scores = generated('standard-array');
+
+    expect(
+      assignAbilityScores(scores, ['dex', 'con', 'wis', 'str', 'cha', 'int'])
+    ).toEqual({
+      success: true,
+      value: { dex: 15, con: 14, wis: 13, str: 12, cha: 10, int: 8 },
+    });
+  });
+
+  it('should need each ability once for arranged methods', () => {
+    const scores = generated('standard-array');
+    const error = {
+      success: false,
+      error: 'List each of the six abilities once, from highest to lowest score',
+    };
+
+    expect(assignAbilityScores(scores)).toEqual(error);
+    expect(assignAbilityScores(scores, ['dex', 'con'])).toEqual(error);
+    expect(
+      assignAbilityScores(scores, ['dex', 'dex', 'wis', 'str', 'cha', 'int'])
+    ).toEqual(error);
+  });
+});
@@ -0,0 +1,52 @@
+import type { CommandAuditEntry, CommandOutcome } from './models.js';
+
+/**
+ * Parameters for recording a command
+ */
+export interface RecordCommandParams {
+  discordUserId: string;
+  guildId: string | null;
+  channelId: string | null;
+  command: string;
+  subcommand: string | null;
+  options: Record<string, string | number | boolean>;
+  durationMs: number;
+  outcome: CommandOutcome;
+  errorMessage: string | null;
+}
+
+/**
+ * Filters for querying the audit log. All filters are optional and combined with AND.
+ */
+export interface QueryAuditParams {
+  discordUserId?: string;
+  guildId?: string;
+  /** Only entries at or after this ISO 8601 timestamp */
+  since?: string;
+  /** Only entries before this ISO 8601 timestamp */
+  until?: string;
+  /** Maximum number of entries (default: 50) */
+  limit?: number;
+}
+
+/**
+ * Command audit repository interface (port).
+ * Answers "who ran what, where and when".
+ */
+export interface AuditRepo {
+  /**
+   * Record a routed command.
+   *
+   * @param params - Command details
+   * @returns The stored entry
+   */
+  record(params: RecordCommandParams): Promise<CommandAuditEntry>;
+
+  /**
+   * Query the audit log, newest first.
+   *
+   * @param params - Filters
+   * @returns Matching entries, newest first
+   */
+  query(params?: QueryAuditParams): Promise<CommandAuditEntry[]>;
+}
@@ -0,0 +1,50 @@
+import type { GuildSettings } from './models.js';
+
+/**
+ * Parameters for enabling or disabling a feature in a guild
+ */
+export interface SetFeatureEnabledParams {
+  guildId: string;
+  /** Feature slice name */
+  feature: string;
+  enabled: boolean;
+}
+
+/**
+ * Parameters for setting or clearing the GM channel of a guild
+ */
+export interface SetGmChannelParams {
+  guildId: string;
+  /** Channel for GM rolls, null to send them by direct message */
+  channelId: string | null;
+}
+
+/**
+ * Guild settings repository interface (port).
+ * Settings are managed by guild admins through Discord commands.
+ */
+export interface GuildSettingsRepo {
+  /**
+   * Get the settings of a guild.
+   *
+   * @param guildId - Discord guild ID
+   * @returns Stored settings, or the defaults if none were stored
+   */
+  getSettings(guildId: string): Promise<GuildSettings>;
+
+  /**
+   * Enable or disable a feature in a guild.
+   *
+   * @param params - Guild, feature and new state
+   * @returns The updated settings
+   */
+  setFeatureEnabled(params: SetFeatureEnabledParams): Promise<GuildSettings>;
+
+  /**
+   * Set or clear the channel where GM rolls are posted.
+   *
+   * @param params - Guild and channel
+   * @returns The updated settings
+   */
+  setGmChannel(params: SetGmChannelParams): Promise<GuildSettings>;
+}
@@ -5,7 +5,19 @@
  */
 
 // Domain models
-export type { User, Character, AttributeValue } from './models.js';
+export type {
+  User,
+  Character,
+  AttributeValue,
+  CommandAuditEntry,
+  CommandOutcome,
+  GuildSettings,
+  RollMacro,
+  LoggedDie,
+  LoggedDiceGroup,
+  RollLogEntry,
+  RollVisibility,
+} from './models.js';
 export { AttrValue } from './models.js';
 
 // Repository interfaces
@@ -20,3 +32,16 @@ export type {
   SetActiveCharacterParams,
   GetActiveCharacterParams,
 } from './characterRepo.js';
+export type { AuditRepo, RecordCommandParams, QueryAuditParams } from './auditRepo.js';
+export type {
+  GuildSettingsRepo,
+  SetFeatureEnabledParams,
+  SetGmChannelParams,
+} from './guildSettingsRepo.js';
+export type { MacroRepo, CreateMacroParams, MacroByNameParams } from './macroRepo.js';
+export type {
+  RollLogRepo,
+  RecordRollParams,
+  QueryRollLogParams,
+  RollLogPage,
+} from './rollLogRepo.js';
@@ -0,0 +1,58 @@
+import type { RollMacro } from './models.js';
+
+/**
+ * Parameters for saving a new macro on a character
+ */
+export interface CreateMacroParams {
+  characterId: string;
+  /** Macro name (must be unique per character, case-insensitive) */
+  name: string;
+  expression: string;
+}
+
+/**
+ * Parameters for looking up or deleting a macro by name
+ */
+export interface MacroByNameParams {
+  characterId: string;
+  /** Macro name (case-insensitive match) */
+  name: string;
+}
+
+/**
+ * Roll macro repository interface (port).
+ * Macros belong to a character and are deleted with it.
+ */
+export interface MacroRepo {
+  /**
+   * Save a new macro.
+   *
+   * @param params - Character, name and expression
+   * @returns The created macro
+   * @throws Error if the character already has a macro with this name
+   */
+  createMacro(params: CreateMacroParams): Promise<RollMacro>;
+
+  /**
+   * Get a macro by name.
+   *
+   * @param params - Character and macro name
+   * @returns The macro, or null if not found
+   */
+  getByName(params: MacroByNameParams): Promise<RollMacro | null>;
+
+  /**
+   * List the macros of a character, sorted by name.
+   *
+   * @param characterId - Owner character ID
+   */
+  listByCharacter(characterId: string): Promise<RollMacro[]>;
+
+  /**
+   * Delete a macro by name.
+   *
+   * @param params - Character and macro name
+   * @returns True if a macro was deleted
+   */
+  deleteMacro(params: MacroByNameParams): Promise<boolean>;
+}
@@ -60,3 +60,133 @@ export interface Character {
   /** ISO 8601 timestamp of last update */
   readonly updatedAt: string;
 }
+
+/**
+ * How a routed command ended
+ * - "ok": the handler completed
+ * - "error": the handler (or a middleware) threw
+ * - "blocked": a middleware stopped the command before the handler ran
+ */
+export type CommandOutcome = 'ok' | 'error' | 'blocked';
+
+/**
+ * Command audit entry.
+ * One row per routed command, recorded after it finishes.
+ */
+export interface CommandAuditEntry {
+  /** Internal UUID identifier */
+  readonly id: string;
+  /** Discord user ID (snowflake) of the invoking user */
+  readonly discordUserId: string;
+  /** Discord guild ID, null in direct messages */
+  readonly guildId: string | null;
+  /** Discord channel ID, null if unknown */
+  readonly channelId: string | null;
+  /** Command (or context menu) name */
+  readonly command: string;
+  /** Subcommand, prefixed by its group when present (e.g. "group sub") */
+  readonly subcommand: string | null;
+  /** Options the command was given */
+  readonly options: Record<string, string | number | boolean>;
+  /** Time spent handling the command */
+  readonly durationMs: number;
+  readonly outcome: CommandOutcome;
+  /** Error message when outcome is "error" */
+  readonly errorMessage: string | null;
+  /** ISO 8601 timestamp of when the command finished */
+  readonly createdAt: string;
+}
+
+/**
+ * Guild settings domain model.
+ * Guilds without stored settings use the defaults (every feature enabled).
+ */
+export interface GuildSettings {
+  /** Discord guild ID (snowflake) */
+  readonly guildId: string;
+  /** Names of feature slices disabled in this guild */
+  readonly disabledFeatures: readonly string[];
+  /** Channel where GM rolls are posted, null to send them to each DM by direct message */
+  readonly gmChannelId: string | null;
+  /** ISO 8601 timestamp of last update, null if never changed */
+  readonly updatedAt: string | null;
+}
+
+/**
+ * Roll macro domain model.
+ * A named set of dice expressions saved on a character.
+ */
+export interface RollMacro {
+  /** Internal UUID identifier */
+  readonly id: string;
+  /** Owner character ID (FK to Character.id) */
+  readonly characterId: string;
+  /** Macro name (unique per character, case-insensitive) */
+  readonly name: string;
+  /** Dice expressions separated by "|", may contain references like "{str_mod}" */
+  readonly expression: string;
+  /** ISO 8601 timestamp of creation */
+  readonly createdAt: string;
+  /** ISO 8601 timestamp of last update */
+  readonly updatedAt: string;
+}
+
+/**
+ * A die as it was rolled
+ * - "kept": counts toward the total
+ * - "dropped": removed by keep/drop (e.g. the lowest die of 4d6kh3)
+ * - "rerolled": replaced by a reroll
+ */
+export interface LoggedDie {
+  readonly value: number;
+  readonly status: 'kept' | 'dropped' | 'rerolled';
+  /** Whether this die triggered an explosion */
+  readonly exploded: boolean;
+}
+
+/**
+ * The dice of one group of a roll, e.g. "4d6kh3"
+ */
+export interface LoggedDiceGroup {
+  readonly notation: string;
+  readonly sides: number;
+  readonly dice: readonly LoggedDie[];
+}
+
+/**
+ * Who sees a roll:
+ * - "public": everyone in the channel
+ * - "private": only the roller
+ * - "gm": the roller and the GMs
+ * - "blind": only the GMs
+ */
+export type RollVisibility = 'public' | 'private' | 'gm' | 'blind';
+
+/**
+ * Roll log entry.
+ * One row per dice roll, so a roll can be checked after its message scrolled away.
+ */
+export interface RollLogEntry {
+  /** Internal UUID identifier */
+  readonly id: string;
+  /** Discord user ID (snowflake) of the roller */
+  readonly discordUserId: string;
+  /** Discord guild ID, null in direct messages */
+  readonly guildId: string | null;
+  /** Discord channel ID, null if unknown */
+  readonly channelId: string | null;
+  /** Character the roll was made for, if any */
+  readonly characterName: string | null;
+  /** Rolled expression, e.g. "1d20+5" */
+  readonly expression: string;
+  /** Per-die breakdown, e.g. "1d20 [13] + 5" */
+  readonly breakdown: string;
+  /** Individual dice of every group */
+  readonly dice: readonly LoggedDiceGroup[];
+  readonly total: number;
+  /** Roll label (or macro name), if any */
+  readonly label: string | null;
+  readonly visibility: RollVisibility;
+  /** ISO 8601 timestamp of the roll */
+  readonly createdAt: string;
+}
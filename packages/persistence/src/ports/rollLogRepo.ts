@@ -0,0 +1,74 @@
+import type { LoggedDiceGroup, RollLogEntry, RollVisibility } from './models.js';
+
+/**
+ * Parameters for recording a roll
+ */
+export interface RecordRollParams {
+  discordUserId: string;
+  guildId: string | null;
+  channelId: string | null;
+  characterName: string | null;
+  expression: string;
+  breakdown: string;
+  dice: readonly LoggedDiceGroup[];
+  total: number;
+  label: string | null;
+  /** Who saw the roll (default: "public") */
+  visibility?: RollVisibility;
+}
+
+/**
+ * Filters for querying the roll log, combined with AND.
+ */
+export interface QueryRollLogParams {
+  /** Guild to search, null for direct messages */
+  guildId: string | null;
+  channelId?: string;
+  discordUserId?: string;
+  /** Only rolls with this visibility, or with any of these */
+  visibility?: RollVisibility | readonly RollVisibility[];
+  /** Maximum number of entries (default: 10) */
+  limit?: number;
+  /** Number of newest entries to skip (default: 0) */
+  offset?: number;
+}
+
+/**
+ * One page of roll log entries
+ */
+export interface RollLogPage {
+  /** Entries on this page, newest first */
+  entries: RollLogEntry[];
+  /** Number of entries matching the filters across all pages */
+  total: number;
+}
+
+/**
+ * Roll log repository interface (port).
+ * Answers "what exactly did they roll?".
+ */
+export interface RollLogRepo {
+  /**
+   * Record a roll.
+   *
+   * @param params - Roll details
+   * @returns The stored entry
+   */
+  record(params: RecordRollParams): Promise<RollLogEntry>;
+
+  /**
+   * Get a recorded roll by ID.
+   *
+   * @param id - Entry UUID
+   * @returns The entry if found, null otherwise
+   */
+  getById(id: string): Promise<RollLogEntry | null>;
+
+  /**
+   * Query the roll log, newest first.
+   *
+   * @param params - Filters and page
+   * @returns The requested page and the total number of matching entries
+   */
+  query(params: QueryRollLogParams): Promise<RollLogPage>;
+}
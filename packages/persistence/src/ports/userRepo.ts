@@ -22,6 +22,14 @@ export interface UserRepo {
    */
   getById(id: string): Promise<User | null>;
 
+  /**
+   * Get a user by Discord user ID, without creating one.
+   *
+   * @param discordUserId - Discord snowflake user ID
+   * @returns The user if found, null otherwise
+   */
+  getByDiscordUserId(discordUserId: string): Promise<User | null>;
+
   // ─────────────────────────────────────────────────────────────────────────────
   // DM (Dungeon Master) Capability
   // ─────────────────────────────────────────────────────────────────────────────
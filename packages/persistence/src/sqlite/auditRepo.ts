@@ -0,0 +1,82 @@
+import type { Kysely } from 'kysely';
+import { randomUUID } from 'node:crypto';
+import type { CommandAuditEntry, CommandOutcome } from '../ports/models.js';
+import type {
+  AuditRepo,
+  QueryAuditParams,
+  RecordCommandParams,
+} from '../ports/auditRepo.js';
+import type { CommandAuditTable, Database } from './schema.js';
+
+const DEFAULT_QUERY_LIMIT = 50;
+
+/**
+ * Map database row to domain CommandAuditEntry model.
+ */
+function toEntry(row: CommandAuditTable): CommandAuditEntry {
+  return {
+    id: row.id,
+    discordUserId: row.discord_user_id,
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    command: row.command,
+    subcommand: row.subcommand,
+    options: JSON.parse(row.options) as CommandAuditEntry['options'],
+    durationMs: row.duration_ms,
+    outcome: row.outcome as CommandOutcome,
+    errorMessage: row.error_message,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * SQLite implementation of AuditRepo.
+ */
+export class SqliteAuditRepo implements AuditRepo {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async record(params: RecordCommandParams): Promise<CommandAuditEntry> {
+    const row: CommandAuditTable = {
+      id: randomUUID(),
+      discord_user_id: params.discordUserId,
+      guild_id: params.guildId,
+      channel_id: params.channelId,
+      command: params.command,
+      subcommand: params.subcommand,
+      options: JSON.stringify(params.options),
+      duration_ms: Math.round(params.durationMs),
+      outcome: params.outcome,
+      error_message: params.errorMessage,
+      created_at: new Date().toISOString(),
+    };
+
+    await this.db.insertInto('command_audit').values(row).execute();
+
+    return toEntry(row);
+  }
+
+  async query(params: QueryAuditParams = {}): Promise<CommandAuditEntry[]> {
+    let query = this.db.selectFrom('command_audit').selectAll();
+
+    if (params.discordUserId) {
+      query = query.where('discord_user_id', '=', params.discordUserId);
+    }
+    if (params.guildId) {
+      query = query.where('guild_id', '=', params.guildId);
+    }
+    if (params.since) {
+      query = query.where('created_at', '>=', params.since);
+    }
+    if (params.until) {
+      query = query.where('created_at', '<', params.until);
+    }
+
+    const rows = await query
+      .orderBy('created_at', 'desc')
+      .orderBy('id', 'desc')
+      .limit(params.limit ?? DEFAULT_QUERY_LIMIT)
+      .execute();
+
+    return rows.map(toEntry);
+  }
+}
@@ -0,0 +1,102 @@
+import type { Kysely } from 'kysely';
+import type { GuildSettings } from '../ports/models.js';
+import type {
+  GuildSettingsRepo,
+  SetFeatureEnabledParams,
+  SetGmChannelParams,
+} from '../ports/guildSettingsRepo.js';
+import type { Database, GuildSettingsTable } from './schema.js';
+
+/**
+ * Map database row to domain GuildSettings model.
+ */
+function toGuildSettings(row: GuildSettingsTable): GuildSettings {
+  return {
+    guildId: row.guild_id,
+    disabledFeatures: JSON.parse(row.disabled_features) as string[],
+    gmChannelId: row.gm_channel_id,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * SQLite implementation of GuildSettingsRepo.
+ */
+export class SqliteGuildSettingsRepo implements GuildSettingsRepo {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async getSettings(guildId: string): Promise<GuildSettings> {
+    const row = await this.db
+      .selectFrom('guild_settings')
+      .selectAll()
+      .where('guild_id', '=', guildId)
+      .executeTakeFirst();
+
+    return row
+      ? toGuildSettings(row)
+      : { guildId, disabledFeatures: [], gmChannelId: null, updatedAt: null };
+  }
+
+  async setFeatureEnabled(params: SetFeatureEnabledParams): Promise<GuildSettings> {
+    return this.db.transaction().execute(async (trx) => {
+      const row = await trx
+        .selectFrom('guild_settings')
+        .selectAll()
+        .where('guild_id', '=', params.guildId)
+        .executeTakeFirst();
+
+      const disabled = new Set<string>(row ? JSON.parse(row.disabled_features) : []);
+      if (params.enabled) {
+        disabled.delete(params.feature);
+      } else {
+        disabled.add(params.feature);
+      }
+
+      const timestamp = new Date().toISOString();
+      const updated: GuildSettingsTable = {
+        guild_id: params.guildId,
+        disabled_features: JSON.stringify([...disabled].sort()),
+        gm_channel_id: row?.gm_channel_id ?? null,
+        created_at: row?.created_at ?? timestamp,
+        updated_at: timestamp,
+      };
+
+      await trx
+        .insertInto('guild_settings')
+        .values(updated)
+        .onConflict((oc) =>
+          oc.column('guild_id').doUpdateSet({
+            disabled_features: updated.disabled_features,
+            updated_at: updated.updated_at,
+          })
+        )
+        .execute();
+
+      return toGuildSettings(updated);
+    });
+  }
+
+  async setGmChannel(params: SetGmChannelParams): Promise<GuildSettings> {
+    const timestamp = new Date().toISOString();
+
+    const row = await this.db
+      .insertInto('guild_settings')
+      .values({
+        guild_id: params.guildId,
+        disabled_features: '[]',
+        gm_channel_id: params.channelId,
+        created_at: timestamp,
+        updated_at: timestamp,
+      })
+      .onConflict((oc) =>
+        oc.column('guild_id').doUpdateSet({
+          gm_channel_id: params.channelId,
+          updated_at: timestamp,
+        })
+      )
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toGuildSettings(row);
+  }
+}
@@ -7,4 +7,8 @@ export { SqliteClient } from './db.js';
 export type { SqliteConfig } from './db.js';
 export { SqliteUserRepo } from './userRepo.js';
 export { SqliteCharacterRepo } from './characterRepo.js';
+export { SqliteAuditRepo } from './auditRepo.js';
+export { SqliteGuildSettingsRepo } from './guildSettingsRepo.js';
+export { SqliteMacroRepo } from './macroRepo.js';
+export { SqliteRollLogRepo } from './rollLogRepo.js';
 export { runMigrations, rollbackMigration } from './migrator.js';
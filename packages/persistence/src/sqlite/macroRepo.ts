@@ -0,0 +1,86 @@
+import type { Kysely } from 'kysely';
+import { randomUUID } from 'node:crypto';
+import type { RollMacro } from '../ports/models.js';
+import type {
+  CreateMacroParams,
+  MacroByNameParams,
+  MacroRepo,
+} from '../ports/macroRepo.js';
+import type { CharacterMacrosTable, Database } from './schema.js';
+
+/**
+ * Map database row to domain RollMacro model.
+ */
+function toRollMacro(row: CharacterMacrosTable): RollMacro {
+  return {
+    id: row.id,
+    characterId: row.character_id,
+    name: row.name,
+    expression: row.expression,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * SQLite implementation of MacroRepo.
+ */
+export class SqliteMacroRepo implements MacroRepo {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async createMacro(params: CreateMacroParams): Promise<RollMacro> {
+    const timestamp = new Date().toISOString();
+    const row: CharacterMacrosTable = {
+      id: randomUUID(),
+      character_id: params.characterId,
+      name: params.name,
+      name_lower: params.name.toLowerCase(),
+      expression: params.expression,
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+
+    try {
+      await this.db.insertInto('character_macros').values(row).execute();
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        throw new Error(`Macro "${params.name}" already exists for this character`);
+      }
+      throw error;
+    }
+
+    return toRollMacro(row);
+  }
+
+  async getByName(params: MacroByNameParams): Promise<RollMacro | null> {
+    const row = await this.db
+      .selectFrom('character_macros')
+      .selectAll()
+      .where('character_id', '=', params.characterId)
+      .where('name_lower', '=', params.name.toLowerCase())
+      .executeTakeFirst();
+
+    return row ? toRollMacro(row) : null;
+  }
+
+  async listByCharacter(characterId: string): Promise<RollMacro[]> {
+    const rows = await this.db
+      .selectFrom('character_macros')
+      .selectAll()
+      .where('character_id', '=', characterId)
+      .orderBy('name_lower')
+      .execute();
+
+    return rows.map(toRollMacro);
+  }
+
+  async deleteMacro(params: MacroByNameParams): Promise<boolean> {
+    const result = await this.db
+      .deleteFrom('character_macros')
+      .where('character_id', '=', params.characterId)
+      .where('name_lower', '=', params.name.toLowerCase())
+      .executeTakeFirst();
+
+    return result.numDeletedRows > 0n;
+  }
+}
@@ -0,0 +1,39 @@
+import type { Kysely } from 'kysely';
+
+/**
+ * Migration 004: Add the command audit log.
+ *
+ * One row per routed command, queried by user, guild and time range.
+ */
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('command_audit')
+    .addColumn('id', 'text', (col) => col.primaryKey())
+    .addColumn('discord_user_id', 'text', (col) => col.notNull())
+    .addColumn('guild_id', 'text')
+    .addColumn('channel_id', 'text')
+    .addColumn('command', 'text', (col) => col.notNull())
+    .addColumn('subcommand', 'text')
+    .addColumn('options', 'text', (col) => col.notNull().defaultTo('{}'))
+    .addColumn('duration_ms', 'integer', (col) => col.notNull())
+    .addColumn('outcome', 'text', (col) => col.notNull())
+    .addColumn('error_message', 'text')
+    .addColumn('created_at', 'text', (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex('idx_command_audit_user_created')
+    .on('command_audit')
+    .columns(['discord_user_id', 'created_at'])
+    .execute();
+
+  await db.schema
+    .createIndex('idx_command_audit_guild_created')
+    .on('command_audit')
+    .columns(['guild_id', 'created_at'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('command_audit').execute();
+}
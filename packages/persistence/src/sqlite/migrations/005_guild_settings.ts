@@ -0,0 +1,21 @@
+import type { Kysely } from 'kysely';
+
+/**
+ * Migration 005: Add per-guild settings.
+ *
+ * One row per guild that changed a setting; guilds without a row use the
+ * defaults. Starts with the list of disabled feature slices.
+ */
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('guild_settings')
+    .addColumn('guild_id', 'text', (col) => col.primaryKey())
+    .addColumn('disabled_features', 'text', (col) => col.notNull().defaultTo('[]'))
+    .addColumn('created_at', 'text', (col) => col.notNull())
+    .addColumn('updated_at', 'text', (col) => col.notNull())
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('guild_settings').execute();
+}
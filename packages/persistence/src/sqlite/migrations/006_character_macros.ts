@@ -0,0 +1,33 @@
+import type { Kysely } from 'kysely';
+
+/**
+ * Migration 006: Add roll macros.
+ *
+ * Named dice expressions saved on a character, unique per character
+ * (case-insensitive) and deleted with it.
+ */
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('character_macros')
+    .addColumn('id', 'text', (col) => col.primaryKey())
+    .addColumn('character_id', 'text', (col) =>
+      col.notNull().references('characters.id').onDelete('cascade')
+    )
+    .addColumn('name', 'text', (col) => col.notNull())
+    .addColumn('name_lower', 'text', (col) => col.notNull())
+    .addColumn('expression', 'text', (col) => col.notNull())
+    .addColumn('created_at', 'text', (col) => col.notNull())
+    .addColumn('updated_at', 'text', (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex('idx_character_macros_unique_name')
+    .on('character_macros')
+    .columns(['character_id', 'name_lower'])
+    .unique()
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('character_macros').execute();
+}
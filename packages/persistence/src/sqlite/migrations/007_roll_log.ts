@@ -0,0 +1,40 @@
+import type { Kysely } from 'kysely';
+
+/**
+ * Migration 007: Add the roll log.
+ *
+ * One row per dice roll with its individual dice, queried by channel or by
+ * user within a guild, newest first.
+ */
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .createTable('roll_log')
+    .addColumn('id', 'text', (col) => col.primaryKey())
+    .addColumn('discord_user_id', 'text', (col) => col.notNull())
+    .addColumn('guild_id', 'text')
+    .addColumn('channel_id', 'text')
+    .addColumn('character_name', 'text')
+    .addColumn('expression', 'text', (col) => col.notNull())
+    .addColumn('breakdown', 'text', (col) => col.notNull())
+    .addColumn('dice', 'text', (col) => col.notNull().defaultTo('[]'))
+    .addColumn('total', 'integer', (col) => col.notNull())
+    .addColumn('label', 'text')
+    .addColumn('created_at', 'text', (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex('idx_roll_log_channel_created')
+    .on('roll_log')
+    .columns(['guild_id', 'channel_id', 'created_at'])
+    .execute();
+
+  await db.schema
+    .createIndex('idx_roll_log_user_created')
+    .on('roll_log')
+    .columns(['guild_id', 'discord_user_id', 'created_at'])
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.dropTable('roll_log').execute();
+}
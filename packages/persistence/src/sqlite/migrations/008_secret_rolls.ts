@@ -0,0 +1,24 @@
+import type { Kysely } from 'kysely';
+
+/**
+ * Migration 008: Add secret rolls.
+ *
+ * Records who saw each roll, so private and GM rolls stay out of the public
+ * history, and lets guilds pick a channel where GM rolls are posted.
+ */
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await db.schema
+    .alterTable('roll_log')
+    .addColumn('visibility', 'text', (col) => col.notNull().defaultTo('public'))
+    .execute();
+
+  await db.schema
+    .alterTable('guild_settings')
+    .addColumn('gm_channel_id', 'text')
+    .execute();
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await db.schema.alterTable('guild_settings').dropColumn('gm_channel_id').execute();
+  await db.schema.alterTable('roll_log').dropColumn('visibility').execute();
+}
@@ -1,6 +1,11 @@
 import { Kysely, Migrator, type MigrationProvider, type Migration } from 'kysely';
 import * as migration001 from './migrations/001_initial.js';
 import * as migration003 from './migrations/003_dm_capability.js';
+import * as migration004 from './migrations/004_command_audit.js';
+import * as migration005 from './migrations/005_guild_settings.js';
+import * as migration006 from './migrations/006_character_macros.js';
+import * as migration007 from './migrations/007_roll_log.js';
+import * as migration008 from './migrations/008_secret_rolls.js';
 
 /**
  * Static migration provider that bundles all migrations.
@@ -11,6 +16,11 @@ class StaticMigrationProvider implements MigrationProvider {
     return {
       '001_initial': migration001,
       '003_dm_capability': migration003,
+      '004_command_audit': migration004,
+      '005_guild_settings': migration005,
+      '006_character_macros': migration006,
+      '007_roll_log': migration007,
+      '008_secret_rolls': migration008,
     };
   }
 }
@@ -0,0 +1,117 @@
+import { sql, type Kysely } from 'kysely';
+import { randomUUID } from 'node:crypto';
+import type { LoggedDiceGroup, RollLogEntry, RollVisibility } from '../ports/models.js';
+import type {
+  QueryRollLogParams,
+  RecordRollParams,
+  RollLogPage,
+  RollLogRepo,
+} from '../ports/rollLogRepo.js';
+import type { Database, RollLogTable } from './schema.js';
+
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Map database row to domain RollLogEntry model.
+ */
+function toEntry(row: RollLogTable): RollLogEntry {
+  return {
+    id: row.id,
+    discordUserId: row.discord_user_id,
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    characterName: row.character_name,
+    expression: row.expression,
+    breakdown: row.breakdown,
+    dice: JSON.parse(row.dice) as LoggedDiceGroup[],
+    total: row.total,
+    label: row.label,
+    visibility: row.visibility as RollVisibility,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * SQLite implementation of RollLogRepo.
+ */
+export class SqliteRollLogRepo implements RollLogRepo {
+  constructor(private readonly db: Kysely<Database>) {}
+
+  async record(params: RecordRollParams): Promise<RollLogEntry> {
+    // Keep only the logged fields of each group and die
+    const dice: LoggedDiceGroup[] = params.dice.map((group) => ({
+      notation: group.notation,
+      sides: group.sides,
+      dice: group.dice.map(({ value, status, exploded }) => ({
+        value,
+        status,
+        exploded,
+      })),
+    }));
+
+    const row: RollLogTable = {
+      id: randomUUID(),
+      discord_user_id: params.discordUserId,
+      guild_id: params.guildId,
+      channel_id: params.channelId,
+      character_name: params.characterName,
+      expression: params.expression,
+      breakdown: params.breakdown,
+      dice: JSON.stringify(dice),
+      total: params.total,
+      label: params.label,
+      visibility: params.visibility ?? 'public',
+      created_at: new Date().toISOString(),
+    };
+
+    await this.db.insertInto('roll_log').values(row).execute();
+
+    return toEntry(row);
+  }
+
+  async getById(id: string): Promise<RollLogEntry | null> {
+    const row = await this.db
+      .selectFrom('roll_log')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    return row ? toEntry(row) : null;
+  }
+
+  async query(params: QueryRollLogParams): Promise<RollLogPage> {
+    let query = this.db.selectFrom('roll_log');
+
+    query =
+      params.guildId === null
+        ? query.where('guild_id', 'is', null)
+        : query.where('guild_id', '=', params.guildId);
+    if (params.channelId) {
+      query = query.where('channel_id', '=', params.channelId);
+    }
+    if (params.discordUserId) {
+      query = query.where('discord_user_id', '=', params.discordUserId);
+    }
+    if (typeof params.visibility === 'string') {
+      query = query.where('visibility', '=', params.visibility);
+    } else if (params.visibility) {
+      query = query.where('visibility', 'in', [...params.visibility]);
+    }
+
+    const [rows, count] = await Promise.all([
+      query
+        .selectAll()
+        .orderBy('created_at', 'desc')
+        // Insertion order breaks ties between rolls in the same millisecond
+        .orderBy(sql`rowid`, 'desc')
+        .limit(params.limit ?? DEFAULT_PAGE_SIZE)
+        .offset(params.offset ?? 0)
+        .execute(),
+      query
+        .select((eb) => eb.fn.countAll<number>().as('count'))
+        .executeTakeFirstOrThrow(),
+    ]);
+
+    return { entries: rows.map(toEntry), total: Number(count.count) };
+  }
+}
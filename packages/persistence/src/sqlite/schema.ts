@@ -42,6 +42,71 @@ export interface ActiveCharactersTable {
   character_id: string;
 }
 
+/**
+ * Command audit table schema
+ */
+export interface CommandAuditTable {
+  id: string;
+  discord_user_id: string;
+  guild_id: string | null;
+  channel_id: string | null;
+  command: string;
+  subcommand: string | null;
+  /** JSON-encoded Record<string, string | number | boolean> */
+  options: string;
+  duration_ms: number;
+  /** "ok" | "error" | "blocked" */
+  outcome: string;
+  error_message: string | null;
+  created_at: string;
+}
+
+/**
+ * Guild settings table schema
+ */
+export interface GuildSettingsTable {
+  guild_id: string;
+  /** JSON-encoded string[] of disabled feature slice names */
+  disabled_features: string;
+  gm_channel_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Character macros table schema
+ */
+export interface CharacterMacrosTable {
+  id: string;
+  character_id: string;
+  name: string;
+  /** Lowercase name for case-insensitive uniqueness */
+  name_lower: string;
+  expression: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Roll log table schema
+ */
+export interface RollLogTable {
+  id: string;
+  discord_user_id: string;
+  guild_id: string | null;
+  channel_id: string | null;
+  character_name: string | null;
+  expression: string;
+  breakdown: string;
+  /** JSON-encoded LoggedDiceGroup[] */
+  dice: string;
+  total: number;
+  label: string | null;
+  /** RollVisibility: public, private, gm or blind */
+  visibility: string;
+  created_at: string;
+}
+
 /**
  * Complete database schema
  */
@@ -49,4 +114,8 @@ export interface Database {
   users: UsersTable;
   characters: CharactersTable;
   active_characters: ActiveCharactersTable;
+  command_audit: CommandAuditTable;
+  guild_settings: GuildSettingsTable;
+  character_macros: CharacterMacrosTable;
+  roll_log: RollLogTable;
 }
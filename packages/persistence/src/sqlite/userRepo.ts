@@ -67,6 +67,16 @@ export class SqliteUserRepo implements UserRepo {
     return row ? toUser(row) : null;
   }
 
+  async getByDiscordUserId(discordUserId: string): Promise<User | null> {
+    const row = await this.db
+      .selectFrom('users')
+      .selectAll()
+      .where('discord_user_id', '=', discordUserId)
+      .executeTakeFirst();
+
+    return row ? toUser(row) : null;
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // DM (Dungeon Master) Capability
   // ─────────────────────────────────────────────────────────────────────────────
@@ -1,13 +1,23 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   SqliteClient,
   SqliteUserRepo,
   SqliteCharacterRepo,
+  SqliteAuditRepo,
+  SqliteGuildSettingsRepo,
+  SqliteMacroRepo,
+  SqliteRollLogRepo,
   AttrValue,
 } from '../../src/index.js';
 import type {
   UserRepo,
   CharacterRepo,
+  AuditRepo,
+  GuildSettingsRepo,
+  MacroRepo,
+  RecordCommandParams,
+  RecordRollParams,
+  RollLogRepo,
   User,
   Character,
 } from '../../src/ports/index.js';
@@ -72,6 +82,14 @@ describe('SQLite Repositories', () => {
       expect(found).toBeNull();
     });
 
+    it('should get user by Discord ID without creating one', async () => {
+      expect(await userRepo.getByDiscordUserId('123456789012345678')).toBeNull();
+
+      const created = await userRepo.getOrCreateByDiscordUserId('123456789012345678');
+
+      expect(await userRepo.getByDiscordUserId('123456789012345678')).toEqual(created);
+    });
+
     describe('DM capability', () => {
       it('should default isDm to false for new users', async () => {
         const user = await userRepo.getOrCreateByDiscordUserId('123456789012345678');
@@ -576,4 +594,386 @@ describe('SQLite Repositories', () => {
       });
     });
   });
+
+  describe('AuditRepo', () => {
+    let auditRepo: AuditRepo;
+
+    const command = (
+      overrides: Partial<RecordCommandParams> = {}
+    ): RecordCommandParams => ({
+      discordUserId: 'user-1',
+      guildId: 'guild-1',
+      channelId: 'channel-1',
+      command: 'char',
+      subcommand: 'set',
+      options: { name: 'Bob', attributes: 'hp:10' },
+      durationMs: 12,
+      outcome: 'ok',
+      errorMessage: null,
+      ...overrides,
+    });
+
+    /** Record a command at a fixed time */
+    const recordAt = async (
+      iso: string,
+      overrides: Partial<RecordCommandParams> = {}
+    ) => {
+      vi.setSystemTime(new Date(iso));
+      return auditRepo.record(command(overrides));
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      auditRepo = new SqliteAuditRepo(client.kysely);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should record a command with its options', async () => {
+      const entry = await recordAt('2024-01-15T10:00:00.000Z', {
+        outcome: 'error',
+        errorMessage: 'boom',
+      });
+
+      const [stored] = await auditRepo.query();
+
+      expect(stored).toEqual(entry);
+      expect(stored).toMatchObject({
+        discordUserId: 'user-1',
+        guildId: 'guild-1',
+        command: 'char',
+        subcommand: 'set',
+        options: { name: 'Bob', attributes: 'hp:10' },
+        durationMs: 12,
+        outcome: 'error',
+        errorMessage: 'boom',
+        createdAt: '2024-01-15T10:00:00.000Z',
+      });
+    });
+
+    it('should return entries newest first', async () => {
+      await recordAt('2024-01-15T10:00:00.000Z', { command: 'first' });
+      await recordAt('2024-01-15T11:00:00.000Z', { command: 'second' });
+
+      const entries = await auditRepo.query();
+
+      expect(entries.map((entry) => entry.command)).toEqual(['second', 'first']);
+    });
+
+    it('should filter by user and guild', async () => {
+      await recordAt('2024-01-15T10:00:00.000Z');
+      await recordAt('2024-01-15T10:01:00.000Z', { discordUserId: 'user-2' });
+      await recordAt('2024-01-15T10:02:00.000Z', { guildId: 'guild-2' });
+      await recordAt('2024-01-15T10:03:00.000Z', { guildId: null });
+
+      const byUser = await auditRepo.query({ discordUserId: 'user-2' });
+      const byGuild = await auditRepo.query({ guildId: 'guild-1' });
+
+      expect(byUser).toHaveLength(1);
+      expect(byGuild.map((entry) => entry.discordUserId)).toEqual(['user-2', 'user-1']);
+    });
+
+    it('should filter by time range and limit the results', async () => {
+      await recordAt('2024-01-15T09:00:00.000Z', { command: 'before' });
+      await recordAt('2024-01-15T10:00:00.000Z', { command: 'at-since' });
+      await recordAt('2024-01-15T11:00:00.000Z', { command: 'inside' });
+      await recordAt('2024-01-15T12:00:00.000Z', { command: 'at-until' });
+
+      const entries = await auditRepo.query({
+        since: '2024-01-15T10:00:00.000Z',
+        until: '2024-01-15T12:00:00.000Z',
+      });
+      const limited = await auditRepo.query({ limit: 1 });
+
+      expect(entries.map((entry) => entry.command)).toEqual(['inside', 'at-since']);
+      expect(limited.map((entry) => entry.command)).toEqual(['at-until']);
+    });
+  });
+
+  describe('GuildSettingsRepo', () => {
+    let guildSettingsRepo: GuildSettingsRepo;
+
+    beforeEach(() => {
+      guildSettingsRepo = new SqliteGuildSettingsRepo(client.kysely);
+    });
+
+    it('should return defaults for guilds without settings', async () => {
+      const settings = await guildSettingsRepo.getSettings('guild-1');
+
+      expect(settings).toEqual({
+        guildId: 'guild-1',
+        disabledFeatures: [],
+        gmChannelId: null,
+        updatedAt: null,
+      });
+    });
+
+    it('should disable and re-enable features', async () => {
+      await guildSettingsRepo.setFeatureEnabled({
+        guildId: 'guild-1',
+        feature: 'roll',
+        enabled: false,
+      });
+      const disabled = await guildSettingsRepo.setFeatureEnabled({
+        guildId: 'guild-1',
+        feature: 'char',
+        enabled: false,
+      });
+
+      expect(disabled.disabledFeatures).toEqual(['char', 'roll']);
+      expect(await guildSettingsRepo.getSettings('guild-1')).toEqual(disabled);
+
+      const enabled = await guildSettingsRepo.setFeatureEnabled({
+        guildId: 'guild-1',
+        feature: 'roll',
+        enabled: true,
+      });
+
+      expect(enabled.disabledFeatures).toEqual(['char']);
+      expect(enabled.updatedAt).not.toBeNull();
+    });
+
+    it('should keep settings separate per guild', async () => {
+      await guildSettingsRepo.setFeatureEnabled({
+        guildId: 'guild-1',
+        feature: 'roll',
+        enabled: false,
+      });
+
+      const other = await guildSettingsRepo.getSettings('guild-2');
+
+      expect(other.disabledFeatures).toEqual([]);
+    });
+
+    it('should set and clear the GM channel without touching features', async () => {
+      await guildSettingsRepo.setFeatureEnabled({
+        guildId: 'guild-1',
+        feature: 'roll',
+        enabled: false,
+      });
+
+      const set = await guildSettingsRepo.setGmChannel({
+        guildId: 'guild-1',
+        channelId: 'channel-gm',
+      });
+
+      expect(set.gmChannelId).toBe('channel-gm');
+      expect(set.disabledFeatures).toEqual(['roll']);
+      expect(await guildSettingsRepo.getSettings('guild-1')).toEqual(set);
+
+      const cleared = await guildSettingsRepo.setGmChannel({
+        guildId: 'guild-1',
+        channelId: null,
+      });
+
+      expect(cleared.gmChannelId).toBeNull();
+    });
+  });
+
+  describe('MacroRepo', () => {
+    let macroRepo: MacroRepo;
+    let character: Character;
+
+    beforeEach(async () => {
+      macroRepo = new SqliteMacroRepo(client.kysely);
+      const user = await userRepo.getOrCreateByDiscordUserId('user-1');
+      character = await characterRepo.createCharacter({
+        userId: user.id,
+        guildId: 'guild-1',
+        name: 'Thorin',
+      });
+    });
+
+    it('should create and find macros by name, case-insensitively', async () => {
+      const created = await macroRepo.createMacro({
+        characterId: character.id,
+        name: 'Greataxe',
+        expression: '1d20+{str_mod}+{prof} | 1d12+{str_mod}',
+      });
+
+      expect(created.id).toBeDefined();
+      expect(
+        await macroRepo.getByName({ characterId: character.id, name: 'GREATAXE' })
+      ).toEqual(created);
+      expect(
+        await macroRepo.getByName({ characterId: character.id, name: 'dagger' })
+      ).toBeNull();
+    });
+
+    it('should reject duplicate names on the same character', async () => {
+      await macroRepo.createMacro({
+        characterId: character.id,
+        name: 'greataxe',
+        expression: '1d12',
+      });
+
+      await expect(
+        macroRepo.createMacro({
+          characterId: character.id,
+          name: 'Greataxe',
+          expression: '1d12+3',
+        })
+      ).rejects.toThrow('already exists');
+    });
+
+    it('should list macros sorted by name', async () => {
+      for (const name of ['longbow', 'Greataxe', 'dagger']) {
+        await macroRepo.createMacro({
+          characterId: character.id,
+          name,
+          expression: '1d6',
+        });
+      }
+
+      const macros = await macroRepo.listByCharacter(character.id);
+
+      expect(macros.map((m) => m.name)).toEqual(['dagger', 'Greataxe', 'longbow']);
+    });
+
+    it('should delete macros by name', async () => {
+      await macroRepo.createMacro({
+        characterId: character.id,
+        name: 'dagger',
+        expression: '1d4',
+      });
+
+      expect(
+        await macroRepo.deleteMacro({ characterId: character.id, name: 'Dagger' })
+      ).toBe(true);
+      expect(
+        await macroRepo.deleteMacro({ characterId: character.id, name: 'dagger' })
+      ).toBe(false);
+      expect(await macroRepo.listByCharacter(character.id)).toEqual([]);
+    });
+  });
+
+  describe('RollLogRepo', () => {
+    let rollLogRepo: RollLogRepo;
+
+    const roll = (overrides: Partial<RecordRollParams> = {}): RecordRollParams => ({
+      discordUserId: 'user-1',
+      guildId: 'guild-1',
+      channelId: 'channel-1',
+      characterName: null,
+      expression: '4d6kh3',
+      breakdown: '4d6kh3 [5, ~~2~~, 6, 3]',
+      dice: [
+        {
+          notation: '4d6kh3',
+          sides: 6,
+          dice: [
+            { value: 5, status: 'kept', exploded: false },
+            { value: 2, status: 'dropped', exploded: false },
+            { value: 6, status: 'kept', exploded: false },
+            { value: 3, status: 'kept', exploded: false },
+          ],
+        },
+      ],
+      total: 14,
+      label: null,
+      ...overrides,
+    });
+
+    /** Record a roll at a fixed time */
+    const recordAt = async (iso: string, overrides: Partial<RecordRollParams> = {}) => {
+      vi.setSystemTime(new Date(iso));
+      return rollLogRepo.record(roll(overrides));
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      rollLogRepo = new SqliteRollLogRepo(client.kysely);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should record rolls with their individual dice', async () => {
+      const recorded = await rollLogRepo.record(roll({ label: 'Strength' }));
+
+      const { entries, total } = await rollLogRepo.query({ guildId: 'guild-1' });
+
+      expect(total).toBe(1);
+      expect(entries).toEqual([recorded]);
+      expect(entries[0]?.dice[0]?.dice[1]).toEqual({
+        value: 2,
+        status: 'dropped',
+        exploded: false,
+      });
+      expect(entries[0]?.label).toBe('Strength');
+    });
+
+    it('should get a recorded roll by ID', async () => {
+      const recorded = await rollLogRepo.record(roll({ visibility: 'blind' }));
+
+      expect(await rollLogRepo.getById(recorded.id)).toEqual(recorded);
+      expect(await rollLogRepo.getById('missing')).toBeNull();
+    });
+
+    it('should filter by channel and user, newest first', async () => {
+      await recordAt('2024-01-15T10:00:00.000Z', { total: 1 });
+      await recordAt('2024-01-15T11:00:00.000Z', { total: 2, discordUserId: 'user-2' });
+      await recordAt('2024-01-15T12:00:00.000Z', { total: 3, channelId: 'channel-2' });
+
+      const channel = await rollLogRepo.query({
+        guildId: 'guild-1',
+        channelId: 'channel-1',
+      });
+      const user = await rollLogRepo.query({
+        guildId: 'guild-1',
+        discordUserId: 'user-1',
+      });
+
+      expect(channel.entries.map((e) => e.total)).toEqual([2, 1]);
+      expect(user.entries.map((e) => e.total)).toEqual([3, 1]);
+    });
+
+    it('should page through entries', async () => {
+      for (let total = 1; total <= 5; total++) {
+        await recordAt(`2024-01-15T10:0${total}:00.000Z`, { total });
+      }
+
+      const page = await rollLogRepo.query({ guildId: 'guild-1', limit: 2, offset: 2 });
+
+      expect(page.total).toBe(5);
+      expect(page.entries.map((e) => e.total)).toEqual([3, 2]);
+    });
+
+    it('should keep direct message rolls apart from guild rolls', async () => {
+      await rollLogRepo.record(roll({ guildId: null, channelId: 'dm-1' }));
+      await rollLogRepo.record(roll());
+
+      const dms = await rollLogRepo.query({ guildId: null, channelId: 'dm-1' });
+
+      expect(dms.total).toBe(1);
+      expect(dms.entries[0]?.guildId).toBeNull();
+    });
+
+    it('should record visibility and filter by it', async () => {
+      const secret = await rollLogRepo.record(roll({ visibility: 'blind' }));
+      await rollLogRepo.record(roll());
+
+      const visible = await rollLogRepo.query({ guildId: 'guild-1', visibility: 'public' });
+
+      expect(secret.visibility).toBe('blind');
+      expect(visible.total).toBe(1);
+      expect(visible.entries[0]?.visibility).toBe('public');
+    });
+
+    it('should filter by several visibilities', async () => {
+      await rollLogRepo.record(roll({ visibility: 'private' }));
+      await rollLogRepo.record(roll({ visibility: 'gm' }));
+      await rollLogRepo.record(roll());
+
+      const page = await rollLogRepo.query({
+        guildId: 'guild-1',
+        visibility: ['public', 'gm'],
+      });
+
+      expect(page.entries.map((e) => e.visibility)).toEqual(['public', 'gm']);
+    });
+  });
 });
@@ -1,17 +1,27 @@
-import { Client, GatewayIntentBits, REST, Routes } from 'discord.js';
+import type { Server } from 'node:http';
+import { Client, GatewayIntentBits, REST } from 'discord.js';
 import { createLogger } from '@discord-bot/logger';
-import {
-  SqliteClient,
-  SqliteUserRepo,
-  SqliteCharacterRepo,
-} from '@discord-bot/persistence';
+import { SqliteClient } from '@discord-bot/persistence';
+import { createContainer, type Container } from './core/container.js';
 import { createFeatureRegistry } from './core/featureRegistry.js';
-import { createCommandRouter } from './core/commandRouter.js';
-import { env } from './core/env.js';
-
-// Import all feature slices
-import { diceFeature } from './features/dice/index.js';
-import { charFeature, initCharFeature } from './features/char/index.js';
+import { createCommandRouter, type CommandRouter } from './core/commandRouter.js';
+import {
+  createFileCommandsStore,
+  createMemoryCommandsStore,
+  publishCommands,
+} from './core/commandPublisher.js';
+import {
+  createInteractionEndpoint,
+  createInteractionResponder,
+  createInteractionsServer,
+  createRawInteractionDispatcher,
+} from './core/httpInteractions.js';
+import { createSignatureVerifier } from './core/signature.js';
+import { audit, rateLimit, timing, type Middleware } from './core/middleware.js';
+import { createRateLimiter } from './core/rateLimiter.js';
+import { env, rateLimitConfig } from './core/env.js';
+import { AUDIT_REPO, FEATURE_ENABLED_CHECK, registerCorePorts } from './core/tokens.js';
+import { createFeatures } from './features/index.js';
 
 /**
  * Application context holding all wired dependencies
@@ -21,6 +31,15 @@ export interface AppContext {
   logger: ReturnType<typeof createLogger>;
   registry: ReturnType<typeof createFeatureRegistry>;
   dbClient: SqliteClient;
+  container: Container;
+  /**
+   * Command router, also used to drain in-flight interactions on shutdown
+   */
+  router: CommandRouter;
+  /**
+   * Interactions endpoint server in http mode (not listening yet), null in gateway mode
+   */
+  httpServer: Server | null;
 }
 
 /**
@@ -29,7 +48,7 @@ export interface AppContext {
  * This function:
  * 1. Creates the Discord client
  * 2. Initializes the logger
- * 3. Creates the feature registry
+ * 3. Builds the dependency container and the feature registry
  * 4. Registers all feature slices
  * 5. Sets up the command router
  * 6. Registers slash commands with Discord
@@ -49,9 +68,13 @@ export async function createApp(): Promise<AppContext> {
     dbPath: env.DB_PATH,
   });
 
-  // Create repository instances
-  const userRepo = new SqliteUserRepo(dbClient.kysely);
-  const characterRepo = new SqliteCharacterRepo(dbClient.kysely);
+  // Build the dependency container features resolve their ports from
+  const container = createContainer();
+  registerCorePorts(container, { logger, dbClient });
+
+  // In http mode, initial responses are intercepted and returned over HTTP
+  const responder =
+    env.INTERACTIONS_MODE === 'http' ? createInteractionResponder() : null;
 
   // Create Discord client with required intents
   const client = new Client({
@@ -59,33 +82,58 @@ export async function createApp(): Promise<AppContext> {
       GatewayIntentBits.Guilds,
       // Add more intents as needed for future features
     ],
+    ...(responder && { rest: { makeRequest: responder.makeRequest } }),
   });
 
   // Create feature registry
   const registry = createFeatureRegistry();
 
-  // Initialize character feature with dependencies
-  initCharFeature({ userRepo, characterRepo });
-
   // Register all feature slices
   logger.info('Registering feature slices');
-  registry.register(diceFeature);
-  registry.register(charFeature);
+  for (const feature of createFeatures(container)) {
+    registry.register(feature);
+  }
 
   logger.info(`Registered ${registry.getAll().length} feature(s)`);
 
-  // Create command router
-  const router = createCommandRouter({ registry, logger });
+  // Global middlewares run before each feature's own middlewares
+  const middlewares: Middleware[] = [timing()];
+  if (rateLimitConfig.enabled) {
+    middlewares.push(rateLimit(createRateLimiter(rateLimitConfig)));
+  }
+  // After rate limiting, so rejected spam does not fill the audit log
+  middlewares.push(audit(container.resolve(AUDIT_REPO)));
 
-  // Set up interaction handler
-  client.on('interactionCreate', async (interaction) => {
-    await router(interaction);
+  // Create command router
+  const router = createCommandRouter({
+    registry,
+    logger,
+    middlewares,
+    isFeatureEnabled: container.resolve(FEATURE_ENABLED_CHECK),
   });
 
-  // Set up ready event
-  client.once('ready', () => {
-    logger.info(`Logged in as ${client.user?.tag}`);
-  });
+  let httpServer: Server | null = null;
+
+  if (responder) {
+    // Serve interactions over HTTP through the same router
+    const endpoint = createInteractionEndpoint({
+      verify: createSignatureVerifier(env.DISCORD_PUBLIC_KEY ?? ''),
+      responder,
+      dispatch: createRawInteractionDispatcher(client, router),
+      logger,
+    });
+    httpServer = createInteractionsServer(endpoint, logger);
+  } else {
+    // Set up interaction handler
+    client.on('interactionCreate', async (interaction) => {
+      await router(interaction);
+    });
+
+    // Set up ready event
+    client.once('ready', () => {
+      logger.info(`Logged in as ${client.user?.tag}`);
+    });
+  }
 
   // Register slash commands with Discord
   await registerCommands(logger, registry);
@@ -95,6 +143,9 @@ export async function createApp(): Promise<AppContext> {
     logger,
     registry,
     dbClient,
+    container,
+    router,
+    httpServer,
   };
 }
 
@@ -107,42 +158,33 @@ export async function createApp(): Promise<AppContext> {
  *
  * For development, use DISCORD_GUILD_ID to register commands per-guild.
  * For production, leave DISCORD_GUILD_ID empty to register globally.
+ *
+ * Commands are only published when they changed since the last publish
+ * (see COMMANDS_PUBLISH_MODE for forcing a publish or a dry run).
  */
 async function registerCommands(
   logger: ReturnType<typeof createLogger>,
   registry: ReturnType<typeof createFeatureRegistry>
 ): Promise<void> {
-  const commands = registry
-    .getAll()
-    .map((feature) => feature.command.toJSON());
+  // Slash commands and context menus are registered together
+  const commands = registry.getCommandData();
 
   const rest = new REST({ version: '10' }).setToken(env.DISCORD_TOKEN);
 
   try {
-    if (env.DISCORD_GUILD_ID) {
-      // Register commands for a specific guild (instant, for development)
-      logger.info(
-        `Registering ${commands.length} command(s) to guild ${env.DISCORD_GUILD_ID}`
-      );
-
-      await rest.put(
-        Routes.applicationGuildCommands(env.DISCORD_APP_ID, env.DISCORD_GUILD_ID),
-        { body: commands }
-      );
-
-      logger.info('Guild commands registered successfully');
-    } else {
-      // Register commands globally (takes up to 1 hour, for production)
-      logger.info(
-        `Registering ${commands.length} command(s) globally (may take up to 1 hour)`
-      );
-
-      await rest.put(Routes.applicationCommands(env.DISCORD_APP_ID), {
-        body: commands,
-      });
-
-      logger.info('Global commands registered successfully');
-    }
+    await publishCommands({
+      rest,
+      appId: env.DISCORD_APP_ID,
+      guildId: env.DISCORD_GUILD_ID || undefined,
+      commands,
+      // An in-memory database starts empty every run, so its state should too
+      store:
+        env.DB_PATH === ':memory:'
+          ? createMemoryCommandsStore()
+          : createFileCommandsStore(env.COMMANDS_STATE_PATH),
+      logger,
+      mode: env.COMMANDS_PUBLISH_MODE,
+    });
   } catch (error) {
     logger.error('Failed to register commands', {
       error: error instanceof Error ? error.message : String(error),
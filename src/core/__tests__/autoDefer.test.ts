@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CommandInteraction } from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import { autoDefer } from '../autoDefer.js';
+
+function createLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } as unknown as Logger;
+}
+
+// Minimal interaction stand-in; responses take `latencyMs` to complete
+function createFakeInteraction(latencyMs = 0) {
+  const respond = (apply: () => void) =>
+    vi.fn(async () => {
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs));
+      }
+      apply();
+    });
+
+  const interaction = {
+    commandName: 'char',
+    replied: false,
+    deferred: false,
+    reply: respond(() => {
+      interaction.replied = true;
+    }),
+    deferReply: respond(() => {
+      interaction.deferred = true;
+    }),
+    editReply: respond(() => {
+      interaction.replied = true;
+    }),
+    deleteReply: respond(() => {}),
+    followUp: respond(() => {}),
+  };
+  const original = {
+    reply: interaction.reply,
+    deferReply: interaction.deferReply,
+    editReply: interaction.editReply,
+    deleteReply: interaction.deleteReply,
+    followUp: interaction.followUp,
+  };
+
+  return {
+    interaction,
+    original,
+    asCommand: interaction as unknown as CommandInteraction,
+  };
+}
+
+describe('autoDefer', () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    logger = createLogger();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not defer when the handler replies in time', async () => {
+    const { original, asCommand } = createFakeInteraction();
+    const cancel = autoDefer(asCommand, { delayMs: 2000, ephemeral: false, logger });
+
+    await vi.advanceTimersByTimeAsync(1500);
+    await asCommand.reply({ content: 'Done', ephemeral: true });
+    cancel();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(original.reply).toHaveBeenCalledWith({ content: 'Done', ephemeral: true });
+    expect(original.deferReply).not.toHaveBeenCalled();
+  });
+
+  it('should defer a slow handler and turn its reply into an edit', async () => {
+    const { original, asCommand } = createFakeInteraction();
+    autoDefer(asCommand, { delayMs: 2000, ephemeral: false, logger });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(original.deferReply).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(original.deferReply).toHaveBeenCalledWith({ ephemeral: false });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    await asCommand.reply('1d20 = **17**');
+
+    expect(original.reply).not.toHaveBeenCalled();
+    expect(original.editReply).toHaveBeenCalledWith('1d20 = **17**');
+  });
+
+  it('should defer ephemerally when asked to', async () => {
+    const { original, asCommand } = createFakeInteraction();
+    autoDefer(asCommand, { delayMs: 2000, ephemeral: true, logger });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await asCommand.reply({ content: 'Updated "Bob"', ephemeral: true });
+
+    expect(original.deferReply).toHaveBeenCalledWith({ ephemeral: true });
+    expect(original.editReply).toHaveBeenCalledWith({ content: 'Updated "Bob"' });
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should replace a public defer with an ephemeral follow-up', async () => {
+    const { original, asCommand } = createFakeInteraction();
+    autoDefer(asCommand, { delayMs: 2000, ephemeral: false, logger });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await asCommand.reply({ content: 'Secret', ephemeral: true });
+
+    expect(original.deleteReply).toHaveBeenCalledOnce();
+    expect(original.followUp).toHaveBeenCalledWith({
+      content: 'Secret',
+      ephemeral: true,
+    });
+    expect(original.editReply).not.toHaveBeenCalled();
+    expect(original.deleteReply.mock.invocationCallOrder[0]).toBeLessThan(
+      original.followUp.mock.invocationCallOrder[0]!
+    );
+  });
+
+  it('should wait for a defer still in flight before editing', async () => {
+    const { original, asCommand } = createFakeInteraction(300);
+    autoDefer(asCommand, { delayMs: 2000, ephemeral: false, logger });
+
+    await vi.advanceTimersByTimeAsync(2100);
+    const replied = asCommand.reply('Late');
+    expect(original.editReply).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(600);
+    await replied;
+
+    expect(original.editReply).toHaveBeenCalledWith('Late');
+  });
+
+  it('should not defer while the handler reply is in flight', async () => {
+    const { original, asCommand } = createFakeInteraction(500);
+    autoDefer(asCommand, { delayMs: 2000, ephemeral: false, logger });
+
+    await vi.advanceTimersByTimeAsync(1800);
+    const replied = asCommand.reply('Almost late');
+    await vi.advanceTimersByTimeAsync(500);
+    await replied;
+
+    expect(original.reply).toHaveBeenCalledOnce();
+    expect(original.deferReply).not.toHaveBeenCalled();
+  });
+
+  it('should ignore the handler deferring after an automatic defer', async () => {
+    const { original, asCommand } = createFakeInteraction();
+    autoDefer(asCommand, { delayMs: 2000, ephemeral: false, logger });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await asCommand.deferReply();
+    await asCommand.editReply('Done');
+
+    expect(original.deferReply).toHaveBeenCalledOnce();
+    expect(original.editReply).toHaveBeenCalledWith('Done');
+  });
+
+  it('should fall back to a reply when the defer failed', async () => {
+    const { interaction, original, asCommand } = createFakeInteraction();
+    interaction.deferReply.mockRejectedValueOnce(new Error('Unknown interaction'));
+    autoDefer(asCommand, { delayMs: 2000, ephemeral: false, logger });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await asCommand.reply('Done');
+
+    expect(logger.warn).toHaveBeenCalledWith('Failed to defer reply to /char', {
+      error: 'Unknown interaction',
+    });
+    expect(original.reply).toHaveBeenCalledWith('Done');
+  });
+
+  it('should not defer once cancelled', async () => {
+    const { original, asCommand } = createFakeInteraction();
+    const cancel = autoDefer(asCommand, { delayMs: 2000, ephemeral: false, logger });
+
+    cancel();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(original.deferReply).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  type RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord.js';
+import {
+  diffCommands,
+  formatCommandDiff,
+  hashCommands,
+  isEmptyDiff,
+} from '../commandDiff.js';
+
+type CommandJSON = RESTPostAPIApplicationCommandsJSONBody;
+
+const roll: CommandJSON = {
+  name: 'roll',
+  description: 'Roll dice',
+  options: [
+    {
+      name: 'dice',
+      description: 'Dice notation',
+      type: ApplicationCommandOptionType.String,
+      required: true,
+    },
+  ],
+};
+
+const char: CommandJSON = {
+  name: 'char',
+  description: 'Manage your character',
+  options: [
+    {
+      name: 'set',
+      description: 'Set a field',
+      type: ApplicationCommandOptionType.Subcommand,
+      options: [
+        {
+          name: 'name',
+          description: 'Character name',
+          type: ApplicationCommandOptionType.String,
+        },
+      ],
+    },
+  ],
+};
+
+const menu: CommandJSON = { name: 'Roll this', type: ApplicationCommandType.Message };
+
+describe('hashCommands', () => {
+  it('should not depend on command order or key order', () => {
+    const reordered: CommandJSON = {
+      options: roll.options,
+      description: roll.description,
+      name: roll.name,
+    };
+
+    expect(hashCommands([roll, char, menu])).toBe(hashCommands([menu, char, reordered]));
+  });
+
+  it('should change when an option changes', () => {
+    const changed: CommandJSON = {
+      ...roll,
+      options: [{ ...roll.options![0]!, required: false }] as CommandJSON['options'],
+    };
+
+    expect(hashCommands([roll])).not.toBe(hashCommands([changed]));
+  });
+
+  it('should change when options are reordered', () => {
+    const extra = {
+      name: 'reason',
+      description: 'Why',
+      type: ApplicationCommandOptionType.String,
+    } as const;
+    const a: CommandJSON = { ...roll, options: [...roll.options!, extra] };
+    const b: CommandJSON = { ...roll, options: [extra, ...roll.options!] };
+
+    expect(hashCommands([a])).not.toBe(hashCommands([b]));
+  });
+});
+
+describe('diffCommands', () => {
+  it('should report nothing for identical commands', () => {
+    const diff = diffCommands([roll, char], [char, roll]);
+
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(formatCommandDiff(diff)).toBe('No command changes');
+  });
+
+  it('should report added and removed commands', () => {
+    const diff = diffCommands([roll, menu], [roll, char]);
+
+    expect(diff.added).toEqual(['/char']);
+    expect(diff.removed).toEqual(['Roll this (message menu)']);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('should report changed command fields and nested options', () => {
+    const updated: CommandJSON = {
+      ...char,
+      description: 'Manage characters',
+      options: [
+        {
+          name: 'set',
+          description: 'Set a field',
+          type: ApplicationCommandOptionType.Subcommand,
+          options: [
+            {
+              name: 'name',
+              description: 'Character name',
+              type: ApplicationCommandOptionType.String,
+              required: true,
+            },
+            {
+              name: 'level',
+              description: 'Character level',
+              type: ApplicationCommandOptionType.Integer,
+            },
+          ],
+        },
+        {
+          name: 'show',
+          description: 'Show your character',
+          type: ApplicationCommandOptionType.Subcommand,
+        },
+      ],
+    };
+
+    const diff = diffCommands([char], [updated]);
+
+    expect(diff.changed).toEqual([
+      {
+        command: '/char',
+        changes: [
+          { path: '', kind: 'changed', fields: ['description'] },
+          { path: 'set.name', kind: 'changed', fields: ['required'] },
+          { path: 'set.level', kind: 'added' },
+          { path: 'show', kind: 'added' },
+        ],
+      },
+    ]);
+  });
+
+  it('should report removed options', () => {
+    const diff = diffCommands([roll], [{ ...roll, options: [] }]);
+
+    expect(diff.changed).toEqual([
+      { command: '/roll', changes: [{ path: 'dice', kind: 'removed' }] },
+    ]);
+  });
+
+  it('should tell slash commands and menus with the same name apart', () => {
+    const userMenu: CommandJSON = { name: 'roll', type: ApplicationCommandType.User };
+
+    const diff = diffCommands([roll], [roll, userMenu]);
+
+    expect(diff.added).toEqual(['roll (user menu)']);
+    expect(diff.changed).toEqual([]);
+  });
+});
+
+describe('formatCommandDiff', () => {
+  it('should list one change per line', () => {
+    const diff = diffCommands(
+      [roll, menu],
+      [{ ...roll, description: 'Roll some dice', options: [] }, char]
+    );
+
+    expect(formatCommandDiff(diff)).toBe(
+      [
+        '+ /char',
+        '~ /roll',
+        '    ~ command: description',
+        '    - option dice',
+        '- Roll this (message menu)',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  ApplicationCommandOptionType,
+  type RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import {
+  createFileCommandsStore,
+  createMemoryCommandsStore,
+  publishCommands,
+  type PublishCommandsOptions,
+  type PublishedCommandsStore,
+} from '../commandPublisher.js';
+import { hashCommands } from '../commandDiff.js';
+
+type CommandJSON = RESTPostAPIApplicationCommandsJSONBody;
+
+const roll: CommandJSON = {
+  name: 'roll',
+  description: 'Roll dice',
+  options: [
+    {
+      name: 'dice',
+      description: 'Dice notation',
+      type: ApplicationCommandOptionType.String,
+      required: true,
+    },
+  ],
+};
+
+const ping: CommandJSON = { name: 'ping', description: 'Check the bot is alive' };
+
+function createLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } as unknown as Logger;
+}
+
+describe('publishCommands', () => {
+  let put: ReturnType<typeof vi.fn>;
+  let store: PublishedCommandsStore;
+  let logger: Logger;
+  let options: PublishCommandsOptions;
+
+  beforeEach(() => {
+    put = vi.fn(async () => []);
+    store = createMemoryCommandsStore();
+    logger = createLogger();
+    options = {
+      rest: { put },
+      appId: 'app',
+      guildId: 'guild',
+      commands: [roll],
+      store,
+      logger,
+    };
+  });
+
+  it('should publish to the guild and remember the hash', async () => {
+    const result = await publishCommands(options);
+
+    expect(result.status).toBe('published');
+    expect(result.diff.added).toEqual(['/roll']);
+    expect(put).toHaveBeenCalledWith('/applications/app/guilds/guild/commands', {
+      body: [roll],
+    });
+    expect(await store.load('app:guild')).toMatchObject({
+      hash: hashCommands([roll]),
+      commands: [roll],
+    });
+  });
+
+  it('should publish globally without a guild', async () => {
+    await publishCommands({ ...options, guildId: undefined });
+
+    expect(put).toHaveBeenCalledWith('/applications/app/commands', { body: [roll] });
+    expect(await store.load('app:global')).not.toBeNull();
+    expect(await store.load('app:guild')).toBeNull();
+  });
+
+  it('should skip the PUT when nothing changed', async () => {
+    await publishCommands(options);
+    put.mockClear();
+
+    const result = await publishCommands({ ...options, commands: [{ ...roll }] });
+
+    expect(result.status).toBe('unchanged');
+    expect(put).not.toHaveBeenCalled();
+  });
+
+  it('should publish again when a command changed', async () => {
+    await publishCommands(options);
+    put.mockClear();
+
+    const result = await publishCommands({ ...options, commands: [roll, ping] });
+
+    expect(result.status).toBe('published');
+    expect(result.diff.added).toEqual(['/ping']);
+    expect(put).toHaveBeenCalledTimes(1);
+  });
+
+  it('should always publish in force mode', async () => {
+    await publishCommands(options);
+    put.mockClear();
+
+    const result = await publishCommands({ ...options, mode: 'force' });
+
+    expect(result.status).toBe('published');
+    expect(put).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only log the diff in dry-run mode', async () => {
+    await publishCommands(options);
+    put.mockClear();
+    const saved = await store.load('app:guild');
+
+    const result = await publishCommands({
+      ...options,
+      commands: [ping],
+      mode: 'dry-run',
+    });
+
+    expect(result.status).toBe('dry-run');
+    expect(put).not.toHaveBeenCalled();
+    expect(await store.load('app:guild')).toEqual(saved);
+    expect(logger.info).toHaveBeenLastCalledWith(
+      'Dry run: 1 guild guild command(s), would publish\n+ /ping\n- /roll'
+    );
+  });
+
+  it('should leave the stored state alone when the PUT fails', async () => {
+    put.mockRejectedValueOnce(new Error('429 Too Many Requests'));
+
+    await expect(publishCommands(options)).rejects.toThrow('429 Too Many Requests');
+    expect(await store.load('app:guild')).toBeNull();
+
+    const retry = await publishCommands(options);
+    expect(retry.status).toBe('published');
+  });
+});
+
+describe('createFileCommandsStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'commands-state-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return null before anything was saved', async () => {
+    const store = createFileCommandsStore(join(dir, 'missing.json'));
+
+    expect(await store.load('app:global')).toBeNull();
+  });
+
+  it('should persist each scope across instances', async () => {
+    const path = join(dir, 'nested', 'commands-state.json');
+    const published = {
+      hash: hashCommands([roll]),
+      commands: [roll],
+      publishedAt: '2024-01-01T00:00:00.000Z',
+    };
+
+    await createFileCommandsStore(path).save('app:global', published);
+    await createFileCommandsStore(path).save('app:guild', { ...published, commands: [] });
+
+    const reopened = createFileCommandsStore(path);
+    expect(await reopened.load('app:global')).toEqual(published);
+    expect(await reopened.load('app:guild')).toMatchObject({ commands: [] });
+  });
+});
@@ -0,0 +1,669 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Interaction } from 'discord.js';
+import {
+  ApplicationCommandType,
+  ContextMenuCommandBuilder,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import { createCommandRouter } from '../commandRouter.js';
+import { NotFoundError, PermissionError, ValidationError } from '../errors.js';
+import { createFeatureRegistry } from '../featureRegistry.js';
+import type { Middleware } from '../middleware.js';
+import type { FeatureRegistry, FeatureSlice } from '../types.js';
+
+const silentLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+const GENERIC_ERROR =
+  /^An error occurred while executing this command\. Error ID: `([0-9a-f]{8})`$/;
+
+type FakeKind =
+  | 'command'
+  | 'autocomplete'
+  | 'component'
+  | 'modal'
+  | 'userMenu'
+  | 'messageMenu';
+
+// Minimal interaction stand-in exposing only what the router touches
+function createFakeInteraction(kind: FakeKind, id: string) {
+  const interaction = {
+    id: `interaction-${id}`,
+    commandName: kind === 'component' || kind === 'modal' ? undefined : id,
+    customId: kind === 'component' || kind === 'modal' ? id : undefined,
+    user: { id: 'user-1', tag: 'tester#0001' },
+    guild: null,
+    replied: false,
+    deferred: false,
+    responded: false,
+    isChatInputCommand: () => kind === 'command',
+    isAutocomplete: () => kind === 'autocomplete',
+    isMessageComponent: () => kind === 'component',
+    isModalSubmit: () => kind === 'modal',
+    isUserContextMenuCommand: () => kind === 'userMenu',
+    isMessageContextMenuCommand: () => kind === 'messageMenu',
+    isContextMenuCommand: () => kind === 'userMenu' || kind === 'messageMenu',
+    isRepliable: () => kind !== 'autocomplete',
+    reply: vi.fn(async () => {
+      interaction.replied = true;
+    }),
+    deferReply: vi.fn(async () => {
+      interaction.deferred = true;
+    }),
+    editReply: vi.fn(async () => {
+      interaction.replied = true;
+    }),
+    followUp: vi.fn(async () => undefined),
+    respond: vi.fn(async () => {
+      interaction.responded = true;
+    }),
+  };
+  return interaction;
+}
+
+function route(
+  router: ReturnType<typeof createCommandRouter>,
+  interaction: ReturnType<typeof createFakeInteraction>
+): Promise<void> {
+  return router(interaction as unknown as Interaction);
+}
+
+describe('createCommandRouter', () => {
+  let registry: FeatureRegistry;
+  let feature: FeatureSlice;
+  let router: ReturnType<typeof createCommandRouter>;
+
+  beforeEach(() => {
+    registry = createFeatureRegistry();
+    feature = {
+      name: 'char',
+      command: new SlashCommandBuilder().setName('char').setDescription('Test'),
+      handler: vi.fn(async () => undefined),
+      autocomplete: vi.fn(async () => undefined),
+      components: {
+        show: vi.fn(async () => undefined),
+      },
+      modals: {
+        rename: vi.fn(async () => undefined),
+      },
+      contextMenus: [
+        {
+          type: 'user',
+          command: new ContextMenuCommandBuilder()
+            .setName('Inspect')
+            .setType(ApplicationCommandType.User),
+          handler: vi.fn(async () => undefined),
+        },
+      ],
+    };
+    registry.register(feature);
+    router = createCommandRouter({
+      registry,
+      logger: silentLogger,
+    });
+  });
+
+  describe('slash commands', () => {
+    it('should dispatch to the feature handler', async () => {
+      const interaction = createFakeInteraction('command', 'char');
+
+      await route(router, interaction);
+
+      expect(feature.handler).toHaveBeenCalledWith(interaction);
+    });
+
+    it('should reply ephemerally for unknown commands', async () => {
+      const interaction = createFakeInteraction('command', 'unknown');
+
+      await route(router, interaction);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command is not recognized.',
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('autocomplete', () => {
+    it('should dispatch to the feature autocomplete handler', async () => {
+      const interaction = createFakeInteraction('autocomplete', 'char');
+
+      await route(router, interaction);
+
+      expect(feature.autocomplete).toHaveBeenCalledWith(interaction);
+      expect(feature.handler).not.toHaveBeenCalled();
+    });
+
+    it('should respond with no choices when the feature has no handler', async () => {
+      const interaction = createFakeInteraction('autocomplete', 'unknown');
+
+      await route(router, interaction);
+
+      expect(interaction.respond).toHaveBeenCalledWith([]);
+    });
+
+    it('should respond with no choices when the handler throws', async () => {
+      vi.mocked(feature.autocomplete!).mockRejectedValueOnce(new Error('boom'));
+      const interaction = createFakeInteraction('autocomplete', 'char');
+
+      await route(router, interaction);
+
+      expect(interaction.respond).toHaveBeenCalledWith([]);
+      expect(interaction.reply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('message components', () => {
+    it('should dispatch by feature and action with remaining args', async () => {
+      const interaction = createFakeInteraction('component', 'char:show:stats:abc-123');
+
+      await route(router, interaction);
+
+      expect(feature.components?.['show']).toHaveBeenCalledWith(interaction, [
+        'stats',
+        'abc-123',
+      ]);
+      expect(feature.handler).not.toHaveBeenCalled();
+    });
+
+    it('should reply when the action has no handler', async () => {
+      const interaction = createFakeInteraction('component', 'char:missing');
+
+      await route(router, interaction);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This interaction is no longer supported.',
+        ephemeral: true,
+      });
+    });
+
+    it('should not dispatch inherited object keys as actions', async () => {
+      const interaction = createFakeInteraction('component', 'char:constructor');
+
+      await route(router, interaction);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This interaction is no longer supported.',
+        ephemeral: true,
+      });
+    });
+
+    it('should reply when the custom ID is not namespaced', async () => {
+      const interaction = createFakeInteraction('component', 'legacy');
+
+      await route(router, interaction);
+
+      expect(interaction.reply).toHaveBeenCalledWith(
+        expect.objectContaining({ ephemeral: true })
+      );
+    });
+
+    it('should not dispatch modal handlers for components', async () => {
+      const interaction = createFakeInteraction('component', 'char:rename');
+
+      await route(router, interaction);
+
+      expect(feature.modals?.['rename']).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('modals', () => {
+    it('should dispatch to the modal handler', async () => {
+      const interaction = createFakeInteraction('modal', 'char:rename:abc-123');
+
+      await route(router, interaction);
+
+      expect(feature.modals?.['rename']).toHaveBeenCalledWith(interaction, ['abc-123']);
+    });
+  });
+
+  describe('context menus', () => {
+    it('should dispatch user context menus by name', async () => {
+      const interaction = createFakeInteraction('userMenu', 'Inspect');
+
+      await route(router, interaction);
+
+      expect(feature.contextMenus?.[0]?.handler).toHaveBeenCalledWith(interaction);
+      expect(feature.handler).not.toHaveBeenCalled();
+    });
+
+    it('should not match a menu of a different type', async () => {
+      const interaction = createFakeInteraction('messageMenu', 'Inspect');
+
+      await route(router, interaction);
+
+      expect(feature.contextMenus?.[0]?.handler).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command is not recognized.',
+        ephemeral: true,
+      });
+    });
+
+    it('should run menu middlewares after feature middlewares', async () => {
+      const calls: string[] = [];
+      feature.middlewares = [
+        async (_ctx, next) => {
+          calls.push('feature');
+          await next();
+        },
+      ];
+      feature.contextMenus![0]!.middlewares = [
+        async () => {
+          calls.push('menu');
+        },
+      ];
+
+      await route(router, createFakeInteraction('userMenu', 'Inspect'));
+
+      expect(calls).toEqual(['feature', 'menu']);
+      expect(feature.contextMenus?.[0]?.handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('middlewares', () => {
+    it('should run global middlewares before feature middlewares', async () => {
+      const calls: string[] = [];
+      const track =
+        (name: string): Middleware =>
+        async (_ctx, next) => {
+          calls.push(name);
+          await next();
+        };
+      feature.middlewares = [track('feature')];
+      vi.mocked(feature.handler).mockImplementationOnce(async () => {
+        calls.push('handler');
+      });
+      router = createCommandRouter({
+        registry,
+        logger: silentLogger,
+        middlewares: [track('global')],
+      });
+
+      await route(router, createFakeInteraction('command', 'char'));
+
+      expect(calls).toEqual(['global', 'feature', 'handler']);
+    });
+
+    it('should wrap component handlers', async () => {
+      const seen: string[] = [];
+      feature.middlewares = [
+        async (ctx, next) => {
+          seen.push(ctx.feature.name);
+          await next();
+        },
+      ];
+      const interaction = createFakeInteraction('component', 'char:show');
+
+      await route(router, interaction);
+
+      expect(seen).toEqual(['char']);
+      expect(feature.components?.['show']).toHaveBeenCalled();
+    });
+
+    it('should not call the handler when a middleware short-circuits', async () => {
+      feature.middlewares = [async () => undefined];
+
+      await route(router, createFakeInteraction('command', 'char'));
+
+      expect(feature.handler).not.toHaveBeenCalled();
+    });
+
+    it('should apply error handling to middleware failures', async () => {
+      feature.middlewares = [
+        async () => {
+          throw new Error('middleware failed');
+        },
+      ];
+      const interaction = createFakeInteraction('command', 'char');
+
+      await route(router, interaction);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: expect.stringMatching(GENERIC_ERROR),
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('error handling', () => {
+    beforeEach(() => {
+      vi.mocked(silentLogger.error).mockClear();
+    });
+
+    it('should log unexpected errors under the ID shown to the user', async () => {
+      vi.mocked(feature.handler).mockRejectedValueOnce(new Error('boom'));
+      const interaction = createFakeInteraction('command', 'char');
+
+      await route(router, interaction);
+
+      const [payload] = vi.mocked(interaction.reply).mock.calls[0] as unknown as [
+        { content: string },
+      ];
+      const correlationId = GENERIC_ERROR.exec(payload.content)?.[1];
+      expect(silentLogger.error).toHaveBeenCalledWith(
+        'Error executing command: char',
+        expect.objectContaining({ correlationId, error: 'boom' })
+      );
+    });
+
+    it('should render domain errors as an ephemeral embed', async () => {
+      vi.mocked(feature.handler).mockRejectedValueOnce(
+        new NotFoundError('Character "Bob" not found.', {
+          hint: 'Use `/char show view:characters` to see your characters.',
+        })
+      );
+      const interaction = createFakeInteraction('command', 'char');
+
+      await route(router, interaction);
+
+      const [payload] = vi.mocked(interaction.reply).mock.calls[0] as unknown as [
+        { embeds: EmbedBuilder[]; ephemeral: boolean },
+      ];
+      expect(payload.ephemeral).toBe(true);
+      expect(payload.embeds.map((embed) => embed.toJSON())).toEqual([
+        expect.objectContaining({
+          title: 'Not found',
+          description:
+            'Character "Bob" not found.\n\nUse `/char show view:characters` to see your characters.',
+          footer: { text: 'Error code: NOT_FOUND' },
+        }),
+      ]);
+      expect(silentLogger.error).not.toHaveBeenCalled();
+      expect(silentLogger.debug).toHaveBeenCalledWith(
+        'NOT_FOUND in command: char: Character "Bob" not found.',
+        { user: 'user-1' }
+      );
+    });
+
+    it('should log domain errors at their own level', async () => {
+      vi.mocked(feature.handler).mockRejectedValueOnce(
+        new PermissionError('Only DMs (Dungeon Masters) can use this.')
+      );
+
+      await route(router, createFakeInteraction('command', 'char'));
+
+      expect(silentLogger.info).toHaveBeenCalledWith(
+        'PERMISSION in command: char: Only DMs (Dungeon Masters) can use this.',
+        { user: 'user-1' }
+      );
+      expect(silentLogger.error).not.toHaveBeenCalled();
+    });
+
+    it('should follow up with domain errors after a deferral', async () => {
+      const interaction = createFakeInteraction('command', 'char');
+      vi.mocked(feature.handler).mockImplementationOnce(async () => {
+        interaction.deferred = true;
+        throw new ValidationError('Please provide either `keys` or `prefix`.');
+      });
+
+      await route(router, interaction);
+
+      expect(interaction.reply).not.toHaveBeenCalled();
+      expect(interaction.followUp).toHaveBeenCalledWith({
+        embeds: [expect.any(EmbedBuilder)],
+        ephemeral: true,
+      });
+    });
+
+    it('should reply with a generic error when a handler throws', async () => {
+      vi.mocked(feature.components!['show']!).mockRejectedValueOnce(new Error('boom'));
+      const interaction = createFakeInteraction('component', 'char:show');
+
+      await route(router, interaction);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: expect.stringMatching(GENERIC_ERROR),
+        ephemeral: true,
+      });
+    });
+
+    it('should follow up when the handler already replied before throwing', async () => {
+      const interaction = createFakeInteraction('command', 'char');
+      vi.mocked(feature.handler).mockImplementationOnce(async () => {
+        interaction.replied = true;
+        throw new Error('boom');
+      });
+
+      await route(router, interaction);
+
+      expect(interaction.followUp).toHaveBeenCalledWith({
+        content: expect.stringMatching(GENERIC_ERROR),
+        ephemeral: true,
+      });
+    });
+  });
+
+  describe('auto defer', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const slowReply = (interaction: ReturnType<typeof createFakeInteraction>) => {
+      vi.mocked(feature.handler).mockImplementationOnce(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 2500));
+        // Read at call time: the router replaces reply on the interaction
+        const reply = interaction.reply as (payload: unknown) => Promise<void>;
+        await reply({ content: 'Slow result' });
+      });
+    };
+
+    it('should defer slow commands and edit the deferred reply', async () => {
+      const interaction = createFakeInteraction('command', 'char');
+      const { reply, deferReply } = interaction;
+      slowReply(interaction);
+
+      const routed = route(router, interaction);
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(deferReply).toHaveBeenCalledWith({ ephemeral: false });
+
+      await vi.advanceTimersByTimeAsync(500);
+      await routed;
+
+      expect(reply).not.toHaveBeenCalled();
+      expect(interaction.editReply).toHaveBeenCalledWith({ content: 'Slow result' });
+    });
+
+    it('should defer ephemerally for features that opt in', async () => {
+      feature.deferEphemeral = true;
+      const interaction = createFakeInteraction('command', 'char');
+      slowReply(interaction);
+
+      const routed = route(router, interaction);
+      await vi.advanceTimersByTimeAsync(2500);
+      await routed;
+
+      expect(interaction.deferReply).toHaveBeenCalledWith({ ephemeral: true });
+    });
+
+    it('should ask features whether to defer ephemerally', async () => {
+      const deferEphemeral = vi.fn(() => true);
+      feature.deferEphemeral = deferEphemeral;
+      const interaction = createFakeInteraction('command', 'char');
+      slowReply(interaction);
+
+      const routed = route(router, interaction);
+      await vi.advanceTimersByTimeAsync(2500);
+      await routed;
+
+      expect(deferEphemeral).toHaveBeenCalledWith(interaction);
+      expect(interaction.deferReply).toHaveBeenCalledWith({ ephemeral: true });
+    });
+
+    it('should use the configured delay', async () => {
+      router = createCommandRouter({ registry, logger: silentLogger, autoDeferMs: 500 });
+      const interaction = createFakeInteraction('command', 'char');
+      const { deferReply } = interaction;
+      slowReply(interaction);
+
+      const routed = route(router, interaction);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(deferReply).toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      await routed;
+    });
+
+    it('should not defer when disabled', async () => {
+      router = createCommandRouter({ registry, logger: silentLogger, autoDeferMs: 0 });
+      const interaction = createFakeInteraction('command', 'char');
+      slowReply(interaction);
+
+      const routed = route(router, interaction);
+      await vi.advanceTimersByTimeAsync(2500);
+      await routed;
+
+      expect(interaction.deferReply).not.toHaveBeenCalled();
+    });
+
+    it('should not defer components', async () => {
+      vi.mocked(feature.components!['show']!).mockImplementationOnce(
+        () => new Promise((resolve) => setTimeout(resolve, 2500))
+      );
+      const interaction = createFakeInteraction('component', 'char:show');
+
+      const routed = route(router, interaction);
+      await vi.advanceTimersByTimeAsync(2500);
+      await routed;
+
+      expect(interaction.deferReply).not.toHaveBeenCalled();
+    });
+
+    it('should not defer after the handler finished', async () => {
+      const interaction = createFakeInteraction('command', 'char');
+
+      await route(router, interaction);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(interaction.deferReply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shutdown', () => {
+    it('should count interactions until their handler finishes', async () => {
+      let finish!: () => void;
+      vi.mocked(feature.handler).mockImplementationOnce(
+        () => new Promise<void>((resolve) => (finish = resolve))
+      );
+
+      const pending = route(router, createFakeInteraction('command', 'char'));
+      expect(router.inFlightCount()).toBe(1);
+
+      await vi.waitFor(() => expect(feature.handler).toHaveBeenCalled());
+      finish();
+      await pending;
+      expect(router.inFlightCount()).toBe(0);
+    });
+
+    it('should reject new interactions after it stops accepting', async () => {
+      const command = createFakeInteraction('command', 'char');
+      const autocomplete = createFakeInteraction('autocomplete', 'char');
+
+      router.stopAccepting();
+      await route(router, command);
+      await route(router, autocomplete);
+
+      expect(feature.handler).not.toHaveBeenCalled();
+      expect(feature.autocomplete).not.toHaveBeenCalled();
+      expect(command.reply).toHaveBeenCalledWith({
+        content: 'The bot is restarting. Please try again in a moment.',
+        ephemeral: true,
+      });
+      expect(autocomplete.respond).toHaveBeenCalledWith([]);
+    });
+
+    it('should resolve drain once in-flight handlers finish', async () => {
+      let finish!: () => void;
+      vi.mocked(feature.handler).mockImplementationOnce(
+        () => new Promise<void>((resolve) => (finish = resolve))
+      );
+      void route(router, createFakeInteraction('command', 'char'));
+
+      const drained = router.drain(1000);
+      await vi.waitFor(() => expect(feature.handler).toHaveBeenCalled());
+      finish();
+
+      await expect(drained).resolves.toBe(true);
+    });
+
+    it('should stop waiting at the deadline', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(feature.handler).mockImplementationOnce(() => new Promise(() => {}));
+        void route(router, createFakeInteraction('command', 'char'));
+
+        const drained = router.drain(5000);
+        await vi.advanceTimersByTimeAsync(5000);
+
+        await expect(drained).resolves.toBe(false);
+        expect(router.inFlightCount()).toBe(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('feature toggles', () => {
+    const isFeatureEnabled = vi.fn(async (guildId: string, name: string) => {
+      return !(guildId === 'guild-1' && name === 'char');
+    });
+
+    beforeEach(() => {
+      router = createCommandRouter({ registry, logger: silentLogger, isFeatureEnabled });
+    });
+
+    it('should not run handlers of features disabled in the guild', async () => {
+      const interaction = Object.assign(createFakeInteraction('command', 'char'), {
+        guildId: 'guild-1',
+      });
+
+      await route(router, interaction);
+
+      expect(feature.handler).not.toHaveBeenCalled();
+      expect(isFeatureEnabled).toHaveBeenCalledWith('guild-1', 'char');
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'The "char" feature is disabled in this server.',
+        ephemeral: true,
+      });
+    });
+
+    it('should check components and autocomplete too', async () => {
+      const component = Object.assign(createFakeInteraction('component', 'char:show'), {
+        guildId: 'guild-1',
+      });
+      const autocomplete = Object.assign(createFakeInteraction('autocomplete', 'char'), {
+        guildId: 'guild-1',
+      });
+
+      await route(router, component);
+      await route(router, autocomplete);
+
+      expect(feature.components!['show']).not.toHaveBeenCalled();
+      expect(feature.autocomplete).not.toHaveBeenCalled();
+      expect(autocomplete.respond).toHaveBeenCalledWith([]);
+    });
+
+    it('should run features enabled in the guild and in direct messages', async () => {
+      const otherGuild = Object.assign(createFakeInteraction('command', 'char'), {
+        guildId: 'guild-2',
+      });
+      const direct = Object.assign(createFakeInteraction('command', 'char'), {
+        guildId: null,
+      });
+
+      await route(router, otherGuild);
+      await route(router, direct);
+
+      expect(feature.handler).toHaveBeenCalledTimes(2);
+    });
+  });
+});
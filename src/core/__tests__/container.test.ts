@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createContainer, createToken } from '../container.js';
+
+const NAME = createToken<string>('name');
+const GREETING = createToken<string>('greeting');
+
+describe('createContainer', () => {
+  it('should resolve registered values', () => {
+    const container = createContainer();
+    container.registerValue(NAME, 'Bob');
+
+    expect(container.resolve(NAME)).toBe('Bob');
+  });
+
+  it('should create factory values lazily and only once', () => {
+    const container = createContainer();
+    const factory = vi.fn(() => 'Bob');
+    container.register(NAME, factory);
+
+    expect(factory).not.toHaveBeenCalled();
+    expect(container.resolve(NAME)).toBe('Bob');
+    expect(container.resolve(NAME)).toBe('Bob');
+    expect(factory).toHaveBeenCalledOnce();
+  });
+
+  it('should let factories resolve their own dependencies', () => {
+    const container = createContainer();
+    container.register(GREETING, (c) => `Hello, ${c.resolve(NAME)}`);
+    container.registerValue(NAME, 'Bob');
+
+    expect(container.resolve(GREETING)).toBe('Hello, Bob');
+  });
+
+  it('should throw a descriptive error for unregistered tokens', () => {
+    const container = createContainer();
+
+    expect(() => container.resolve(NAME)).toThrow(
+      'Nothing is registered for "name" in the container.'
+    );
+  });
+
+  it('should reject registering a token twice', () => {
+    const container = createContainer();
+    container.registerValue(NAME, 'Bob');
+
+    expect(() => container.register(NAME, () => 'Alice')).toThrow(
+      '"name" is already registered in the container.'
+    );
+  });
+
+  it('should detect circular dependencies', () => {
+    const container = createContainer();
+    container.register(NAME, (c) => c.resolve(GREETING));
+    container.register(GREETING, (c) => c.resolve(NAME));
+
+    expect(() => container.resolve(NAME)).toThrow('Circular dependency');
+  });
+
+  it('should keep separate containers independent', () => {
+    const first = createContainer();
+    const second = createContainer();
+    first.registerValue(NAME, 'Bob');
+    second.registerValue(NAME, 'Alice');
+
+    expect(first.resolve(NAME)).toBe('Bob');
+    expect(second.resolve(NAME)).toBe('Alice');
+    expect(second.has(GREETING)).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildCustomId, parseCustomId, MAX_CUSTOM_ID_LENGTH } from '../customId.js';
+
+describe('buildCustomId', () => {
+  it('should join feature, action and args with colons', () => {
+    expect(buildCustomId('char', 'show', 'stats', 'abc-123')).toBe(
+      'char:show:stats:abc-123'
+    );
+  });
+
+  it('should build an ID without args', () => {
+    expect(buildCustomId('dice', 'reroll')).toBe('dice:reroll');
+  });
+
+  it('should reject segments containing the separator', () => {
+    expect(() => buildCustomId('char', 'show', 'a:b')).toThrow('must not contain');
+  });
+
+  it('should reject empty feature or action', () => {
+    expect(() => buildCustomId('', 'show')).toThrow('must not be empty');
+    expect(() => buildCustomId('char', '')).toThrow('must not be empty');
+  });
+
+  it('should reject IDs longer than the Discord limit', () => {
+    const longArg = 'x'.repeat(MAX_CUSTOM_ID_LENGTH);
+    expect(() => buildCustomId('char', 'show', longArg)).toThrow('exceeds');
+  });
+});
+
+describe('parseCustomId', () => {
+  it('should parse feature, action and args', () => {
+    expect(parseCustomId('char:show:stats:abc-123')).toEqual({
+      feature: 'char',
+      action: 'show',
+      args: ['stats', 'abc-123'],
+    });
+  });
+
+  it('should parse an ID without args', () => {
+    expect(parseCustomId('dice:reroll')).toEqual({
+      feature: 'dice',
+      action: 'reroll',
+      args: [],
+    });
+  });
+
+  it('should return null for IDs without an action', () => {
+    expect(parseCustomId('legacy-button')).toBeNull();
+    expect(parseCustomId('char:')).toBeNull();
+  });
+
+  it('should round-trip with buildCustomId', () => {
+    const id = buildCustomId('char', 'confirm', 'delete', '42');
+    expect(parseCustomId(id)).toEqual({
+      feature: 'char',
+      action: 'confirm',
+      args: ['delete', '42'],
+    });
+  });
+});
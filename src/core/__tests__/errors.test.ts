@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildErrorEmbed,
+  ConflictError,
+  createCorrelationId,
+  DomainError,
+  formatUnknownError,
+  NotFoundError,
+  PermissionError,
+  RateLimitedError,
+  ValidationError,
+} from '../errors.js';
+
+describe('domain errors', () => {
+  it('should carry stable codes and log levels', () => {
+    const errors = [
+      new NotFoundError('x'),
+      new ValidationError('x'),
+      new PermissionError('x'),
+      new ConflictError('x'),
+      new RateLimitedError('x', 1000),
+    ];
+
+    expect(errors.map((error) => [error.name, error.code, error.logLevel])).toEqual([
+      ['NotFoundError', 'NOT_FOUND', 'debug'],
+      ['ValidationError', 'VALIDATION', 'debug'],
+      ['PermissionError', 'PERMISSION', 'info'],
+      ['ConflictError', 'CONFLICT', 'info'],
+      ['RateLimitedError', 'RATE_LIMITED', 'info'],
+    ]);
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(DomainError);
+      expect(error).toBeInstanceOf(Error);
+    }
+  });
+
+  it('should keep the hint and cause', () => {
+    const cause = new Error('UNIQUE constraint failed');
+    const error = new ConflictError('A character named "Bob" already exists.', {
+      hint: 'Pick another name.',
+      cause,
+    });
+
+    expect(error.hint).toBe('Pick another name.');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('should hint when to retry after a rate limit', () => {
+    expect(new RateLimitedError('Too fast.', 2500).hint).toBe('Try again in 3s.');
+    expect(new RateLimitedError('Too fast.', 2500, { hint: 'Wait.' }).hint).toBe('Wait.');
+  });
+});
+
+describe('buildErrorEmbed', () => {
+  it('should show the message, hint and code', () => {
+    const embed = buildErrorEmbed(
+      new ValidationError('Invalid since "yesterday".', { hint: 'Use a duration.' })
+    ).toJSON();
+
+    expect(embed).toMatchObject({
+      title: 'Invalid input',
+      description: 'Invalid since "yesterday".\n\nUse a duration.',
+      footer: { text: 'Error code: VALIDATION' },
+    });
+  });
+
+  it('should show only the message without a hint', () => {
+    const embed = buildErrorEmbed(new NotFoundError('No such thing.')).toJSON();
+
+    expect(embed.description).toBe('No such thing.');
+  });
+});
+
+describe('unknown errors', () => {
+  it('should create short hex correlation IDs', () => {
+    const id = createCorrelationId();
+
+    expect(id).toMatch(/^[0-9a-f]{8}$/);
+    expect(createCorrelationId()).not.toBe(id);
+  });
+
+  it('should add the correlation ID to the generic message', () => {
+    expect(formatUnknownError('1a2b3c4d')).toBe(
+      'An error occurred while executing this command. Error ID: `1a2b3c4d`'
+    );
+  });
+});
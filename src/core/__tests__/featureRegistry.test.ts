@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApplicationCommandType,
+  ContextMenuCommandBuilder,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { createFeatureRegistry } from '../featureRegistry.js';
+import type { FeatureSlice } from '../types.js';
+
+function createFeature(
+  name: string,
+  overrides: Partial<FeatureSlice> = {}
+): FeatureSlice {
+  return {
+    name,
+    command: new SlashCommandBuilder().setName(name).setDescription('Test'),
+    handler: async () => undefined,
+    ...overrides,
+  };
+}
+
+function createMenu(name: string, type: ApplicationCommandType) {
+  return new ContextMenuCommandBuilder().setName(name).setType(type);
+}
+
+describe('createFeatureRegistry', () => {
+  it('should reject duplicate feature names', () => {
+    const registry = createFeatureRegistry();
+    registry.register(createFeature('roll'));
+
+    expect(() => registry.register(createFeature('roll'))).toThrow(
+      'Feature "roll" is already registered'
+    );
+  });
+
+  describe('context menus', () => {
+    it('should look up context menus by type and name', () => {
+      const registry = createFeatureRegistry();
+      const feature = createFeature('roll', {
+        contextMenus: [
+          {
+            type: 'message',
+            command: createMenu('Roll this', ApplicationCommandType.Message),
+            handler: async () => undefined,
+          },
+        ],
+      });
+      registry.register(feature);
+
+      expect(registry.getContextMenu('message', 'Roll this')?.feature).toBe(feature);
+      expect(registry.getContextMenu('user', 'Roll this')).toBeUndefined();
+    });
+
+    it('should reject a menu whose builder type does not match', () => {
+      const registry = createFeatureRegistry();
+      const feature = createFeature('roll', {
+        contextMenus: [
+          {
+            type: 'user',
+            command: createMenu('Roll this', ApplicationCommandType.Message),
+            handler: async () => undefined,
+          },
+        ],
+      });
+
+      expect(() => registry.register(feature)).toThrow(
+        'must be built with the user type'
+      );
+      expect(registry.getByName('roll')).toBeUndefined();
+    });
+
+    it('should reject duplicate menu names of the same type', () => {
+      const registry = createFeatureRegistry();
+      const menu = () => ({
+        type: 'user' as const,
+        command: createMenu('Inspect', ApplicationCommandType.User),
+        handler: async () => undefined,
+      });
+      registry.register(createFeature('char', { contextMenus: [menu()] }));
+
+      expect(() =>
+        registry.register(createFeature('audit', { contextMenus: [menu()] }))
+      ).toThrow('Context menu "Inspect" is already registered');
+    });
+  });
+
+  describe('getCommandData', () => {
+    it('should include slash commands and context menus', () => {
+      const registry = createFeatureRegistry();
+      registry.register(
+        createFeature('roll', {
+          contextMenus: [
+            {
+              type: 'message',
+              command: createMenu('Roll this', ApplicationCommandType.Message),
+              handler: async () => undefined,
+            },
+          ],
+        })
+      );
+      registry.register(createFeature('char'));
+
+      const data = registry.getCommandData();
+
+      expect(data.map((command) => command.name)).toEqual(['roll', 'Roll this', 'char']);
+      expect(data[1]).toMatchObject({ type: ApplicationCommandType.Message });
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { GuildSettings, GuildSettingsRepo } from '@discord-bot/persistence';
+import {
+  createCachedGuildSettingsRepo,
+  createFeatureEnabledCheck,
+} from '../featureToggles.js';
+
+function settingsOf(guildId: string, disabledFeatures: string[] = []): GuildSettings {
+  return { guildId, disabledFeatures, gmChannelId: null, updatedAt: null };
+}
+
+describe('createCachedGuildSettingsRepo', () => {
+  let repo: GuildSettingsRepo;
+  let cached: GuildSettingsRepo;
+
+  beforeEach(() => {
+    repo = {
+      getSettings: vi.fn(async (guildId: string) => settingsOf(guildId)),
+      setFeatureEnabled: vi.fn(async ({ guildId, feature }) =>
+        settingsOf(guildId, [feature])
+      ),
+      setGmChannel: vi.fn(async ({ guildId }) => settingsOf(guildId)),
+    };
+    cached = createCachedGuildSettingsRepo(repo);
+  });
+
+  it('should read each guild once', async () => {
+    await cached.getSettings('guild-1');
+    await cached.getSettings('guild-1');
+    await cached.getSettings('guild-2');
+
+    expect(repo.getSettings).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve the settings a write returns', async () => {
+    await cached.getSettings('guild-1');
+    await cached.setFeatureEnabled({
+      guildId: 'guild-1',
+      feature: 'dice',
+      enabled: false,
+    });
+
+    const settings = await cached.getSettings('guild-1');
+
+    expect(settings.disabledFeatures).toEqual(['dice']);
+    expect(repo.getSettings).toHaveBeenCalledOnce();
+  });
+
+  it('should not cache failed reads', async () => {
+    vi.mocked(repo.getSettings).mockRejectedValueOnce(new Error('database is locked'));
+
+    await expect(cached.getSettings('guild-1')).rejects.toThrow('database is locked');
+    await expect(cached.getSettings('guild-1')).resolves.toEqual(settingsOf('guild-1'));
+  });
+
+  it('should turn features off for the toggle check', async () => {
+    const isEnabled = createFeatureEnabledCheck(cached);
+    expect(await isEnabled('guild-1', 'dice')).toBe(true);
+
+    await cached.setFeatureEnabled({
+      guildId: 'guild-1',
+      feature: 'dice',
+      enabled: false,
+    });
+
+    expect(await isEnabled('guild-1', 'dice')).toBe(false);
+    expect(await isEnabled('guild-1', 'char')).toBe(true);
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import {
+  Client,
+  InteractionResponseType,
+  MessageFlags,
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+  type RESTOptions,
+} from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import { createCommandRouter } from '../commandRouter.js';
+import { createFeatureRegistry } from '../featureRegistry.js';
+import {
+  createInteractionEndpoint,
+  createInteractionResponder,
+  createInteractionsServer,
+  createRawInteractionDispatcher,
+  type InteractionRequest,
+  type InteractionResponse,
+} from '../httpInteractions.js';
+import { createSignatureVerifier } from '../signature.js';
+
+const silentLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicKeyHex = Buffer.from(
+  publicKey.export({ format: 'jwk' }).x!,
+  'base64url'
+).toString('hex');
+
+const loadFixture = (name: string): string =>
+  readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8');
+
+/**
+ * Build a request signed like Discord signs them
+ */
+function signedRequest(
+  body: string,
+  timestamp = String(Math.floor(Date.now() / 1000))
+): InteractionRequest {
+  const signature = sign(null, Buffer.from(timestamp + body), privateKey).toString('hex');
+  return {
+    headers: { 'x-signature-ed25519': signature, 'x-signature-timestamp': timestamp },
+    body,
+  };
+}
+
+type PingHandler = (interaction: ChatInputCommandInteraction) => Promise<void>;
+
+describe('HTTP interactions endpoint', () => {
+  let client: Client;
+  let passthrough: ReturnType<typeof vi.fn>;
+  let handlePing: PingHandler;
+  let endpoint: (request: InteractionRequest) => Promise<InteractionResponse>;
+
+  beforeEach(() => {
+    passthrough = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ id: '2000000000000000001' }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    const responder = createInteractionResponder({
+      passthrough: passthrough as unknown as RESTOptions['makeRequest'],
+    });
+    client = new Client({ intents: [], rest: { makeRequest: responder.makeRequest } });
+
+    handlePing = async (interaction) => {
+      await interaction.reply('pong');
+    };
+    const registry = createFeatureRegistry();
+    registry.register({
+      name: 'ping',
+      command: new SlashCommandBuilder()
+        .setName('ping')
+        .setDescription('Ping')
+        .addStringOption((o) => o.setName('mode').setDescription('Mode')),
+      handler: (interaction) => handlePing(interaction),
+    });
+    const router = createCommandRouter({ registry, logger: silentLogger });
+
+    endpoint = createInteractionEndpoint({
+      verify: createSignatureVerifier(publicKeyHex),
+      responder,
+      dispatch: createRawInteractionDispatcher(client, router),
+      logger: silentLogger,
+      deferAfterMs: 20,
+    });
+  });
+
+  afterEach(async () => {
+    await client.destroy();
+  });
+
+  /** Requests the responder forwarded to Discord, as [method, path, body] */
+  const forwarded = () =>
+    passthrough.mock.calls.map(([url, init]: [string, RequestInit]) => [
+      init.method,
+      decodeURIComponent(new URL(url).pathname).replace(/^\/api\/v\d+/, ''),
+      init.body ? JSON.parse(init.body as string) : undefined,
+    ]);
+
+  describe('signatures', () => {
+    it('should reject requests without signature headers', async () => {
+      const response = await endpoint({ headers: {}, body: loadFixture('ping') });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject requests with an invalid signature', async () => {
+      const request = signedRequest(loadFixture('ping'));
+      request.body = request.body.replace('ping-token', 'other-token');
+
+      const response = await endpoint(request);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject requests with a stale timestamp', async () => {
+      const stale = String(Math.floor(Date.now() / 1000) - 60);
+
+      const response = await endpoint(signedRequest(loadFixture('ping'), stale));
+
+      expect(response).toEqual({
+        status: 401,
+        body: { error: 'Request timestamp out of range' },
+      });
+    });
+
+    it('should reject requests with a timestamp in the future', async () => {
+      const future = String(Math.floor(Date.now() / 1000) + 60);
+
+      const response = await endpoint(signedRequest(loadFixture('ping'), future));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject requests with a timestamp that is not a number', async () => {
+      const response = await endpoint(signedRequest(loadFixture('ping'), 'yesterday'));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject signed bodies that are not JSON', async () => {
+      const response = await endpoint(signedRequest('not json'));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  it('should answer PING with PONG', async () => {
+    const response = await endpoint(signedRequest(loadFixture('ping')));
+
+    expect(response).toEqual({
+      status: 200,
+      body: { type: InteractionResponseType.Pong },
+    });
+  });
+
+  it('should return an immediate reply as the HTTP response', async () => {
+    let mode: string | null = null;
+    handlePing = async (interaction) => {
+      mode = interaction.options.getString('mode');
+      await interaction.reply({ content: 'pong', ephemeral: true });
+    };
+
+    const response = await endpoint(signedRequest(loadFixture('chat-input')));
+
+    expect(mode).toBe('fast');
+    expect(response).toEqual({
+      status: 200,
+      body: {
+        type: InteractionResponseType.ChannelMessageWithSource,
+        data: expect.objectContaining({ content: 'pong', flags: MessageFlags.Ephemeral }),
+      },
+    });
+    expect(passthrough).not.toHaveBeenCalled();
+  });
+
+  it('should return a handler deferral and send the edit through the webhook', async () => {
+    handlePing = async (interaction) => {
+      await interaction.deferReply();
+      await interaction.editReply('done');
+    };
+
+    const response = await endpoint(signedRequest(loadFixture('chat-input')));
+    await vi.waitFor(() => expect(passthrough).toHaveBeenCalled());
+
+    expect(response.body).toEqual(
+      expect.objectContaining({
+        type: InteractionResponseType.DeferredChannelMessageWithSource,
+      })
+    );
+    expect(forwarded()).toEqual([
+      [
+        'PATCH',
+        '/webhooks/1000000000000000001/chat-input-token/messages/@original',
+        expect.objectContaining({ content: 'done' }),
+      ],
+    ]);
+  });
+
+  describe('slow handlers', () => {
+    let release: () => void;
+
+    beforeEach(() => {
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      handlePing = async (interaction) => {
+        await gate;
+        await interaction.reply('late pong');
+      };
+    });
+
+    it('should defer at the deadline and edit the deferral with the late reply', async () => {
+      const response = await endpoint(signedRequest(loadFixture('chat-input')));
+
+      expect(response.body).toEqual({
+        type: InteractionResponseType.DeferredChannelMessageWithSource,
+      });
+
+      release();
+      await vi.waitFor(() => expect(passthrough).toHaveBeenCalled());
+
+      expect(forwarded()).toEqual([
+        [
+          'PATCH',
+          '/webhooks/1000000000000000001/chat-input-token/messages/@original',
+          expect.objectContaining({ content: 'late pong' }),
+        ],
+      ]);
+    });
+
+    it('should replace the deferral with a follow-up for late ephemeral replies', async () => {
+      handlePing = async (interaction) => {
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        await interaction.reply({ content: 'secret', ephemeral: true });
+      };
+
+      await endpoint(signedRequest(loadFixture('chat-input')));
+      await vi.waitFor(() => expect(passthrough).toHaveBeenCalledTimes(2));
+
+      expect(forwarded()).toEqual([
+        [
+          'DELETE',
+          '/webhooks/1000000000000000001/chat-input-token/messages/@original',
+          undefined,
+        ],
+        [
+          'POST',
+          '/webhooks/1000000000000000001/chat-input-token',
+          expect.objectContaining({ content: 'secret', flags: MessageFlags.Ephemeral }),
+        ],
+      ]);
+    });
+  });
+
+  it('should answer for handlers that never respond', async () => {
+    handlePing = async () => undefined;
+
+    const response = await endpoint(signedRequest(loadFixture('chat-input')));
+
+    expect(response.body).toEqual({
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: {
+        content: 'This interaction did not produce a response.',
+        flags: MessageFlags.Ephemeral,
+      },
+    });
+  });
+
+  describe('createInteractionsServer', () => {
+    it('should serve the endpoint over HTTP', async () => {
+      const server = createInteractionsServer(endpoint, silentLogger);
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        const request = signedRequest(loadFixture('ping'));
+        const ok = await fetch(`http://127.0.0.1:${port}/interactions`, {
+          method: 'POST',
+          headers: request.headers as Record<string, string>,
+          body: request.body,
+        });
+        const notFound = await fetch(`http://127.0.0.1:${port}/other`, {
+          method: 'POST',
+        });
+
+        expect(ok.status).toBe(200);
+        expect(await ok.json()).toEqual({ type: InteractionResponseType.Pong });
+        expect(notFound.status).toBe(404);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+});
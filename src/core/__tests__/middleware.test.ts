@@ -0,0 +1,464 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PermissionFlagsBits,
+  PermissionsBitField,
+  SlashCommandBuilder,
+} from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import {
+  composeMiddleware,
+  before,
+  after,
+  guildOnly,
+  dmOnly,
+  timing,
+  mapErrors,
+  rateLimit,
+  requirePermission,
+  audit,
+  type Middleware,
+  type MiddlewareContext,
+} from '../middleware.js';
+import type { AuditRepo } from '@discord-bot/persistence';
+import {
+  NotFoundError,
+  PermissionError,
+  RateLimitedError,
+  ValidationError,
+} from '../errors.js';
+import { createRateLimiter } from '../rateLimiter.js';
+import type { RoutedInteraction } from '../types.js';
+
+function createContext(overrides: { guildId?: string | null; replied?: boolean } = {}) {
+  const interaction = {
+    guildId: overrides.guildId === undefined ? 'guild-1' : overrides.guildId,
+    user: { id: 'user-1' },
+    replied: overrides.replied ?? false,
+    deferred: false,
+    reply: vi.fn(async () => undefined),
+    followUp: vi.fn(async () => undefined),
+  };
+  const ctx: MiddlewareContext = {
+    interaction: interaction as unknown as RoutedInteraction,
+    feature: {
+      name: 'test',
+      command: new SlashCommandBuilder().setName('test').setDescription('Test'),
+      handler: vi.fn(async () => undefined),
+    },
+    logger: {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as Logger,
+    state: new Map(),
+  };
+  return { ctx, interaction };
+}
+
+describe('composeMiddleware', () => {
+  it('should run middlewares in order around the handler', async () => {
+    const calls: string[] = [];
+    const track =
+      (name: string): Middleware =>
+      async (_ctx, next) => {
+        calls.push(`${name}:before`);
+        await next();
+        calls.push(`${name}:after`);
+      };
+    const { ctx } = createContext();
+
+    await composeMiddleware([track('a'), track('b')])(ctx, async () => {
+      calls.push('handler');
+    });
+
+    expect(calls).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+  });
+
+  it('should call the handler directly when there are no middlewares', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = createContext();
+
+    await composeMiddleware([])(ctx, handler);
+
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should stop the chain when a middleware does not call next', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = createContext();
+
+    await composeMiddleware([async () => undefined])(ctx, handler);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject when next is called twice', async () => {
+    const { ctx } = createContext();
+    const twice: Middleware = async (_ctx, next) => {
+      await next();
+      await next();
+    };
+
+    await expect(composeMiddleware([twice])(ctx, async () => undefined)).rejects.toThrow(
+      'next() called multiple times'
+    );
+  });
+
+  it('should share state between middlewares', async () => {
+    const { ctx } = createContext();
+    const seen: unknown[] = [];
+
+    await composeMiddleware([
+      before((c) => {
+        c.state.set('startedBy', 'first');
+      }),
+      before((c) => {
+        seen.push(c.state.get('startedBy'));
+      }),
+    ])(ctx, async () => undefined);
+
+    expect(seen).toEqual(['first']);
+  });
+});
+
+describe('before / after', () => {
+  it('should skip the rest of the chain when before returns false', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = createContext();
+
+    await composeMiddleware([before(() => false)])(ctx, handler);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should run after hooks only once the handler succeeds', async () => {
+    const hook = vi.fn();
+    const { ctx } = createContext();
+
+    await composeMiddleware([after(hook)])(ctx, async () => undefined);
+    expect(hook).toHaveBeenCalledOnce();
+
+    await expect(
+      composeMiddleware([after(hook)])(ctx, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(hook).toHaveBeenCalledOnce();
+  });
+});
+
+describe('guildOnly', () => {
+  it('should continue inside a guild', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = createContext();
+
+    await composeMiddleware([guildOnly()])(ctx, handler);
+
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should throw a validation error outside a guild', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = createContext({ guildId: null });
+
+    await expect(composeMiddleware([guildOnly()])(ctx, handler)).rejects.toThrow(
+      new ValidationError('This command can only be used in a server.')
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('dmOnly', () => {
+  it('should continue for DMs', async () => {
+    const handler = vi.fn(async () => undefined);
+    const isDm = vi.fn(async () => true);
+    const { ctx } = createContext();
+
+    await composeMiddleware([dmOnly(isDm)])(ctx, handler);
+
+    expect(isDm).toHaveBeenCalledWith('user-1');
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should throw a permission error for non-DMs', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = createContext();
+
+    await expect(
+      composeMiddleware([dmOnly(async () => false)])(ctx, handler)
+    ).rejects.toBeInstanceOf(PermissionError);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('requirePermission', () => {
+  const withPermissions = (permissions: bigint | null) => {
+    const { ctx, interaction } = createContext();
+    Object.assign(interaction, {
+      memberPermissions:
+        permissions === null ? null : new PermissionsBitField(permissions),
+    });
+    return { ctx, interaction };
+  };
+
+  it('should continue for members with the permission', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = withPermissions(
+      PermissionFlagsBits.ManageGuild | PermissionFlagsBits.SendMessages
+    );
+
+    await composeMiddleware([
+      requirePermission(PermissionFlagsBits.ManageGuild, 'Manage Server'),
+    ])(ctx, handler);
+
+    expect(handler).toHaveBeenCalledOnce();
+  });
+
+  it('should throw a permission error for members without it', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = withPermissions(PermissionFlagsBits.SendMessages);
+
+    await expect(
+      composeMiddleware([
+        requirePermission(PermissionFlagsBits.ManageGuild, 'Manage Server'),
+      ])(ctx, handler)
+    ).rejects.toThrow(
+      new PermissionError('You need the Manage Server permission to use this.')
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should stop outside of a server', async () => {
+    const handler = vi.fn(async () => undefined);
+    const { ctx } = withPermissions(null);
+
+    await expect(
+      composeMiddleware([
+        requirePermission(PermissionFlagsBits.ManageGuild, 'Manage Server'),
+      ])(ctx, handler)
+    ).rejects.toBeInstanceOf(PermissionError);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('rateLimit', () => {
+  it('should throw a rate limited error once the limit is hit', async () => {
+    const limiter = createRateLimiter(
+      {
+        user: { capacity: 1, refillIntervalMs: 2500 },
+        guild: { capacity: 10, refillIntervalMs: 100 },
+        command: { capacity: 10, refillIntervalMs: 100 },
+      },
+      () => 0
+    );
+    const handler = vi.fn(async () => undefined);
+    const run = composeMiddleware([rateLimit(limiter)]);
+
+    const first = createContext();
+    await run(first.ctx, handler);
+    const second = createContext();
+    const error = await run(second.ctx, handler).catch((e: unknown) => e);
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({ retryAfterMs: 2500, hint: 'Try again in 3s.' });
+  });
+});
+
+describe('timing', () => {
+  it('should log the duration even when the handler fails', async () => {
+    const { ctx } = createContext();
+
+    await expect(
+      composeMiddleware([timing()])(ctx, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(ctx.logger.debug).toHaveBeenCalledWith(
+      expect.stringMatching(/^Handled test in \d+ms$/),
+      { outcome: 'error' }
+    );
+  });
+});
+
+describe('mapErrors', () => {
+  class KnownError extends Error {}
+  const mapper = (error: unknown) =>
+    error instanceof KnownError ? `Mapped: ${error.message}` : undefined;
+
+  it('should reply with the mapped message', async () => {
+    const { ctx, interaction } = createContext();
+
+    await composeMiddleware([mapErrors(mapper)])(ctx, async () => {
+      throw new KnownError('nope');
+    });
+
+    expect(interaction.reply).toHaveBeenCalledWith({
+      content: 'Mapped: nope',
+      ephemeral: true,
+    });
+  });
+
+  it('should follow up when the interaction was already answered', async () => {
+    const { ctx, interaction } = createContext({ replied: true });
+
+    await composeMiddleware([mapErrors(mapper)])(ctx, async () => {
+      throw new KnownError('nope');
+    });
+
+    expect(interaction.followUp).toHaveBeenCalledWith({
+      content: 'Mapped: nope',
+      ephemeral: true,
+    });
+  });
+
+  it('should rethrow unmapped errors', async () => {
+    const { ctx } = createContext();
+
+    await expect(
+      composeMiddleware([mapErrors(mapper)])(ctx, async () => {
+        throw new Error('unknown');
+      })
+    ).rejects.toThrow('unknown');
+  });
+});
+
+describe('audit', () => {
+  function createCommandContext() {
+    const { ctx, interaction } = createContext();
+    Object.assign(interaction, {
+      commandName: 'char',
+      channelId: 'channel-1',
+      isChatInputCommand: () => true,
+      isContextMenuCommand: () => false,
+      options: {
+        getSubcommandGroup: () => null,
+        getSubcommand: () => 'set',
+        data: [
+          {
+            name: 'set',
+            type: 1,
+            options: [
+              { name: 'name', type: 3, value: 'Bob' },
+              { name: 'attributes', type: 3, value: '{hp:10}' },
+            ],
+          },
+        ],
+      },
+    });
+    return { ctx, interaction };
+  }
+
+  const createRepo = () =>
+    ({ record: vi.fn(async () => undefined), query: vi.fn() }) as unknown as AuditRepo & {
+      record: ReturnType<typeof vi.fn>;
+    };
+
+  it('should record the command with its flattened options', async () => {
+    const repo = createRepo();
+    const { ctx } = createCommandContext();
+
+    await composeMiddleware([audit(repo)])(ctx, async () => undefined);
+
+    expect(repo.record).toHaveBeenCalledWith({
+      discordUserId: 'user-1',
+      guildId: 'guild-1',
+      channelId: 'channel-1',
+      command: 'char',
+      subcommand: 'set',
+      options: { name: 'Bob', attributes: '{hp:10}' },
+      durationMs: expect.any(Number),
+      outcome: 'ok',
+      errorMessage: null,
+    });
+  });
+
+  it('should record failures and rethrow', async () => {
+    const repo = createRepo();
+    const { ctx } = createCommandContext();
+
+    await expect(
+      composeMiddleware([audit(repo)])(ctx, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(repo.record).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'error', errorMessage: 'boom' })
+    );
+  });
+
+  it('should record commands stopped by a later middleware as blocked', async () => {
+    const repo = createRepo();
+    const { ctx } = createCommandContext();
+    const handler = vi.fn(async () => undefined);
+
+    await composeMiddleware([audit(repo), async () => undefined])(ctx, handler);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(repo.record).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'blocked' })
+    );
+  });
+
+  it('should record commands rejected by a later guard as blocked', async () => {
+    const repo = createRepo();
+    const { ctx } = createCommandContext();
+
+    await expect(
+      composeMiddleware([audit(repo), dmOnly(async () => false)])(ctx, async () => {
+        /* unreachable */
+      })
+    ).rejects.toBeInstanceOf(PermissionError);
+
+    expect(repo.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outcome: 'blocked',
+        errorMessage: 'Only DMs (Dungeon Masters) can use this.',
+      })
+    );
+  });
+
+  it('should record domain errors thrown by the handler as errors', async () => {
+    const repo = createRepo();
+    const { ctx } = createCommandContext();
+
+    await expect(
+      composeMiddleware([audit(repo)])(ctx, async () => {
+        throw new NotFoundError('Character "Bob" not found.');
+      })
+    ).rejects.toBeInstanceOf(NotFoundError);
+
+    expect(repo.record).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'error' })
+    );
+  });
+
+  it('should not fail the command when recording fails', async () => {
+    const repo = createRepo();
+    repo.record.mockRejectedValueOnce(new Error('disk full'));
+    const { ctx } = createCommandContext();
+
+    await composeMiddleware([audit(repo)])(ctx, async () => undefined);
+
+    expect(ctx.logger.warn).toHaveBeenCalledWith('Failed to record command audit', {
+      command: 'char',
+      error: 'disk full',
+    });
+  });
+
+  it('should not record components', async () => {
+    const repo = createRepo();
+    const { ctx, interaction } = createContext();
+    Object.assign(interaction, {
+      isChatInputCommand: () => false,
+      isContextMenuCommand: () => false,
+    });
+
+    await composeMiddleware([audit(repo)])(ctx, async () => undefined);
+
+    expect(repo.record).not.toHaveBeenCalled();
+  });
+});
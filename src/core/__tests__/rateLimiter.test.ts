@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRateLimiter, type RateLimiter, type RateLimits } from '../rateLimiter.js';
+
+const limits: RateLimits = {
+  user: { capacity: 3, refillIntervalMs: 1000 },
+  guild: { capacity: 5, refillIntervalMs: 500 },
+  command: { capacity: 2, refillIntervalMs: 2000 },
+};
+
+const key = { userId: 'user-1', guildId: 'guild-1', command: 'roll' };
+
+describe('createRateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    now = 0;
+    limiter = createRateLimiter(limits, () => now);
+  });
+
+  it('should allow a burst up to the command capacity', () => {
+    expect(limiter.consume(key)).toEqual({ allowed: true });
+    expect(limiter.consume(key)).toEqual({ allowed: true });
+    expect(limiter.consume(key)).toEqual({
+      allowed: false,
+      scope: 'command',
+      retryAfterMs: 2000,
+    });
+  });
+
+  it('should refill tokens as time passes', () => {
+    limiter.consume(key);
+    limiter.consume(key);
+
+    now = 1999;
+    expect(limiter.consume(key).allowed).toBe(false);
+
+    now = 2000;
+    expect(limiter.consume(key).allowed).toBe(true);
+  });
+
+  it('should report the remaining wait for a partly refilled bucket', () => {
+    limiter.consume(key);
+    limiter.consume(key);
+
+    now = 500;
+    expect(limiter.consume(key)).toEqual({
+      allowed: false,
+      scope: 'command',
+      retryAfterMs: 1500,
+    });
+  });
+
+  it('should limit a user across commands', () => {
+    limiter.consume({ ...key, command: 'roll' });
+    limiter.consume({ ...key, command: 'char' });
+    limiter.consume({ ...key, command: 'macro' });
+
+    expect(limiter.consume({ ...key, command: 'audit' })).toEqual({
+      allowed: false,
+      scope: 'user',
+      retryAfterMs: 1000,
+    });
+  });
+
+  it('should limit a guild across users', () => {
+    for (let i = 0; i < 5; i++) {
+      expect(limiter.consume({ ...key, userId: `user-${i}` }).allowed).toBe(true);
+    }
+
+    expect(limiter.consume({ ...key, userId: 'user-9' })).toEqual({
+      allowed: false,
+      scope: 'guild',
+      retryAfterMs: 500,
+    });
+  });
+
+  it('should not apply a guild bucket in direct messages', () => {
+    for (let i = 0; i < 10; i++) {
+      expect(
+        limiter.consume({ ...key, userId: `user-${i}`, guildId: null }).allowed
+      ).toBe(true);
+    }
+  });
+
+  it('should not take tokens when the request is rejected', () => {
+    limiter.consume({ ...key, command: 'roll' });
+    limiter.consume({ ...key, command: 'roll' });
+
+    // Rejected by the command bucket; the user bucket must keep its last token
+    limiter.consume({ ...key, command: 'roll' });
+    limiter.consume({ ...key, command: 'roll' });
+
+    expect(limiter.consume({ ...key, command: 'char' }).allowed).toBe(true);
+  });
+
+  it('should report the longest wait when several buckets are empty', () => {
+    const tight = createRateLimiter(
+      {
+        user: { capacity: 1, refillIntervalMs: 5000 },
+        guild: { capacity: 10, refillIntervalMs: 100 },
+        command: { capacity: 1, refillIntervalMs: 1000 },
+      },
+      () => now
+    );
+    tight.consume(key);
+
+    expect(tight.consume(key)).toEqual({
+      allowed: false,
+      scope: 'user',
+      retryAfterMs: 5000,
+    });
+  });
+
+  it('should forget all buckets on reset', () => {
+    limiter.consume(key);
+    limiter.consume(key);
+
+    limiter.reset();
+
+    expect(limiter.consume(key).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Logger } from '@discord-bot/logger';
+import { createShutdown, type ShutdownConfig } from '../shutdown.js';
+
+const silentLogger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+describe('createShutdown', () => {
+  let calls: string[];
+  let config: ShutdownConfig;
+
+  beforeEach(() => {
+    calls = [];
+    const track =
+      <T>(name: string, result?: T) =>
+      async () => {
+        calls.push(name);
+        return result as T;
+      };
+
+    config = {
+      router: {
+        stopAccepting: vi.fn(() => {
+          calls.push('stopAccepting');
+        }),
+        drain: vi.fn(track('drain', true)),
+        inFlightCount: vi.fn(() => 0),
+      },
+      client: { destroy: vi.fn(track('client.destroy')) },
+      dbClient: { close: vi.fn(track('db.close')) },
+      httpServer: {
+        close: vi.fn(() => {
+          calls.push('httpServer.close');
+          return undefined as never;
+        }),
+      },
+      logger: silentLogger,
+      timeoutMs: 250,
+    };
+  });
+
+  it('should stop accepting, drain, then close Discord and the database', async () => {
+    const exitCode = await createShutdown(config)('SIGTERM');
+
+    expect(exitCode).toBe(0);
+    expect(calls).toEqual([
+      'stopAccepting',
+      'httpServer.close',
+      'drain',
+      'client.destroy',
+      'db.close',
+    ]);
+    expect(config.router.drain).toHaveBeenCalledWith(250);
+  });
+
+  it('should still close the database when the deadline is reached', async () => {
+    vi.mocked(config.router.drain).mockResolvedValueOnce(false);
+
+    const exitCode = await createShutdown(config)('SIGINT');
+
+    expect(exitCode).toBe(1);
+    expect(config.dbClient.close).toHaveBeenCalled();
+  });
+
+  it('should exit with a failure code when closing the database fails', async () => {
+    vi.mocked(config.dbClient.close).mockRejectedValueOnce(new Error('locked'));
+
+    const exitCode = await createShutdown(config)('SIGTERM');
+
+    expect(exitCode).toBe(1);
+    expect(silentLogger.error).toHaveBeenCalledWith('Failed to close the database', {
+      error: 'locked',
+    });
+  });
+
+  it('should run only once when signalled repeatedly', async () => {
+    const shutdown = createShutdown(config);
+
+    const [first, second] = await Promise.all([shutdown('SIGINT'), shutdown('SIGINT')]);
+
+    expect(first).toBe(0);
+    expect(second).toBe(0);
+    expect(config.dbClient.close).toHaveBeenCalledTimes(1);
+  });
+});
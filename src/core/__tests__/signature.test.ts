@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { createSignatureVerifier, importPublicKey } from '../signature.js';
+
+const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+const publicKeyHex = Buffer.from(
+  publicKey.export({ format: 'jwk' }).x!,
+  'base64url'
+).toString('hex');
+
+function signBody(timestamp: string, body: string): string {
+  return sign(null, Buffer.from(timestamp + body), privateKey).toString('hex');
+}
+
+describe('createSignatureVerifier', () => {
+  const verify = createSignatureVerifier(publicKeyHex);
+  const body = '{"type":1}';
+  const timestamp = '1700000000';
+
+  it('should accept a valid signature', () => {
+    expect(verify(signBody(timestamp, body), timestamp, body)).toBe(true);
+    expect(verify(signBody(timestamp, body), timestamp, Buffer.from(body))).toBe(true);
+  });
+
+  it('should reject a tampered body', () => {
+    expect(verify(signBody(timestamp, body), timestamp, '{"type":2}')).toBe(false);
+  });
+
+  it('should reject a different timestamp', () => {
+    expect(verify(signBody(timestamp, body), '1700000001', body)).toBe(false);
+  });
+
+  it('should reject malformed signatures', () => {
+    expect(verify('not-hex', timestamp, body)).toBe(false);
+    expect(verify('ab'.repeat(32), timestamp, body)).toBe(false);
+  });
+
+  it('should reject signatures made with another key', () => {
+    const other = generateKeyPairSync('ed25519').privateKey;
+    const signature = sign(null, Buffer.from(timestamp + body), other).toString('hex');
+
+    expect(verify(signature, timestamp, body)).toBe(false);
+  });
+});
+
+describe('importPublicKey', () => {
+  it('should reject keys that are not 64 hex characters', () => {
+    expect(() => importPublicKey('abc')).toThrow(
+      'Discord public key must be 64 hex characters'
+    );
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Automatic deferral of slow command replies.
+ *
+ * Discord drops an interaction that is not answered within 3 seconds. When a
+ * command handler has not replied after a delay (2s by default) the reply is
+ * deferred on its behalf, and the handler's later `reply` is turned into an
+ * `editReply` of the deferred response. Handlers need no changes: slow SQLite
+ * writes or heavy rule computations simply show "thinking..." first.
+ *
+ * A deferred response's visibility is fixed, so features whose replies are
+ * ephemeral opt in to ephemeral defers with `deferEphemeral`. An ephemeral
+ * reply after a public defer deletes the deferred response and is sent as an
+ * ephemeral follow-up instead, so it never shows in the channel.
+ */
+
+import {
+  MessagePayload,
+  type CommandInteraction,
+  type InteractionDeferReplyOptions,
+  type InteractionEditReplyOptions,
+  type InteractionReplyOptions,
+} from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+
+/**
+ * Default time a handler gets to reply before it is deferred
+ */
+export const DEFAULT_AUTO_DEFER_MS = 2_000;
+
+export interface AutoDeferOptions {
+  /** Time to wait for a reply before deferring */
+  delayMs: number;
+  /** Defer as an ephemeral response */
+  ephemeral: boolean;
+  logger: Logger;
+}
+
+type ReplyPayload = string | MessagePayload | InteractionReplyOptions;
+
+/**
+ * Drop the reply options `editReply` does not take.
+ */
+function toEditPayload(
+  payload: ReplyPayload
+): string | MessagePayload | InteractionEditReplyOptions {
+  if (typeof payload === 'string' || payload instanceof MessagePayload) {
+    return payload;
+  }
+  const {
+    ephemeral: _ephemeral,
+    flags: _flags,
+    tts: _tts,
+    fetchReply: _fetchReply,
+    withResponse: _withResponse,
+    ...rest
+  } = payload;
+  return rest;
+}
+
+/**
+ * Check whether a reply asks to be ephemeral.
+ */
+function isEphemeral(payload: ReplyPayload): boolean {
+  return (
+    typeof payload === 'object' &&
+    !(payload instanceof MessagePayload) &&
+    payload.ephemeral === true
+  );
+}
+
+/**
+ * Defer the interaction's reply if the handler has not responded in time.
+ *
+ * Replaces `reply` and `deferReply` on the interaction: before the deadline
+ * they behave as usual; after an automatic defer, `reply` edits the deferred
+ * response (or replaces a public one with an ephemeral follow-up) and
+ * `deferReply` does nothing.
+ *
+ * @returns Function cancelling the pending defer and restoring the original
+ *   methods; call it once the handler settles
+ */
+export function autoDefer(
+  interaction: CommandInteraction,
+  options: AutoDeferOptions
+): () => void {
+  const { delayMs, ephemeral, logger } = options;
+  const reply = interaction.reply.bind(interaction) as (
+    payload: ReplyPayload
+  ) => Promise<unknown>;
+  const deferReply = interaction.deferReply.bind(interaction) as (
+    payload?: InteractionDeferReplyOptions
+  ) => Promise<unknown>;
+
+  const ownMethods = {
+    reply: Object.getOwnPropertyDescriptor(interaction, 'reply'),
+    deferReply: Object.getOwnPropertyDescriptor(interaction, 'deferReply'),
+  };
+
+  // Set as soon as the handler starts responding, so the timer never races it
+  let responded = false;
+  let deferring: Promise<void> | null = null;
+
+  const timer = setTimeout(() => {
+    if (responded || interaction.replied || interaction.deferred) {
+      return;
+    }
+
+    logger.debug(`Deferring reply to /${interaction.commandName} after ${delayMs}ms`);
+    deferring = deferReply({ ephemeral }).then(
+      () => undefined,
+      (error: unknown) => {
+        logger.warn(`Failed to defer reply to /${interaction.commandName}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    );
+  }, delayMs);
+
+  Object.assign(interaction, {
+    async reply(payload: ReplyPayload) {
+      if (!deferring) {
+        responded = true;
+        return reply(payload);
+      }
+
+      await deferring;
+      if (!interaction.deferred) {
+        return reply(payload);
+      }
+      if (isEphemeral(payload) && !ephemeral) {
+        // The deferral was public, so an ephemeral reply replaces it with a follow-up
+        logger.debug(`Replacing public deferral of /${interaction.commandName}`);
+        await interaction.deleteReply();
+        return interaction.followUp(payload);
+      }
+      return interaction.editReply(toEditPayload(payload));
+    },
+
+    async deferReply(payload?: InteractionDeferReplyOptions) {
+      if (!deferring) {
+        responded = true;
+        return deferReply(payload);
+      }
+      await deferring;
+      return undefined;
+    },
+  });
+
+  return () => {
+    clearTimeout(timer);
+    for (const [name, descriptor] of Object.entries(ownMethods)) {
+      if (descriptor) {
+        Object.defineProperty(interaction, name, descriptor);
+      } else {
+        // Uncover the prototype method again
+        delete (interaction as unknown as Record<string, unknown>)[name];
+      }
+    }
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Hashing and diffing of application command payloads.
+ *
+ * Used to publish commands only when they changed, and to show what would
+ * change before publishing. Commands are compared by type and name, options
+ * by name (recursively, so subcommand options are covered too).
+ */
+
+import { createHash } from 'node:crypto';
+import { ApplicationCommandType } from 'discord.js';
+import type { RESTPostAPIApplicationCommandsJSONBody } from 'discord.js';
+
+type CommandJSON = RESTPostAPIApplicationCommandsJSONBody;
+
+/**
+ * A change to one option (or to the command itself when `path` is empty)
+ */
+export interface OptionChange {
+  /** Dotted option path, e.g. "set.name"; empty for the command's own fields */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  /** Fields that differ, for "changed" */
+  fields?: string[];
+}
+
+/**
+ * Changes within a command present before and after
+ */
+export interface ChangedCommand {
+  command: string;
+  changes: OptionChange[];
+}
+
+/**
+ * Differences between two command lists
+ */
+export interface CommandDiff {
+  added: string[];
+  removed: string[];
+  changed: ChangedCommand[];
+}
+
+/**
+ * JSON.stringify with object keys sorted, so equal payloads serialize equally.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item !== null && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        )
+      : item
+  );
+}
+
+/**
+ * Display name of a command, e.g. "/roll" or "Roll this (message menu)".
+ */
+export function describeCommand(command: CommandJSON): string {
+  switch (command.type) {
+    case ApplicationCommandType.User:
+      return `${command.name} (user menu)`;
+    case ApplicationCommandType.Message:
+      return `${command.name} (message menu)`;
+    default:
+      return `/${command.name}`;
+  }
+}
+
+/**
+ * Key commands by type and name; slash commands and menus may share names.
+ */
+function byKey(commands: readonly CommandJSON[]): Map<string, CommandJSON> {
+  return new Map(
+    commands.map((command) => [
+      `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`,
+      command,
+    ])
+  );
+}
+
+/**
+ * Compute a stable hash of command payloads.
+ *
+ * Independent of command order and key order; option order is kept since
+ * Discord shows options in the order given.
+ */
+export function hashCommands(commands: readonly CommandJSON[]): string {
+  const sorted = [...byKey(commands)].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash('sha256')
+    .update(stableStringify(sorted.map(([, command]) => command)))
+    .digest('hex');
+}
+
+/**
+ * A command or option, as far as diffing is concerned
+ */
+type Node = { name: string; options?: readonly Node[] } & Record<string, unknown>;
+
+const asNode = (command: CommandJSON): Node => command as unknown as Node;
+
+/**
+ * Names of the fields (other than nested options) that differ.
+ */
+function changedFields(before: Node, after: Node): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.delete('options');
+
+  return [...keys]
+    .filter((key) => stableStringify(before[key]) !== stableStringify(after[key]))
+    .sort();
+}
+
+/**
+ * Compare two option lists by name, descending into subcommands.
+ */
+function diffOptions(
+  prefix: string,
+  before: readonly Node[],
+  after: readonly Node[],
+  changes: OptionChange[]
+): void {
+  const beforeByName = new Map(before.map((option) => [option.name, option]));
+  const afterByName = new Map(after.map((option) => [option.name, option]));
+
+  for (const option of after) {
+    const path = prefix + option.name;
+    const previous = beforeByName.get(option.name);
+
+    if (!previous) {
+      changes.push({ path, kind: 'added' });
+      continue;
+    }
+
+    const fields = changedFields(previous, option);
+    if (fields.length > 0) {
+      changes.push({ path, kind: 'changed', fields });
+    }
+    diffOptions(`${path}.`, previous.options ?? [], option.options ?? [], changes);
+  }
+
+  for (const option of before) {
+    if (!afterByName.has(option.name)) {
+      changes.push({ path: prefix + option.name, kind: 'removed' });
+    }
+  }
+}
+
+/**
+ * Diff two command lists.
+ *
+ * @param before - Previously published commands
+ * @param after - Commands about to be published
+ */
+export function diffCommands(
+  before: readonly CommandJSON[],
+  after: readonly CommandJSON[]
+): CommandDiff {
+  const previous = byKey(before);
+  const next = byKey(after);
+  const diff: CommandDiff = { added: [], removed: [], changed: [] };
+
+  for (const [key, command] of next) {
+    const old = previous.get(key);
+    if (!old) {
+      diff.added.push(describeCommand(command));
+      continue;
+    }
+
+    const changes: OptionChange[] = [];
+    const fields = changedFields(asNode(old), asNode(command));
+    if (fields.length > 0) {
+      changes.push({ path: '', kind: 'changed', fields });
+    }
+    diffOptions('', asNode(old).options ?? [], asNode(command).options ?? [], changes);
+
+    if (changes.length > 0) {
+      diff.changed.push({ command: describeCommand(command), changes });
+    }
+  }
+
+  for (const [key, command] of previous) {
+    if (!next.has(key)) {
+      diff.removed.push(describeCommand(command));
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Check whether a diff contains any change.
+ */
+export function isEmptyDiff(diff: CommandDiff): boolean {
+  return (
+    diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0
+  );
+}
+
+/**
+ * Format a diff for logs, one change per line:
+ *
+ * ```text
+ * + /audit
+ * ~ /char
+ *     + option set.level
+ *     ~ option show.view: choices
+ * - Old menu (user menu)
+ * ```
+ */
+export function formatCommandDiff(diff: CommandDiff): string {
+  if (isEmptyDiff(diff)) {
+    return 'No command changes';
+  }
+
+  const lines: string[] = [];
+  const symbol = { added: '+', removed: '-', changed: '~' } as const;
+
+  for (const name of diff.added) {
+    lines.push(`+ ${name}`);
+  }
+  for (const { command, changes } of diff.changed) {
+    lines.push(`~ ${command}`);
+    for (const change of changes) {
+      const target = change.path ? `option ${change.path}` : 'command';
+      const fields = change.fields ? `: ${change.fields.join(', ')}` : '';
+      lines.push(`    ${symbol[change.kind]} ${target}${fields}`);
+    }
+  }
+  for (const name of diff.removed) {
+    lines.push(`- ${name}`);
+  }
+
+  return lines.join('\n');
+}
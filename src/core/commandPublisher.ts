@@ -0,0 +1,166 @@
+/**
+ * Publish application commands to Discord only when they changed.
+ *
+ * The hash and payload of the last published commands are stored locally per
+ * application and scope (global or one guild). On boot the current payloads
+ * are hashed and compared; an unchanged hash skips the PUT, which keeps
+ * restarts fast and avoids Discord's command rate limits.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import {
+  Routes,
+  type REST,
+  type RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import {
+  diffCommands,
+  formatCommandDiff,
+  hashCommands,
+  type CommandDiff,
+} from './commandDiff.js';
+
+type CommandJSON = RESTPostAPIApplicationCommandsJSONBody;
+
+/**
+ * What was last published for one scope
+ */
+export interface PublishedCommands {
+  hash: string;
+  commands: CommandJSON[];
+  /** ISO 8601 timestamp */
+  publishedAt: string;
+}
+
+/**
+ * Storage for the last published commands, keyed by scope
+ */
+export interface PublishedCommandsStore {
+  load(scope: string): Promise<PublishedCommands | null>;
+  save(scope: string, published: PublishedCommands): Promise<void>;
+}
+
+/**
+ * How to publish:
+ * - "auto": PUT only when the hash changed
+ * - "force": always PUT
+ * - "dry-run": log the diff and never PUT
+ */
+export type PublishMode = 'auto' | 'force' | 'dry-run';
+
+export interface PublishCommandsOptions {
+  /** REST client with a token set (only `put` is used) */
+  rest: Pick<REST, 'put'>;
+  appId: string;
+  /** Publish to this guild only; global when omitted */
+  guildId?: string;
+  commands: CommandJSON[];
+  store: PublishedCommandsStore;
+  logger: Logger;
+  /** Default: "auto" */
+  mode?: PublishMode;
+}
+
+export interface PublishResult {
+  status: 'published' | 'unchanged' | 'dry-run';
+  hash: string;
+  /** Changes compared to the last published commands */
+  diff: CommandDiff;
+}
+
+/**
+ * Store published commands in a JSON file (created on first save).
+ *
+ * @param filePath - e.g. `./data/commands-state.json`
+ */
+export function createFileCommandsStore(filePath: string): PublishedCommandsStore {
+  const readAll = async (): Promise<Record<string, PublishedCommands>> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8')) as Record<
+        string,
+        PublishedCommands
+      >;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  };
+
+  return {
+    async load(scope) {
+      return (await readAll())[scope] ?? null;
+    },
+
+    async save(scope, published) {
+      const all = await readAll();
+      all[scope] = published;
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, `${JSON.stringify(all, null, 2)}\n`, 'utf8');
+    },
+  };
+}
+
+/**
+ * Store published commands in memory (e.g. for an in-memory database).
+ */
+export function createMemoryCommandsStore(): PublishedCommandsStore {
+  const entries = new Map<string, PublishedCommands>();
+
+  return {
+    async load(scope) {
+      return entries.get(scope) ?? null;
+    },
+
+    async save(scope, published) {
+      entries.set(scope, published);
+    },
+  };
+}
+
+/**
+ * Publish commands unless they match what was last published.
+ *
+ * @throws Error if the PUT fails (the stored state is left unchanged)
+ */
+export async function publishCommands(
+  options: PublishCommandsOptions
+): Promise<PublishResult> {
+  const { rest, appId, guildId, commands, store, logger, mode = 'auto' } = options;
+  const scope = `${appId}:${guildId ?? 'global'}`;
+  const target = guildId ? `guild ${guildId}` : 'global';
+
+  const previous = await store.load(scope);
+  const hash = hashCommands(commands);
+  const diff = diffCommands(previous?.commands ?? [], commands);
+
+  if (mode === 'dry-run') {
+    logger.info(
+      `Dry run: ${commands.length} ${target} command(s), ` +
+        `${previous?.hash === hash ? 'unchanged' : 'would publish'}\n${formatCommandDiff(diff)}`
+    );
+    return { status: 'dry-run', hash, diff };
+  }
+
+  if (mode === 'auto' && previous?.hash === hash) {
+    logger.info(`${commands.length} ${target} command(s) unchanged, skipping publish`);
+    return { status: 'unchanged', hash, diff };
+  }
+
+  logger.info(`Publishing ${commands.length} ${target} command(s)`);
+  logger.debug(`Command changes:\n${formatCommandDiff(diff)}`);
+
+  await rest.put(
+    guildId
+      ? Routes.applicationGuildCommands(appId, guildId)
+      : Routes.applicationCommands(appId),
+    { body: commands }
+  );
+
+  await store.save(scope, { hash, commands, publishedAt: new Date().toISOString() });
+
+  return { status: 'published', hash, diff };
+}
@@ -1,6 +1,29 @@
-import type { Interaction } from 'discord.js';
+import type {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  ContextMenuCommandInteraction,
+  EmbedBuilder,
+  Interaction,
+  MessageComponentInteraction,
+  ModalSubmitInteraction,
+} from 'discord.js';
 import type { Logger } from '@discord-bot/logger';
-import type { FeatureRegistry } from './types.js';
+import type {
+  ContextMenuCommand,
+  FeatureRegistry,
+  FeatureSlice,
+  RoutedInteraction,
+} from './types.js';
+import { autoDefer, DEFAULT_AUTO_DEFER_MS } from './autoDefer.js';
+import { parseCustomId } from './customId.js';
+import {
+  buildErrorEmbed,
+  createCorrelationId,
+  DomainError,
+  formatUnknownError,
+} from './errors.js';
+import type { FeatureEnabledFn } from './featureToggles.js';
+import { composeMiddleware, type Middleware } from './middleware.js';
 
 /**
  * Command router configuration
@@ -8,26 +31,217 @@ import type { FeatureRegistry } from './types.js';
 export interface CommandRouterConfig {
   registry: FeatureRegistry;
   logger: Logger;
+  /**
+   * Middlewares applied to every routed handler, before feature middlewares
+   */
+  middlewares?: Middleware[];
+  /**
+   * Per-guild feature toggle check; when omitted every feature is enabled
+   */
+  isFeatureEnabled?: FeatureEnabledFn;
+  /**
+   * Defer slash and context menu command replies not sent within this many
+   * milliseconds (default: 2000; 0 disables)
+   */
+  autoDeferMs?: number;
 }
 
+/**
+ * Routes interactions and keeps track of the ones still being handled
+ */
+export interface CommandRouter {
+  (interaction: Interaction): Promise<void>;
+
+  /**
+   * Number of interactions currently being handled
+   */
+  inFlightCount(): number;
+
+  /**
+   * Stop routing new interactions; they get a "shutting down" reply instead.
+   */
+  stopAccepting(): void;
+
+  /**
+   * Wait for in-flight interactions to finish.
+   *
+   * @param timeoutMs - Deadline after which to stop waiting
+   * @returns true if everything finished before the deadline
+   */
+  drain(timeoutMs: number): Promise<boolean>;
+}
+
+const SHUTTING_DOWN_MESSAGE = 'The bot is restarting. Please try again in a moment.';
+
 /**
  * Create a command router that dispatches Discord interactions to feature handlers
  *
  * This is the central routing layer that:
  * 1. Receives all Discord interactions
- * 2. Filters for slash commands
- * 3. Looks up the appropriate feature handler
- * 4. Executes the handler with error handling
+ * 2. Dispatches slash commands by command name
+ * 3. Dispatches autocomplete requests to the command's feature
+ * 4. Dispatches message components and modals by namespaced custom ID
+ *    (`<feature>:<action>[:<arg>...]`)
+ * 5. Dispatches user and message context menu commands by menu name
+ * 6. Skips features disabled in the guild
+ * 7. Runs the handler through the middleware chain, rendering domain errors
+ *    (see errors.ts) and reporting anything else with a correlation ID
+ * 8. Defers command replies that take too long (see autoDefer.ts)
+ * 9. Tracks in-flight interactions so shutdown can drain them
  */
-export function createCommandRouter(config: CommandRouterConfig) {
-  const { registry, logger } = config;
+export function createCommandRouter(config: CommandRouterConfig): CommandRouter {
+  const {
+    registry,
+    logger,
+    middlewares = [],
+    isFeatureEnabled,
+    autoDeferMs = DEFAULT_AUTO_DEFER_MS,
+  } = config;
+  const inFlight = new Set<Promise<void>>();
+  let accepting = true;
 
-  return async function routeCommand(interaction: Interaction): Promise<void> {
-    // Only handle chat input commands (slash commands)
-    if (!interaction.isChatInputCommand()) {
-      return;
+  /**
+   * Run a handler through the global and feature middleware chain.
+   */
+  function runPipeline(
+    feature: FeatureSlice,
+    interaction: RoutedInteraction,
+    handler: () => Promise<void>,
+    extra: Middleware[] = []
+  ): Promise<void> {
+    const chain = composeMiddleware([
+      ...middlewares,
+      ...(feature.middlewares ?? []),
+      ...extra,
+    ]);
+    return chain({ interaction, feature, logger, state: new Map() }, handler);
+  }
+
+  /**
+   * Check whether the guild has disabled the feature. Direct messages never do.
+   */
+  async function isDisabledInGuild(
+    feature: FeatureSlice,
+    interaction: RoutedInteraction | AutocompleteInteraction
+  ): Promise<boolean> {
+    if (!isFeatureEnabled || !interaction.guildId) {
+      return false;
+    }
+    return !(await isFeatureEnabled(interaction.guildId, feature.name));
+  }
+
+  /**
+   * Inform the user that nothing can handle their interaction.
+   */
+  async function replyUnhandled(
+    interaction: RoutedInteraction,
+    content: string
+  ): Promise<void> {
+    if (!interaction.replied && !interaction.deferred) {
+      await interaction.reply({ content, ephemeral: true });
     }
+  }
 
+  /**
+   * Send an ephemeral error response, following up if already answered.
+   */
+  async function sendError(
+    interaction: RoutedInteraction,
+    response: { content?: string; embeds?: EmbedBuilder[] }
+  ): Promise<void> {
+    try {
+      if (!interaction.replied && !interaction.deferred) {
+        await interaction.reply({ ...response, ephemeral: true });
+      } else {
+        await interaction.followUp({ ...response, ephemeral: true });
+      }
+    } catch (replyError) {
+      // If we can't send an error message, just log it
+      logger.error('Failed to send error message to user', {
+        error: replyError instanceof Error ? replyError.message : String(replyError),
+      });
+    }
+  }
+
+  /**
+   * Run a handler, logging failures and informing the user of the error.
+   *
+   * Domain errors are shown as an embed and logged at their own level;
+   * anything else is logged as an error under a correlation ID that the
+   * user sees alongside the generic message.
+   */
+  async function execute(
+    interaction: RoutedInteraction,
+    description: string,
+    run: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await run();
+    } catch (error) {
+      if (error instanceof DomainError) {
+        logger[error.logLevel](`${error.code} in ${description}: ${error.message}`, {
+          user: interaction.user.id,
+        });
+        await sendError(interaction, { embeds: [buildErrorEmbed(error)] });
+        return;
+      }
+
+      const correlationId = createCorrelationId();
+      logger.error(`Error executing ${description}`, {
+        correlationId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      await sendError(interaction, { content: formatUnknownError(correlationId) });
+    }
+  }
+
+  /**
+   * Run a feature handler unless the guild disabled the feature.
+   * Commands are deferred automatically if they take too long to reply.
+   */
+  async function runFeature(
+    feature: FeatureSlice,
+    interaction: RoutedInteraction,
+    description: string,
+    handler: () => Promise<void>,
+    extra: Middleware[] = []
+  ): Promise<void> {
+    const cancelDefer =
+      autoDeferMs > 0 &&
+      (interaction.isChatInputCommand() || interaction.isContextMenuCommand())
+        ? autoDefer(interaction, {
+            delayMs: autoDeferMs,
+            ephemeral:
+              typeof feature.deferEphemeral === 'function'
+                ? feature.deferEphemeral(interaction)
+                : (feature.deferEphemeral ?? false),
+            logger,
+          })
+        : undefined;
+
+    try {
+      await execute(interaction, description, async () => {
+        if (await isDisabledInGuild(feature, interaction)) {
+          logger.debug(
+            `Feature ${feature.name} is disabled in guild ${interaction.guildId}`
+          );
+          await replyUnhandled(
+            interaction,
+            `The "${feature.name}" feature is disabled in this server.`
+          );
+          return;
+        }
+
+        await runPipeline(feature, interaction, handler, extra);
+      });
+    } finally {
+      cancelDefer?.();
+    }
+  }
+
+  async function routeChatInput(interaction: ChatInputCommandInteraction): Promise<void> {
     const commandName = interaction.commandName;
     const feature = registry.getByName(commandName);
 
@@ -35,12 +249,7 @@ export function createCommandRouter(config: CommandRouterConfig) {
       logger.warn(`No handler found for command: ${commandName}`);
 
       // Inform the user that the command is not recognized
-      if (!interaction.replied && !interaction.deferred) {
-        await interaction.reply({
-          content: 'This command is not recognized.',
-          ephemeral: true,
-        });
-      }
+      await replyUnhandled(interaction, 'This command is not recognized.');
       return;
     }
 
@@ -50,35 +259,234 @@ export function createCommandRouter(config: CommandRouterConfig) {
       guild: interaction.guild?.name ?? 'DM',
     });
 
+    await runFeature(feature, interaction, `command: ${commandName}`, () =>
+      feature.handler(interaction)
+    );
+  }
+
+  async function routeAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    const commandName = interaction.commandName;
+    const feature = registry.getByName(commandName);
+
     try {
-      await feature.handler(interaction);
+      if (!feature?.autocomplete) {
+        logger.warn(`No autocomplete handler found for command: ${commandName}`);
+        await interaction.respond([]);
+        return;
+      }
+
+      if (await isDisabledInGuild(feature, interaction)) {
+        await interaction.respond([]);
+        return;
+      }
+
+      await feature.autocomplete(interaction);
     } catch (error) {
-      logger.error(`Error executing command: ${commandName}`, {
+      // Autocomplete cannot show an error message; an empty list is the best we can do
+      logger.error(`Error executing autocomplete: ${commandName}`, {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined,
       });
 
-      // Attempt to inform the user of the error
-      const errorMessage = 'An error occurred while executing this command.';
-
-      try {
-        if (!interaction.replied && !interaction.deferred) {
-          await interaction.reply({
-            content: errorMessage,
-            ephemeral: true,
-          });
-        } else {
-          await interaction.followUp({
-            content: errorMessage,
-            ephemeral: true,
+      if (!interaction.responded) {
+        await interaction.respond([]).catch((respondError: unknown) => {
+          logger.error('Failed to send empty autocomplete response', {
+            error:
+              respondError instanceof Error ? respondError.message : String(respondError),
           });
-        }
-      } catch (replyError) {
-        // If we can't send an error message, just log it
-        logger.error('Failed to send error message to user', {
-          error: replyError instanceof Error ? replyError.message : String(replyError),
         });
       }
     }
-  };
+  }
+
+  /**
+   * Find the handler for a namespaced custom ID.
+   */
+  function resolveCustomId<H>(
+    customId: string,
+    pick: (feature: FeatureSlice) => Record<string, H> | undefined
+  ): { feature: FeatureSlice; handler: H; args: string[] } | null {
+    const parsed = parseCustomId(customId);
+    if (!parsed) {
+      return null;
+    }
+
+    const feature = registry.getByName(parsed.feature);
+    const handlers = feature ? pick(feature) : undefined;
+    // Own keys only: "<feature>:constructor" must not reach Object.prototype
+    const handler =
+      handlers && Object.hasOwn(handlers, parsed.action)
+        ? handlers[parsed.action]
+        : undefined;
+
+    return feature && handler ? { feature, handler, args: parsed.args } : null;
+  }
+
+  async function routeComponent(interaction: MessageComponentInteraction): Promise<void> {
+    const customId = interaction.customId;
+    const resolved = resolveCustomId(customId, (feature) => feature.components);
+
+    if (!resolved) {
+      logger.warn(`No component handler found for custom ID: ${customId}`);
+      await replyUnhandled(interaction, 'This interaction is no longer supported.');
+      return;
+    }
+
+    logger.debug(`Routing component to handler`, {
+      customId,
+      user: interaction.user.tag,
+      guild: interaction.guild?.name ?? 'DM',
+    });
+
+    await runFeature(resolved.feature, interaction, `component: ${customId}`, () =>
+      resolved.handler(interaction, resolved.args)
+    );
+  }
+
+  async function routeModal(interaction: ModalSubmitInteraction): Promise<void> {
+    const customId = interaction.customId;
+    const resolved = resolveCustomId(customId, (feature) => feature.modals);
+
+    if (!resolved) {
+      logger.warn(`No modal handler found for custom ID: ${customId}`);
+      await replyUnhandled(interaction, 'This interaction is no longer supported.');
+      return;
+    }
+
+    logger.debug(`Routing modal to handler`, {
+      customId,
+      user: interaction.user.tag,
+      guild: interaction.guild?.name ?? 'DM',
+    });
+
+    await runFeature(resolved.feature, interaction, `modal: ${customId}`, () =>
+      resolved.handler(interaction, resolved.args)
+    );
+  }
+
+  async function routeContextMenu(
+    interaction: ContextMenuCommandInteraction,
+    type: ContextMenuCommand['type']
+  ): Promise<void> {
+    const menuName = interaction.commandName;
+    const resolved = registry.getContextMenu(type, menuName);
+
+    if (!resolved) {
+      logger.warn(`No handler found for ${type} context menu: ${menuName}`);
+      await replyUnhandled(interaction, 'This command is not recognized.');
+      return;
+    }
+
+    logger.debug(`Routing context menu to handler`, {
+      menu: menuName,
+      type,
+      user: interaction.user.tag,
+      guild: interaction.guild?.name ?? 'DM',
+    });
+
+    const { feature, menu } = resolved;
+    await runFeature(
+      feature,
+      interaction,
+      `${type} context menu: ${menuName}`,
+      () => {
+        if (menu.type === 'user' && interaction.isUserContextMenuCommand()) {
+          return menu.handler(interaction);
+        }
+        if (menu.type === 'message' && interaction.isMessageContextMenuCommand()) {
+          return menu.handler(interaction);
+        }
+        throw new Error(`Context menu "${menuName}" received a mismatched interaction`);
+      },
+      menu.middlewares
+    );
+  }
+
+  /**
+   * Turn an interaction away while shutting down.
+   */
+  async function reject(interaction: Interaction): Promise<void> {
+    logger.debug('Rejecting interaction during shutdown', { id: interaction.id });
+
+    try {
+      if (interaction.isAutocomplete()) {
+        await interaction.respond([]);
+      } else if (interaction.isRepliable()) {
+        await interaction.reply({ content: SHUTTING_DOWN_MESSAGE, ephemeral: true });
+      }
+    } catch (error) {
+      logger.warn('Failed to reject interaction during shutdown', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async function dispatch(interaction: Interaction): Promise<void> {
+    if (interaction.isChatInputCommand()) {
+      await routeChatInput(interaction);
+      return;
+    }
+
+    if (interaction.isAutocomplete()) {
+      await routeAutocomplete(interaction);
+      return;
+    }
+
+    if (interaction.isMessageComponent()) {
+      await routeComponent(interaction);
+      return;
+    }
+
+    if (interaction.isModalSubmit()) {
+      await routeModal(interaction);
+      return;
+    }
+
+    if (interaction.isUserContextMenuCommand()) {
+      await routeContextMenu(interaction, 'user');
+      return;
+    }
+
+    if (interaction.isMessageContextMenuCommand()) {
+      await routeContextMenu(interaction, 'message');
+    }
+  }
+
+  async function routeCommand(interaction: Interaction): Promise<void> {
+    if (!accepting) {
+      await reject(interaction);
+      return;
+    }
+
+    const work = dispatch(interaction);
+    inFlight.add(work);
+    try {
+      await work;
+    } finally {
+      inFlight.delete(work);
+    }
+  }
+
+  return Object.assign(routeCommand, {
+    inFlightCount: () => inFlight.size,
+
+    stopAccepting() {
+      accepting = false;
+    },
+
+    async drain(timeoutMs: number): Promise<boolean> {
+      let timer: NodeJS.Timeout | undefined;
+      const deadline = new Promise<false>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      });
+
+      try {
+        // Handlers settle on their own; failures were already reported by execute()
+        const settled = Promise.allSettled([...inFlight]).then(() => true);
+        return await Promise.race([settled, deadline]);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  });
 }
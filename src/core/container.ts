@@ -0,0 +1,118 @@
+/**
+ * Minimal typed dependency injection container.
+ *
+ * `createApp` builds one container per app instance and registers the shared
+ * ports (logger, repositories, DM check). Feature factories resolve what they
+ * need from it, so nothing lives in module-level state and tests can build
+ * several independent containers (e.g. with in-memory repositories).
+ */
+
+/**
+ * Typed key for a container entry
+ */
+export interface Token<T> {
+  /** Name used in error messages */
+  readonly name: string;
+  /** Phantom field carrying the value type; never set at runtime */
+  readonly __type?: T;
+}
+
+/**
+ * Create a token for a container entry.
+ *
+ * @example
+ * ```typescript
+ * export const CLOCK = createToken<() => number>('clock');
+ * ```
+ */
+export function createToken<T>(name: string): Token<T> {
+  return { name };
+}
+
+/**
+ * Factory producing a value, with access to the container for its own dependencies
+ */
+export type Factory<T> = (container: Container) => T;
+
+export interface Container {
+  /**
+   * Register a lazily created singleton.
+   * The factory runs on first resolve and its value is reused afterwards.
+   */
+  register<T>(token: Token<T>, factory: Factory<T>): void;
+
+  /**
+   * Register an already created value.
+   */
+  registerValue<T>(token: Token<T>, value: T): void;
+
+  /**
+   * Get the value for a token.
+   *
+   * @throws Error if nothing is registered for the token
+   */
+  resolve<T>(token: Token<T>): T;
+
+  /**
+   * Check whether a token is registered.
+   */
+  has(token: Token<unknown>): boolean;
+}
+
+type Provider = { factory: Factory<unknown> } | { value: unknown };
+
+/**
+ * Create an empty container.
+ */
+export function createContainer(): Container {
+  const providers = new Map<Token<unknown>, Provider>();
+  const resolving = new Set<Token<unknown>>();
+
+  const assertUnregistered = (token: Token<unknown>): void => {
+    if (providers.has(token)) {
+      throw new Error(`"${token.name}" is already registered in the container.`);
+    }
+  };
+
+  const container: Container = {
+    register(token, factory) {
+      assertUnregistered(token);
+      providers.set(token, { factory: factory as Factory<unknown> });
+    },
+
+    registerValue(token, value) {
+      assertUnregistered(token);
+      providers.set(token, { value });
+    },
+
+    resolve<T>(token: Token<T>): T {
+      const provider = providers.get(token);
+      if (!provider) {
+        throw new Error(`Nothing is registered for "${token.name}" in the container.`);
+      }
+
+      if ('value' in provider) {
+        return provider.value as T;
+      }
+
+      if (resolving.has(token)) {
+        throw new Error(`Circular dependency while resolving "${token.name}".`);
+      }
+
+      resolving.add(token);
+      try {
+        const value = provider.factory(container);
+        providers.set(token, { value });
+        return value as T;
+      } finally {
+        resolving.delete(token);
+      }
+    },
+
+    has(token) {
+      return providers.has(token);
+    },
+  };
+
+  return container;
+}
@@ -0,0 +1,79 @@
+/**
+ * Namespaced custom IDs for message components and modals.
+ *
+ * Every button, select menu and modal created by a feature carries a custom ID
+ * of the form `<feature>:<action>[:<arg>...]`, for example
+ * `char:show:stats:<charId>`. The command router uses the feature segment to
+ * find the owning feature slice and the action segment to pick the handler.
+ */
+
+/**
+ * Separator between custom ID segments
+ */
+export const CUSTOM_ID_SEPARATOR = ':';
+
+/**
+ * Maximum custom ID length accepted by Discord
+ */
+export const MAX_CUSTOM_ID_LENGTH = 100;
+
+/**
+ * Parsed representation of a namespaced custom ID
+ */
+export interface ParsedCustomId {
+  /** Name of the feature slice that owns the component */
+  feature: string;
+  /** Action within the feature (key into its handler map) */
+  action: string;
+  /** Remaining segments, passed to the handler */
+  args: string[];
+}
+
+/**
+ * Build a namespaced custom ID.
+ *
+ * @throws Error if a segment is empty or contains the separator, or if the
+ *   resulting ID exceeds Discord's length limit
+ */
+export function buildCustomId(
+  feature: string,
+  action: string,
+  ...args: string[]
+): string {
+  const segments = [feature, action, ...args];
+
+  for (const segment of segments) {
+    if (segment.includes(CUSTOM_ID_SEPARATOR)) {
+      throw new Error(
+        `Custom ID segment "${segment}" must not contain "${CUSTOM_ID_SEPARATOR}"`
+      );
+    }
+  }
+
+  if (feature.length === 0 || action.length === 0) {
+    throw new Error('Custom ID feature and action must not be empty');
+  }
+
+  const customId = segments.join(CUSTOM_ID_SEPARATOR);
+
+  if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+    throw new Error(`Custom ID "${customId}" exceeds ${MAX_CUSTOM_ID_LENGTH} characters`);
+  }
+
+  return customId;
+}
+
+/**
+ * Parse a namespaced custom ID.
+ *
+ * @returns The parsed custom ID, or null if it does not follow the scheme
+ */
+export function parseCustomId(customId: string): ParsedCustomId | null {
+  const [feature, action, ...args] = customId.split(CUSTOM_ID_SEPARATOR);
+
+  if (!feature || !action) {
+    return null;
+  }
+
+  return { feature, action, args };
+}
@@ -35,3 +35,25 @@ export function createDmCheck(userRepo: UserRepo): (discordUserId: string) => Pr
  * Type for the DM check function.
  */
 export type DmCheckFn = (discordUserId: string) => Promise<boolean>;
+
+/**
+ * List the Discord user IDs of every user with DM capability.
+ *
+ * Feature code that needs to reach the DMs (e.g. GM rolls) uses this
+ * instead of the user repository; narrow the list to guild members before
+ * sending anything.
+ *
+ * @param userRepo - The user repository to list DMs from
+ * @returns A function that resolves to the Discord user IDs of all DMs
+ */
+export function createDmList(userRepo: UserRepo): () => Promise<string[]> {
+  return async (): Promise<string[]> => {
+    const users = await userRepo.listDmUsers();
+    return users.map((user) => user.discordUserId);
+  };
+}
+
+/**
+ * Type for the DM list function.
+ */
+export type DmListFn = () => Promise<string[]>;
@@ -1,7 +1,15 @@
-import { env as configEnv } from '@discord-bot/config';
+import {
+  env as configEnv,
+  rateLimitConfig as configRateLimits,
+} from '@discord-bot/config';
 
 /**
  * Re-export validated environment configuration for use in the main app
  * This provides a single source of truth for environment variables
  */
 export const env = configEnv;
+
+/**
+ * Re-export rate limit settings derived from the environment
+ */
+export const rateLimitConfig = configRateLimits;
@@ -0,0 +1,134 @@
+/**
+ * Typed domain errors.
+ *
+ * Handlers and middlewares throw these instead of building error replies
+ * themselves. The router renders them as ephemeral embeds (message, hint and
+ * error code) and logs them at a level matching how unusual they are. Any
+ * other exception is a bug: the user gets a generic message with a
+ * correlation ID that points at the logged stack trace.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { EmbedBuilder } from 'discord.js';
+import type { LogLevel } from '@discord-bot/logger';
+
+/**
+ * Stable error codes, shown to users and safe to match on
+ */
+export type ErrorCode =
+  | 'NOT_FOUND'
+  | 'VALIDATION'
+  | 'PERMISSION'
+  | 'CONFLICT'
+  | 'RATE_LIMITED';
+
+export interface DomainErrorOptions {
+  /** What the user can do about it, e.g. "Use `/char show view:characters`." */
+  hint?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class of errors caused by the request rather than by a bug
+ */
+export abstract class DomainError extends Error {
+  abstract readonly code: ErrorCode;
+  /** Embed title */
+  abstract readonly title: string;
+  abstract readonly logLevel: Exclude<LogLevel, 'error'>;
+  readonly hint: string | undefined;
+
+  constructor(message: string, options: DomainErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.hint = options.hint;
+  }
+}
+
+/**
+ * Something the user referred to does not exist
+ */
+export class NotFoundError extends DomainError {
+  readonly code = 'NOT_FOUND';
+  readonly title = 'Not found';
+  readonly logLevel = 'debug';
+}
+
+/**
+ * Input that cannot be used as given
+ */
+export class ValidationError extends DomainError {
+  readonly code = 'VALIDATION';
+  readonly title = 'Invalid input';
+  readonly logLevel = 'debug';
+}
+
+/**
+ * The user is not allowed to do this (here)
+ */
+export class PermissionError extends DomainError {
+  readonly code = 'PERMISSION';
+  readonly title = 'Not allowed';
+  readonly logLevel = 'info';
+}
+
+/**
+ * The request clashes with the current state
+ */
+export class ConflictError extends DomainError {
+  readonly code = 'CONFLICT';
+  readonly title = 'Conflict';
+  readonly logLevel = 'info';
+}
+
+/**
+ * Too many requests; try again later
+ */
+export class RateLimitedError extends DomainError {
+  readonly code = 'RATE_LIMITED';
+  readonly title = 'Slow down';
+  readonly logLevel = 'info';
+  readonly retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number, options: DomainErrorOptions = {}) {
+    super(message, {
+      hint: `Try again in ${Math.ceil(retryAfterMs / 1000)}s.`,
+      ...options,
+    });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Generic message for unexpected errors
+ */
+export const UNKNOWN_ERROR_MESSAGE = 'An error occurred while executing this command.';
+
+const ERROR_COLOR = 0xed4245;
+
+/**
+ * Render a domain error for the user.
+ */
+export function buildErrorEmbed(error: DomainError): EmbedBuilder {
+  const description = error.hint ? `${error.message}\n\n${error.hint}` : error.message;
+
+  return new EmbedBuilder()
+    .setColor(ERROR_COLOR)
+    .setTitle(error.title)
+    .setDescription(description)
+    .setFooter({ text: `Error code: ${error.code}` });
+}
+
+/**
+ * Short random ID tying an unexpected error reply to its log entry.
+ */
+export function createCorrelationId(): string {
+  return randomBytes(4).toString('hex');
+}
+
+/**
+ * Message for an unexpected error, e.g. "... Error ID: `1a2b3c4d`"
+ */
+export function formatUnknownError(correlationId: string): string {
+  return `${UNKNOWN_ERROR_MESSAGE} Error ID: \`${correlationId}\``;
+}
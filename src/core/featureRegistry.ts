@@ -1,4 +1,14 @@
-import type { FeatureRegistry, FeatureSlice } from './types.js';
+import { ApplicationCommandType } from 'discord.js';
+import type { RESTPostAPIApplicationCommandsJSONBody } from 'discord.js';
+import type { ContextMenuCommand, FeatureRegistry, FeatureSlice } from './types.js';
+
+/**
+ * Builder type expected for each context menu type
+ */
+const CONTEXT_MENU_TYPES: Record<ContextMenuCommand['type'], ApplicationCommandType> = {
+  user: ApplicationCommandType.User,
+  message: ApplicationCommandType.Message,
+};
 
 /**
  * Create a feature registry instance
@@ -6,6 +16,11 @@ import type { FeatureRegistry, FeatureSlice } from './types.js';
  */
 export function createFeatureRegistry(): FeatureRegistry {
   const features = new Map<string, FeatureSlice>();
+  // Keyed by `<type>:<name>`; Discord requires names to be unique per type
+  const contextMenus = new Map<
+    string,
+    { feature: FeatureSlice; menu: ContextMenuCommand }
+  >();
 
   return {
     register(feature: FeatureSlice): void {
@@ -14,7 +29,26 @@ export function createFeatureRegistry(): FeatureRegistry {
           `Feature "${feature.name}" is already registered. Feature names must be unique.`
         );
       }
+
+      const menus = feature.contextMenus ?? [];
+      for (const menu of menus) {
+        const name = menu.command.name;
+        if (menu.command.type !== CONTEXT_MENU_TYPES[menu.type]) {
+          throw new Error(
+            `Context menu "${name}" in feature "${feature.name}" must be built with the ${menu.type} type.`
+          );
+        }
+        if (contextMenus.has(`${menu.type}:${name}`)) {
+          throw new Error(
+            `Context menu "${name}" is already registered. Context menu names must be unique per type.`
+          );
+        }
+      }
+
       features.set(feature.name, feature);
+      for (const menu of menus) {
+        contextMenus.set(`${menu.type}:${menu.command.name}`, { feature, menu });
+      }
     },
 
     getAll(): FeatureSlice[] {
@@ -24,5 +58,16 @@ export function createFeatureRegistry(): FeatureRegistry {
     getByName(name: string): FeatureSlice | undefined {
       return features.get(name);
     },
+
+    getContextMenu(type, name) {
+      return contextMenus.get(`${type}:${name}`);
+    },
+
+    getCommandData(): RESTPostAPIApplicationCommandsJSONBody[] {
+      return Array.from(features.values()).flatMap((feature) => [
+        feature.command.toJSON(),
+        ...(feature.contextMenus ?? []).map((menu) => menu.command.toJSON()),
+      ]);
+    },
   };
 }
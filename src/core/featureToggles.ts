@@ -0,0 +1,69 @@
+/**
+ * Per-guild feature toggles.
+ *
+ * Guild admins can disable feature slices with `/settings features`; the
+ * command router checks this before running any of the feature's handlers.
+ * Direct messages are not guild-scoped and always allow every feature.
+ *
+ * Every routed interaction needs its guild's settings, so they are cached
+ * per guild; writes through the cached repository replace the entry.
+ */
+
+import type { GuildSettings, GuildSettingsRepo } from '@discord-bot/persistence';
+
+/**
+ * Check whether a feature slice is enabled in a guild.
+ */
+export type FeatureEnabledFn = (guildId: string, feature: string) => Promise<boolean>;
+
+/**
+ * Create a feature toggle check bound to the guild settings repository.
+ *
+ * @param guildSettingsRepo - Repository holding each guild's disabled features
+ */
+export function createFeatureEnabledCheck(
+  guildSettingsRepo: GuildSettingsRepo
+): FeatureEnabledFn {
+  return async (guildId, feature) => {
+    const settings = await guildSettingsRepo.getSettings(guildId);
+    return !settings.disabledFeatures.includes(feature);
+  };
+}
+
+/**
+ * Wrap a guild settings repository with a per-guild cache.
+ *
+ * Reads are served from the cache after the first one; writes go through to
+ * the repository and cache the settings they return. Only writes made
+ * through the returned repository are seen, so every writer must share it.
+ *
+ * @param repo - Repository to cache
+ */
+export function createCachedGuildSettingsRepo(
+  repo: GuildSettingsRepo
+): GuildSettingsRepo {
+  const cache = new Map<string, Promise<GuildSettings>>();
+
+  // Cache the pending result, so reads during a write wait for it
+  const remember = (guildId: string, settings: Promise<GuildSettings>) => {
+    cache.set(guildId, settings);
+    settings.catch(() => {
+      if (cache.get(guildId) === settings) {
+        cache.delete(guildId);
+      }
+    });
+    return settings;
+  };
+
+  return {
+    getSettings(guildId) {
+      return cache.get(guildId) ?? remember(guildId, repo.getSettings(guildId));
+    },
+    setFeatureEnabled(params) {
+      return remember(params.guildId, repo.setFeatureEnabled(params));
+    },
+    setGmChannel(params) {
+      return remember(params.guildId, repo.setGmChannel(params));
+    },
+  };
+}
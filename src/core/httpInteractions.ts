@@ -0,0 +1,453 @@
+/**
+ * HTTP interactions endpoint, an alternative to the gateway connection.
+ *
+ * Discord POSTs each interaction to the endpoint and expects the initial
+ * response as the HTTP response body within 3 seconds. Interactions are turned
+ * into regular discord.js interaction objects and routed through the same
+ * feature registry and command router as in gateway mode, so handlers keep
+ * calling `reply`, `deferReply`, `editReply` and `followUp` unchanged.
+ *
+ * The bridge is the REST `makeRequest` hook: the responder intercepts the
+ * interaction callback request discord.js makes for the initial response and
+ * returns it as the HTTP response instead. If a handler has not responded by
+ * the deadline, the endpoint answers with a deferred response and later
+ * responses are sent through the interaction webhook (edit or follow-up).
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import {
+  DefaultRestOptions,
+  Events,
+  InteractionResponseType,
+  InteractionType,
+  MessageFlags,
+  RouteBases,
+  Routes,
+  type APIInteraction,
+  type APIInteractionResponse,
+  type Client,
+  type Interaction,
+  type RESTOptions,
+  type ResponseLike,
+} from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import type { SignatureVerifier } from './signature.js';
+
+type MakeRequest = RESTOptions['makeRequest'];
+
+/**
+ * Matches the initial response endpoint: /interactions/{id}/{token}/callback
+ */
+const CALLBACK_PATTERN = /\/interactions\/(\d+)\/[^/]+\/callback(?:\?|$)/;
+
+/**
+ * Default time before answering with a deferred response.
+ * Discord allows 3 seconds; the margin covers network latency.
+ */
+export const DEFAULT_DEFER_AFTER_MS = 2500;
+
+/**
+ * Default largest difference between the signature timestamp and the local
+ * clock. A valid signature alone does not stop a captured request from being
+ * replayed later, so requests outside this window are rejected.
+ */
+export const DEFAULT_MAX_TIMESTAMP_SKEW_SECONDS = 5;
+
+/**
+ * Largest request body accepted by the endpoint
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Responder
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface PendingInteraction {
+  raw: APIInteraction;
+  state: 'waiting' | 'answered' | 'deferred';
+  deferredAs?: InteractionResponseType;
+  respond: (response: APIInteractionResponse) => void;
+}
+
+/**
+ * Handle on one interaction awaiting its HTTP response
+ */
+export interface TrackedInteraction {
+  /** Resolves with the handler's initial response */
+  initial: Promise<APIInteractionResponse>;
+  /**
+   * Switch to a deferred response if the handler has not responded yet.
+   * Returns the deferral to send, or null if the handler already responded.
+   */
+  defer(): APIInteractionResponse | null;
+  /** Stop intercepting responses for this interaction */
+  release(): void;
+}
+
+export interface InteractionResponder {
+  /** REST `makeRequest` hook; pass it to the Client's `rest` options */
+  makeRequest: MakeRequest;
+  /** Start intercepting the responses to an interaction */
+  track(raw: APIInteraction): TrackedInteraction;
+}
+
+export interface InteractionResponderConfig {
+  /** Performs requests that are not intercepted (default: discord.js default) */
+  passthrough?: MakeRequest;
+}
+
+/**
+ * Create the responder that bridges discord.js responses and HTTP responses.
+ */
+export function createInteractionResponder(
+  config: InteractionResponderConfig = {}
+): InteractionResponder {
+  const passthrough = config.passthrough ?? DefaultRestOptions.makeRequest;
+  const pending = new Map<string, PendingInteraction>();
+
+  async function send(method: string, path: `/${string}`, body?: unknown): Promise<void> {
+    const response = await passthrough(`${RouteBases.api}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Discord API responded ${response.status} to ${method} ${path}`);
+    }
+  }
+
+  /**
+   * Deliver a response the handler sent after the deferral went out.
+   */
+  async function sendAfterDeferral(
+    interaction: PendingInteraction,
+    response: APIInteractionResponse
+  ): Promise<void> {
+    const { application_id: applicationId, token } = interaction.raw;
+    const original = Routes.webhookMessage(applicationId, token, '@original');
+    const deferredMessage =
+      interaction.deferredAs === InteractionResponseType.DeferredChannelMessageWithSource;
+
+    switch (response.type) {
+      case InteractionResponseType.DeferredChannelMessageWithSource:
+      case InteractionResponseType.DeferredMessageUpdate:
+        // Already deferred on the handler's behalf
+        return;
+
+      case InteractionResponseType.ChannelMessageWithSource: {
+        const data = response.data ?? {};
+        const ephemeral = ((data.flags ?? 0) & MessageFlags.Ephemeral) !== 0;
+        if (deferredMessage && !ephemeral) {
+          await send('PATCH', original, data);
+          return;
+        }
+        // The deferral was public, so an ephemeral reply replaces it with a follow-up
+        if (deferredMessage) {
+          await send('DELETE', original);
+        }
+        await send('POST', Routes.webhook(applicationId, token), data);
+        return;
+      }
+
+      case InteractionResponseType.UpdateMessage:
+        await send('PATCH', original, response.data ?? {});
+        return;
+
+      default:
+        throw new Error(
+          `Interaction response type ${response.type} cannot be sent after deferring`
+        );
+    }
+  }
+
+  const makeRequest: MakeRequest = async (url, init) => {
+    const interactionId = CALLBACK_PATTERN.exec(url)?.[1];
+    const interaction = interactionId ? pending.get(interactionId) : undefined;
+
+    if (!interaction) {
+      return passthrough(url, init);
+    }
+
+    if (typeof init.body !== 'string') {
+      throw new Error('Attachments in initial interaction responses are not supported');
+    }
+
+    const response = JSON.parse(init.body) as APIInteractionResponse;
+
+    if (interaction.state === 'waiting') {
+      interaction.state = 'answered';
+      interaction.respond(response);
+    } else if (interaction.state === 'deferred') {
+      await sendAfterDeferral(interaction, response);
+    } else {
+      throw new Error(`Interaction ${interactionId} has already been answered`);
+    }
+
+    return new Response(null, { status: 204 }) as unknown as ResponseLike;
+  };
+
+  return {
+    makeRequest,
+
+    track(raw) {
+      let respond!: (response: APIInteractionResponse) => void;
+      const initial = new Promise<APIInteractionResponse>((resolve) => {
+        respond = resolve;
+      });
+      const interaction: PendingInteraction = { raw, state: 'waiting', respond };
+      pending.set(raw.id, interaction);
+
+      return {
+        initial,
+
+        defer() {
+          if (interaction.state !== 'waiting') {
+            return null;
+          }
+
+          if (raw.type === InteractionType.ApplicationCommandAutocomplete) {
+            // Autocomplete cannot be deferred; offer no choices instead
+            interaction.state = 'answered';
+            return {
+              type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+              data: { choices: [] },
+            };
+          }
+
+          interaction.state = 'deferred';
+          interaction.deferredAs =
+            raw.type === InteractionType.MessageComponent
+              ? InteractionResponseType.DeferredMessageUpdate
+              : InteractionResponseType.DeferredChannelMessageWithSource;
+          return { type: interaction.deferredAs };
+        },
+
+        release() {
+          pending.delete(raw.id);
+        },
+      };
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Endpoint
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * An incoming HTTP request, reduced to what the endpoint needs
+ */
+export interface InteractionRequest {
+  headers: Record<string, string | string[] | undefined>;
+  /** Raw body, exactly as received (the signature covers these bytes) */
+  body: string;
+}
+
+/**
+ * The HTTP response to send back to Discord
+ */
+export interface InteractionResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface InteractionEndpointConfig {
+  verify: SignatureVerifier;
+  responder: InteractionResponder;
+  /** Route a raw interaction through the feature handlers */
+  dispatch: (raw: APIInteraction) => Promise<void>;
+  logger: Logger;
+  /** Milliseconds before answering with a deferred response */
+  deferAfterMs?: number;
+  /** Seconds the signature timestamp may differ from the local clock */
+  maxTimestampSkewSeconds?: number;
+}
+
+const header = (request: InteractionRequest, name: string): string | undefined => {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Create the request handler for the interactions endpoint.
+ */
+export function createInteractionEndpoint(
+  config: InteractionEndpointConfig
+): (request: InteractionRequest) => Promise<InteractionResponse> {
+  const { verify, responder, dispatch, logger } = config;
+  const deferAfterMs = config.deferAfterMs ?? DEFAULT_DEFER_AFTER_MS;
+  const maxSkewSeconds =
+    config.maxTimestampSkewSeconds ?? DEFAULT_MAX_TIMESTAMP_SKEW_SECONDS;
+
+  return async (request) => {
+    const signature = header(request, 'x-signature-ed25519');
+    const timestamp = header(request, 'x-signature-timestamp');
+
+    if (!signature || !timestamp || !verify(signature, timestamp, request.body)) {
+      return { status: 401, body: { error: 'Invalid request signature' } };
+    }
+
+    const skewSeconds = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!(skewSeconds <= maxSkewSeconds)) {
+      return { status: 401, body: { error: 'Request timestamp out of range' } };
+    }
+
+    let raw: APIInteraction | { type: InteractionType.Ping };
+    try {
+      raw = JSON.parse(request.body);
+    } catch {
+      return { status: 400, body: { error: 'Invalid JSON body' } };
+    }
+
+    if (raw.type === InteractionType.Ping) {
+      return { status: 200, body: { type: InteractionResponseType.Pong } };
+    }
+
+    const interaction = raw as APIInteraction;
+    const tracked = responder.track(interaction);
+
+    const routed = dispatch(interaction).catch((error: unknown) => {
+      logger.error('Error dispatching HTTP interaction', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    });
+    // Keep translating late responses until the handler is done
+    void routed.finally(() => tracked.release());
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<'deadline'>((resolve) => {
+      timer = setTimeout(() => resolve('deadline'), deferAfterMs);
+    });
+
+    const outcome = await Promise.race([
+      tracked.initial,
+      routed.then(() => 'done' as const),
+      deadline,
+    ]);
+    clearTimeout(timer);
+
+    if (outcome === 'deadline') {
+      logger.debug(`Deferring interaction ${interaction.id} after ${deferAfterMs}ms`);
+      return { status: 200, body: tracked.defer() ?? (await tracked.initial) };
+    }
+
+    if (outcome === 'done') {
+      logger.warn(`Interaction ${interaction.id} finished without a response`);
+      return {
+        status: 200,
+        body: {
+          type: InteractionResponseType.ChannelMessageWithSource,
+          data: {
+            content: 'This interaction did not produce a response.',
+            flags: MessageFlags.Ephemeral,
+          },
+        },
+      };
+    }
+
+    return { status: 200, body: outcome };
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Server and dispatch
+// ─────────────────────────────────────────────────────────────────────────────
+
+function readBody(request: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        resolve(null);
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Create the HTTP server serving the endpoint at `path`.
+ */
+export function createInteractionsServer(
+  handle: (request: InteractionRequest) => Promise<InteractionResponse>,
+  logger: Logger,
+  path = '/interactions'
+): Server {
+  return createServer(async (req, res) => {
+    const sendJson = (status: number, body: unknown): void => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== 'POST' || req.url?.split('?')[0] !== path) {
+      sendJson(404, { error: 'Not found' });
+      return;
+    }
+
+    try {
+      const body = await readBody(req);
+      if (body === null) {
+        sendJson(413, { error: 'Request body too large' });
+        return;
+      }
+
+      const response = await handle({ headers: req.headers, body });
+      sendJson(response.status, response.body);
+    } catch (error) {
+      logger.error('Error handling interactions request', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      sendJson(500, { error: 'Internal server error' });
+    }
+  });
+}
+
+/**
+ * Internal discord.js API used to build interaction objects from raw payloads.
+ * This is the same path gateway INTERACTION_CREATE events take.
+ */
+interface ClientInternals {
+  actions: { InteractionCreate: { handle(data: APIInteraction): void } };
+}
+
+/**
+ * Create a dispatcher that turns raw interaction payloads into discord.js
+ * interaction objects and routes them.
+ *
+ * @param client - Client used to build interactions (not logged in)
+ * @param route - The command router
+ */
+export function createRawInteractionDispatcher(
+  client: Client,
+  route: (interaction: Interaction) => Promise<void>
+): (raw: APIInteraction) => Promise<void> {
+  const { actions } = client as unknown as ClientInternals;
+
+  return async (raw) => {
+    let routed: Promise<void> | undefined;
+    const capture = (interaction: Interaction): void => {
+      routed = route(interaction);
+    };
+
+    // The action emits synchronously, so the capture sees exactly this interaction
+    client.once(Events.InteractionCreate, capture);
+    try {
+      actions.InteractionCreate.handle(raw);
+    } finally {
+      client.off(Events.InteractionCreate, capture);
+    }
+
+    if (!routed) {
+      throw new Error(`Unsupported interaction type ${raw.type}`);
+    }
+    await routed;
+  };
+}
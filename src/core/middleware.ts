@@ -0,0 +1,337 @@
+/**
+ * Middleware pipeline for the command router.
+ *
+ * Middlewares wrap feature handlers (slash commands, components and modals)
+ * so cross-cutting concerns live in one place instead of every handler.
+ * A middleware receives the context and a `next` function; it may act before
+ * calling `next`, after it resolves, or skip it entirely to short-circuit.
+ * Guards reject by throwing a domain error (see errors.ts), which the router
+ * renders for the user.
+ *
+ * Global middlewares are configured on the router and run first, followed by
+ * the middlewares declared on the feature slice.
+ */
+
+import type { CommandInteractionOption } from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import type { AuditRepo, CommandOutcome } from '@discord-bot/persistence';
+import type { DmCheckFn } from './dmCheck.js';
+import {
+  DomainError,
+  PermissionError,
+  RateLimitedError,
+  ValidationError,
+} from './errors.js';
+import type { RateLimiter } from './rateLimiter.js';
+import type { FeatureSlice, RoutedInteraction } from './types.js';
+
+/**
+ * Context passed through the middleware chain for a single interaction
+ */
+export interface MiddlewareContext {
+  /** The interaction being handled */
+  interaction: RoutedInteraction;
+  /** The feature slice that owns the interaction */
+  feature: FeatureSlice;
+  /** Router logger */
+  logger: Logger;
+  /** Scratch space for middlewares to share per-interaction data */
+  state: Map<string, unknown>;
+}
+
+/**
+ * Continue to the next middleware (or the handler at the end of the chain)
+ */
+export type Next = () => Promise<void>;
+
+/**
+ * Middleware function signature
+ */
+export type Middleware = (ctx: MiddlewareContext, next: Next) => Promise<void>;
+
+/**
+ * State key set once the chain reaches the handler, so wrapping middlewares
+ * can tell a completed handler from a short-circuited chain
+ */
+export const HANDLER_CALLED = 'handlerCalled';
+
+/**
+ * Compose middlewares into a single function that runs them in order
+ * and finally invokes the handler.
+ */
+export function composeMiddleware(
+  middlewares: Middleware[]
+): (ctx: MiddlewareContext, handler: Next) => Promise<void> {
+  return (ctx, handler) => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<void> => {
+      if (index <= lastIndex) {
+        throw new Error('next() called multiple times in middleware');
+      }
+      lastIndex = index;
+
+      const middleware = middlewares[index];
+      if (!middleware) {
+        ctx.state.set(HANDLER_CALLED, true);
+        await handler();
+        return;
+      }
+
+      await middleware(ctx, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
+}
+
+/**
+ * Create a middleware that runs a hook before the rest of the chain.
+ * Return `false` from the hook to stop the chain (after replying yourself).
+ */
+export function before(
+  hook: (ctx: MiddlewareContext) => Promise<boolean | void> | boolean | void
+): Middleware {
+  return async (ctx, next) => {
+    const proceed = await hook(ctx);
+    if (proceed !== false) {
+      await next();
+    }
+  };
+}
+
+/**
+ * Create a middleware that runs a hook after the rest of the chain succeeds.
+ */
+export function after(
+  hook: (ctx: MiddlewareContext) => Promise<void> | void
+): Middleware {
+  return async (ctx, next) => {
+    await next();
+    await hook(ctx);
+  };
+}
+
+/**
+ * Send an ephemeral message, following up if the interaction was already answered.
+ */
+export async function replyEphemeral(
+  interaction: RoutedInteraction,
+  content: string
+): Promise<void> {
+  if (interaction.replied || interaction.deferred) {
+    await interaction.followUp({ content, ephemeral: true });
+  } else {
+    await interaction.reply({ content, ephemeral: true });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Built-in Middlewares
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Only allow the interaction inside a server (not in direct messages).
+ *
+ * @throws ValidationError in direct messages
+ */
+export function guildOnly(): Middleware {
+  return before(({ interaction }) => {
+    if (!interaction.guildId) {
+      throw new ValidationError('This command can only be used in a server.');
+    }
+  });
+}
+
+/**
+ * Get the guild of an interaction behind the guildOnly middleware.
+ *
+ * @throws Error if there is no guild, i.e. the middleware is missing
+ */
+export function getGuildId(interaction: { guildId: string | null }): string {
+  if (!interaction.guildId) {
+    throw new Error(
+      'This handler requires a guild. Is the guildOnly middleware missing?'
+    );
+  }
+  return interaction.guildId;
+}
+
+/**
+ * Only allow users with DM (Dungeon Master) capability.
+ *
+ * @param isDm - DM check created with `createDmCheck`
+ * @throws PermissionError for other users
+ */
+export function dmOnly(isDm: DmCheckFn): Middleware {
+  return before(async ({ interaction }) => {
+    if (!(await isDm(interaction.user.id))) {
+      throw new PermissionError('Only DMs (Dungeon Masters) can use this.');
+    }
+  });
+}
+
+/**
+ * Only allow members that have a permission in the server.
+ *
+ * Complements `setDefaultMemberPermissions` on the command, which server
+ * admins can override in the integration settings.
+ *
+ * @param permission - Permission flag, e.g. `PermissionFlagsBits.ManageGuild`
+ * @param permissionName - Name shown to the user, e.g. "Manage Server"
+ * @throws PermissionError for members without the permission
+ */
+export function requirePermission(
+  permission: bigint,
+  permissionName: string
+): Middleware {
+  return before(({ interaction }) => {
+    if (!interaction.memberPermissions?.has(permission)) {
+      throw new PermissionError(`You need the ${permissionName} permission to use this.`);
+    }
+  });
+}
+
+/**
+ * Reject interactions that exceed the rate limits.
+ *
+ * @param limiter - Limiter created with `createRateLimiter`
+ * @throws RateLimitedError when a limit is exceeded
+ */
+export function rateLimit(limiter: RateLimiter): Middleware {
+  return before(async ({ interaction, feature, logger }) => {
+    const result = limiter.consume({
+      userId: interaction.user.id,
+      guildId: interaction.guildId,
+      command: feature.name,
+    });
+
+    if (!result.allowed) {
+      logger.debug(`Rate limited ${interaction.user.id} on ${feature.name}`, {
+        scope: result.scope,
+        retryAfterMs: result.retryAfterMs,
+      });
+      throw new RateLimitedError(
+        "You're sending commands too quickly.",
+        result.retryAfterMs
+      );
+    }
+  });
+}
+
+/**
+ * Log how long the rest of the chain took, including failures.
+ */
+export function timing(): Middleware {
+  return async ({ feature, logger }, next) => {
+    const start = performance.now();
+    let outcome = 'error';
+
+    try {
+      await next();
+      outcome = 'ok';
+    } finally {
+      const durationMs = Math.round(performance.now() - start);
+      logger.debug(`Handled ${feature.name} in ${durationMs}ms`, { outcome });
+    }
+  };
+}
+
+/**
+ * Map known errors to user-facing messages.
+ *
+ * The mapper returns the message to show, or undefined to let the error
+ * propagate to the router's generic error handling.
+ */
+export function mapErrors(mapper: (error: unknown) => string | undefined): Middleware {
+  return async ({ interaction }, next) => {
+    try {
+      await next();
+    } catch (error) {
+      const message = mapper(error);
+      if (message === undefined) {
+        throw error;
+      }
+      await replyEphemeral(interaction, message);
+    }
+  };
+}
+
+/**
+ * Flatten command options into name/value pairs, descending into subcommands.
+ */
+function flattenOptions(
+  options: readonly CommandInteractionOption[],
+  into: Record<string, string | number | boolean> = {}
+): Record<string, string | number | boolean> {
+  for (const option of options) {
+    if (option.options) {
+      flattenOptions(option.options, into);
+    } else if (option.value !== undefined) {
+      into[option.name] = option.value;
+    }
+  }
+  return into;
+}
+
+/**
+ * Record slash and context menu commands in the audit log.
+ *
+ * Records who ran the command, where, with which options, how long it took
+ * and how it ended. Commands stopped by a middleware, by short-circuiting or
+ * by throwing a domain error before the handler ran, are recorded as blocked.
+ * Components, modals and autocomplete are not recorded.
+ * A failing audit write is logged and never fails the command.
+ *
+ * @param repo - Audit repository
+ */
+export function audit(repo: AuditRepo): Middleware {
+  return async ({ interaction, logger, state }, next) => {
+    if (!interaction.isChatInputCommand() && !interaction.isContextMenuCommand()) {
+      await next();
+      return;
+    }
+
+    const start = performance.now();
+    let outcome: CommandOutcome = 'error';
+    let errorMessage: string | null = null;
+
+    try {
+      await next();
+      outcome = state.get(HANDLER_CALLED) ? 'ok' : 'blocked';
+    } catch (error) {
+      if (error instanceof DomainError && !state.get(HANDLER_CALLED)) {
+        outcome = 'blocked';
+      }
+      errorMessage = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      const group = interaction.isChatInputCommand()
+        ? interaction.options.getSubcommandGroup(false)
+        : null;
+      const subcommand = interaction.isChatInputCommand()
+        ? interaction.options.getSubcommand(false)
+        : null;
+
+      await repo
+        .record({
+          discordUserId: interaction.user.id,
+          guildId: interaction.guildId,
+          channelId: interaction.channelId,
+          command: interaction.commandName,
+          subcommand: [group, subcommand].filter(Boolean).join(' ') || null,
+          options: flattenOptions(interaction.options.data),
+          durationMs: performance.now() - start,
+          outcome,
+          errorMessage,
+        })
+        .catch((recordError: unknown) => {
+          logger.warn('Failed to record command audit', {
+            command: interaction.commandName,
+            error:
+              recordError instanceof Error ? recordError.message : String(recordError),
+          });
+        });
+    }
+  };
+}
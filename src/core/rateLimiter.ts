@@ -0,0 +1,156 @@
+/**
+ * Token bucket rate limiter for interactions.
+ *
+ * Each interaction draws one token from up to three buckets: the user's bucket,
+ * the guild's bucket (skipped in DMs) and the user's bucket for that command.
+ * Tokens refill continuously at a fixed interval up to the bucket's capacity.
+ * An interaction is only allowed if every bucket has a token, and tokens are
+ * only taken when it is allowed, so rejected spam does not extend the wait.
+ *
+ * Pure logic with NO Discord.js dependencies; time comes from an injected clock.
+ */
+
+import type { RateLimitBucketConfig } from '@discord-bot/config';
+
+/**
+ * Returns the current time in milliseconds
+ */
+export type Clock = () => number;
+
+/**
+ * Bucket settings for each rate limit scope
+ */
+export interface RateLimits {
+  /** Bucket per user across all commands */
+  user: RateLimitBucketConfig;
+  /** Bucket per guild across all users */
+  guild: RateLimitBucketConfig;
+  /** Bucket per user per command */
+  command: RateLimitBucketConfig;
+}
+
+export type RateLimitScope = keyof RateLimits;
+
+/**
+ * Who is making the request
+ */
+export interface RateLimitKey {
+  userId: string;
+  /** Guild ID, or null in direct messages */
+  guildId: string | null;
+  /** Command (feature) name */
+  command: string;
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+export interface RateLimiter {
+  /** Take a token from every applicable bucket, if all of them have one */
+  consume(key: RateLimitKey): RateLimitResult;
+  /** Forget all buckets */
+  reset(): void;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Once this many buckets exist, full (idle) buckets are dropped.
+ * A full bucket behaves exactly like a missing one, so this loses nothing.
+ */
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Create a rate limiter.
+ *
+ * @param limits - Bucket settings per scope
+ * @param clock - Time source, injectable for tests
+ */
+export function createRateLimiter(
+  limits: RateLimits,
+  clock: Clock = Date.now
+): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  const refill = (
+    bucketKey: string,
+    config: RateLimitBucketConfig,
+    now: number
+  ): Bucket => {
+    const bucket = buckets.get(bucketKey) ?? { tokens: config.capacity, updatedAt: now };
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(
+      config.capacity,
+      bucket.tokens + elapsed / config.refillIntervalMs
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  };
+
+  const sweep = (now: number): void => {
+    for (const [bucketKey, bucket] of buckets) {
+      const scope = bucketKey.slice(0, bucketKey.indexOf(':')) as RateLimitScope;
+      const config = limits[scope];
+      const tokens = bucket.tokens + (now - bucket.updatedAt) / config.refillIntervalMs;
+      if (tokens >= config.capacity) {
+        buckets.delete(bucketKey);
+      }
+    }
+  };
+
+  return {
+    consume(key) {
+      const now = clock();
+
+      const checks: Array<{ scope: RateLimitScope; bucketKey: string }> = [
+        { scope: 'user', bucketKey: `user:${key.userId}` },
+        { scope: 'command', bucketKey: `command:${key.userId}:${key.command}` },
+      ];
+      if (key.guildId) {
+        checks.push({ scope: 'guild', bucketKey: `guild:${key.guildId}` });
+      }
+
+      const refilled = checks.map((check) => ({
+        ...check,
+        bucket: refill(check.bucketKey, limits[check.scope], now),
+      }));
+
+      // Report the longest wait so the user is not told to retry too early
+      let denied: { scope: RateLimitScope; retryAfterMs: number } | undefined;
+      for (const { scope, bucket } of refilled) {
+        if (bucket.tokens < 1) {
+          const retryAfterMs = Math.ceil(
+            (1 - bucket.tokens) * limits[scope].refillIntervalMs
+          );
+          if (!denied || retryAfterMs > denied.retryAfterMs) {
+            denied = { scope, retryAfterMs };
+          }
+        }
+      }
+
+      for (const { bucketKey, bucket } of refilled) {
+        if (!denied) {
+          bucket.tokens -= 1;
+        }
+        buckets.set(bucketKey, bucket);
+      }
+
+      if (buckets.size > SWEEP_THRESHOLD) {
+        sweep(now);
+      }
+
+      return denied ? { allowed: false, ...denied } : { allowed: true };
+    },
+
+    reset() {
+      buckets.clear();
+    },
+  };
+}
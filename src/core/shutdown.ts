@@ -0,0 +1,101 @@
+/**
+ * Graceful shutdown.
+ *
+ * On SIGINT/SIGTERM the bot stops routing new interactions, lets the ones in
+ * progress finish (so a `/char set` is not cut off mid-write), and only then
+ * disconnects from Discord and closes the database.
+ */
+
+import type { Server } from 'node:http';
+import type { Client } from 'discord.js';
+import type { Logger } from '@discord-bot/logger';
+import type { CommandRouter } from './commandRouter.js';
+
+/**
+ * Default time to wait for in-flight interactions
+ */
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10_000;
+
+/**
+ * Everything shutdown needs to stop, in the order it stops them
+ */
+export interface ShutdownConfig {
+  router: Pick<CommandRouter, 'stopAccepting' | 'drain' | 'inFlightCount'>;
+  client: Pick<Client, 'destroy'>;
+  dbClient: { close(): Promise<void> };
+  /** Interactions endpoint server in http mode */
+  httpServer?: Pick<Server, 'close'> | null;
+  logger: Logger;
+  /** How long to wait for in-flight interactions (default: 10s) */
+  timeoutMs?: number;
+}
+
+/**
+ * Shuts the app down and resolves with the process exit code
+ */
+export type Shutdown = (reason: string) => Promise<number>;
+
+/**
+ * Create the shutdown routine.
+ *
+ * Calling it more than once (e.g. a second Ctrl+C) returns the shutdown
+ * already in progress. The exit code is 0 when every interaction finished
+ * and everything closed cleanly, 1 otherwise.
+ */
+export function createShutdown(config: ShutdownConfig): Shutdown {
+  const {
+    router,
+    client,
+    dbClient,
+    httpServer,
+    logger,
+    timeoutMs = DEFAULT_SHUTDOWN_TIMEOUT_MS,
+  } = config;
+  let running: Promise<number> | null = null;
+
+  async function run(reason: string): Promise<number> {
+    logger.info(`Received ${reason}, shutting down gracefully...`);
+    let exitCode = 0;
+
+    router.stopAccepting();
+    httpServer?.close();
+
+    const pending = router.inFlightCount();
+    if (pending > 0) {
+      logger.info(`Waiting up to ${timeoutMs}ms for ${pending} interaction(s) to finish`);
+    }
+
+    if (!(await router.drain(timeoutMs))) {
+      logger.warn('Shutdown deadline reached with interactions still in progress', {
+        inFlight: router.inFlightCount(),
+      });
+      exitCode = 1;
+    }
+
+    try {
+      await client.destroy();
+    } catch (error) {
+      logger.error('Failed to disconnect from Discord', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      exitCode = 1;
+    }
+
+    try {
+      await dbClient.close();
+      logger.info('Database connection closed');
+    } catch (error) {
+      logger.error('Failed to close the database', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      exitCode = 1;
+    }
+
+    return exitCode;
+  }
+
+  return (reason) => {
+    running ??= run(reason);
+    return running;
+  };
+}
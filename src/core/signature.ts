@@ -0,0 +1,64 @@
+/**
+ * Ed25519 signature verification for Discord's HTTP interactions.
+ *
+ * Discord signs every request to the interactions endpoint with the
+ * application's key. The signature covers the timestamp header followed by
+ * the raw request body; requests that fail verification must be rejected
+ * with 401, and Discord periodically sends bad signatures to check this.
+ */
+
+import { createPublicKey, verify, type KeyObject } from 'node:crypto';
+
+/**
+ * DER prefix turning a raw 32-byte Ed25519 public key into an SPKI key
+ */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Verifies a request signature against the raw body
+ */
+export type SignatureVerifier = (
+  signature: string,
+  timestamp: string,
+  rawBody: string | Buffer
+) => boolean;
+
+/**
+ * Import the application's public key as shown in the Developer Portal.
+ *
+ * @param publicKeyHex - 64 hex characters
+ * @throws Error if the key is not a valid hex-encoded Ed25519 key
+ */
+export function importPublicKey(publicKeyHex: string): KeyObject {
+  if (!/^[0-9a-f]{64}$/i.test(publicKeyHex)) {
+    throw new Error('Discord public key must be 64 hex characters');
+  }
+
+  return createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKeyHex, 'hex')]),
+    format: 'der',
+    type: 'spki',
+  });
+}
+
+/**
+ * Create a verifier for the `X-Signature-Ed25519` and `X-Signature-Timestamp` headers.
+ *
+ * @param publicKeyHex - Application public key (hex)
+ */
+export function createSignatureVerifier(publicKeyHex: string): SignatureVerifier {
+  const publicKey = importPublicKey(publicKeyHex);
+
+  return (signature, timestamp, rawBody) => {
+    if (!/^[0-9a-f]{128}$/i.test(signature)) {
+      return false;
+    }
+
+    const message = Buffer.concat([
+      Buffer.from(timestamp, 'utf8'),
+      typeof rawBody === 'string' ? Buffer.from(rawBody, 'utf8') : rawBody,
+    ]);
+
+    return verify(null, message, publicKey, Buffer.from(signature, 'hex'));
+  };
+}
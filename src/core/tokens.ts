@@ -0,0 +1,86 @@
+/**
+ * Container tokens for the ports shared across features.
+ *
+ * Registered by `createApp` (via `registerCorePorts`); feature factories
+ * resolve them from the container.
+ */
+
+import type { Logger } from '@discord-bot/logger';
+import { defaultRNG, type RNG } from '@discord-bot/dnd5e/engine';
+import {
+  SqliteAuditRepo,
+  SqliteCharacterRepo,
+  SqliteGuildSettingsRepo,
+  SqliteMacroRepo,
+  SqliteRollLogRepo,
+  SqliteUserRepo,
+  type AuditRepo,
+  type CharacterRepo,
+  type GuildSettingsRepo,
+  type MacroRepo,
+  type RollLogRepo,
+  type SqliteClient,
+  type UserRepo,
+} from '@discord-bot/persistence';
+import { createToken, type Container } from './container.js';
+import { createDmCheck, createDmList, type DmCheckFn, type DmListFn } from './dmCheck.js';
+import {
+  createCachedGuildSettingsRepo,
+  createFeatureEnabledCheck,
+  type FeatureEnabledFn,
+} from './featureToggles.js';
+
+export const LOGGER = createToken<Logger>('logger');
+
+export const USER_REPO = createToken<UserRepo>('userRepo');
+
+export const CHARACTER_REPO = createToken<CharacterRepo>('characterRepo');
+
+export const AUDIT_REPO = createToken<AuditRepo>('auditRepo');
+
+export const GUILD_SETTINGS_REPO = createToken<GuildSettingsRepo>('guildSettingsRepo');
+
+export const MACRO_REPO = createToken<MacroRepo>('macroRepo');
+
+export const ROLL_LOG_REPO = createToken<RollLogRepo>('rollLogRepo');
+
+/** DM (Dungeon Master) capability check, see `createDmCheck` */
+export const DM_CHECK = createToken<DmCheckFn>('dmCheck');
+
+/** Discord IDs of every DM, see `createDmList` */
+export const DM_LIST = createToken<DmListFn>('dmList');
+
+/** Per-guild feature toggle check, see `createFeatureEnabledCheck` */
+export const FEATURE_ENABLED_CHECK = createToken<FeatureEnabledFn>('featureEnabledCheck');
+
+/** Random number source for dice rolls; override with a seeded RNG in tests */
+export const DICE_RNG = createToken<RNG>('diceRng');
+
+/**
+ * Register the shared ports, backed by the given SQLite client.
+ * Dice use `rng` (default: Math.random based).
+ */
+export function registerCorePorts(
+  container: Container,
+  {
+    logger,
+    dbClient,
+    rng = defaultRNG,
+  }: { logger: Logger; dbClient: SqliteClient; rng?: RNG }
+): void {
+  container.registerValue(LOGGER, logger);
+  container.registerValue(DICE_RNG, rng);
+  container.register(USER_REPO, () => new SqliteUserRepo(dbClient.kysely));
+  container.register(CHARACTER_REPO, () => new SqliteCharacterRepo(dbClient.kysely));
+  container.register(AUDIT_REPO, () => new SqliteAuditRepo(dbClient.kysely));
+  container.register(GUILD_SETTINGS_REPO, () =>
+    createCachedGuildSettingsRepo(new SqliteGuildSettingsRepo(dbClient.kysely))
+  );
+  container.register(MACRO_REPO, () => new SqliteMacroRepo(dbClient.kysely));
+  container.register(ROLL_LOG_REPO, () => new SqliteRollLogRepo(dbClient.kysely));
+  container.register(DM_CHECK, (c) => createDmCheck(c.resolve(USER_REPO)));
+  container.register(DM_LIST, (c) => createDmList(c.resolve(USER_REPO)));
+  container.register(FEATURE_ENABLED_CHECK, (c) =>
+    createFeatureEnabledCheck(c.resolve(GUILD_SETTINGS_REPO))
+  );
+}
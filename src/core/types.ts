@@ -1,9 +1,18 @@
 import type {
+  AutocompleteInteraction,
   ChatInputCommandInteraction,
+  ContextMenuCommandBuilder,
+  ContextMenuCommandInteraction,
+  MessageComponentInteraction,
+  MessageContextMenuCommandInteraction,
+  ModalSubmitInteraction,
+  RESTPostAPIApplicationCommandsJSONBody,
   SlashCommandBuilder,
   SlashCommandOptionsOnlyBuilder,
   SlashCommandSubcommandsOnlyBuilder,
+  UserContextMenuCommandInteraction,
 } from 'discord.js';
+import type { Middleware } from './middleware.js';
 
 /**
  * Result type for operations that can fail
@@ -12,6 +21,15 @@ export type Result<T, E = Error> =
   | { success: true; value: T }
   | { success: false; error: E };
 
+/**
+ * Interactions the command router dispatches to feature handlers
+ */
+export type RoutedInteraction =
+  | ChatInputCommandInteraction
+  | ContextMenuCommandInteraction
+  | MessageComponentInteraction
+  | ModalSubmitInteraction;
+
 /**
  * Command handler function signature
  */
@@ -19,6 +37,68 @@ export type CommandHandler = (
   interaction: ChatInputCommandInteraction
 ) => Promise<void>;
 
+/**
+ * Autocomplete handler signature
+ * Responds with choices for the focused option of a slash command
+ */
+export type AutocompleteHandler = (interaction: AutocompleteInteraction) => Promise<void>;
+
+/**
+ * Message component handler signature (buttons and select menus)
+ *
+ * Receives the custom ID segments that follow the action,
+ * e.g. `['stats', '<charId>']` for `char:show:stats:<charId>`.
+ */
+export type ComponentHandler = (
+  interaction: MessageComponentInteraction,
+  args: string[]
+) => Promise<void>;
+
+/**
+ * Modal submit handler signature
+ *
+ * Receives the custom ID segments that follow the action.
+ */
+export type ModalHandler = (
+  interaction: ModalSubmitInteraction,
+  args: string[]
+) => Promise<void>;
+
+/**
+ * User context menu handler signature (right-click a user > Apps)
+ */
+export type UserContextMenuHandler = (
+  interaction: UserContextMenuCommandInteraction
+) => Promise<void>;
+
+/**
+ * Message context menu handler signature (right-click a message > Apps)
+ */
+export type MessageContextMenuHandler = (
+  interaction: MessageContextMenuCommandInteraction
+) => Promise<void>;
+
+/**
+ * Context menu command owned by a feature slice
+ *
+ * The `type` must match the type set on the builder; the registry checks this.
+ */
+export type ContextMenuCommand =
+  | {
+      type: 'user';
+      command: ContextMenuCommandBuilder;
+      handler: UserContextMenuHandler;
+      /** Middlewares run after the feature's own, for this menu only */
+      middlewares?: Middleware[];
+    }
+  | {
+      type: 'message';
+      command: ContextMenuCommandBuilder;
+      handler: MessageContextMenuHandler;
+      /** Middlewares run after the feature's own, for this menu only */
+      middlewares?: Middleware[];
+    };
+
 /**
  * Feature slice definition
  * Each feature must export this shape from its index.ts
@@ -42,6 +122,46 @@ export interface FeatureSlice {
    * Handler function for this command
    */
   handler: CommandHandler;
+
+  /**
+   * Autocomplete handler for options declared with `setAutocomplete(true)`
+   */
+  autocomplete?: AutocompleteHandler;
+
+  /**
+   * Message component handlers keyed by action
+   * Matched against custom IDs of the form `<name>:<action>[:<arg>...]`
+   */
+  components?: Record<string, ComponentHandler>;
+
+  /**
+   * Modal submit handlers keyed by action
+   * Matched against custom IDs of the form `<name>:<action>[:<arg>...]`
+   */
+  modals?: Record<string, ModalHandler>;
+
+  /**
+   * Context menu commands (user and message "Apps" entries)
+   * Registered alongside the slash command and dispatched by menu name
+   */
+  contextMenus?: ContextMenuCommand[];
+
+  /**
+   * Middlewares wrapping all of this feature's handlers except autocomplete
+   * Run after the router's global middlewares, in declaration order
+   */
+  middlewares?: Middleware[];
+
+  /**
+   * Make automatic defers of slow commands ephemeral
+   * Set this when the feature's replies are ephemeral, or pass a function
+   * when only some of them are (e.g. depending on a subcommand or option)
+   */
+  deferEphemeral?:
+    | boolean
+    | ((
+        interaction: ChatInputCommandInteraction | ContextMenuCommandInteraction
+      ) => boolean);
 }
 
 /**
@@ -62,4 +182,18 @@ export interface FeatureRegistry {
    * Get a feature by command name
    */
   getByName(name: string): FeatureSlice | undefined;
+
+  /**
+   * Get a context menu command and its owning feature by menu type and name
+   */
+  getContextMenu(
+    type: ContextMenuCommand['type'],
+    name: string
+  ): { feature: FeatureSlice; menu: ContextMenuCommand } | undefined;
+
+  /**
+   * Get the command data for every slash command and context menu,
+   * ready to send to Discord
+   */
+  getCommandData(): RESTPostAPIApplicationCommandsJSONBody[];
 }
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { audit } from '../../../core/middleware.js';
+import { AUDIT_REPO, USER_REPO } from '../../../core/tokens.js';
+import { createSimulator, type Simulator } from '../../../testing/index.js';
+
+describe('/audit (end-to-end)', () => {
+  let sim: Simulator;
+
+  beforeEach(async () => {
+    sim = await createSimulator({
+      middlewares: (container) => [audit(container.resolve(AUDIT_REPO))],
+    });
+    await sim.container.resolve(USER_REPO).setDmByDiscordUserId('dm-1', true);
+  });
+
+  afterEach(async () => {
+    await sim.close();
+  });
+
+  it('should list commands run in the server', async () => {
+    await sim.run('/char set name:Bob attributes:{str:16}', { userId: '111' });
+
+    const { responses } = await sim.run('/audit', { userId: 'dm-1' });
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: true });
+    expect(responses[0]?.content).toContain(
+      '<@111> `/char set name:Bob attributes:{str:16}` (ok,'
+    );
+  });
+
+  it('should filter by user', async () => {
+    await sim.run('/char set name:Bob attributes:{hp:10}', { userId: '111' });
+    await sim.run('/char set name:Eve attributes:{hp:8}', { userId: '222' });
+
+    const { lastContent } = await sim.run('/audit user:<@222>', { userId: 'dm-1' });
+
+    expect(lastContent).toContain('name:Eve');
+    expect(lastContent).not.toContain('name:Bob');
+  });
+
+  it('should only show commands from the current server', async () => {
+    await sim.run('/char set name:Bob attributes:{hp:10}', {
+      userId: '111',
+      guildId: 'guild-2',
+    });
+
+    const { lastContent } = await sim.run('/audit', { userId: 'dm-1' });
+
+    expect(lastContent).not.toContain('name:Bob');
+  });
+
+  it('should reject invalid times', async () => {
+    const { lastEmbed } = await sim.run('/audit since:yesterday', { userId: 'dm-1' });
+
+    expect(lastEmbed).toMatchObject({
+      description:
+        'Invalid since "yesterday".\n\nUse a duration like 30m, 24h or 7d, or a date like 2024-01-15.',
+      footer: { text: 'Error code: VALIDATION' },
+    });
+  });
+
+  it('should only be available to DMs', async () => {
+    const { lastEmbed } = await sim.run('/audit', { userId: '111' });
+
+    expect(lastEmbed).toMatchObject({
+      description: 'Only DMs (Dungeon Masters) can use this.',
+      footer: { text: 'Error code: PERMISSION' },
+    });
+  });
+});
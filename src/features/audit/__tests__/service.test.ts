@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { CommandAuditEntry } from '@discord-bot/persistence';
+import {
+  formatAuditEntry,
+  formatAuditList,
+  formatCommandLine,
+  parseTimeBound,
+} from '../service.js';
+
+const NOW = Date.parse('2024-01-15T12:00:00.000Z');
+
+function entry(overrides: Partial<CommandAuditEntry> = {}): CommandAuditEntry {
+  return {
+    id: 'entry-1',
+    discordUserId: '111',
+    guildId: 'guild-1',
+    channelId: 'channel-1',
+    command: 'char',
+    subcommand: 'set',
+    options: { name: 'Bob', attributes: '{hp:10}' },
+    durationMs: 12,
+    outcome: 'ok',
+    errorMessage: null,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('parseTimeBound', () => {
+  it('should resolve durations relative to now', () => {
+    expect(parseTimeBound('30m', NOW)).toBe('2024-01-15T11:30:00.000Z');
+    expect(parseTimeBound('24h', NOW)).toBe('2024-01-14T12:00:00.000Z');
+    expect(parseTimeBound('7d', NOW)).toBe('2024-01-08T12:00:00.000Z');
+    expect(parseTimeBound('2W', NOW)).toBe('2024-01-01T12:00:00.000Z');
+  });
+
+  it('should accept dates and timestamps', () => {
+    expect(parseTimeBound('2024-01-10', NOW)).toBe('2024-01-10T00:00:00.000Z');
+    expect(parseTimeBound('2024-01-10T08:30:00Z', NOW)).toBe('2024-01-10T08:30:00.000Z');
+  });
+
+  it('should return null for anything else', () => {
+    expect(parseTimeBound('yesterday', NOW)).toBeNull();
+    expect(parseTimeBound('10', NOW)).toBeNull();
+  });
+});
+
+describe('formatCommandLine', () => {
+  it('should rebuild the command as typed', () => {
+    expect(formatCommandLine(entry())).toBe('/char set name:Bob attributes:{hp:10}');
+  });
+
+  it('should omit a missing subcommand', () => {
+    expect(
+      formatCommandLine(entry({ command: 'roll', subcommand: null, options: {} }))
+    ).toBe('/roll');
+  });
+});
+
+describe('formatAuditEntry', () => {
+  it('should show time, user, command and outcome', () => {
+    expect(formatAuditEntry(entry())).toBe(
+      '<t:1705312800:f> <@111> `/char set name:Bob attributes:{hp:10}` (ok, 12ms)'
+    );
+  });
+
+  it('should include the error message for failed commands', () => {
+    expect(formatAuditEntry(entry({ outcome: 'error', errorMessage: 'boom' }))).toContain(
+      '(error: boom, 12ms)'
+    );
+  });
+});
+
+describe('formatAuditList', () => {
+  it('should explain when nothing matches', () => {
+    expect(formatAuditList([])).toBe('No commands found for those filters.');
+  });
+
+  it('should stay within the Discord message limit', () => {
+    const entries = Array.from({ length: 25 }, (_, i) =>
+      entry({ id: `entry-${i}`, options: { attributes: 'x'.repeat(200) } })
+    );
+
+    const content = formatAuditList(entries);
+
+    expect(content.length).toBeLessThanOrEqual(2000);
+    expect(content).toMatch(/\.\.\.and \d+ older entries$/);
+  });
+});
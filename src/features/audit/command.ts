@@ -0,0 +1,88 @@
+import { SlashCommandBuilder } from 'discord.js';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { ValidationError } from '../../core/errors.js';
+import { auditQuerySchema } from './schema.js';
+import { formatAuditList, parseTimeBound } from './service.js';
+import type { AuditFeatureDeps, AuditQuery } from './types.js';
+
+/**
+ * Slash command definition for /audit
+ */
+export const auditCommand = new SlashCommandBuilder()
+  .setName('audit')
+  .setDescription('Show recent commands run in this server (DMs only)')
+  .addUserOption((option) =>
+    option.setName('user').setDescription('Only show commands run by this user')
+  )
+  .addStringOption((option) =>
+    option
+      .setName('since')
+      .setDescription('Start time: a duration like 24h or 7d, or a date like 2024-01-15')
+      .setMaxLength(40)
+  )
+  .addStringOption((option) =>
+    option
+      .setName('until')
+      .setDescription('End time: a duration like 1h, or a date like 2024-01-16')
+      .setMaxLength(40)
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName('limit')
+      .setDescription('Number of entries to show (default: 10)')
+      .setMinValue(1)
+      .setMaxValue(25)
+  );
+
+/**
+ * Handler for the /audit command
+ *
+ * Lists the server's audit log, newest first, as an ephemeral message.
+ */
+export async function handleAuditCommand(
+  interaction: ChatInputCommandInteraction,
+  deps: AuditFeatureDeps
+): Promise<void> {
+  const rawInput = {
+    user: interaction.options.getUser('user')?.id,
+    since: interaction.options.getString('since') ?? undefined,
+    until: interaction.options.getString('until') ?? undefined,
+    limit: interaction.options.getInteger('limit') ?? undefined,
+  };
+
+  const parseResult = auditQuerySchema.safeParse(rawInput);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((err) => `${err.path.join('.')}: ${err.message}`)
+      .join('\n');
+
+    throw new ValidationError(errors);
+  }
+
+  const input = parseResult.data;
+  const query: AuditQuery = {
+    guildId: interaction.guildId!,
+    discordUserId: input.user,
+    limit: input.limit,
+  };
+
+  for (const bound of ['since', 'until'] as const) {
+    const value = input[bound];
+    if (value === undefined) {
+      continue;
+    }
+
+    const parsed = parseTimeBound(value);
+    if (!parsed) {
+      throw new ValidationError(`Invalid ${bound} "${value}".`, {
+        hint: 'Use a duration like 30m, 24h or 7d, or a date like 2024-01-15.',
+      });
+    }
+    query[bound] = parsed;
+  }
+
+  const entries = await deps.auditRepo.query(query);
+
+  await interaction.reply({ content: formatAuditList(entries), ephemeral: true });
+}
@@ -0,0 +1,33 @@
+/**
+ * Command audit feature slice.
+ *
+ * Provides /audit for DMs (Dungeon Masters) to see who ran which command in
+ * their server, e.g. to answer "who changed my character's HP?". Commands are
+ * recorded by the `audit` router middleware.
+ */
+
+import type { Container } from '../../core/container.js';
+import { AUDIT_REPO, DM_CHECK } from '../../core/tokens.js';
+import type { FeatureSlice } from '../../core/types.js';
+import { dmOnly, guildOnly } from '../../core/middleware.js';
+import { auditCommand, handleAuditCommand } from './command.js';
+import type { AuditFeatureDeps } from './types.js';
+
+/**
+ * Create the audit feature slice, resolving its ports from the container.
+ */
+export function createAuditFeature(container: Container): FeatureSlice {
+  const deps: AuditFeatureDeps = {
+    auditRepo: container.resolve(AUDIT_REPO),
+  };
+
+  return {
+    name: 'audit',
+    command: auditCommand,
+    handler: (interaction) => handleAuditCommand(interaction, deps),
+    middlewares: [guildOnly(), dmOnly(container.resolve(DM_CHECK))],
+    deferEphemeral: true,
+  };
+}
+
+export type { AuditFeatureDeps } from './types.js';
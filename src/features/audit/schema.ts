@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+/**
+ * Zod schema for /audit command options
+ */
+export const auditQuerySchema = z.object({
+  user: z.string().optional(),
+
+  since: z.string().max(40, 'Time cannot exceed 40 characters').optional(),
+
+  until: z.string().max(40, 'Time cannot exceed 40 characters').optional(),
+
+  limit: z
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1')
+    .max(25, 'Limit cannot be greater than 25')
+    .default(10),
+});
+
+/**
+ * TypeScript type derived from the schema
+ */
+export type AuditQueryInput = z.infer<typeof auditQuerySchema>;
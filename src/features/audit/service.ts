@@ -0,0 +1,98 @@
+import type { CommandAuditEntry } from '@discord-bot/persistence';
+
+const DURATION_PATTERN = /^(\d+)\s*(m|h|d|w)$/i;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Discord message length limit
+ */
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Resolve a time bound to an ISO 8601 timestamp.
+ *
+ * Accepts a duration before now (`30m`, `24h`, `7d`, `2w`) or a date
+ * (`2024-01-15`, `2024-01-15T10:30:00Z`).
+ *
+ * @param input - Time as typed by the user
+ * @param now - Current time in ms (default: Date.now())
+ * @returns ISO timestamp, or null if the input is not a valid time
+ */
+export function parseTimeBound(input: string, now = Date.now()): string | null {
+  const trimmed = input.trim();
+
+  const duration = DURATION_PATTERN.exec(trimmed);
+  if (duration) {
+    const amount = Number(duration[1]);
+    const unit = duration[2]!.toLowerCase();
+    return new Date(now - amount * UNIT_MS[unit]!).toISOString();
+  }
+
+  const timestamp = DATE_PATTERN.test(trimmed) ? Date.parse(trimmed) : NaN;
+  return Number.isNaN(timestamp) ? null : new Date(timestamp).toISOString();
+}
+
+/**
+ * Format the command as it was typed, e.g. `/char set name:Bob`.
+ */
+export function formatCommandLine(entry: CommandAuditEntry): string {
+  const parts = [`/${entry.command}`];
+  if (entry.subcommand) {
+    parts.push(entry.subcommand);
+  }
+  for (const [name, value] of Object.entries(entry.options)) {
+    parts.push(`${name}:${value}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Format one audit entry as a single line.
+ */
+export function formatAuditEntry(entry: CommandAuditEntry): string {
+  const seconds = Math.floor(Date.parse(entry.createdAt) / 1000);
+  const outcome =
+    entry.outcome === 'error' && entry.errorMessage
+      ? `error: ${entry.errorMessage}`
+      : entry.outcome;
+
+  return `<t:${seconds}:f> <@${entry.discordUserId}> \`${formatCommandLine(entry)}\` (${outcome}, ${entry.durationMs}ms)`;
+}
+
+/**
+ * Format audit entries for a Discord message, dropping the oldest entries
+ * that do not fit.
+ */
+export function formatAuditList(entries: CommandAuditEntry[]): string {
+  if (entries.length === 0) {
+    return 'No commands found for those filters.';
+  }
+
+  const header = `**Command audit** (newest first)`;
+  const lines: string[] = [];
+  let length = header.length;
+
+  for (const entry of entries) {
+    let line = formatAuditEntry(entry);
+    if (line.length > 300) {
+      line = `${line.slice(0, 297)}...`;
+    }
+    // Leave room for the "more entries" note
+    if (length + line.length + 1 > MAX_MESSAGE_LENGTH - 40) {
+      lines.push(`...and ${entries.length - lines.length} older entries`);
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+  }
+
+  return [header, ...lines].join('\n');
+}
@@ -0,0 +1,22 @@
+import type { AuditRepo } from '@discord-bot/persistence';
+
+/**
+ * Ports the audit feature depends on
+ */
+export interface AuditFeatureDeps {
+  auditRepo: AuditRepo;
+}
+
+/**
+ * Audit log filters resolved from the command options
+ */
+export interface AuditQuery {
+  guildId: string;
+  /** Discord user ID to filter by */
+  discordUserId?: string;
+  /** ISO 8601 lower bound (inclusive) */
+  since?: string;
+  /** ISO 8601 upper bound (exclusive) */
+  until?: string;
+  limit: number;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createSimulator, type Simulator } from '../../../testing/index.js';
+
+describe('/char (end-to-end)', () => {
+  let sim: Simulator;
+
+  beforeEach(async () => {
+    sim = await createSimulator();
+  });
+
+  afterEach(async () => {
+    await sim.close();
+  });
+
+  it('should create a character and report the changes', async () => {
+    const { responses } = await sim.run(
+      '/char set name:Bob attributes:{str:16, class:"Fighter", level:3}'
+    );
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: true });
+    expect(responses[0]?.content).toContain('Updated "Bob"');
+    expect(responses[0]?.content).toContain('str: 16 (new)');
+    expect(responses[0]?.content).toContain('Ability Mods: STR +3');
+  });
+
+  it('should show and read back attributes of the active character', async () => {
+    await sim.run('/char set name:Bob attributes:{str:16, level:3}');
+    await sim.run('/char active name:Bob');
+
+    const show = await sim.run('/char show view:stats');
+    expect(show.lastContent).toContain('STR: 16 (+3)');
+    expect(show.lastContent).toContain('Proficiency: +2');
+
+    const get = await sim.run('/char get keys:str level');
+    expect(get.lastContent).toContain('str');
+    expect(get.lastContent).toContain('16');
+  });
+
+  it('should remove attributes with unset', async () => {
+    await sim.run('/char set name:Bob attributes:{str:16, level:3}');
+
+    await sim.run('/char unset name:Bob keys:level');
+    const { lastContent } = await sim.run('/char show name:Bob view:all');
+
+    expect(lastContent).not.toContain('Level 3');
+  });
+
+  it('should explain when no active character is set', async () => {
+    const { responses, lastEmbed } = await sim.run('/char show');
+
+    expect(responses).toEqual([expect.objectContaining({ ephemeral: true })]);
+    expect(lastEmbed).toMatchObject({
+      title: 'Not found',
+      description:
+        'No active character set.\n\nUse `/char active name:<name>` to set one, or specify a name.',
+      footer: { text: 'Error code: NOT_FOUND' },
+    });
+  });
+
+  it('should keep characters separate per user and per guild', async () => {
+    await sim.run('/char set name:Bob attributes:{str:16}');
+
+    const otherUser = await sim.run('/char show view:characters', { userId: 'user-2' });
+    const otherGuild = await sim.run('/char show view:characters', {
+      guildId: 'guild-2',
+    });
+
+    expect(otherUser.lastContent).toContain('You have no characters in this server.');
+    expect(otherGuild.lastContent).toContain('You have no characters in this server.');
+  });
+
+  it('should refuse to run in direct messages', async () => {
+    const { responses, lastEmbed } = await sim.run(
+      '/char set name:Bob attributes:{str:16}',
+      { guildId: null }
+    );
+
+    expect(responses).toEqual([expect.objectContaining({ ephemeral: true })]);
+    expect(lastEmbed?.description).toBe('This command can only be used in a server.');
+  });
+});
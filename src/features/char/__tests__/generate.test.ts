@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { createMockRNG } from '@discord-bot/dnd5e/engine';
+import { generateAbilityScores } from '@discord-bot/dnd5e/rules';
+import {
+  abilityScoresPatch,
+  formatAssignedScores,
+  formatGeneratedScores,
+  formatPointBuyCosts,
+  parseAbilityOrder,
+  parsePointBuyScores,
+} from '../generate/service.js';
+
+describe('parseAbilityOrder', () => {
+  it('should parse each ability once, in any case', () => {
+    expect(parseAbilityOrder('DEX, con wis  str cha int')).toEqual({
+      success: true,
+      values: ['dex', 'con', 'wis', 'str', 'cha', 'int'],
+    });
+  });
+
+  it('should reject unknown, repeated and missing abilities', () => {
+    expect(parseAbilityOrder('dex con wis str cha luck')).toEqual({
+      success: false,
+      error: 'Unknown ability "luck". Use str, dex, con, int, wis, cha.',
+    });
+    expect(parseAbilityOrder('dex dex')).toEqual({
+      success: false,
+      error: 'dex is listed more than once.',
+    });
+    expect(parseAbilityOrder('dex con')).toEqual({
+      success: false,
+      error: 'Missing str, int, wis, cha.',
+    });
+  });
+});
+
+describe('parsePointBuyScores', () => {
+  it('should parse whole numbers', () => {
+    expect(parsePointBuyScores('15 14,13 8 10 12')).toEqual({
+      success: true,
+      values: [15, 14, 13, 8, 10, 12],
+    });
+    expect(parsePointBuyScores('15 14.5')).toEqual({
+      success: false,
+      error: '"14.5" is not a score.',
+    });
+  });
+});
+
+describe('formatting', () => {
+  it('should list the point buy costs', () => {
+    expect(formatPointBuyCosts()).toBe('8=0, 9=1, 10=2, 11=3, 12=4, 13=5, 14=7, 15=9');
+  });
+
+  it('should build a patch in ability order', () => {
+    expect(
+      abilityScoresPatch({ dex: 15, con: 14, wis: 13, str: 12, cha: 10, int: 8 })
+    ).toBe('{str:12, dex:15, con:14, int:8, wis:13, cha:10}');
+  });
+
+  it('should label scores rolled in order with their ability', () => {
+    const result = generateAbilityScores('3d6-in-order', {
+      rng: createMockRNG([1, 2, 3, 6, 6, 6, 2, 2, 2, 4, 4, 4, 5, 5, 5, 1, 1, 1]),
+    });
+    if (!result.success) throw new Error(result.error);
+
+    expect(formatGeneratedScores(result.value)).toBe(
+      [
+        '**Ability scores** (3d6-in-order): STR 6, DEX 18, CON 6, INT 12, WIS 15, CHA 3',
+        'STR: 3d6 [1, 2, 3] = **6**',
+        'DEX: 3d6 [6, 6, 6] = **18**',
+        'CON: 3d6 [2, 2, 2] = **6**',
+        'INT: 3d6 [4, 4, 4] = **12**',
+        'WIS: 3d6 [5, 5, 5] = **15**',
+        'CHA: 3d6 [1, 1, 1] = **3**',
+      ].join('\n')
+    );
+  });
+
+  it('should show the points spent on point buy', () => {
+    const result = generateAbilityScores('point-buy', {
+      pointBuy: [15, 15, 15, 8, 8, 8],
+    });
+    if (!result.success) throw new Error(result.error);
+
+    expect(formatGeneratedScores(result.value)).toBe(
+      '**Ability scores** (point-buy): STR 15, DEX 15, CON 15, INT 8, WIS 8, CHA 8 (27/27 points)'
+    );
+  });
+
+  it('should format assigned scores with modifiers', () => {
+    expect(
+      formatAssignedScores('Bob', { str: 15, dex: 14, con: 13, int: 8, wis: 10, cha: 12 })
+    ).toBe(
+      'Assigned to **Bob**: STR 15 (+2), DEX 14 (+2), CON 13 (+1), INT 8 (-1), WIS 10 (+0), CHA 12 (+1)'
+    );
+  });
+});
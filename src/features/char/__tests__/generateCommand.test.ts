@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { RNG } from '@discord-bot/dnd5e/engine';
+import { createSimulator, type Simulator } from '../../../testing/index.js';
+
+describe('/char generate (end-to-end)', () => {
+  let sim: Simulator;
+  // Die results the simulator's RNG hands out, in order
+  let dice: number[];
+
+  const rng: RNG = {
+    rollInt() {
+      const value = dice.shift();
+      if (value === undefined) {
+        throw new Error('No die results left');
+      }
+      return value;
+    },
+  };
+
+  // Six rolls of 4d6, dropping to 16, 9, 16, 3, 18 and 12
+  const fourD6 = [6, 1, 5, 5, 3, 3, 3, 3, 2, 4, 6, 6, 1, 1, 1, 1, 6, 6, 6, 6, 4, 2, 3, 5];
+
+  beforeEach(async () => {
+    dice = [];
+    sim = await createSimulator({ rng });
+  });
+
+  afterEach(async () => {
+    await sim.close();
+  });
+
+  it('should roll 4d6 drop lowest and show every roll publicly', async () => {
+    dice = [...fourD6];
+    const { responses } = await sim.run('/char generate method:4d6-drop-lowest');
+
+    expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: false });
+    expect(responses[0]?.content).toContain(
+      '**Ability scores** (4d6-drop-lowest): 16, 9, 16, 3, 18, 12'
+    );
+    expect(responses[0]?.content).toContain('4d6dl1 [6, ~~1~~, 5, 5] = **16**');
+  });
+
+  it('should assign the scores by priority and record the rolls', async () => {
+    dice = [...fourD6];
+    const { lastContent } = await sim.run(
+      '/char generate method:4d6-drop-lowest name:Bob order:dex con wis str cha int create:true'
+    );
+
+    expect(lastContent).toContain(
+      'Assigned to **Bob**: STR 12 (+1), DEX 18 (+4), CON 16 (+3), INT 3 (-4), WIS 16 (+3), CHA 9 (-1)'
+    );
+
+    const show = await sim.run('/char show name:Bob view:stats');
+    expect(show.lastContent).toContain('DEX: 18 (+4)');
+
+    const history = await sim.run('/roll history');
+    expect(history.lastContent).toContain(
+      '(Bob) **4d6-drop-lowest**: 4d6dl1 = **16** (4d6dl1 [6, ~~1~~, 5, 5])'
+    );
+  });
+
+  it('should assign point buy scores in ability order', async () => {
+    const { lastContent } = await sim.run(
+      '/char generate method:point-buy name:Bob scores:15 14 13 8 10 12 create:true'
+    );
+
+    expect(lastContent).toContain('(27/27 points)');
+    expect(lastContent).toContain('Assigned to **Bob**: STR 15 (+2), DEX 14 (+2)');
+  });
+
+  it('should assign to an existing character without create', async () => {
+    await sim.run('/char set name:Bob attributes:{level:1}');
+
+    const { lastContent } = await sim.run(
+      '/char generate method:point-buy name:bob scores:15 14 13 8 10 12'
+    );
+
+    expect(lastContent).toContain('Assigned to **Bob**: STR 15 (+2)');
+  });
+
+  it('should not create a misspelled character or roll for it', async () => {
+    await sim.run('/char set name:Bob attributes:{level:1}');
+
+    const { lastEmbed } = await sim.run(
+      '/char generate method:4d6-drop-lowest name:Bbo order:dex con wis str cha int'
+    );
+
+    expect(lastEmbed?.description).toContain('Character "Bbo" not found.');
+    expect(lastEmbed?.footer?.text).toBe('Error code: NOT_FOUND');
+    const show = await sim.run('/char show view:characters');
+    expect(show.lastContent).not.toContain('Bbo');
+    const history = await sim.run('/roll history');
+    expect(history.lastContent).toContain('No rolls');
+  });
+
+  it('should need a name to create', async () => {
+    const { lastEmbed } = await sim.run(
+      '/char generate method:standard-array create:true'
+    );
+
+    expect(lastEmbed?.description).toContain('`create` needs the `name`');
+  });
+
+  it('should reject point buys over budget with the costs', async () => {
+    const { lastEmbed } = await sim.run(
+      '/char generate method:point-buy scores:15 15 15 10 8 8'
+    );
+
+    expect(lastEmbed?.description).toContain(
+      'Invalid point buy: Total cost 29 exceeds maximum 27'
+    );
+    expect(lastEmbed?.description).toContain('Costs: 8=0, 9=1');
+  });
+
+  it('should not create a character for a point buy over budget', async () => {
+    const { lastEmbed } = await sim.run(
+      '/char generate method:point-buy name:Bob scores:15 15 15 10 8 8 create:true'
+    );
+
+    expect(lastEmbed?.description).toContain('Total cost 29 exceeds maximum 27');
+    const show = await sim.run('/char show view:characters');
+    expect(show.lastContent).toContain('You have no characters in this server.');
+  });
+
+  it('should need an order before rolling scores to assign', async () => {
+    const { lastEmbed } = await sim.run('/char generate method:standard-array name:Bob');
+
+    expect(lastEmbed?.description).toContain(
+      'Choose which abilities get the highest scores.'
+    );
+    const show = await sim.run('/char show view:characters');
+    expect(show.lastContent).toContain('You have no characters in this server.');
+  });
+
+  it('should reject an order for methods in ability order', async () => {
+    const { lastEmbed } = await sim.run(
+      '/char generate method:3d6-in-order order:str dex con int wis cha'
+    );
+
+    expect(lastEmbed?.description).toContain(
+      '`order` does not apply to 3d6-in-order: the scores are already in ability order.'
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { createMockRNG } from '@discord-bot/dnd5e/engine';
+import { characterReferences } from '../computed/derive.js';
+import {
+  formatMacroList,
+  formatMacroRoll,
+  rollMacro,
+  splitMacro,
+  validateMacro,
+} from '../macro/service.js';
+import { AttrValue, type RollMacro } from '../repo/ports.js';
+
+const attributes = {
+  str: AttrValue.num(16),
+  dex: AttrValue.num(8),
+  level: AttrValue.num(5),
+  'hp.max': AttrValue.num(44),
+  class: AttrValue.str('Barbarian'),
+};
+
+describe('characterReferences', () => {
+  it('should expose numeric attributes and computed values', () => {
+    expect(characterReferences(attributes)).toEqual({
+      str: 16,
+      dex: 8,
+      level: 5,
+      'hp.max': 44,
+      prof: 3,
+      str_mod: 3,
+      dex_mod: -1,
+    });
+  });
+});
+
+describe('splitMacro', () => {
+  it('should split rolls on "|"', () => {
+    expect(splitMacro('1d20+{str_mod} | 1d12+{str_mod}')).toEqual([
+      '1d20+{str_mod}',
+      '1d12+{str_mod}',
+    ]);
+  });
+});
+
+describe('validateMacro', () => {
+  it('should accept macros the character can roll', () => {
+    expect(validateMacro('1d20+{str_mod}+{prof} | 1d12+{str_mod}', attributes)).toBe(
+      undefined
+    );
+  });
+
+  it('should point at the roll with an unknown reference', () => {
+    expect(validateMacro('1d20+{prof} | 1d12+{wis_mod}', attributes)).toBe(
+      'Roll 2 (`1d12+{wis_mod}`): Unknown reference {wis_mod}. Available: ' +
+        '{dex}, {dex_mod}, {hp.max}, {level}, {prof}, {str}, {str_mod}'
+    );
+  });
+
+  it('should reject invalid dice and empty rolls', () => {
+    expect(validateMacro('1d20+', attributes)).toBe(
+      'Expected a number or dice, got end of expression'
+    );
+    expect(validateMacro('1d20 |', attributes)).toBe('Roll 2 is empty');
+  });
+
+  it('should limit the number of rolls', () => {
+    expect(validateMacro('1d4|1d4|1d4|1d4|1d4|1d4', attributes)).toBe(
+      'A macro can have at most 5 rolls'
+    );
+  });
+});
+
+describe('rollMacro', () => {
+  it('should roll every expression with the character values', () => {
+    const result = rollMacro(
+      '1d20+{str_mod}+{prof} | 1d12+{str_mod}',
+      attributes,
+      createMockRNG([12, 6])
+    );
+
+    expect(result.success && result.rolls.map((roll) => roll.total)).toEqual([18, 9]);
+  });
+
+  it('should wrap negative modifiers', () => {
+    const result = rollMacro('1d20+{dex_mod}', attributes, createMockRNG([10]));
+
+    expect(result.success && result.rolls[0]?.notation).toBe('1d20+(-1)');
+    expect(result.success && result.rolls[0]?.total).toBe(9);
+  });
+});
+
+describe('formatMacroRoll', () => {
+  it('should show one line per roll', () => {
+    const result = rollMacro(
+      '1d20+{str_mod} | 1d12+{str_mod}',
+      attributes,
+      createMockRNG([12, 6])
+    );
+    if (!result.success) throw new Error(result.error);
+
+    expect(formatMacroRoll('Thorin', 'greataxe', result.rolls)).toBe(
+      [
+        '**Thorin**: greataxe',
+        '1d20+3 = **15** (1d20 [12] + 3 (str_mod))',
+        '1d12+3 = **9** (1d12 [6] + 3 (str_mod))',
+      ].join('\n')
+    );
+  });
+});
+
+describe('formatMacroList', () => {
+  const macro = (name: string, expression: string): RollMacro => ({
+    id: name,
+    characterId: 'char-1',
+    name,
+    expression,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+  });
+
+  it('should list names with their expressions', () => {
+    expect(formatMacroList('Thorin', [macro('greataxe', '1d12+{str_mod}')])).toBe(
+      '**Thorin** - Macros (1/25)\n- `greataxe`: `1d12+{str_mod}`'
+    );
+  });
+
+  it('should explain how to add the first macro', () => {
+    expect(formatMacroList('Thorin', [])).toContain('has no macros yet');
+  });
+});
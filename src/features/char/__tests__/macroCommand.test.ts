@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { RNG } from '@discord-bot/dnd5e/engine';
+import { createSimulator, type Simulator } from '../../../testing/index.js';
+
+describe('/macro (end-to-end)', () => {
+  let sim: Simulator;
+  // Die results the simulator's RNG hands out, in order
+  let dice: number[];
+
+  const rng: RNG = {
+    rollInt() {
+      const value = dice.shift();
+      if (value === undefined) {
+        throw new Error('No die results left');
+      }
+      return value;
+    },
+  };
+
+  beforeEach(async () => {
+    dice = [];
+    sim = await createSimulator({ rng });
+    await sim.run('/char set name:Thorin attributes:{str:16, level:5}');
+    await sim.run('/char active name:Thorin');
+  });
+
+  afterEach(async () => {
+    await sim.close();
+  });
+
+  it('should save a macro and roll it with the character values', async () => {
+    const create = await sim.run(
+      '/macro create name:greataxe expression:1d20+{str_mod}+{prof} | 1d12+{str_mod}'
+    );
+    expect(create.responses[0]).toMatchObject({ kind: 'reply', ephemeral: true });
+    expect(create.lastContent).toContain('Saved macro `greataxe` on **Thorin**');
+
+    dice = [12, 6];
+    const { responses } = await sim.run('/macro run name:GreatAxe');
+
+    expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: false });
+    expect(responses[0]?.content).toBe(
+      [
+        '**Thorin**: greataxe',
+        '1d20+3+3 = **18** (1d20 [12] + 3 (str_mod) + 3 (prof))',
+        '1d12+3 = **9** (1d12 [6] + 3 (str_mod))',
+      ].join('\n')
+    );
+  });
+
+  it('should record macro rolls in the roll history', async () => {
+    await sim.run(
+      '/macro create name:greataxe expression:1d20+{str_mod} | 1d12+{str_mod}'
+    );
+
+    dice = [12, 6];
+    await sim.run('/macro run name:greataxe');
+    const { lastContent } = await sim.run('/roll history');
+
+    expect(lastContent).toContain(
+      '(Thorin) **greataxe**: 1d12+3 = **9** (1d12 [6] + 3 (str_mod))'
+    );
+    expect(lastContent).toContain(
+      '(Thorin) **greataxe**: 1d20+3 = **15** (1d20 [12] + 3 (str_mod))'
+    );
+  });
+
+  it('should use the current attributes when rolling', async () => {
+    await sim.run('/macro create name:attack expression:1d20+{str_mod}');
+    await sim.run('/char set name:Thorin attributes:{str:18}');
+
+    dice = [10];
+    const { lastContent } = await sim.run('/macro run name:attack');
+
+    expect(lastContent).toContain('1d20+4 = **14**');
+  });
+
+  it('should list the current character macros and delete them', async () => {
+    await sim.run('/macro create name:greataxe expression:1d12+{str_mod}');
+    await sim.run('/macro create name:dagger expression:1d4+{str_mod}');
+
+    const list = await sim.run('/macro list');
+    expect(list.lastContent).toContain('- `dagger`: `1d4+{str_mod}`\n- `greataxe`');
+
+    const deleted = await sim.run('/macro delete name:dagger');
+    expect(deleted.lastContent).toBe('Deleted macro `dagger` from **Thorin**.');
+
+    const after = await sim.run('/macro list');
+    expect(after.lastContent).not.toContain('dagger');
+  });
+
+  it('should list valid references for unknown ones', async () => {
+    const { lastEmbed } = await sim.run(
+      '/macro create name:cast expression:1d20+{wis_mod}'
+    );
+
+    expect(lastEmbed?.description).toContain(
+      'Invalid macro: Unknown reference {wis_mod}. Available: {level}, {prof}, {str}, {str_mod}'
+    );
+    expect(lastEmbed?.footer?.text).toBe('Error code: VALIDATION');
+  });
+
+  it('should reject duplicate names', async () => {
+    await sim.run('/macro create name:greataxe expression:1d12');
+
+    const { lastEmbed } = await sim.run('/macro create name:Greataxe expression:2d6');
+
+    expect(lastEmbed?.description).toContain(
+      'Thorin already has a macro named "Greataxe".'
+    );
+    expect(lastEmbed?.footer?.text).toBe('Error code: CONFLICT');
+  });
+
+  it('should report unknown macros', async () => {
+    const { lastEmbed } = await sim.run('/macro run name:fireball');
+
+    expect(lastEmbed?.description).toContain('Thorin has no macro named "fireball".');
+  });
+
+  it('should require an active character', async () => {
+    const { lastEmbed } = await sim.run('/macro list', { userId: 'user-2' });
+
+    expect(lastEmbed?.description).toContain('No active character set.');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { CHAR_KV_KEYS } from '@discord-bot/dnd5e-types';
+import { suggestCharacterNames, suggestKeyList, MAX_SUGGESTIONS } from '../kv/suggest.js';
+
+describe('suggestCharacterNames', () => {
+  const names = ['Gandalf', 'Bilbo', 'Galadriel', 'Aragorn'];
+
+  it('should return all names for empty input', () => {
+    expect(suggestCharacterNames('', names)).toEqual(names);
+  });
+
+  it('should match prefixes case-insensitively', () => {
+    expect(suggestCharacterNames('ga', names)).toEqual(['Gandalf', 'Galadriel']);
+  });
+
+  it('should rank prefix matches before substring matches', () => {
+    expect(suggestCharacterNames('a', names)).toEqual([
+      'Aragorn',
+      'Gandalf',
+      'Galadriel',
+    ]);
+  });
+
+  it('should return nothing when no name matches', () => {
+    expect(suggestCharacterNames('zzz', names)).toEqual([]);
+  });
+});
+
+describe('suggestKeyList', () => {
+  it('should complete the only key being typed', () => {
+    const suggestions = suggestKeyList('hp.', []);
+
+    expect(suggestions).toContain('hp.max');
+    expect(suggestions).toContain('hp.current');
+    expect(suggestions.every((s) => s.includes('hp.'))).toBe(true);
+  });
+
+  it('should keep previously typed keys and complete the last one', () => {
+    const suggestions = suggestKeyList('str dex co', []);
+
+    expect(suggestions[0]).toBe('str dex con');
+  });
+
+  it('should start a new key after a trailing space', () => {
+    const suggestions = suggestKeyList('str ', []);
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    expect(suggestions.every((s) => s.startsWith('str '))).toBe(true);
+    expect(suggestions).not.toContain('str str');
+  });
+
+  it('should include the character inventory keys', () => {
+    const suggestions = suggestKeyList('inv.', ['inv.longsword.name', 'str']);
+
+    expect(suggestions).toContain('inv.longsword.name');
+  });
+
+  it('should ignore existing keys that are not inventory keys', () => {
+    const suggestions = suggestKeyList('legacy', ['legacy_unsupported']);
+
+    expect(suggestions).toEqual([]);
+  });
+
+  it('should cap the number of suggestions', () => {
+    expect(CHAR_KV_KEYS.length).toBeGreaterThan(MAX_SUGGESTIONS);
+    expect(suggestKeyList('', [])).toHaveLength(MAX_SUGGESTIONS);
+  });
+
+  it('should drop suggestions longer than the choice limit', () => {
+    const typed = 'x'.repeat(98);
+    expect(suggestKeyList(`${typed} st`, [])).toEqual([]);
+  });
+});
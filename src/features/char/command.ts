@@ -7,15 +7,41 @@
  * - /char show - Show character information
  * - /char get - Get specific attributes
  * - /char unset - Remove attributes
+ * - /char generate - Generate ability scores, optionally assigning them
+ *
+ * Context menus:
+ * - Show active character - DM-only, shows another player's active character
  */
 
 import {
+  ApplicationCommandType,
+  ContextMenuCommandBuilder,
   SlashCommandBuilder,
+  type AutocompleteInteraction,
   type ChatInputCommandInteraction,
+  type UserContextMenuCommandInteraction,
 } from 'discord.js';
+import {
+  ABILITY_SCORE_METHODS,
+  assignAbilityScores,
+  generateAbilityScores,
+  isInAbilityOrder,
+  type AbilityScoreMethod,
+} from '@discord-bot/dnd5e/rules';
+import { NotFoundError, ValidationError } from '../../core/errors.js';
+import { getGuildId } from '../../core/middleware.js';
 import type { CharacterFeatureDeps, Character } from './repo/ports.js';
 import { applyPatch, unsetKeys, getAttributeValues, formatDiffEntry } from './kv/service.js';
+import { suggestCharacterNames, suggestKeyList } from './kv/suggest.js';
 import { deriveComputed, formatComputed, hasComputedValues } from './computed/derive.js';
+import {
+  abilityScoresPatch,
+  formatAssignedScores,
+  formatGeneratedScores,
+  formatPointBuyCosts,
+  parseAbilityOrder,
+  parsePointBuyScores,
+} from './generate/service.js';
 import {
   KV_CONFIG,
   GROUP_ORDER,
@@ -42,6 +68,7 @@ export const charCommand = new SlashCommandBuilder()
           .setDescription('Character name')
           .setRequired(true)
           .setMaxLength(100)
+          .setAutocomplete(true)
       )
       .addStringOption((opt) =>
         opt
@@ -63,6 +90,7 @@ export const charCommand = new SlashCommandBuilder()
           .setDescription('Character name to set as active')
           .setRequired(true)
           .setMaxLength(100)
+          .setAutocomplete(true)
       )
   )
 
@@ -77,6 +105,7 @@ export const charCommand = new SlashCommandBuilder()
           .setDescription('Character name (defaults to active)')
           .setRequired(false)
           .setMaxLength(100)
+          .setAutocomplete(true)
       )
       .addStringOption((opt) =>
         opt
@@ -109,6 +138,7 @@ export const charCommand = new SlashCommandBuilder()
           .setDescription('Character name (defaults to active)')
           .setRequired(false)
           .setMaxLength(100)
+          .setAutocomplete(true)
       )
       .addStringOption((opt) =>
         opt
@@ -116,6 +146,7 @@ export const charCommand = new SlashCommandBuilder()
           .setDescription('Space-separated list of keys')
           .setRequired(false)
           .setMaxLength(500)
+          .setAutocomplete(true)
       )
       .addStringOption((opt) =>
         opt
@@ -143,6 +174,7 @@ export const charCommand = new SlashCommandBuilder()
           .setDescription('Space-separated list of keys to remove')
           .setRequired(true)
           .setMaxLength(500)
+          .setAutocomplete(true)
       )
       .addStringOption((opt) =>
         opt
@@ -150,81 +182,163 @@ export const charCommand = new SlashCommandBuilder()
           .setDescription('Character name (defaults to active)')
           .setRequired(false)
           .setMaxLength(100)
+          .setAutocomplete(true)
       )
-  );
-
-/**
- * Dependencies required by the char command handler.
- */
-let deps: CharacterFeatureDeps | null = null;
+  )
 
-/**
- * Set the dependencies for the character feature.
- * Must be called during app initialization before handling commands.
- */
-export function setCharacterDeps(dependencies: CharacterFeatureDeps): void {
-  deps = dependencies;
-}
+  // /char generate
+  .addSubcommand((sub) =>
+    sub
+      .setName('generate')
+      .setDescription('Generate ability scores')
+      .addStringOption((opt) =>
+        opt
+          .setName('method')
+          .setDescription('How to generate the scores')
+          .setRequired(true)
+          .addChoices(
+            ...ABILITY_SCORE_METHODS.map((method) => ({ name: method, value: method }))
+          )
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName('name')
+          .setDescription('Character to assign the scores to')
+          .setRequired(false)
+          .setMaxLength(100)
+          .setAutocomplete(true)
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName('order')
+          .setDescription(
+            'Abilities from highest to lowest score, e.g. "dex con wis str cha int"'
+          )
+          .setRequired(false)
+          .setMaxLength(100)
+      )
+      .addBooleanOption((opt) =>
+        opt
+          .setName('create')
+          .setDescription('Create the character if it does not exist (default: false)')
+          .setRequired(false)
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName('scores')
+          .setDescription(
+            'Point buy scores for str dex con int wis cha, e.g. "15 14 13 8 10 12"'
+          )
+          .setRequired(false)
+          .setMaxLength(100)
+      )
+  );
 
 /**
- * Get dependencies, throwing if not initialized.
+ * User context menu: right-click a user > Apps > Show active character
  */
-function getDeps(): CharacterFeatureDeps {
-  if (!deps) {
-    throw new Error(
-      'Character feature dependencies not initialized. Call setCharacterDeps() during app startup.'
-    );
-  }
-  return deps;
-}
+export const showActiveCharacterMenu = new ContextMenuCommandBuilder()
+  .setName('Show active character')
+  .setType(ApplicationCommandType.User);
 
 /**
  * Main command handler - routes to subcommand handlers.
  */
 export async function handleCharCommand(
-  interaction: ChatInputCommandInteraction
+  interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps
 ): Promise<void> {
   const subcommand = interaction.options.getSubcommand();
 
   switch (subcommand) {
     case 'set':
-      await handleSet(interaction);
+      await handleSet(interaction, deps);
       break;
     case 'active':
-      await handleActive(interaction);
+      await handleActive(interaction, deps);
       break;
     case 'show':
-      await handleShow(interaction);
+      await handleShow(interaction, deps);
       break;
     case 'get':
-      await handleGet(interaction);
+      await handleGet(interaction, deps);
       break;
     case 'unset':
-      await handleUnset(interaction);
+      await handleUnset(interaction, deps);
+      break;
+    case 'generate':
+      await handleGenerate(interaction, deps);
       break;
     default:
-      await interaction.reply({
-        content: `Unknown subcommand: ${subcommand}`,
-        ephemeral: true,
-      });
+      throw new ValidationError(`Unknown subcommand: ${subcommand}`);
   }
 }
 
 /**
- * Resolve a character by name, or return error message.
+ * Autocomplete handler - suggests character names and attribute keys.
+ */
+export async function handleCharAutocomplete(
+  interaction: AutocompleteInteraction,
+  deps: CharacterFeatureDeps
+): Promise<void> {
+  const { userRepo, characterRepo } = deps;
+
+  // Autocomplete bypasses the middleware chain, so check the guild here
+  const guildId = interaction.guildId;
+  if (!guildId) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const focused = interaction.options.getFocused(true);
+  // Typing must not create users; someone unknown has no characters yet
+  const user = await userRepo.getByDiscordUserId(interaction.user.id);
+
+  let suggestions: string[] = [];
+
+  if (focused.name === 'name') {
+    if (!user) {
+      await interaction.respond([]);
+      return;
+    }
+    const characters = await characterRepo.listByUser({ userId: user.id, guildId });
+    suggestions = suggestCharacterNames(
+      focused.value,
+      characters.map((c) => c.name)
+    );
+  } else if (focused.name === 'keys') {
+    // Offer the target character's inventory keys alongside the static keys
+    const nameOpt = interaction.options.getString('name');
+    let character: Character | null = null;
+    if (user) {
+      const owner = { userId: user.id, guildId };
+      character = nameOpt
+        ? await characterRepo.getByName({ ...owner, name: nameOpt.trim() })
+        : await characterRepo.getActiveCharacter(owner);
+    }
+    suggestions = suggestKeyList(
+      focused.value,
+      character ? Object.keys(character.attributes) : []
+    );
+  }
+
+  await interaction.respond(suggestions.map((value) => ({ name: value, value })));
+}
+
+/**
+ * Resolve a character by name, defaulting to the active character.
+ *
+ * @throws NotFoundError if there is no such character
  */
 async function resolveCharacter(
   interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps,
   nameOpt: string | null
-): Promise<{ character: Character } | { error: string }> {
-  const { userRepo, characterRepo } = getDeps();
-
-  if (!interaction.guildId) {
-    return { error: 'This command can only be used in a server.' };
-  }
+): Promise<Character> {
+  const { userRepo, characterRepo } = deps;
 
   const user = await userRepo.getOrCreateByDiscordUserId(interaction.user.id);
-  const guildId = interaction.guildId;
+  const guildId = getGuildId(interaction);
 
   if (nameOpt) {
     const character = await characterRepo.getByName({
@@ -233,11 +347,9 @@ async function resolveCharacter(
       name: nameOpt.trim(),
     });
     if (!character) {
-      return {
-        error: `Character "${nameOpt}" not found. Use \`/char show view:characters\` to see your characters.`,
-      };
+      throw characterNotFound(nameOpt);
     }
-    return { character };
+    return character;
   }
 
   // Default to active character
@@ -246,60 +358,83 @@ async function resolveCharacter(
     guildId,
   });
   if (!active) {
-    return {
-      error:
-        'No active character set. Use `/char active name:<name>` to set one, or specify a name.',
-    };
+    throw new NotFoundError('No active character set.', {
+      hint: 'Use `/char active name:<name>` to set one, or specify a name.',
+    });
   }
-  return { character: active };
+  return active;
 }
 
-// ============ Subcommand Handlers ============
+/**
+ * Get a character by name, creating it if it does not exist yet.
+ */
+async function getOrCreateCharacter(
+  interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps,
+  name: string
+): Promise<Character> {
+  const { userRepo, characterRepo } = deps;
 
-async function handleSet(
-  interaction: ChatInputCommandInteraction
+  const user = await userRepo.getOrCreateByDiscordUserId(interaction.user.id);
+  const guildId = getGuildId(interaction);
+
+  const character = await characterRepo.getByName({ userId: user.id, guildId, name });
+  return character ?? characterRepo.createCharacter({ userId: user.id, guildId, name });
+}
+
+function characterNotFound(name: string): NotFoundError {
+  return new NotFoundError(`Character "${name}" not found.`, {
+    hint: 'Use `/char show view:characters` to see your characters.',
+  });
+}
+
+/**
+ * Context menu handler - shows the target user's active character.
+ * Restricted to DMs by the menu's dmOnly middleware.
+ */
+export async function handleShowActiveCharacterMenu(
+  interaction: UserContextMenuCommandInteraction,
+  deps: CharacterFeatureDeps
 ): Promise<void> {
-  const { userRepo, characterRepo } = getDeps();
+  const { userRepo, characterRepo } = deps;
+  const guildId = getGuildId(interaction);
+  const target = interaction.targetUser;
 
-  if (!interaction.guildId) {
-    await interaction.reply({
-      content: 'This command can only be used in a server.',
-      ephemeral: true,
-    });
-    return;
+  // Only look the target up: a read-only menu must not create users
+  const user = await userRepo.getByDiscordUserId(target.id);
+  const active = user
+    ? await characterRepo.getActiveCharacter({ userId: user.id, guildId })
+    : null;
+
+  if (!active) {
+    throw new NotFoundError(`${target.username} has no active character in this server.`);
   }
 
-  const nameOpt = interaction.options.getString('name', true).trim();
-  const attributesOpt = interaction.options.getString('attributes', true);
+  const view = generateCharacterView(active, 'summary');
+  await interaction.reply({
+    content: `Active character of ${target.username}:\n${view}`,
+    ephemeral: true,
+  });
+}
 
-  // Resolve user
-  const user = await userRepo.getOrCreateByDiscordUserId(interaction.user.id);
-  const guildId = interaction.guildId;
+// ============ Subcommand Handlers ============
 
-  // Get or create character
-  let character = await characterRepo.getByName({
-    userId: user.id,
-    guildId,
-    name: nameOpt,
-  });
+async function handleSet(
+  interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps
+): Promise<void> {
+  const { characterRepo } = deps;
 
-  if (!character) {
-    character = await characterRepo.createCharacter({
-      userId: user.id,
-      guildId,
-      name: nameOpt,
-    });
-  }
+  const nameOpt = interaction.options.getString('name', true).trim();
+  const attributesOpt = interaction.options.getString('attributes', true);
+
+  const character = await getOrCreateCharacter(interaction, deps, nameOpt);
 
   // Apply patch
   const result = await applyPatch(character, attributesOpt, characterRepo);
 
   if (!result.success) {
-    await interaction.reply({
-      content: `Failed to update "${nameOpt}":\n${result.error}`,
-      ephemeral: true,
-    });
-    return;
+    throw new ValidationError(`Failed to update "${nameOpt}":\n${result.error}`);
   }
 
   // Build response
@@ -335,22 +470,15 @@ async function handleSet(
 }
 
 async function handleActive(
-  interaction: ChatInputCommandInteraction
+  interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps
 ): Promise<void> {
-  const { userRepo, characterRepo } = getDeps();
-
-  if (!interaction.guildId) {
-    await interaction.reply({
-      content: 'This command can only be used in a server.',
-      ephemeral: true,
-    });
-    return;
-  }
+  const { userRepo, characterRepo } = deps;
 
   const nameOpt = interaction.options.getString('name', true).trim();
 
   const user = await userRepo.getOrCreateByDiscordUserId(interaction.user.id);
-  const guildId = interaction.guildId;
+  const guildId = getGuildId(interaction);
 
   const character = await characterRepo.getByName({
     userId: user.id,
@@ -359,11 +487,7 @@ async function handleActive(
   });
 
   if (!character) {
-    await interaction.reply({
-      content: `Character "${nameOpt}" not found. Use \`/char show view:characters\` to see your characters.`,
-      ephemeral: true,
-    });
-    return;
+    throw characterNotFound(nameOpt);
   }
 
   await characterRepo.setActiveCharacter({
@@ -379,23 +503,16 @@ async function handleActive(
 }
 
 async function handleShow(
-  interaction: ChatInputCommandInteraction
+  interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps
 ): Promise<void> {
-  const { userRepo, characterRepo } = getDeps();
-
-  if (!interaction.guildId) {
-    await interaction.reply({
-      content: 'This command can only be used in a server.',
-      ephemeral: true,
-    });
-    return;
-  }
+  const { userRepo, characterRepo } = deps;
 
   const nameOpt = interaction.options.getString('name');
   const view = (interaction.options.getString('view') ?? 'summary') as ShowView;
 
   const user = await userRepo.getOrCreateByDiscordUserId(interaction.user.id);
-  const guildId = interaction.guildId;
+  const guildId = getGuildId(interaction);
 
   // Special views that don't need a specific character
   if (view === 'help') {
@@ -470,13 +587,7 @@ async function handleShow(
   }
 
   // Views that need a character
-  const resolved = await resolveCharacter(interaction, nameOpt);
-  if ('error' in resolved) {
-    await interaction.reply({ content: resolved.error, ephemeral: true });
-    return;
-  }
-
-  const { character } = resolved;
+  const character = await resolveCharacter(interaction, deps, nameOpt);
   const content = generateCharacterView(character, view);
 
   await interaction.reply({
@@ -486,37 +597,21 @@ async function handleShow(
 }
 
 async function handleGet(
-  interaction: ChatInputCommandInteraction
+  interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps
 ): Promise<void> {
-  if (!interaction.guildId) {
-    await interaction.reply({
-      content: 'This command can only be used in a server.',
-      ephemeral: true,
-    });
-    return;
-  }
-
   const nameOpt = interaction.options.getString('name');
   const keysOpt = interaction.options.getString('keys');
   const prefixOpt = interaction.options.getString('prefix');
   const includeComputed = interaction.options.getBoolean('computed') ?? false;
 
   if (!keysOpt && !prefixOpt) {
-    await interaction.reply({
-      content:
-        'Please provide either `keys` or `prefix`. Use `/char show view:help` to see available keys.',
-      ephemeral: true,
+    throw new ValidationError('Please provide either `keys` or `prefix`.', {
+      hint: 'Use `/char show view:help` to see available keys.',
     });
-    return;
   }
 
-  const resolved = await resolveCharacter(interaction, nameOpt);
-  if ('error' in resolved) {
-    await interaction.reply({ content: resolved.error, ephemeral: true });
-    return;
-  }
-
-  const { character } = resolved;
+  const character = await resolveCharacter(interaction, deps, nameOpt);
   const keys = keysOpt
     ? keysOpt
         .split(/\s+/)
@@ -557,36 +652,19 @@ async function handleGet(
 }
 
 async function handleUnset(
-  interaction: ChatInputCommandInteraction
+  interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps
 ): Promise<void> {
-  const { characterRepo } = getDeps();
-
-  if (!interaction.guildId) {
-    await interaction.reply({
-      content: 'This command can only be used in a server.',
-      ephemeral: true,
-    });
-    return;
-  }
+  const { characterRepo } = deps;
 
   const keysOpt = interaction.options.getString('keys', true);
   const nameOpt = interaction.options.getString('name');
 
-  const resolved = await resolveCharacter(interaction, nameOpt);
-  if ('error' in resolved) {
-    await interaction.reply({ content: resolved.error, ephemeral: true });
-    return;
-  }
-
-  const { character } = resolved;
+  const character = await resolveCharacter(interaction, deps, nameOpt);
   const result = await unsetKeys(character, keysOpt, characterRepo);
 
   if (!result.success) {
-    await interaction.reply({
-      content: `Failed to unset attributes: ${result.error}`,
-      ephemeral: true,
-    });
-    return;
+    throw new ValidationError(`Failed to unset attributes: ${result.error}`);
   }
 
   const lines: string[] = [`**${character.name}** - Attributes removed`];
@@ -607,6 +685,115 @@ async function handleUnset(
   });
 }
 
+async function handleGenerate(
+  interaction: ChatInputCommandInteraction,
+  deps: CharacterFeatureDeps
+): Promise<void> {
+  const { characterRepo, rng, rollLogRepo } = deps;
+
+  const method = interaction.options.getString('method', true) as AbilityScoreMethod;
+  const nameOpt = interaction.options.getString('name')?.trim();
+  const orderOpt = interaction.options.getString('order');
+  const scoresOpt = interaction.options.getString('scores');
+  const createOpt = interaction.options.getBoolean('create') ?? false;
+
+  // Check the options before rolling, so a typo doesn't cost a roll
+  const inOrder = isInAbilityOrder(method);
+  if (orderOpt && inOrder) {
+    throw new ValidationError(
+      `\`order\` does not apply to ${method}: the scores are already in ability order.`
+    );
+  }
+  if (nameOpt && !inOrder && !orderOpt) {
+    throw new ValidationError('Choose which abilities get the highest scores.', {
+      hint: 'List them from highest to lowest, e.g. `order:dex con wis str cha int`.',
+    });
+  }
+  if (scoresOpt && method !== 'point-buy') {
+    throw new ValidationError('`scores` only applies to point-buy.');
+  }
+  if (createOpt && !nameOpt) {
+    throw new ValidationError('`create` needs the `name` of the character to create.');
+  }
+
+  const pointBuyHint = `Costs: ${formatPointBuyCosts()}.`;
+  if (method === 'point-buy' && !scoresOpt) {
+    throw new ValidationError('Point buy needs a score for each ability.', {
+      hint: `List str, dex, con, int, wis and cha, e.g. \`scores:15 14 13 8 10 12\`. ${pointBuyHint}`,
+    });
+  }
+
+  const order = orderOpt ? parseAbilityOrder(orderOpt) : undefined;
+  if (order && !order.success) {
+    throw new ValidationError(`Invalid order: ${order.error}`);
+  }
+  const pointBuy = scoresOpt ? parsePointBuyScores(scoresOpt) : undefined;
+  if (pointBuy && !pointBuy.success) {
+    throw new ValidationError(`Invalid point buy: ${pointBuy.error}`);
+  }
+  // Point buy is not rolled, so its costs are checked with the options
+  const bought = pointBuy
+    ? generateAbilityScores(method, { pointBuy: pointBuy.values })
+    : undefined;
+  if (bought && !bought.success) {
+    throw new ValidationError(`Invalid point buy: ${bought.error}`, {
+      hint: pointBuyHint,
+    });
+  }
+
+  // A misspelled name must not quietly create a character
+  let character: Character | undefined;
+  if (nameOpt) {
+    character = createOpt
+      ? await getOrCreateCharacter(interaction, deps, nameOpt)
+      : await resolveCharacter(interaction, deps, nameOpt);
+  }
+
+  const result = bought ?? generateAbilityScores(method, { rng });
+  if (!result.success) {
+    throw new Error(`Cannot generate ${method} scores: ${result.error}`);
+  }
+  const generated = result.value;
+
+  // Log rolled scores so the DM can check them in /roll history
+  for (const roll of generated.rolls) {
+    await rollLogRepo.record({
+      discordUserId: interaction.user.id,
+      guildId: interaction.guildId,
+      channelId: interaction.channelId,
+      characterName: character?.name ?? null,
+      expression: roll.notation,
+      breakdown: roll.breakdown,
+      dice: roll.groups,
+      total: roll.total,
+      label: method,
+      visibility: 'public',
+    });
+  }
+
+  const lines = [formatGeneratedScores(generated)];
+
+  if (character) {
+    const scores = assignAbilityScores(generated, order?.values);
+    if (!scores.success) {
+      throw new ValidationError(`Cannot assign the scores: ${scores.error}`);
+    }
+
+    const patch = abilityScoresPatch(scores.value);
+    const patched = await applyPatch(character, patch, characterRepo);
+    if (!patched.success) {
+      throw new ValidationError(
+        `Failed to update "${character.name}":\n${patched.error}`
+      );
+    }
+
+    lines.push('', formatAssignedScores(character.name, scores.value));
+  }
+
+  // Public like the roll log entries, so the table sees the scores
+  await interaction.reply(lines.join('\n'));
+}
+
 // ============ View Generators ============
 
 function generateHelpView(): string {
@@ -98,6 +98,47 @@ export function deriveComputed(
   return computed;
 }
 
+/**
+ * Reference names of computed values in dice expressions, e.g. "{str_mod}"
+ */
+const COMPUTED_REFERENCES: Record<keyof ComputedValues, string> = {
+  proficiencyBonus: 'prof',
+  strMod: 'str_mod',
+  dexMod: 'dex_mod',
+  conMod: 'con_mod',
+  intMod: 'int_mod',
+  wisMod: 'wis_mod',
+  chaMod: 'cha_mod',
+};
+
+/**
+ * Numbers a dice expression can reference on a character: every numeric
+ * attribute by key (e.g. "level", "hp.max") and the computed values
+ * ("prof", "str_mod", ...).
+ *
+ * @param attributes - Character's stored attributes
+ * @returns Values keyed by lowercase reference name
+ */
+export function characterReferences(
+  attributes: Record<string, AttributeValue>
+): Record<string, number> {
+  const references: Record<string, number> = {};
+
+  for (const [key, attr] of Object.entries(attributes)) {
+    const value = getNumericValue(attr);
+    if (value !== undefined) {
+      references[key.toLowerCase()] = value;
+    }
+  }
+
+  const computed = deriveComputed(attributes);
+  for (const [key, value] of Object.entries(computed)) {
+    references[COMPUTED_REFERENCES[key as keyof ComputedValues]] = value;
+  }
+
+  return references;
+}
+
 /**
  * Format computed values for display.
  */
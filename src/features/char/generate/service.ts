@@ -0,0 +1,136 @@
+/**
+ * Ability score generation for /char generate.
+ *
+ * The generation rules live in @discord-bot/dnd5e/rules. This module parses
+ * the command options and formats the results.
+ */
+
+import {
+  ABILITIES,
+  isAbility,
+  type Ability,
+  type AbilityScores,
+} from '@discord-bot/dnd5e-types';
+import {
+  POINT_BUY_POINTS,
+  isInAbilityOrder,
+  pointBuyCost,
+  type GeneratedAbilityScores,
+} from '@discord-bot/dnd5e/rules';
+import { abilityModifier, formatModifier } from '../computed/derive.js';
+import type { ListParseResult } from '../types.js';
+
+/**
+ * Split a list option on spaces and commas.
+ */
+function splitList(input: string): string[] {
+  return input.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Parse the abilities to give the highest scores to, e.g. "dex con wis str cha int".
+ * Each ability must appear exactly once.
+ */
+export function parseAbilityOrder(input: string): ListParseResult<Ability> {
+  const values: Ability[] = [];
+
+  for (const part of splitList(input.toLowerCase())) {
+    if (!isAbility(part)) {
+      return {
+        success: false,
+        error: `Unknown ability "${part}". Use ${ABILITIES.join(', ')}.`,
+      };
+    }
+    if (values.includes(part)) {
+      return { success: false, error: `${part} is listed more than once.` };
+    }
+    values.push(part);
+  }
+
+  const missing = ABILITIES.filter((ability) => !values.includes(ability));
+  if (missing.length > 0) {
+    return { success: false, error: `Missing ${missing.join(', ')}.` };
+  }
+
+  return { success: true, values };
+}
+
+/**
+ * Parse point buy scores in ability order, e.g. "15 14 13 8 10 12".
+ * Ranges and costs are checked by the point buy rules.
+ */
+export function parsePointBuyScores(input: string): ListParseResult<number> {
+  const values: number[] = [];
+
+  for (const part of splitList(input)) {
+    if (!/^\d+$/.test(part)) {
+      return { success: false, error: `"${part}" is not a score.` };
+    }
+    values.push(parseInt(part, 10));
+  }
+
+  return { success: true, values };
+}
+
+/**
+ * The point buy cost of every score, e.g. "8=0, 9=1, ..., 15=9".
+ */
+export function formatPointBuyCosts(): string {
+  const costs: string[] = [];
+  for (let score = 8; score <= 15; score++) {
+    costs.push(`${score}=${pointBuyCost(score)}`);
+  }
+  return costs.join(', ');
+}
+
+/**
+ * Build the /char set patch for ability scores, e.g. "{str:15, dex:14, ...}".
+ */
+export function abilityScoresPatch(scores: AbilityScores): string {
+  return `{${ABILITIES.map((ability) => `${ability}:${scores[ability]}`).join(', ')}}`;
+}
+
+/**
+ * Format generated scores, with the roll behind each rolled score.
+ *
+ * Example output:
+ * ```
+ * **Ability scores** (4d6-drop-lowest): 16, 9, 16, 3, 18, 12
+ * 4d6dl1 [6, ~~1~~, 5, 5] = **16**
+ * ...
+ * ```
+ */
+export function formatGeneratedScores(generated: GeneratedAbilityScores): string {
+  const { method, scores, rolls, pointsSpent } = generated;
+  const inOrder = isInAbilityOrder(method);
+
+  const summary = inOrder
+    ? ABILITIES.map((ability, i) => `${ability.toUpperCase()} ${scores[i]}`).join(', ')
+    : scores.join(', ');
+  const points =
+    pointsSpent === undefined ? '' : ` (${pointsSpent}/${POINT_BUY_POINTS} points)`;
+
+  return [
+    `**Ability scores** (${method}): ${summary}${points}`,
+    ...rolls.map((roll, i) => {
+      const ability = inOrder ? `${ABILITIES[i]!.toUpperCase()}: ` : '';
+      return `${ability}${roll.breakdown} = **${roll.total}**`;
+    }),
+  ].join('\n');
+}
+
+/**
+ * Format scores assigned to a character, in ability order.
+ *
+ * Example output: `Assigned to **Bob**: STR 15 (+2), DEX 14 (+2), ...`
+ */
+export function formatAssignedScores(
+  characterName: string,
+  scores: AbilityScores
+): string {
+  const assigned = ABILITIES.map(
+    (ability) =>
+      `${ability.toUpperCase()} ${scores[ability]} (${formatModifier(abilityModifier(scores[ability]))})`
+  );
+  return `Assigned to **${characterName}**: ${assigned.join(', ')}`;
+}
@@ -7,29 +7,129 @@
  * - /char show - Show character information
  * - /char get - Get specific attributes
  * - /char unset - Remove attributes
+ * - /char generate - Generate ability scores
+ *
+ * And a "Show active character" user context menu for DMs.
+ *
+ * Roll macros saved on characters get their own slice, /macro
+ * (see `createMacroFeature`), and /roll resolves `{references}` through
+ * `createCharacterReferenceLookup`.
  */
 
+import type { Container } from '../../core/container.js';
+import {
+  CHARACTER_REPO,
+  DICE_RNG,
+  DM_CHECK,
+  MACRO_REPO,
+  ROLL_LOG_REPO,
+  USER_REPO,
+} from '../../core/tokens.js';
 import type { FeatureSlice } from '../../core/types.js';
-import { charCommand, handleCharCommand, setCharacterDeps } from './command.js';
-import type { CharacterFeatureDeps } from './repo/ports.js';
+import { dmOnly, guildOnly } from '../../core/middleware.js';
+import {
+  charCommand,
+  handleCharCommand,
+  handleCharAutocomplete,
+  showActiveCharacterMenu,
+  handleShowActiveCharacterMenu,
+} from './command.js';
+import {
+  macroCommand,
+  handleMacroCommand,
+  handleMacroAutocomplete,
+} from './macro/command.js';
+import type { CharacterFeatureDeps, MacroFeatureDeps } from './repo/ports.js';
+import { characterReferences } from './computed/derive.js';
+import type { RollCharacterLookup } from '../dice/index.js';
 
 /**
- * Character feature slice definition.
+ * Create the character feature slice, resolving its ports from the container.
  */
-export const charFeature: FeatureSlice = {
-  name: 'char',
-  command: charCommand,
-  handler: handleCharCommand,
-};
+export function createCharFeature(container: Container): FeatureSlice {
+  const deps: CharacterFeatureDeps = {
+    userRepo: container.resolve(USER_REPO),
+    characterRepo: container.resolve(CHARACTER_REPO),
+    rng: container.resolve(DICE_RNG),
+    rollLogRepo: container.resolve(ROLL_LOG_REPO),
+  };
+
+  return {
+    name: 'char',
+    command: charCommand,
+    handler: (interaction) => handleCharCommand(interaction, deps),
+    autocomplete: (interaction) => handleCharAutocomplete(interaction, deps),
+    contextMenus: [
+      {
+        type: 'user',
+        command: showActiveCharacterMenu,
+        handler: (interaction) => handleShowActiveCharacterMenu(interaction, deps),
+        middlewares: [dmOnly(container.resolve(DM_CHECK))],
+      },
+    ],
+    middlewares: [guildOnly()],
+    // Only /char generate replies publicly
+    deferEphemeral: (interaction) =>
+      !interaction.isChatInputCommand() ||
+      interaction.options.getSubcommand() !== 'generate',
+  };
+}
 
 /**
- * Initialize the character feature with its dependencies.
- * Must be called during app startup before handling commands.
+ * Create the roll macro slice: /macro create, run, list and delete on the
+ * active character.
  */
-export function initCharFeature(deps: CharacterFeatureDeps): void {
-  setCharacterDeps(deps);
+export function createMacroFeature(container: Container): FeatureSlice {
+  const deps: MacroFeatureDeps = {
+    userRepo: container.resolve(USER_REPO),
+    characterRepo: container.resolve(CHARACTER_REPO),
+    macroRepo: container.resolve(MACRO_REPO),
+    rng: container.resolve(DICE_RNG),
+    rollLogRepo: container.resolve(ROLL_LOG_REPO),
+  };
+
+  return {
+    name: 'macro',
+    command: macroCommand,
+    handler: (interaction) => handleMacroCommand(interaction, deps),
+    autocomplete: (interaction) => handleMacroAutocomplete(interaction, deps),
+    middlewares: [guildOnly()],
+    // Only /macro run replies publicly
+    deferEphemeral: (interaction) =>
+      !interaction.isChatInputCommand() || interaction.options.getSubcommand() !== 'run',
+  };
+}
+
+/**
+ * Create a lookup of the values on a user's active character in a guild, for
+ * `{dex_mod}`-style references in /roll expressions.
+ *
+ * Resolves to null if the user has no active character there. Users the
+ * bot has not seen yet are not created.
+ */
+export function createCharacterReferenceLookup(
+  container: Container
+): RollCharacterLookup {
+  const userRepo = container.resolve(USER_REPO);
+  const characterRepo = container.resolve(CHARACTER_REPO);
+
+  return async (discordUserId, guildId) => {
+    const user = await userRepo.getByDiscordUserId(discordUserId);
+    if (!user) {
+      return null;
+    }
+
+    const character = await characterRepo.getActiveCharacter({
+      userId: user.id,
+      guildId,
+    });
+
+    return character
+      ? { name: character.name, references: characterReferences(character.attributes) }
+      : null;
+  };
 }
 
 // Re-export types and utilities that may be needed by other modules
-export type { CharacterFeatureDeps } from './repo/ports.js';
+export type { CharacterFeatureDeps, MacroFeatureDeps } from './repo/ports.js';
 export type { ShowView } from './types.js';
@@ -0,0 +1,79 @@
+/**
+ * Autocomplete suggestions for character names and attribute keys.
+ *
+ * Pure functions with NO Discord.js dependencies. The command layer maps the
+ * returned strings to autocomplete choices.
+ */
+
+import { CHAR_KV_KEYS, isInventoryKey } from '@discord-bot/dnd5e-types';
+
+/**
+ * Maximum number of choices Discord accepts in an autocomplete response.
+ */
+export const MAX_SUGGESTIONS = 25;
+
+/**
+ * Maximum length of an autocomplete choice value.
+ */
+const MAX_CHOICE_LENGTH = 100;
+
+/**
+ * Rank candidates against a partial input.
+ * Prefix matches come first, followed by substring matches (case-insensitive).
+ */
+function rankMatches(partial: string, candidates: string[]): string[] {
+  const needle = partial.toLowerCase();
+  const prefixMatches: string[] = [];
+  const substringMatches: string[] = [];
+
+  for (const candidate of candidates) {
+    const haystack = candidate.toLowerCase();
+    if (haystack.startsWith(needle)) {
+      prefixMatches.push(candidate);
+    } else if (haystack.includes(needle)) {
+      substringMatches.push(candidate);
+    }
+  }
+
+  return [...prefixMatches, ...substringMatches];
+}
+
+/**
+ * Suggest character names matching the partial input.
+ *
+ * @param partial - What the user has typed so far
+ * @param names - Names of the caller's characters
+ * @returns Up to MAX_SUGGESTIONS matching names
+ */
+export function suggestCharacterNames(partial: string, names: string[]): string[] {
+  return rankMatches(partial.trim(), names).slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Suggest completions for a space-separated key list.
+ *
+ * Completes the last (partial) key against the static character keys plus
+ * the character's existing inventory keys, keeping the keys already typed.
+ * Keys already present in the list are not suggested again.
+ *
+ * @param partial - The key list typed so far (e.g., "str dex hp.")
+ * @param existingKeys - Attribute keys currently set on the character
+ * @returns Up to MAX_SUGGESTIONS complete key lists
+ */
+export function suggestKeyList(partial: string, existingKeys: string[]): string[] {
+  const tokens = partial.split(/\s+/).filter((t) => t.length > 0);
+  const endsWithSpace = partial.length === 0 || /\s$/.test(partial);
+  const current = endsWithSpace ? '' : (tokens.pop() ?? '');
+  const typed = new Set(tokens);
+
+  const candidates = [
+    ...new Set([...CHAR_KV_KEYS, ...existingKeys.filter((key) => isInventoryKey(key))]),
+  ].filter((key) => !typed.has(key));
+
+  const prefix = tokens.length > 0 ? `${tokens.join(' ')} ` : '';
+
+  return rankMatches(current, candidates)
+    .map((key) => `${prefix}${key}`)
+    .filter((value) => value.length <= MAX_CHOICE_LENGTH)
+    .slice(0, MAX_SUGGESTIONS);
+}
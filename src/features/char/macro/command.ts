@@ -0,0 +1,316 @@
+/**
+ * Discord command definitions and handlers for roll macros.
+ *
+ * Commands (all act on the active character):
+ * - /macro create - Save a named set of dice expressions
+ * - /macro run - Roll a macro (recorded in the roll log)
+ * - /macro list - List macros
+ * - /macro delete - Delete a macro
+ */
+
+import {
+  SlashCommandBuilder,
+  type AutocompleteInteraction,
+  type ChatInputCommandInteraction,
+} from 'discord.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../../core/errors.js';
+import type { Character, MacroFeatureDeps } from '../repo/ports.js';
+import { MACRO_LIMITS, macroCreateSchema, macroNameSchema } from './schema.js';
+import { formatMacroList, formatMacroRoll, rollMacro, validateMacro } from './service.js';
+
+/**
+ * Build the /macro command with all subcommands.
+ */
+export const macroCommand = new SlashCommandBuilder()
+  .setName('macro')
+  .setDescription('Save and roll dice macros for your active character')
+
+  // /macro create
+  .addSubcommand((sub) =>
+    sub
+      .setName('create')
+      .setDescription('Save a macro on your active character')
+      .addStringOption((opt) =>
+        opt
+          .setName('name')
+          .setDescription('Macro name, e.g. "greataxe"')
+          .setRequired(true)
+          .setMaxLength(MACRO_LIMITS.maxNameLength)
+      )
+      .addStringOption((opt) =>
+        opt
+          .setName('expression')
+          .setDescription(
+            'Rolls separated by |, e.g. "1d20+{str_mod}+{prof} | 1d12+{str_mod}"'
+          )
+          .setRequired(true)
+          .setMaxLength(MACRO_LIMITS.maxExpressionLength)
+      )
+  )
+
+  // /macro run
+  .addSubcommand((sub) =>
+    sub
+      .setName('run')
+      .setDescription('Roll a macro')
+      .addStringOption((opt) =>
+        opt
+          .setName('name')
+          .setDescription('Macro name')
+          .setRequired(true)
+          .setMaxLength(MACRO_LIMITS.maxNameLength)
+          .setAutocomplete(true)
+      )
+  )
+
+  // /macro list
+  .addSubcommand((sub) =>
+    sub.setName('list').setDescription('List the macros of your active character')
+  )
+
+  // /macro delete
+  .addSubcommand((sub) =>
+    sub
+      .setName('delete')
+      .setDescription('Delete a macro')
+      .addStringOption((opt) =>
+        opt
+          .setName('name')
+          .setDescription('Macro name')
+          .setRequired(true)
+          .setMaxLength(MACRO_LIMITS.maxNameLength)
+          .setAutocomplete(true)
+      )
+  );
+
+/**
+ * Main command handler - routes to subcommand handlers.
+ */
+export async function handleMacroCommand(
+  interaction: ChatInputCommandInteraction,
+  deps: MacroFeatureDeps
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  switch (subcommand) {
+    case 'create':
+      await handleCreate(interaction, deps);
+      break;
+    case 'run':
+      await handleRun(interaction, deps);
+      break;
+    case 'list':
+      await handleList(interaction, deps);
+      break;
+    case 'delete':
+      await handleDelete(interaction, deps);
+      break;
+    default:
+      throw new ValidationError(`Unknown subcommand: ${subcommand}`);
+  }
+}
+
+/**
+ * Autocomplete handler - suggests the active character's macro names.
+ */
+export async function handleMacroAutocomplete(
+  interaction: AutocompleteInteraction,
+  deps: MacroFeatureDeps
+): Promise<void> {
+  const { userRepo, characterRepo, macroRepo } = deps;
+
+  // Autocomplete bypasses the middleware chain, so check the guild here
+  const guildId = interaction.guildId;
+  if (!guildId) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const user = await userRepo.getOrCreateByDiscordUserId(interaction.user.id);
+  const character = await characterRepo.getActiveCharacter({ userId: user.id, guildId });
+  const macros = character ? await macroRepo.listByCharacter(character.id) : [];
+
+  const prefix = interaction.options.getFocused().toLowerCase();
+  const suggestions = macros
+    .map((macro) => macro.name)
+    .filter((name) => name.toLowerCase().startsWith(prefix))
+    .slice(0, 25);
+
+  await interaction.respond(suggestions.map((value) => ({ name: value, value })));
+}
+
+/**
+ * Get the active character of the invoking user.
+ * The guild is enforced by the feature's guildOnly middleware.
+ *
+ * @throws NotFoundError if no character is active
+ */
+async function getActiveCharacter(
+  interaction: ChatInputCommandInteraction,
+  deps: MacroFeatureDeps
+): Promise<Character> {
+  const { userRepo, characterRepo } = deps;
+
+  if (!interaction.guildId) {
+    throw new Error(
+      'Macro commands require a guild. Is the guildOnly middleware missing?'
+    );
+  }
+
+  const user = await userRepo.getOrCreateByDiscordUserId(interaction.user.id);
+  const active = await characterRepo.getActiveCharacter({
+    userId: user.id,
+    guildId: interaction.guildId,
+  });
+  if (!active) {
+    throw new NotFoundError('No active character set.', {
+      hint: 'Use `/char active name:<name>` to choose the character your macros belong to.',
+    });
+  }
+  return active;
+}
+
+/**
+ * Parse the name option of run and delete.
+ */
+function parseName(interaction: ChatInputCommandInteraction): string {
+  const parseResult = macroNameSchema.safeParse(
+    interaction.options.getString('name', true)
+  );
+
+  if (!parseResult.success) {
+    throw new ValidationError(
+      parseResult.error.errors.map((err) => err.message).join('\n')
+    );
+  }
+  return parseResult.data;
+}
+
+function macroNotFound(character: Character, name: string): NotFoundError {
+  return new NotFoundError(`${character.name} has no macro named "${name}".`, {
+    hint: 'Use `/macro list` to see your macros.',
+  });
+}
+
+// ============ Subcommand Handlers ============
+
+async function handleCreate(
+  interaction: ChatInputCommandInteraction,
+  deps: MacroFeatureDeps
+): Promise<void> {
+  const { macroRepo } = deps;
+
+  const parseResult = macroCreateSchema.safeParse({
+    name: interaction.options.getString('name', true),
+    expression: interaction.options.getString('expression', true),
+  });
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((err) => `${err.path.join('.')}: ${err.message}`)
+      .join('\n');
+
+    throw new ValidationError(errors);
+  }
+
+  const { name, expression } = parseResult.data;
+  const character = await getActiveCharacter(interaction, deps);
+
+  const error = validateMacro(expression, character.attributes);
+  if (error) {
+    throw new ValidationError(`Invalid macro: ${error}`, {
+      hint: 'Separate rolls with `|` and reference stats like `{str_mod}`, `{prof}` or `{level}`.',
+    });
+  }
+
+  if (await macroRepo.getByName({ characterId: character.id, name })) {
+    throw new ConflictError(`${character.name} already has a macro named "${name}".`, {
+      hint: `Delete it first with \`/macro delete name:${name}\`.`,
+    });
+  }
+
+  const macros = await macroRepo.listByCharacter(character.id);
+  if (macros.length >= MACRO_LIMITS.maxMacros) {
+    throw new ValidationError(
+      `${character.name} already has ${MACRO_LIMITS.maxMacros} macros, the maximum.`,
+      { hint: 'Delete one with `/macro delete` first.' }
+    );
+  }
+
+  await macroRepo.createMacro({ characterId: character.id, name, expression });
+
+  await interaction.reply({
+    content: `Saved macro \`${name}\` on **${character.name}**: \`${expression}\`\nRoll it with \`/macro run name:${name}\`.`,
+    ephemeral: true,
+  });
+}
+
+async function handleRun(
+  interaction: ChatInputCommandInteraction,
+  deps: MacroFeatureDeps
+): Promise<void> {
+  const { macroRepo, rng, rollLogRepo } = deps;
+
+  const name = parseName(interaction);
+  const character = await getActiveCharacter(interaction, deps);
+
+  const macro = await macroRepo.getByName({ characterId: character.id, name });
+  if (!macro) {
+    throw macroNotFound(character, name);
+  }
+
+  // Attributes may have changed since the macro was saved
+  const result = rollMacro(macro.expression, character.attributes, rng);
+  if (!result.success) {
+    throw new ValidationError(`Cannot roll \`${macro.name}\`: ${result.error}`, {
+      hint: 'Update the character with `/char set`, or delete and recreate the macro.',
+    });
+  }
+
+  for (const roll of result.rolls) {
+    await rollLogRepo.record({
+      discordUserId: interaction.user.id,
+      guildId: interaction.guildId,
+      channelId: interaction.channelId,
+      characterName: character.name,
+      expression: roll.notation,
+      breakdown: roll.breakdown,
+      dice: roll.groups,
+      total: roll.total,
+      label: macro.name,
+    });
+  }
+
+  await interaction.reply(formatMacroRoll(character.name, macro.name, result.rolls));
+}
+
+async function handleList(
+  interaction: ChatInputCommandInteraction,
+  deps: MacroFeatureDeps
+): Promise<void> {
+  const character = await getActiveCharacter(interaction, deps);
+  const macros = await deps.macroRepo.listByCharacter(character.id);
+
+  await interaction.reply({
+    content: formatMacroList(character.name, macros),
+    ephemeral: true,
+  });
+}
+
+async function handleDelete(
+  interaction: ChatInputCommandInteraction,
+  deps: MacroFeatureDeps
+): Promise<void> {
+  const name = parseName(interaction);
+  const character = await getActiveCharacter(interaction, deps);
+
+  const deleted = await deps.macroRepo.deleteMacro({ characterId: character.id, name });
+  if (!deleted) {
+    throw macroNotFound(character, name);
+  }
+
+  await interaction.reply({
+    content: `Deleted macro \`${name}\` from **${character.name}**.`,
+    ephemeral: true,
+  });
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+/**
+ * Limits on roll macros
+ */
+export const MACRO_LIMITS = {
+  maxNameLength: 32,
+  maxExpressionLength: 300,
+  /** Dice expressions per macro, separated by "|" */
+  maxRolls: 5,
+  /** Macros per character */
+  maxMacros: 25,
+} as const;
+
+/**
+ * Macro name, e.g. "greataxe" or "sneak-attack"
+ */
+export const macroNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name cannot be empty')
+  .max(
+    MACRO_LIMITS.maxNameLength,
+    `Name cannot exceed ${MACRO_LIMITS.maxNameLength} characters`
+  )
+  .regex(/^[\w-]+$/, 'Name can only contain letters, numbers, "-" and "_"');
+
+/**
+ * Zod schema for /macro create options
+ * The dice expressions are checked by the dnd5e expression parser
+ */
+export const macroCreateSchema = z.object({
+  name: macroNameSchema,
+
+  expression: z
+    .string()
+    .trim()
+    .min(1, 'Expression cannot be empty')
+    .max(
+      MACRO_LIMITS.maxExpressionLength,
+      `Expression cannot exceed ${MACRO_LIMITS.maxExpressionLength} characters`
+    ),
+});
+
+export type MacroCreateInput = z.infer<typeof macroCreateSchema>;
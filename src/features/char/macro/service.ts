@@ -0,0 +1,145 @@
+/**
+ * Roll macro service.
+ *
+ * Checks and rolls macros such as "1d20+{str_mod}+{prof} | 1d12+{str_mod}":
+ * dice expressions separated by "|" whose references resolve against a
+ * character's attributes and computed values.
+ */
+
+import {
+  parseDiceExpression,
+  rollDiceExpression,
+  type DiceExpression,
+  type DiceExpressionResult,
+  type RNG,
+} from '@discord-bot/dnd5e/engine';
+import type { AttributeValue, MacroRollResult } from '../types.js';
+import type { RollMacro } from '../repo/ports.js';
+import { characterReferences } from '../computed/derive.js';
+import { MACRO_LIMITS } from './schema.js';
+
+/**
+ * Split a macro into its dice expressions.
+ */
+export function splitMacro(expression: string): string[] {
+  return expression.split('|').map((part) => part.trim());
+}
+
+/**
+ * Parse every roll in a macro, resolving its references.
+ */
+function resolveMacro(
+  expression: string,
+  attributes: Record<string, AttributeValue>
+): { success: true; expressions: DiceExpression[] } | { success: false; error: string } {
+  const parts = splitMacro(expression);
+  if (parts.length > MACRO_LIMITS.maxRolls) {
+    return {
+      success: false,
+      error: `A macro can have at most ${MACRO_LIMITS.maxRolls} rolls`,
+    };
+  }
+
+  const references = characterReferences(attributes);
+  const expressions: DiceExpression[] = [];
+
+  for (const [index, part] of parts.entries()) {
+    if (part.length === 0) {
+      return { success: false, error: `Roll ${index + 1} is empty` };
+    }
+
+    // Only point at the roll when there is more than one
+    const where = parts.length > 1 ? `Roll ${index + 1} (\`${part}\`): ` : '';
+
+    const parsed = parseDiceExpression(part, references);
+    if (!parsed.success) {
+      return { success: false, error: `${where}${parsed.error}` };
+    }
+
+    expressions.push(parsed.value);
+  }
+
+  return { success: true, expressions };
+}
+
+/**
+ * Check that a macro can be rolled by a character.
+ *
+ * @param expression - Macro expression
+ * @param attributes - Character's stored attributes
+ * @returns Error message if the macro is invalid, undefined otherwise
+ */
+export function validateMacro(
+  expression: string,
+  attributes: Record<string, AttributeValue>
+): string | undefined {
+  const resolved = resolveMacro(expression, attributes);
+  return resolved.success ? undefined : resolved.error;
+}
+
+/**
+ * Roll every expression of a macro for a character.
+ *
+ * @param expression - Macro expression
+ * @param attributes - Character's stored attributes
+ * @param rng - Random number source
+ */
+export function rollMacro(
+  expression: string,
+  attributes: Record<string, AttributeValue>,
+  rng: RNG
+): MacroRollResult {
+  const resolved = resolveMacro(expression, attributes);
+  if (!resolved.success) {
+    return resolved;
+  }
+
+  const rolls: DiceExpressionResult[] = [];
+  for (const parsed of resolved.expressions) {
+    const result = rollDiceExpression(parsed, rng);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    rolls.push(result.value);
+  }
+
+  return { success: true, rolls };
+}
+
+/**
+ * Format the rolls of a macro, one line per expression.
+ *
+ * Example output:
+ * ```
+ * **Thorin**: greataxe
+ * 1d20+3+2 = **17** (1d20 [12] + 3 (str_mod) + 2 (prof))
+ * 1d12+3 = **9** (1d12 [6] + 3 (str_mod))
+ * ```
+ */
+export function formatMacroRoll(
+  characterName: string,
+  macroName: string,
+  rolls: DiceExpressionResult[]
+): string {
+  return [
+    `**${characterName}**: ${macroName}`,
+    ...rolls.map((roll) => `${roll.notation} = **${roll.total}** (${roll.breakdown})`),
+  ].join('\n');
+}
+
+/**
+ * Format the macros of a character.
+ */
+export function formatMacroList(characterName: string, macros: RollMacro[]): string {
+  if (macros.length === 0) {
+    return [
+      `**${characterName}** has no macros yet.`,
+      'Use `/macro create name:<name> expression:<dice>` to add one.',
+    ].join('\n');
+  }
+
+  return [
+    `**${characterName}** - Macros (${macros.length}/${MACRO_LIMITS.maxMacros})`,
+    ...macros.map((macro) => `- \`${macro.name}\`: \`${macro.expression}\``),
+  ].join('\n');
+}
@@ -8,17 +8,29 @@
 export type {
   UserRepo,
   CharacterRepo,
+  MacroRepo,
   User,
   Character,
   AttributeValue,
+  RollMacro,
 } from '@discord-bot/persistence';
 
 export { AttrValue } from '@discord-bot/persistence';
 
 /**
  * Combined dependencies interface for character feature handlers.
+ * The dice RNG and the roll log are for rolled ability scores.
  */
 export interface CharacterFeatureDeps {
   userRepo: import('@discord-bot/persistence').UserRepo;
   characterRepo: import('@discord-bot/persistence').CharacterRepo;
+  rng: import('@discord-bot/dnd5e/engine').RNG;
+  rollLogRepo: import('@discord-bot/persistence').RollLogRepo;
+}
+
+/**
+ * Dependencies of the /macro handlers: the character ports plus macro storage.
+ */
+export interface MacroFeatureDeps extends CharacterFeatureDeps {
+  macroRepo: import('@discord-bot/persistence').MacroRepo;
 }
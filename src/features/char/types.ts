@@ -3,6 +3,7 @@
  * Re-exports persistence types and defines feature-specific types.
  */
 
+import type { DiceExpressionResult } from '@discord-bot/dnd5e/engine';
 import type { Character as CharacterType } from '@discord-bot/persistence';
 
 // Re-export persistence types for convenience
@@ -98,6 +99,20 @@ export type UnsetResult =
     }
   | { success: false; error: string };
 
+/**
+ * Service result for rolling a macro
+ */
+export type MacroRollResult =
+  | { success: true; rolls: DiceExpressionResult[] }
+  | { success: false; error: string };
+
+/**
+ * Service result for parsing a list option, e.g. point buy scores
+ */
+export type ListParseResult<T> =
+  | { success: true; values: T[] }
+  | { success: false; error: string };
+
 /**
  * View options for /char show
  */
@@ -0,0 +1,633 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { RNG } from '@discord-bot/dnd5e/engine';
+import { PermissionFlagsBits, type APIEmbed } from 'discord.js';
+import { USER_REPO } from '../../../core/tokens.js';
+import { createSimulator, type Simulator } from '../../../testing/index.js';
+
+/**
+ * Values of an embed's fields by name
+ */
+const fieldsOf = (embed: APIEmbed | undefined) =>
+  Object.fromEntries((embed?.fields ?? []).map((field) => [field.name, field.value]));
+
+describe('/roll (end-to-end)', () => {
+  let sim: Simulator;
+  // Die results the simulator's RNG hands out, in order
+  let dice: number[];
+
+  const rng: RNG = {
+    rollInt() {
+      const value = dice.shift();
+      if (value === undefined) {
+        throw new Error('No die results left');
+      }
+      return value;
+    },
+  };
+
+  beforeEach(async () => {
+    dice = [];
+    sim = await createSimulator({ rng });
+  });
+
+  afterEach(async () => {
+    await sim.close();
+  });
+
+  it('should reply publicly with the roll as an embed', async () => {
+    dice = [2, 5];
+    const { responses, lastEmbed } = await sim.run(
+      '/roll dice sides:6 count:2 modifier:3 label:Fire Bolt'
+    );
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: false });
+    expect(lastEmbed).toMatchObject({
+      title: 'Fire Bolt',
+      footer: { text: 'Rolled by tester' },
+    });
+    expect(fieldsOf(lastEmbed)).toEqual({
+      Notation: '`2d6+3`',
+      Modifier: '+3',
+      Total: '**10**',
+      Dice: '2d6 [2, 5]',
+    });
+  });
+
+  it('should default to a single d20', async () => {
+    dice = [13];
+    const { lastEmbed } = await sim.run('/roll dice');
+
+    expect(lastEmbed?.title).toBe('Roll');
+    expect(fieldsOf(lastEmbed)).toEqual({
+      Notation: '`1d20`',
+      Total: '**13**',
+      Dice: '1d20 [13]',
+    });
+  });
+
+  it('should flag a natural 20', async () => {
+    dice = [20];
+    const { lastEmbed } = await sim.run('/roll dice modifier:2');
+
+    expect(lastEmbed?.description).toBe('**NAT 20!**');
+    expect(fieldsOf(lastEmbed).Dice).toBe('1d20 [**20**]');
+  });
+
+  it('should roll with advantage', async () => {
+    dice = [8, 17];
+    const { lastEmbed } = await sim.run('/roll dice modifier:5 advantage:advantage');
+
+    expect(fieldsOf(lastEmbed)).toMatchObject({
+      Notation: '`2d20kh1+5` (ADV)',
+      Total: '**22**',
+      Dice: '2d20kh1 [~~8~~, 17]',
+    });
+  });
+
+  it('should roll with disadvantage', async () => {
+    dice = [8, 17];
+    const { lastEmbed } = await sim.run('/roll dice advantage:disadvantage');
+
+    expect(fieldsOf(lastEmbed)).toMatchObject({
+      Notation: '`2d20kl1` (DIS)',
+      Total: '**8**',
+    });
+  });
+
+  it('should reject advantage on anything but a single d20', async () => {
+    const { lastEmbed } = await sim.run('/roll dice sides:6 advantage:disadvantage');
+
+    expect(lastEmbed?.description).toMatch(/^Advantage and disadvantage only apply/);
+  });
+
+  it('should roll a dice expression with a per-die breakdown', async () => {
+    dice = [5, 2, 6, 3];
+    const { lastEmbed } = await sim.run('/roll dice expression:4d6kh3 label:Strength');
+
+    expect(lastEmbed?.title).toBe('Strength');
+    expect(fieldsOf(lastEmbed)).toEqual({
+      Notation: '`4d6kh3`',
+      Total: '**14**',
+      Dice: '4d6kh3 [5, ~~2~~, **6**, 3]',
+    });
+  });
+
+  it('should reject an invalid expression', async () => {
+    const { lastEmbed } = await sim.run('/roll dice expression:2d20kh3');
+
+    expect(lastEmbed?.description).toContain('Cannot roll that: Cannot keep 3 of 2 dice');
+    expect(lastEmbed?.footer?.text).toBe('Error code: VALIDATION');
+  });
+
+  it('should reject an expression combined with sides', async () => {
+    const { lastEmbed } = await sim.run('/roll dice expression:2d6 sides:8');
+
+    expect(lastEmbed?.description).toMatch(/^Use either `expression` or/);
+  });
+
+  it('should work in direct messages', async () => {
+    dice = [3];
+    const { lastEmbed } = await sim.run('/roll dice sides:4', { guildId: null });
+
+    expect(fieldsOf(lastEmbed).Total).toBe('**3**');
+  });
+
+  describe('roll again', () => {
+    /** Custom ID of the "Roll again" button of a response */
+    const rollAgainId = (response: { components: unknown[] } | undefined) => {
+      const row = response?.components[0] as
+        | { components: { custom_id: string; label: string }[] }
+        | undefined;
+      expect(row?.components[0]?.label).toBe('Roll again');
+      return row!.components[0]!.custom_id;
+    };
+
+    it('should roll the same expression for whoever clicks', async () => {
+      dice = [2, 5];
+      const first = await sim.run(
+        '/roll dice sides:6 count:2 modifier:3 label:Fire Bolt'
+      );
+      const customId = rollAgainId(first.responses[0]);
+      expect(customId).toMatch(/^roll:again:[0-9a-f-]{36}$/);
+
+      dice = [6, 1];
+      const again = await sim.click(customId, { userId: '222', username: 'bard' });
+
+      expect(again.responses[0]).toMatchObject({ kind: 'reply', ephemeral: false });
+      expect(again.lastEmbed).toMatchObject({
+        title: 'Fire Bolt',
+        footer: { text: 'Rolled by bard' },
+      });
+      expect(fieldsOf(again.lastEmbed)).toMatchObject({
+        Notation: '`2d6+3`',
+        Total: '**10**',
+        Dice: '2d6 [**6**, __1__]',
+      });
+      expect(rollAgainId(again.responses[0])).not.toBe(customId);
+
+      const history = await sim.run('/roll history user:<@222>');
+      expect(history.lastContent).toContain('<@222> **Fire Bolt**: 2d6+3 = **10**');
+    });
+
+    it('should keep the advantage tag', async () => {
+      dice = [8, 17];
+      const first = await sim.run('/roll dice advantage:advantage');
+
+      dice = [3, 11];
+      const again = await sim.click(rollAgainId(first.responses[0]));
+
+      expect(fieldsOf(again.lastEmbed).Notation).toBe('`2d20kh1` (ADV)');
+    });
+
+    it('should reject rolls that are not in the roll log', async () => {
+      const { lastEmbed } = await sim.click(
+        'roll:again:00000000-0000-0000-0000-000000000000'
+      );
+
+      expect(lastEmbed?.description).toContain(
+        'That roll can no longer be rolled again.'
+      );
+      expect(lastEmbed?.footer?.text).toBe('Error code: NOT_FOUND');
+    });
+  });
+
+  describe('character references', () => {
+    beforeEach(async () => {
+      await sim.run('/char set name:Thorin attributes:{dex:14, level:5, hp.max:41}');
+      await sim.run('/char active name:Thorin');
+    });
+
+    it("should roll with the active character's values", async () => {
+      dice = [13];
+      const { responses, lastEmbed } = await sim.run(
+        '/roll dice expression:1d20+{dex_mod}+{prof} label:Stealth'
+      );
+
+      expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: false });
+      expect(lastEmbed?.title).toBe('Thorin (Stealth)');
+      expect(fieldsOf(lastEmbed)).toMatchObject({
+        Notation: '`1d20+2+3`',
+        Modifier: '+5',
+        Total: '**18**',
+      });
+    });
+
+    it('should record the character in the roll history', async () => {
+      await sim.run('/roll dice expression:{hp.max}/2');
+
+      const { lastContent } = await sim.run('/roll history');
+
+      expect(lastContent).toContain('(Thorin) 41/2 = **20** (41 (hp.max) / 2)');
+    });
+
+    it('should list the valid references for unknown ones', async () => {
+      const { lastEmbed } = await sim.run('/roll dice expression:1d20+{wis_mod}');
+
+      expect(lastEmbed?.description).toContain(
+        'Cannot roll that: Unknown reference {wis_mod}. Available: {dex}, {dex_mod}, {hp.max}, {level}, {prof}'
+      );
+    });
+
+    it('should need an active character', async () => {
+      const { lastEmbed } = await sim.run('/roll dice expression:1d20+{prof}', {
+        userId: 'user-2',
+      });
+
+      expect(lastEmbed?.description).toContain('No active character set.');
+    });
+
+    it('should not create users that only roll', async () => {
+      await sim.run('/roll dice expression:1d20+{prof}', { userId: 'user-2' });
+
+      const userRepo = sim.container.resolve(USER_REPO);
+      expect(await userRepo.getByDiscordUserId('user-2')).toBeNull();
+    });
+
+    it('should compute odds with character values', async () => {
+      const { lastContent } = await sim.run(
+        '/roll stats expression:1d20+{dex_mod}+{prof} target:15'
+      );
+
+      expect(lastContent).toContain('**Odds for 1d20+2+3**');
+      expect(lastContent).toContain('To hit AC 15: **55.00%**');
+    });
+  });
+
+  describe('stats', () => {
+    it('should reply publicly with the exact odds', async () => {
+      const { responses, lastContent } = await sim.run('/roll stats expression:2d6+3');
+
+      expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: false });
+      expect(lastContent).toContain('**Odds for 2d6+3**');
+      expect(lastContent).toContain('Mean **10.00**, std dev 2.42, range 5–15');
+      expect(lastContent).toContain('10 ████████████████████ 16.67%');
+    });
+
+    it('should give the odds to hit an AC', async () => {
+      const { lastContent } = await sim.run('/roll stats expression:2d20kh1+7 target:15');
+
+      expect(lastContent).toContain('To hit AC 15: **87.75%** (crit 9.75%)');
+    });
+
+    it('should reject expressions it cannot compute', async () => {
+      const { lastEmbed } = await sim.run('/roll stats expression:4d6!kh3');
+
+      expect(lastEmbed?.description).toContain(
+        'Cannot compute that: Cannot compute keep/drop on exploding dice exactly'
+      );
+      expect(lastEmbed?.footer?.text).toBe('Error code: VALIDATION');
+    });
+  });
+
+  describe('pool', () => {
+    it('should reply publicly with the successes as an embed', async () => {
+      dice = [8, 3, 10, 7, 1, 5, 2];
+      const { responses, lastEmbed } = await sim.run('/roll pool count:7 target:8');
+
+      expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: false });
+      expect(lastEmbed).toMatchObject({
+        title: 'Pool',
+        footer: { text: 'Rolled by tester' },
+      });
+      expect(fieldsOf(lastEmbed)).toEqual({
+        Notation: '`7d10>=8`',
+        Successes: '**2**',
+        Ones: '1',
+        Dice: '7d10 [**8**, 3, **10**, 7, __1__, 5, 2]',
+      });
+    });
+
+    it('should re-roll 10s and subtract ones', async () => {
+      dice = [10, 1, 6, 9];
+      const { lastEmbed } = await sim.run(
+        '/roll pool count:3 target:6 subtract-ones:true again:10 label:Dodge'
+      );
+
+      expect(lastEmbed?.title).toBe('Dodge');
+      expect(fieldsOf(lastEmbed)).toMatchObject({
+        Notation: '`3d10!>=6f1`',
+        Successes: '**2** (1 cancelled by ones)',
+        Dice: '3d10 [**10!**, __1__, **6**, **9**]',
+      });
+    });
+
+    it('should call out a botch', async () => {
+      dice = [4, 1, 2];
+      const { lastEmbed } = await sim.run(
+        '/roll pool count:3 target:6 subtract-ones:true'
+      );
+
+      expect(lastEmbed).toMatchObject({ description: '**Botch!**', color: 0xed4245 });
+    });
+
+    it('should roll Shadowrun pools of d6', async () => {
+      dice = [5, 6, 1, 4];
+      const { lastEmbed } = await sim.run('/roll pool count:4 sides:6 target:5');
+
+      expect(fieldsOf(lastEmbed)).toMatchObject({
+        Successes: '**2**',
+        Dice: '4d6 [**5**, **6**, __1__, 4]',
+      });
+    });
+
+    it('should roll the same pool again', async () => {
+      dice = [10, 3, 4];
+      const first = await sim.run('/roll pool count:2 target:8 again:10 label:Dodge');
+      const row = first.responses[0]?.components[0] as
+        | { components: { custom_id: string }[] }
+        | undefined;
+
+      dice = [9, 8, 1];
+      const again = await sim.click(row!.components[0]!.custom_id);
+
+      expect(again.lastEmbed?.title).toBe('Dodge');
+      expect(fieldsOf(again.lastEmbed)).toMatchObject({
+        Notation: '`2d10!>=8`',
+        Successes: '**2**',
+      });
+    });
+
+    it('should record pools in the roll history', async () => {
+      dice = [8, 3];
+      await sim.run('/roll pool count:2 target:8');
+      const { lastContent } = await sim.run('/roll history');
+
+      expect(lastContent).toContain('2d10>=8 = **1** (2d10 [**8**, 3])');
+    });
+
+    it('should send blind pools to the GM channel', async () => {
+      await sim.run('/settings gm-channel channel:<#555>', {
+        permissions: PermissionFlagsBits.ManageGuild,
+      });
+      dice = [9, 2];
+
+      const { responses, messages } = await sim.run(
+        '/roll pool count:2 target:8 visibility:blind'
+      );
+
+      expect(responses[0]).toMatchObject({
+        ephemeral: true,
+        content: '2d10>=8 rolled secretly. Only the GM sees the result.',
+      });
+      expect(messages[0]?.content).toBe(
+        '**Blind roll** by <@user-1>: 2d10>=8 = **1 success** (2d10 [**9**, 2])'
+      );
+    });
+
+    it('should reject a target above the sides', async () => {
+      const { lastEmbed } = await sim.run('/roll pool count:5 sides:6 target:8');
+
+      expect(lastEmbed?.description).toContain(
+        'Cannot roll that pool: Target must be between 1 and 6'
+      );
+      expect(lastEmbed?.footer?.text).toBe('Error code: VALIDATION');
+    });
+  });
+
+  describe('history', () => {
+    it('should list the rolls of this channel, newest first', async () => {
+      dice = [4, 17];
+      await sim.run('/roll dice sides:6 label:Damage');
+      await sim.run('/roll dice expression:1d20+2');
+      dice = [9];
+      await sim.run('/roll dice', { channelId: 'channel-2' });
+
+      const { responses } = await sim.run('/roll history');
+
+      expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: true });
+      const lines = responses[0]?.content?.split('\n') ?? [];
+      expect(lines[0]).toBe('**Rolls in <#channel-1>** (page 1 of 1, newest first)');
+      expect(lines[1]).toMatch(
+        /^<t:\d+:f> <@user-1> 1d20\+2 = \*\*19\*\* \(1d20 \[17\] \+ 2\)$/
+      );
+      expect(lines[2]).toContain('<@user-1> **Damage**: 1d6 = **4** (1d6 [4])');
+      expect(lines).toHaveLength(3);
+    });
+
+    it('should list the rolls of a user across channels', async () => {
+      dice = [5, 6, 7];
+      await sim.run('/roll dice', { userId: '111' });
+      await sim.run('/roll dice', { userId: '222' });
+      await sim.run('/roll dice', { userId: '111', channelId: 'channel-2' });
+
+      const { lastContent } = await sim.run('/roll history user:<@111>');
+
+      expect(lastContent).toContain('**Rolls by <@111>** (page 1 of 1, newest first)');
+      expect(lastContent).toContain('= **7**');
+      expect(lastContent).toContain('= **5**');
+      expect(lastContent).not.toContain('= **6**');
+    });
+
+    it('should page through older rolls', async () => {
+      dice = Array.from({ length: 12 }, (_, i) => i + 1);
+      for (let i = 0; i < 12; i++) {
+        await sim.run('/roll dice');
+      }
+
+      const first = await sim.run('/roll history');
+      const second = await sim.run('/roll history page:2');
+
+      expect(first.lastContent).toContain('(page 1 of 2, newest first)');
+      expect(first.lastContent).toContain('Use `page:2` for older rolls.');
+      expect(second.lastContent?.split('\n')).toHaveLength(3);
+    });
+
+    it('should show as many rolls per page as asked', async () => {
+      dice = Array.from({ length: 12 }, (_, i) => i + 1);
+      for (let i = 0; i < 12; i++) {
+        await sim.run('/roll dice');
+      }
+
+      const { lastContent } = await sim.run('/roll history count:5');
+
+      const lines = lastContent?.split('\n') ?? [];
+      expect(lines[0]).toContain('(page 1 of 3, newest first)');
+      expect(lines).toHaveLength(7);
+      expect(lines[6]).toBe('Use `page:2 count:5` for older rolls.');
+    });
+
+    it('should say when nothing was rolled', async () => {
+      const { lastContent } = await sim.run('/roll history');
+
+      expect(lastContent).toBe('No rolls in <#channel-1> yet.');
+    });
+  });
+
+  describe('visibility', () => {
+    const makeDm = (discordUserId: string) =>
+      sim.container.resolve(USER_REPO).setDmByDiscordUserId(discordUserId, true);
+
+    it('should keep private rolls to the roller', async () => {
+      dice = [12];
+      const { responses, messages } = await sim.run(
+        '/roll dice modifier:3 visibility:private'
+      );
+
+      expect(responses).toHaveLength(1);
+      expect(responses[0]).toMatchObject({
+        kind: 'reply',
+        ephemeral: true,
+        components: [],
+      });
+      expect(fieldsOf(responses[0]?.embeds[0] as APIEmbed).Total).toBe('**15**');
+      expect(messages).toEqual([]);
+    });
+
+    it('should send GM rolls to the roller and each DM in the server', async () => {
+      await makeDm('gm-1');
+      await makeDm('gm-elsewhere');
+      dice = [12];
+
+      const { responses, messages } = await sim.run(
+        '/roll dice expression:1d20+3 label:Insight visibility:gm',
+        { guildMembers: ['user-1', 'gm-1'] }
+      );
+
+      expect(responses[0]).toMatchObject({
+        ephemeral: true,
+        embeds: [{ title: 'Insight' }],
+        components: [],
+      });
+      expect(messages).toEqual([
+        {
+          kind: 'dm',
+          to: 'gm-1',
+          content:
+            '**GM roll** by <@user-1>: **Insight**: 1d20+3 = **15** (1d20 [12] + 3)',
+          embeds: [],
+        },
+      ]);
+    });
+
+    it('should hide blind rolls from the roller and post them in the GM channel', async () => {
+      await sim.run('/settings gm-channel channel:<#555>', {
+        permissions: PermissionFlagsBits.ManageGuild,
+      });
+      dice = [4];
+
+      const { responses, messages } = await sim.run(
+        '/roll dice modifier:3 label:Stealth visibility:blind'
+      );
+
+      expect(responses[0]).toMatchObject({
+        ephemeral: true,
+        content: '**Stealth**: 1d20+3 rolled secretly. Only the GM sees the result.',
+      });
+      expect(messages).toEqual([
+        {
+          kind: 'channel',
+          to: '555',
+          content:
+            '**Blind roll** by <@user-1>: **Stealth**: 1d20+3 = **7** (1d20 [4] + 3)',
+          embeds: [],
+        },
+      ]);
+    });
+
+    it('should keep GM rolls ephemeral when a slow GM lookup is deferred', async () => {
+      await makeDm('gm-1');
+      const userRepo = sim.container.resolve(USER_REPO);
+      const listDmUsers = userRepo.listDmUsers.bind(userRepo);
+      // Finding the GMs takes longer than the automatic defer waits
+      vi.spyOn(userRepo, 'listDmUsers').mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+        return listDmUsers();
+      });
+      vi.useFakeTimers();
+
+      try {
+        for (const visibility of ['gm', 'blind']) {
+          dice = [12];
+          const run = sim.run(`/roll dice visibility:${visibility}`);
+          await vi.advanceTimersByTimeAsync(3000);
+          const { responses } = await run;
+
+          expect(responses.map((response) => response.kind)).toEqual([
+            'deferReply',
+            'editReply',
+          ]);
+          expect(responses.every((response) => response.ephemeral)).toBe(true);
+        }
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should refuse GM rolls when there is no GM to send them to', async () => {
+      dice = [10];
+      const { lastEmbed } = await sim.run('/roll dice visibility:blind');
+
+      expect(lastEmbed?.description).toContain(
+        'There is no GM in this server to send the roll to.'
+      );
+      expect(dice).toEqual([10]);
+    });
+
+    it('should refuse GM rolls in direct messages', async () => {
+      const { lastEmbed } = await sim.run('/roll dice visibility:gm', { guildId: null });
+
+      expect(lastEmbed?.description).toContain(
+        'GM and blind rolls only work in a server.'
+      );
+    });
+
+    it('should leave secret rolls out of the history', async () => {
+      await makeDm('gm-1');
+      dice = [3, 4, 5];
+      await sim.run('/roll dice visibility:private');
+      await sim.run('/roll dice visibility:blind');
+      await sim.run('/roll dice');
+
+      const { lastContent } = await sim.run('/roll history');
+
+      expect(lastContent).toContain('(page 1 of 1, newest first)');
+      expect(lastContent).toContain('= **5**');
+      expect(lastContent).not.toContain('= **3**');
+      expect(lastContent).not.toContain('= **4**');
+    });
+
+    it('should show GM and blind rolls to DMs in the history', async () => {
+      await makeDm('gm-1');
+      dice = [3, 4, 5, 6];
+      await sim.run('/roll dice visibility:private');
+      await sim.run('/roll dice visibility:gm');
+      await sim.run('/roll dice visibility:blind');
+      await sim.run('/roll dice');
+
+      const { responses, lastContent } = await sim.run('/roll history', {
+        userId: 'gm-1',
+      });
+
+      expect(responses[0]).toMatchObject({ ephemeral: true });
+      expect(lastContent).toContain('<@user-1> *(GM)* 1d20 = **4**');
+      expect(lastContent).toContain('<@user-1> *(blind)* 1d20 = **5**');
+      expect(lastContent).toContain('<@user-1> 1d20 = **6**');
+      expect(lastContent).not.toContain('= **3**');
+    });
+
+    it('should keep the history ephemeral when a slow DM check is deferred', async () => {
+      const userRepo = sim.container.resolve(USER_REPO);
+      const isDmByDiscordUserId = userRepo.isDmByDiscordUserId.bind(userRepo);
+      vi.spyOn(userRepo, 'isDmByDiscordUserId').mockImplementation(async (id) => {
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+        return isDmByDiscordUserId(id);
+      });
+      vi.useFakeTimers();
+
+      try {
+        const run = sim.run('/roll history');
+        await vi.advanceTimersByTimeAsync(3000);
+        const { responses } = await run;
+
+        expect(responses.map((response) => response.kind)).toEqual([
+          'deferReply',
+          'editReply',
+        ]);
+        expect(responses.every((response) => response.ephemeral)).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+});
@@ -1,171 +1,487 @@
 import { describe, it, expect } from 'vitest';
-import { rollDice, formatRollResult } from '../service.js';
-import type { DiceRollParams, RandomNumberGenerator } from '../types.js';
+import {
+  computeDistribution,
+  createMockRNG,
+  parseDiceExpression,
+  rollDicePool,
+  rollExpression,
+  type DicePool,
+} from '@discord-bot/dnd5e/engine';
+import {
+  toDiceNotation,
+  naturalRoll,
+  formatBlindRollReceipt,
+  formatGmRoll,
+  formatPoolEmbed,
+  formatPoolResult,
+  formatRollEmbed,
+  formatRollHistory,
+  formatRollLogEntry,
+  formatRollResult,
+  formatRollStats,
+  findDiceNotation,
+  ROLL_EMBED_LIMITS,
+} from '../service.js';
+import type { RollLogEntry } from '@discord-bot/persistence';
+import type { DiceRollParams } from '../types.js';
+
+/**
+ * Roll an expression with fixed die results
+ */
+function roll(notation: string, values: number[]) {
+  const result = rollExpression(notation, createMockRNG(values));
+  if (!result.success) throw new Error(result.error);
+  return result.value;
+}
+
+describe('toDiceNotation', () => {
+  it('should build notation without modifier', () => {
+    expect(toDiceNotation({ sides: 20, count: 1, modifier: 0 })).toBe('1d20');
+  });
 
-describe('rollDice', () => {
-  it('should roll dice with default RNG', () => {
-    const params: DiceRollParams = {
-      sides: 6,
-      count: 2,
-      modifier: 0,
-    };
+  it('should add positive and negative modifiers', () => {
+    expect(toDiceNotation({ sides: 20, count: 1, modifier: 5 })).toBe('1d20+5');
+    expect(toDiceNotation({ sides: 6, count: 3, modifier: -1 })).toBe('3d6-1');
+  });
 
-    const result = rollDice(params);
+  it('should keep the higher or lower of two d20s for advantage', () => {
+    const params: DiceRollParams = { sides: 20, count: 1, modifier: 2 };
 
-    expect(result.rolls).toHaveLength(2);
-    expect(result.rolls.every((roll) => roll >= 1 && roll <= 6)).toBe(true);
-    expect(result.modifier).toBe(0);
-    expect(result.subtotal).toBe(result.rolls[0]! + result.rolls[1]!);
-    expect(result.total).toBe(result.subtotal);
+    expect(toDiceNotation({ ...params, advantage: 'advantage' })).toBe('2d20kh1+2');
+    expect(toDiceNotation({ ...params, advantage: 'disadvantage' })).toBe('2d20kl1+2');
+    expect(toDiceNotation({ ...params, advantage: 'none' })).toBe('1d20+2');
   });
 
-  it('should use injected RNG for deterministic testing', () => {
-    const mockRng: RandomNumberGenerator = (max: number) => max; // Always return max
+  it('should produce notation the engine rolls deterministically', () => {
     const params: DiceRollParams = {
       sides: 20,
-      count: 3,
+      count: 1,
       modifier: 5,
+      advantage: 'advantage',
     };
 
-    const result = rollDice(params, mockRng);
+    const result = roll(toDiceNotation(params), [8, 17]);
 
-    expect(result.rolls).toEqual([20, 20, 20]);
-    expect(result.subtotal).toBe(60);
-    expect(result.modifier).toBe(5);
-    expect(result.total).toBe(65);
+    expect(result.total).toBe(22);
+    expect(result.groups[0]?.dice.map((die) => die.status)).toEqual(['dropped', 'kept']);
   });
+});
 
-  it('should handle positive modifiers correctly', () => {
-    const mockRng: RandomNumberGenerator = () => 10;
-    const params: DiceRollParams = {
-      sides: 20,
-      count: 1,
-      modifier: 7,
-    };
+describe('naturalRoll', () => {
+  it('should detect a natural 20 or 1 on a single d20', () => {
+    expect(naturalRoll(roll('1d20+5', [20]))).toBe(20);
+    expect(naturalRoll(roll('1d20', [1]))).toBe(1);
+    expect(naturalRoll(roll('1d20', [13]))).toBeNull();
+  });
 
-    const result = rollDice(params, mockRng);
+  it('should use the kept d20 with advantage', () => {
+    expect(naturalRoll(roll('2d20kh1', [20, 4]))).toBe(20);
+    expect(naturalRoll(roll('2d20kl1', [20, 4]))).toBeNull();
+  });
 
-    expect(result.rolls).toEqual([10]);
-    expect(result.subtotal).toBe(10);
-    expect(result.total).toBe(17);
+  it('should ignore other dice', () => {
+    expect(naturalRoll(roll('2d20', [20, 1]))).toBeNull();
+    expect(naturalRoll(roll('1d20+1d4', [20, 3]))).toBeNull();
+    expect(naturalRoll(roll('1d6', [1]))).toBeNull();
   });
+});
 
-  it('should handle negative modifiers correctly', () => {
-    const mockRng: RandomNumberGenerator = () => 15;
-    const params: DiceRollParams = {
-      sides: 20,
-      count: 1,
-      modifier: -3,
-    };
+describe('formatRollResult', () => {
+  it('should format a simple roll without modifier', () => {
+    expect(formatRollResult(roll('1d20', [15]))).toBe('1d20 = **15** (1d20 [15])');
+  });
 
-    const result = rollDice(params, mockRng);
+  it('should format a roll with a modifier', () => {
+    expect(formatRollResult(roll('1d20-2', [14]))).toBe(
+      '1d20-2 = **12** (1d20 [14] - 2)'
+    );
+  });
 
-    expect(result.rolls).toEqual([15]);
-    expect(result.subtotal).toBe(15);
-    expect(result.total).toBe(12);
+  it('should format multiple dice rolls', () => {
+    expect(formatRollResult(roll('3d6', [4, 5, 3]))).toBe('3d6 = **12** (3d6 [4, 5, 3])');
   });
 
   it('should include label when provided', () => {
-    const mockRng: RandomNumberGenerator = () => 5;
-    const params: DiceRollParams = {
-      sides: 6,
-      count: 1,
-      modifier: 0,
-      label: 'Attack Roll',
-    };
+    const formatted = formatRollResult(roll('2d6+1d4+3', [3, 5, 2]), { label: 'Damage' });
+
+    expect(formatted).toBe('**Damage**: 2d6+1d4+3 = **13** (2d6 [3, 5] + 1d4 [2] + 3)');
+  });
 
-    const result = rollDice(params, mockRng);
+  it('should lead with the character whose values were referenced', () => {
+    const result = roll('1d20+3', [10]);
 
-    expect(result.label).toBe('Attack Roll');
+    expect(formatRollResult(result, { character: 'Thorin', label: 'Stealth' })).toBe(
+      '**Thorin** (Stealth): 1d20+3 = **13** (1d20 [10] + 3)'
+    );
+    expect(formatRollResult(result, { character: 'Thorin' })).toBe(
+      '**Thorin**: 1d20+3 = **13** (1d20 [10] + 3)'
+    );
   });
 
-  it('should roll multiple dice correctly', () => {
-    let callCount = 0;
-    const values = [3, 5, 2, 6, 1];
-    const mockRng: RandomNumberGenerator = () => values[callCount++]!;
+  it('should strike through dropped dice', () => {
+    expect(formatRollResult(roll('4d6kh3', [5, 2, 6, 3]))).toBe(
+      '4d6kh3 = **14** (4d6kh3 [5, ~~2~~, 6, 3])'
+    );
+  });
 
-    const params: DiceRollParams = {
-      sides: 6,
-      count: 5,
-      modifier: 0,
-    };
+  it('should tag advantage and disadvantage', () => {
+    expect(formatRollResult(roll('2d20kh1+5', [8, 17]), { advantage: 'advantage' })).toBe(
+      '2d20kh1+5 (ADV) = **22** (2d20kh1 [~~8~~, 17] + 5)'
+    );
+    expect(
+      formatRollResult(roll('2d20kl1', [8, 17]), { advantage: 'disadvantage' })
+    ).toBe('2d20kl1 (DIS) = **8** (2d20kl1 [8, ~~17~~])');
+  });
+
+  it('should flag natural 20s and 1s', () => {
+    expect(formatRollResult(roll('1d20+2', [20]))).toBe(
+      '1d20+2 = **22** (1d20 [20] + 2) **NAT 20!**'
+    );
+    expect(formatRollResult(roll('2d20kh1', [1, 1]), { advantage: 'advantage' })).toBe(
+      '2d20kh1 (ADV) = **1** (2d20kh1 [1, ~~1~~]) **NAT 1!**'
+    );
+  });
+});
 
-    const result = rollDice(params, mockRng);
+describe('formatRollEmbed', () => {
+  const fieldsOf = (embed: ReturnType<typeof formatRollEmbed>) =>
+    Object.fromEntries(embed.fields.map((field) => [field.name, field.value]));
 
-    expect(result.rolls).toEqual([3, 5, 2, 6, 1]);
-    expect(result.subtotal).toBe(17);
-    expect(result.total).toBe(17);
+  it('should show the label, notation, modifier, total and dice', () => {
+    const embed = formatRollEmbed(roll('2d6+1d4+3', [3, 5, 2]), {
+      label: 'Damage',
+      rolledBy: 'Thorin',
+      modifier: 3,
+    });
+
+    expect(embed).toMatchObject({
+      title: 'Damage',
+      color: 0x5865f2,
+      footer: { text: 'Rolled by Thorin' },
+    });
+    expect(embed.description).toBeUndefined();
+    expect(fieldsOf(embed)).toEqual({
+      Notation: '`2d6+1d4+3`',
+      Modifier: '+3',
+      Total: '**13**',
+      Dice: '2d6 [3, 5]\n1d4 [2]',
+    });
+  });
+
+  it('should lead the title with the character', () => {
+    const result = roll('1d20-1', [10]);
+
+    expect(formatRollEmbed(result, { character: 'Thorin', label: 'Stealth' }).title).toBe(
+      'Thorin (Stealth)'
+    );
+    expect(formatRollEmbed(result, { character: 'Thorin' }).title).toBe('Thorin');
+    expect(fieldsOf(formatRollEmbed(result, { modifier: -1 })).Modifier).toBe('-1');
+  });
+
+  it('should leave out a missing or zero modifier', () => {
+    const plain = formatRollEmbed(roll('1d8', [5]), { modifier: 0 });
+    const multiplied = formatRollEmbed(roll('(1d8+2)*2', [5]), { modifier: null });
+
+    expect(fieldsOf(plain)).not.toHaveProperty('Modifier');
+    expect(fieldsOf(multiplied)).toEqual({
+      Notation: '`(1d8+2)*2`',
+      Total: '**14**',
+      Dice: '1d8 [5]',
+    });
+  });
+
+  it('should highlight the highest faces and 1s', () => {
+    const embed = formatRollEmbed(roll('4d6!+2d20kh1', [6, 1, 4, 2, 3, 1, 20]));
+
+    expect(fieldsOf(embed).Dice).toBe(
+      '4d6! [**6!**, __1__, 4, 2, 3]\n2d20kh1 [~~1~~, **20**]'
+    );
+  });
+
+  it('should tag advantage and disadvantage', () => {
+    const result = roll('2d20kl1+1', [8, 17]);
+
+    expect(
+      fieldsOf(formatRollEmbed(result, { advantage: 'disadvantage' })).Notation
+    ).toBe('`2d20kl1+1` (DIS)');
+    expect(fieldsOf(formatRollEmbed(result)).Notation).toBe('`2d20kl1+1`');
+  });
+
+  it('should color natural 20s and 1s', () => {
+    const nat20 = formatRollEmbed(roll('1d20+2', [20]));
+    const nat1 = formatRollEmbed(roll('1d20+2', [1]));
+
+    expect(nat20).toMatchObject({ description: '**NAT 20!**', color: 0x57f287 });
+    expect(nat1).toMatchObject({ description: '**NAT 1!**', color: 0xed4245 });
+  });
+
+  it('should collapse long dice lists', () => {
+    const { maxDicePerGroup } = ROLL_EMBED_LIMITS;
+    const embed = formatRollEmbed(roll('50d6', Array(50).fill(3)));
+
+    expect(fieldsOf(embed).Dice).toBe(
+      `50d6 [${Array(maxDicePerGroup).fill(3).join(', ')}, +${50 - maxDicePerGroup} more]`
+    );
+  });
+
+  it('should leave out the groups that do not fit in a field', () => {
+    const notation = Array(5).fill('20d1000').join('+');
+    const dice = fieldsOf(formatRollEmbed(roll(notation, Array(100).fill(1000)))).Dice!;
+
+    expect(dice.length).toBeLessThanOrEqual(ROLL_EMBED_LIMITS.maxFieldLength);
+    expect(dice.split('\n')).toHaveLength(5);
+    expect(dice).toMatch(/\n\+1 more group$/);
   });
 });
 
-describe('formatRollResult', () => {
-  it('should format a simple roll without modifier', () => {
-    const params: DiceRollParams = { sides: 20, count: 1, modifier: 0 };
-    const result = { rolls: [15], modifier: 0, subtotal: 15, total: 15 };
+/**
+ * Roll a pool with fixed die results
+ */
+function pool(input: DicePool, values: number[]) {
+  const result = rollDicePool(input, createMockRNG(values));
+  if (!result.success) throw new Error(result.error);
+  return result.value;
+}
+
+describe('formatPoolEmbed', () => {
+  const fieldsOf = (embed: ReturnType<typeof formatPoolEmbed>) =>
+    Object.fromEntries(embed.fields.map((field) => [field.name, field.value]));
+
+  it('should show the successes, ones and dice', () => {
+    const input: DicePool = { count: 5, sides: 10, target: 8, again: 10 };
+    const embed = formatPoolEmbed(input, pool(input, [8, 1, 10, 7, 3, 9]), {
+      label: 'Dodge',
+      rolledBy: 'Thorin',
+    });
+
+    expect(embed).toMatchObject({
+      title: 'Dodge',
+      color: 0x5865f2,
+      footer: { text: 'Rolled by Thorin' },
+    });
+    expect(embed.description).toBeUndefined();
+    expect(fieldsOf(embed)).toEqual({
+      Notation: '`5d10!>=8`',
+      Successes: '**3**',
+      Ones: '1',
+      Dice: '5d10 [**8**, __1__, **10!**, 7, 3, **9**]',
+    });
+  });
 
-    const formatted = formatRollResult(params, result);
+  it('should note successes cancelled by ones', () => {
+    const input: DicePool = { count: 4, sides: 10, target: 6, subtractOnes: true };
 
-    expect(formatted).toBe('1d20 = **15** (rolled: 15)');
+    expect(fieldsOf(formatPoolEmbed(input, pool(input, [9, 1, 6, 4])))).toMatchObject({
+      Successes: '**1** (1 cancelled by ones)',
+      Ones: '1',
+    });
   });
 
-  it('should format a roll with positive modifier', () => {
-    const params: DiceRollParams = { sides: 20, count: 1, modifier: 5 };
-    const result = { rolls: [12], modifier: 5, subtotal: 12, total: 17 };
+  it('should call out a botch in red', () => {
+    const input: DicePool = { count: 3, sides: 10, target: 6, subtractOnes: true };
+    const embed = formatPoolEmbed(input, pool(input, [4, 1, 2]));
 
-    const formatted = formatRollResult(params, result);
+    expect(embed).toMatchObject({
+      title: 'Pool',
+      description: '**Botch!**',
+      color: 0xed4245,
+    });
+  });
+});
 
-    expect(formatted).toBe('1d20 + 5 = **17** (rolled: 12)');
+describe('formatPoolResult', () => {
+  it('should count the successes', () => {
+    expect(
+      formatPoolResult(pool({ count: 4, sides: 10, target: 8 }, [8, 3, 10, 7]))
+    ).toBe('4d10>=8 = **2 successes** (4d10 [**8**, 3, **10**, 7])');
+    expect(
+      formatPoolResult(pool({ count: 2, sides: 6, target: 5 }, [5, 2]), 'Dodge')
+    ).toBe('**Dodge**: 2d6>=5 = **1 success** (2d6 [**5**, 2])');
   });
 
-  it('should format a roll with negative modifier', () => {
-    const params: DiceRollParams = { sides: 20, count: 1, modifier: -2 };
-    const result = { rolls: [14], modifier: -2, subtotal: 14, total: 12 };
+  it('should note successes cancelled by ones', () => {
+    const result = pool(
+      { count: 4, sides: 10, target: 6, subtractOnes: true },
+      [9, 1, 6, 4]
+    );
+
+    expect(formatPoolResult(result)).toBe(
+      '4d10>=6f1 = **1 success** (4d10 [**9**, 1, **6**, 4]; 1 cancelled by ones)'
+    );
+  });
 
-    const formatted = formatRollResult(params, result);
+  it('should call out a botch', () => {
+    const result = pool(
+      { count: 3, sides: 10, target: 6, subtractOnes: true },
+      [4, 1, 2]
+    );
 
-    expect(formatted).toBe('1d20 - 2 = **12** (rolled: 14)');
+    expect(formatPoolResult(result)).toBe('3d10>=6f1 = **Botch!** (3d10 [4, 1, 2])');
   });
+});
 
-  it('should format multiple dice rolls', () => {
-    const params: DiceRollParams = { sides: 6, count: 3, modifier: 0 };
-    const result = { rolls: [4, 5, 3], modifier: 0, subtotal: 12, total: 12 };
+describe('formatRollStats', () => {
+  function stats(notation: string, target?: number) {
+    const parsed = parseDiceExpression(notation);
+    if (!parsed.success) throw new Error(parsed.error);
+    const distribution = computeDistribution(parsed.value);
+    if (!distribution.success) throw new Error(distribution.error);
+    return formatRollStats(parsed.value, distribution.value, target);
+  }
+
+  it('should show the summary and a histogram', () => {
+    expect(stats('1d4+1')).toBe(
+      [
+        '**Odds for 1d4+1**',
+        'Mean **3.50**, std dev 1.12, range 2–5',
+        '```text',
+        '2 ████████████████████ 25.00%',
+        '3 ████████████████████ 25.00%',
+        '4 ████████████████████ 25.00%',
+        '5 ████████████████████ 25.00%',
+        '```',
+      ].join('\n')
+    );
+  });
 
-    const formatted = formatRollResult(params, result);
+  it('should give the chance to reach a target', () => {
+    expect(stats('2d6', 10)).toContain('Chance of 10 or more: **16.67%**');
+  });
 
-    expect(formatted).toBe('3d6 = **12** (rolled: 4, 5, 3)');
+  it('should treat the target of a d20 roll as an AC', () => {
+    expect(stats('1d20+7', 15)).toContain('To hit AC 15: **65.00%** (crit 5.00%)');
+    expect(stats('1d20+20', 10)).toContain('To hit AC 10: **95.00%**');
   });
+});
 
-  it('should include label when provided', () => {
-    const params: DiceRollParams = {
-      sides: 20,
-      count: 1,
-      modifier: 2,
-      label: 'Attack Roll',
-    };
-    const result = { rolls: [13], modifier: 2, subtotal: 13, total: 15, label: 'Attack Roll' };
+describe('GM rolls', () => {
+  it('should name the roller and the kind of roll for the GM', () => {
+    expect(formatGmRoll('123', '1d20 = **9** (1d20 [9])', 'gm')).toBe(
+      '**GM roll** by <@123>: 1d20 = **9** (1d20 [9])'
+    );
+    expect(formatGmRoll('123', '1d20 = **9** (1d20 [9])', 'blind')).toBe(
+      '**Blind roll** by <@123>: 1d20 = **9** (1d20 [9])'
+    );
+  });
 
-    const formatted = formatRollResult(params, result);
+  it('should tell the roller of a blind roll what was rolled, but not the result', () => {
+    expect(formatBlindRollReceipt('1d20+3', 'Stealth')).toBe(
+      '**Stealth**: 1d20+3 rolled secretly. Only the GM sees the result.'
+    );
+    expect(formatBlindRollReceipt('1d20')).toBe(
+      '1d20 rolled secretly. Only the GM sees the result.'
+    );
+  });
+});
 
-    expect(formatted).toBe('**Attack Roll**: 1d20 + 2 = **15** (rolled: 13)');
+describe('roll history', () => {
+  const entry = (overrides: Partial<RollLogEntry> = {}): RollLogEntry => ({
+    id: 'roll-1',
+    discordUserId: '123',
+    guildId: 'guild-1',
+    channelId: 'channel-1',
+    characterName: null,
+    expression: '1d20+5',
+    breakdown: '1d20 [13] + 5',
+    dice: [],
+    total: 18,
+    label: null,
+    visibility: 'public',
+    createdAt: '2024-01-15T10:00:00.000Z',
+    ...overrides,
   });
 
-  it('should handle complex roll with all options', () => {
-    const params: DiceRollParams = {
+  it('should format an entry with time, roller and breakdown', () => {
+    expect(formatRollLogEntry(entry())).toBe(
+      '<t:1705312800:f> <@123> 1d20+5 = **18** (1d20 [13] + 5)'
+    );
+    expect(formatRollLogEntry(entry({ characterName: 'Thorin', label: 'Attack' }))).toBe(
+      '<t:1705312800:f> <@123> (Thorin) **Attack**: 1d20+5 = **18** (1d20 [13] + 5)'
+    );
+  });
+
+  it('should tag secret rolls', () => {
+    expect(formatRollLogEntry(entry({ visibility: 'gm' }))).toBe(
+      '<t:1705312800:f> <@123> *(GM)* 1d20+5 = **18** (1d20 [13] + 5)'
+    );
+    expect(formatRollLogEntry(entry({ visibility: 'blind' }))).toContain(
+      '<@123> *(blind)* 1d20+5'
+    );
+  });
+
+  it('should shorten long entries', () => {
+    const long = entry({ breakdown: 'x'.repeat(300) });
+    const line = formatRollLogEntry(long);
+
+    expect(line).toHaveLength(180);
+    expect(line.endsWith('...')).toBe(true);
+    expect(formatRollLogEntry(long, 80)).toHaveLength(80);
+  });
+
+  it('should keep a full page of long entries within a message', () => {
+    const entries = Array(25).fill(entry({ breakdown: 'x'.repeat(300) }));
+    const content = formatRollHistory({ entries, total: 100 }, 1, 'in <#channel-1>', 25);
+
+    expect(content.length).toBeLessThanOrEqual(2000);
+    expect(content).toMatch(/Use `page:2 count:25` for older rolls\.$/);
+  });
+
+  it('should show the page and point to older rolls', () => {
+    const content = formatRollHistory(
+      { entries: [entry()], total: 25 },
+      2,
+      'in <#channel-1>'
+    );
+
+    expect(content).toBe(
+      [
+        '**Rolls in <#channel-1>** (page 2 of 3, newest first)',
+        '<t:1705312800:f> <@123> 1d20+5 = **18** (1d20 [13] + 5)',
+        'Use `page:3` for older rolls.',
+      ].join('\n')
+    );
+  });
+
+  it('should explain empty history and pages past the end', () => {
+    expect(formatRollHistory({ entries: [], total: 0 }, 1, 'by <@123>')).toBe(
+      'No rolls by <@123> yet.'
+    );
+    expect(formatRollHistory({ entries: [], total: 5 }, 3, 'by <@123>')).toBe(
+      'There is no page 3; rolls by <@123> fill 1 page.'
+    );
+  });
+});
+
+describe('findDiceNotation', () => {
+  it('should find notation with count, sides and modifier', () => {
+    expect(findDiceNotation('I attack with 1d8 + 3 damage')).toEqual({
+      count: 1,
       sides: 8,
-      count: 4,
-      modifier: -1,
-      label: 'Damage',
-    };
-    const result = {
-      rolls: [6, 2, 8, 5],
-      modifier: -1,
-      subtotal: 21,
-      total: 20,
-      label: 'Damage',
-    };
+      modifier: 3,
+    });
+  });
+
+  it('should default the count to 1', () => {
+    expect(findDiceNotation('roll a d20')).toEqual({ count: 1, sides: 20, modifier: 0 });
+  });
+
+  it('should parse negative modifiers', () => {
+    expect(findDiceNotation('4D6-1')).toEqual({ count: 4, sides: 6, modifier: -1 });
+  });
 
-    const formatted = formatRollResult(params, result);
+  it('should use the first notation in the text', () => {
+    expect(findDiceNotation('2d6 fire and 1d4 cold')).toEqual({
+      count: 2,
+      sides: 6,
+      modifier: 0,
+    });
+  });
+
+  it('should ignore words that only contain dice-like text', () => {
+    expect(findDiceNotation('add6 and 2d6x')).toBeNull();
+  });
 
-    expect(formatted).toBe('**Damage**: 4d8 - 1 = **20** (rolled: 6, 2, 8, 5)');
+  it('should return null when there is no notation', () => {
+    expect(findDiceNotation('no dice here')).toBeNull();
   });
 });
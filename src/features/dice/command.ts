@@ -1,62 +1,291 @@
-import { SlashCommandBuilder } from 'discord.js';
-import type { ChatInputCommandInteraction } from 'discord.js';
-import { diceRollSchema } from './schema.js';
-import { rollDice, formatRollResult } from './service.js';
-import type { DiceRollParams } from './types.js';
+import {
+  ActionRowBuilder,
+  ApplicationCommandType,
+  ButtonBuilder,
+  ButtonStyle,
+  ContextMenuCommandBuilder,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from 'discord.js';
+import type {
+  ChatInputCommandInteraction,
+  MessageComponentInteraction,
+  MessageContextMenuCommandInteraction,
+} from 'discord.js';
+import {
+  DICE_LIMITS,
+  asD20Roll,
+  computeDistribution,
+  expressionModifier,
+  parseDiceExpression,
+  parseDicePoolNotation,
+  rollDiceExpression,
+  rollDicePool,
+  type DicePool,
+} from '@discord-bot/dnd5e/engine';
+import type { RecordRollParams, RollVisibility } from '@discord-bot/persistence';
+import { buildCustomId } from '../../core/customId.js';
+import { NotFoundError, ValidationError } from '../../core/errors.js';
+import {
+  diceExpressionSchema,
+  dicePoolSchema,
+  diceRollSchema,
+  rollHistorySchema,
+} from './schema.js';
+import {
+  ROLL_HISTORY_MAX_COUNT,
+  formatBlindRollReceipt,
+  formatGmRoll,
+  formatPoolEmbed,
+  formatPoolResult,
+  formatRollEmbed,
+  formatRollHistory,
+  formatRollResult,
+  formatRollStats,
+  findDiceNotation,
+  toDiceNotation,
+  type FormatRollOptions,
+} from './service.js';
+import type { DiceFeatureDeps, RollCharacter, RollEmbed } from './types.js';
+
+/**
+ * Choices of the `visibility` option
+ */
+const VISIBILITY_CHOICES = [
+  { name: 'Public', value: 'public' },
+  { name: 'Private (only you)', value: 'private' },
+  { name: 'GM (you and the GM)', value: 'gm' },
+  { name: 'Blind (only the GM)', value: 'blind' },
+];
 
 /**
  * Slash command definition for /roll
  */
 export const rollCommand = new SlashCommandBuilder()
   .setName('roll')
-  .setDescription('Roll dice with customizable options')
-  .addIntegerOption((option) =>
-    option
-      .setName('sides')
-      .setDescription('Number of sides on the die (default: 20)')
-      .setMinValue(2)
-      .setMaxValue(1000)
-      .setRequired(false)
+  .setDescription('Roll dice and look up their odds')
+  .addSubcommand((sub) =>
+    sub
+      .setName('dice')
+      .setDescription('Roll dice with customizable options')
+      .addStringOption((option) =>
+        option
+          .setName('expression')
+          .setDescription(
+            'Dice expression, e.g. "2d6+1d4+3", "4d6kh3" or "1d20+{dex_mod}"'
+          )
+          .setMaxLength(DICE_LIMITS.maxLength)
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('sides')
+          .setDescription('Number of sides on the die (default: 20)')
+          .setMinValue(2)
+          .setMaxValue(1000)
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('count')
+          .setDescription('Number of dice to roll (default: 1)')
+          .setMinValue(1)
+          .setMaxValue(50)
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('modifier')
+          .setDescription('Modifier to add to the roll (default: 0)')
+          .setMinValue(-1000)
+          .setMaxValue(1000)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('advantage')
+          .setDescription('Roll a second d20 and keep the higher or lower result')
+          .setRequired(false)
+          .addChoices(
+            { name: 'Advantage', value: 'advantage' },
+            { name: 'Disadvantage', value: 'disadvantage' }
+          )
+      )
+      .addStringOption((option) =>
+        option
+          .setName('label')
+          .setDescription('Optional label for the roll (e.g., "Attack Roll")')
+          .setMaxLength(50)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('visibility')
+          .setDescription('Who sees the result (default: everyone)')
+          .setRequired(false)
+          .addChoices(...VISIBILITY_CHOICES)
+      )
   )
-  .addIntegerOption((option) =>
-    option
-      .setName('count')
-      .setDescription('Number of dice to roll (default: 1)')
-      .setMinValue(1)
-      .setMaxValue(50)
-      .setRequired(false)
+  .addSubcommand((sub) =>
+    sub
+      .setName('pool')
+      .setDescription('Roll a dice pool and count the successes')
+      .addIntegerOption((option) =>
+        option
+          .setName('count')
+          .setDescription('Number of dice in the pool')
+          .setMinValue(1)
+          .setMaxValue(DICE_LIMITS.maxDice)
+          .setRequired(true)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('target')
+          .setDescription('Lowest face that counts as a success, e.g. 8')
+          .setMinValue(1)
+          .setMaxValue(DICE_LIMITS.maxSides)
+          .setRequired(true)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('sides')
+          .setDescription('Number of sides on each die (default: 10)')
+          .setMinValue(2)
+          .setMaxValue(DICE_LIMITS.maxSides)
+          .setRequired(false)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName('subtract-ones')
+          .setDescription('Each 1 cancels a success')
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('again')
+          .setDescription('Roll an extra die for each die at or above this, e.g. 10')
+          .setMinValue(2)
+          .setMaxValue(DICE_LIMITS.maxSides)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('label')
+          .setDescription('Optional label for the roll (e.g., "Dodge")')
+          .setMaxLength(50)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName('visibility')
+          .setDescription('Who sees the result (default: everyone)')
+          .setRequired(false)
+          .addChoices(...VISIBILITY_CHOICES)
+      )
   )
-  .addIntegerOption((option) =>
-    option
-      .setName('modifier')
-      .setDescription('Modifier to add to the roll (default: 0)')
-      .setMinValue(-1000)
-      .setMaxValue(1000)
-      .setRequired(false)
+  .addSubcommand((sub) =>
+    sub
+      .setName('stats')
+      .setDescription('Show the exact odds of a dice expression')
+      .addStringOption((option) =>
+        option
+          .setName('expression')
+          .setDescription(
+            'Dice expression, e.g. "4d6kh3" or "2d20kh1+{str_mod}" (advantage)'
+          )
+          .setMaxLength(DICE_LIMITS.maxLength)
+          .setRequired(true)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('target')
+          .setDescription('Chance to roll at least this (the AC for d20 rolls)')
+          .setMinValue(-100000)
+          .setMaxValue(100000)
+          .setRequired(false)
+      )
   )
-  .addStringOption((option) =>
-    option
-      .setName('label')
-      .setDescription('Optional label for the roll (e.g., "Attack Roll")')
-      .setMaxLength(50)
-      .setRequired(false)
+  .addSubcommand((sub) =>
+    sub
+      .setName('history')
+      .setDescription('Show recorded rolls in this channel, or by a user')
+      .addUserOption((option) =>
+        option
+          .setName('user')
+          .setDescription('Only show rolls by this user (anywhere in the server)')
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('page')
+          .setDescription('Page to show, 1 being the newest rolls (default: 1)')
+          .setMinValue(1)
+          .setMaxValue(1000)
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName('count')
+          .setDescription('Rolls per page (default: 10)')
+          .setMinValue(1)
+          .setMaxValue(ROLL_HISTORY_MAX_COUNT)
+          .setRequired(false)
+      )
   );
 
 /**
- * Handler for the /roll command
+ * Main command handler - routes to subcommand handlers.
+ */
+export async function handleRollCommand(
+  interaction: ChatInputCommandInteraction,
+  deps: DiceFeatureDeps
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  switch (subcommand) {
+    case 'dice':
+      await handleDice(interaction, deps);
+      break;
+    case 'pool':
+      await handlePool(interaction, deps);
+      break;
+    case 'stats':
+      await handleStats(interaction, deps);
+      break;
+    case 'history':
+      await handleHistory(interaction, deps);
+      break;
+    default:
+      throw new ValidationError(`Unknown subcommand: ${subcommand}`);
+  }
+}
+
+/**
+ * Handler for /roll dice
  *
  * Extracts options from the Discord interaction, validates them,
  * executes the dice roll, and sends the result back to the user.
+ * An `expression` replaces sides/count/modifier; both forms are rolled by
+ * the dnd5e expression engine.
  */
-export async function handleRollCommand(
-  interaction: ChatInputCommandInteraction
+async function handleDice(
+  interaction: ChatInputCommandInteraction,
+  deps: DiceFeatureDeps
 ): Promise<void> {
+  const expression = interaction.options.getString('expression');
+  if (expression !== null) {
+    await handleExpressionRoll(interaction, expression, deps);
+    return;
+  }
+
   // Extract options from the interaction
   const rawInput = {
     sides: interaction.options.getInteger('sides') ?? undefined,
     count: interaction.options.getInteger('count') ?? undefined,
     modifier: interaction.options.getInteger('modifier') ?? undefined,
+    advantage: interaction.options.getString('advantage') ?? undefined,
     label: interaction.options.getString('label') ?? undefined,
+    visibility: interaction.options.getString('visibility') ?? undefined,
   };
 
   // Validate and parse input with zod schema
@@ -68,29 +297,566 @@ export async function handleRollCommand(
       .map((err) => `${err.path.join('.')}: ${err.message}`)
       .join('\n');
 
-    await interaction.reply({
-      content: `Invalid input:\n${errors}`,
-      ephemeral: true,
+    throw new ValidationError(errors);
+  }
+
+  const params = parseResult.data;
+
+  if (params.advantage !== 'none' && (params.sides !== 20 || params.count !== 1)) {
+    throw new ValidationError('Advantage and disadvantage only apply to a single d20.', {
+      hint: 'Leave out `sides` and `count`, or use an expression like `4d6kh3`.',
     });
+  }
+
+  await rollAndReply(interaction, toDiceNotation(params), deps, {
+    format: { label: params.label, advantage: params.advantage },
+    visibility: params.visibility,
+  });
+}
+
+/**
+ * /roll with an expression such as "2d6+1d4+3", "4d6kh3" or "1d20+{dex_mod}"
+ */
+async function handleExpressionRoll(
+  interaction: ChatInputCommandInteraction,
+  expression: string,
+  deps: DiceFeatureDeps
+): Promise<void> {
+  const { options } = interaction;
+  if (['sides', 'count', 'modifier'].some((name) => options.getInteger(name) !== null)) {
+    throw new ValidationError(
+      'Use either `expression` or `sides`/`count`/`modifier`, not both.',
+      { hint: 'Write the whole roll as an expression, e.g. `2d6+3`.' }
+    );
+  }
+  if (options.getString('advantage') !== null) {
+    throw new ValidationError('Use either `expression` or `advantage`, not both.', {
+      hint: 'Write `2d20kh1` for advantage or `2d20kl1` for disadvantage.',
+    });
+  }
+
+  const parseResult = diceExpressionSchema.safeParse({
+    expression,
+    label: options.getString('label') ?? undefined,
+    visibility: options.getString('visibility') ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((err) => `${err.path.join('.')}: ${err.message}`)
+      .join('\n');
+
+    throw new ValidationError(errors);
+  }
+
+  const { data } = parseResult;
+  await rollAndReply(interaction, data.expression, deps, {
+    format: { label: data.label },
+    visibility: data.visibility,
+    character: await findReferencedCharacter(interaction, data.expression, deps),
+  });
+}
+
+/**
+ * The roller's active character, if the expression has `{references}`
+ *
+ * @throws ValidationError in direct messages
+ * @throws NotFoundError if the roller has no active character
+ */
+async function findReferencedCharacter(
+  interaction: ChatInputCommandInteraction,
+  expression: string,
+  deps: DiceFeatureDeps
+): Promise<RollCharacter | null> {
+  if (!expression.includes('{')) {
+    return null;
+  }
+
+  if (!interaction.guildId) {
+    throw new ValidationError('References like `{dex_mod}` only work in a server.', {
+      hint: 'Characters belong to a server; write the numbers instead, e.g. `1d20+3`.',
+    });
+  }
+
+  const character = await deps.findCharacter(interaction.user.id, interaction.guildId);
+  if (!character) {
+    throw new NotFoundError('No active character set.', {
+      hint: 'Use `/char active name:<name>` to choose the character `{references}` read from.',
+    });
+  }
+  return character;
+}
+
+/**
+ * Handler for /roll pool: count the dice at or above a target, World of
+ * Darkness or Shadowrun style
+ */
+async function handlePool(
+  interaction: ChatInputCommandInteraction,
+  deps: DiceFeatureDeps
+): Promise<void> {
+  const { options } = interaction;
+  const parseResult = dicePoolSchema.safeParse({
+    count: options.getInteger('count', true),
+    target: options.getInteger('target', true),
+    sides: options.getInteger('sides') ?? undefined,
+    subtractOnes: options.getBoolean('subtract-ones') ?? undefined,
+    again: options.getInteger('again') ?? undefined,
+    label: options.getString('label') ?? undefined,
+    visibility: options.getString('visibility') ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((err) => `${err.path.join('.')}: ${err.message}`)
+      .join('\n');
+
+    throw new ValidationError(errors);
+  }
+
+  const { label, visibility, ...pool } = parseResult.data;
+
+  await rollPoolAndReply(interaction, pool, deps, { format: { label }, visibility });
+}
+
+/**
+ * Handler for /roll stats: exact distribution of an expression
+ */
+async function handleStats(
+  interaction: ChatInputCommandInteraction,
+  deps: DiceFeatureDeps
+): Promise<void> {
+  const parseResult = diceExpressionSchema.safeParse({
+    expression: interaction.options.getString('expression', true),
+  });
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((err) => `${err.path.join('.')}: ${err.message}`)
+      .join('\n');
+
+    throw new ValidationError(errors);
+  }
+
+  const cannotCompute = (error: string) =>
+    new ValidationError(`Cannot compute that: ${error}`, {
+      hint: 'Try something like `2d6+3`, `4d6kh3` or `2d20kh1+7` (advantage).',
+    });
+
+  const { expression } = parseResult.data;
+  const character = await findReferencedCharacter(interaction, expression, deps);
+  const parsed = parseDiceExpression(expression, character?.references);
+  if (!parsed.success) {
+    throw cannotCompute(parsed.error);
+  }
+
+  const distribution = computeDistribution(parsed.value);
+  if (!distribution.success) {
+    throw cannotCompute(distribution.error);
+  }
+
+  const target = interaction.options.getInteger('target') ?? undefined;
+
+  await interaction.reply(formatRollStats(parsed.value, distribution.value, target));
+}
+
+/**
+ * Handler for /roll history: a page of the roll log
+ *
+ * Without a user, lists the rolls of this channel. With a user, lists their
+ * rolls anywhere in the server (only in this conversation in DMs). Private
+ * rolls are left out, and GM and blind rolls too unless a DM asks.
+ */
+async function handleHistory(
+  interaction: ChatInputCommandInteraction,
+  deps: DiceFeatureDeps
+): Promise<void> {
+  const parseResult = rollHistorySchema.safeParse({
+    user: interaction.options.getUser('user')?.id,
+    page: interaction.options.getInteger('page') ?? undefined,
+    count: interaction.options.getInteger('count') ?? undefined,
+  });
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors
+      .map((err) => `${err.path.join('.')}: ${err.message}`)
+      .join('\n');
+
+    throw new ValidationError(errors);
+  }
+
+  const { user, page, count } = parseResult.data;
+  const { guildId, channelId } = interaction;
+  const byChannel = !user || !guildId;
+  const isDm = await deps.isDm(interaction.user.id);
+
+  const result = await deps.rollLogRepo.query({
+    guildId,
+    channelId: byChannel ? channelId : undefined,
+    discordUserId: user,
+    visibility: isDm ? ['public', 'gm', 'blind'] : 'public',
+    limit: count,
+    offset: (page - 1) * count,
+  });
+
+  const scope = [user && `by <@${user}>`, byChannel && `in <#${channelId}>`]
+    .filter(Boolean)
+    .join(' ');
+
+  await interaction.reply({
+    content: formatRollHistory(result, page, scope, count),
+    ephemeral: true,
+  });
+}
+
+/**
+ * Interactions a roll answers: /roll, the "Roll this" menu and the "Roll
+ * again" button
+ */
+type RollInteraction =
+  | ChatInputCommandInteraction
+  | MessageContextMenuCommandInteraction
+  | MessageComponentInteraction;
+
+/**
+ * Where GM rolls go: the guild's GM channel, or each DM by direct message
+ */
+type GmDestination = { channelId: string } | { userIds: string[] };
+
+/**
+ * Find where to send GM rolls in the interaction's guild
+ *
+ * DMs are only messaged if they are members of the guild.
+ *
+ * @throws ValidationError outside of a guild, or if there is no one to send to
+ */
+async function findGmDestination(
+  interaction: RollInteraction,
+  deps: DiceFeatureDeps
+): Promise<GmDestination> {
+  const { guildId } = interaction;
+  if (!guildId) {
+    throw new ValidationError('GM and blind rolls only work in a server.', {
+      hint: 'Use `visibility:private` to keep a roll to yourself.',
+    });
+  }
+
+  const settings = await deps.guildSettingsRepo.getSettings(guildId);
+  if (settings.gmChannelId) {
+    return { channelId: settings.gmChannelId };
+  }
+
+  const guild = interaction.guild ?? (await interaction.client.guilds.fetch(guildId));
+  const dms = await deps.listDms();
+  const members = await Promise.all(
+    dms.map((userId) =>
+      guild.members
+        .fetch(userId)
+        .then(() => userId)
+        .catch(() => null)
+    )
+  );
+  const userIds = members.filter((userId): userId is string => userId !== null);
+
+  if (userIds.length === 0) {
+    throw new ValidationError('There is no GM in this server to send the roll to.', {
+      hint: 'Ask a server admin to set a GM channel with `/settings gm-channel`.',
+    });
+  }
+
+  return { userIds };
+}
+
+/**
+ * Send a GM roll to its destination
+ *
+ * @throws ValidationError if the GM channel cannot be posted in, or no DM
+ *   could be messaged
+ */
+async function sendToGms(
+  interaction: RollInteraction,
+  destination: GmDestination,
+  content: string
+): Promise<void> {
+  if ('channelId' in destination) {
+    const channel = await interaction.client.channels
+      .fetch(destination.channelId)
+      .catch(() => null);
+    if (!channel?.isSendable()) {
+      throw new ValidationError('Cannot post in the GM channel.', {
+        hint: `Check the bot can send messages in <#${destination.channelId}>, or pick another channel with \`/settings gm-channel\`.`,
+      });
+    }
+    await channel.send(content);
     return;
   }
 
-  const validatedInput = parseResult.data;
+  const sent = await Promise.allSettled(
+    destination.userIds.map((userId) => interaction.client.users.send(userId, content))
+  );
+  if (!sent.some((outcome) => outcome.status === 'fulfilled')) {
+    throw new ValidationError('Could not send the roll to any GM.', {
+      hint: 'GMs may have direct messages turned off; a GM channel avoids that (`/settings gm-channel`).',
+    });
+  }
+}
+
+/**
+ * How to roll, show and share a roll
+ */
+interface RollOptions {
+  format?: FormatRollOptions;
+  /** Who sees the result (default: "public") */
+  visibility?: RollVisibility;
+  /** Character whose values the notation's `{references}` read */
+  character?: RollCharacter | null;
+}
 
-  // Build dice roll parameters
-  const params: DiceRollParams = {
-    sides: validatedInput.sides,
-    count: validatedInput.count,
-    modifier: validatedInput.modifier,
-    label: validatedInput.label,
-  };
+/**
+ * A roll ready to share
+ */
+interface SharedRoll {
+  /** The result, for the roller or the GMs */
+  text: string;
+  /** The result as an embed for the roller, shown instead of `text` */
+  embed?: RollEmbed;
+  /** What the roller of a blind roll sees instead of the result */
+  receipt: string;
+  /** The roll log entry, less who rolled where */
+  entry: Omit<RecordRollParams, 'discordUserId' | 'guildId' | 'channelId' | 'visibility'>;
+}
+
+/**
+ * The "Roll again" button under a public roll, naming its roll log entry
+ */
+function rollAgainRow(entryId: string): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(buildCustomId('roll', 'again', entryId))
+      .setLabel('Roll again')
+      .setStyle(ButtonStyle.Secondary)
+  );
+}
+
+/**
+ * Make a roll, record it in the roll log and show it to whoever may see it
+ *
+ * GM and blind rolls are sent to the GMs first; the roller gets the result
+ * (or, for blind rolls, only a receipt) as an ephemeral reply. The GMs are
+ * found before `roll` runs, so no roll is made that cannot be delivered.
+ * Public rolls with an embed carry a "Roll again" button.
+ *
+ * @param roll - Makes the roll; throws if it cannot be made
+ * @throws ValidationError if a GM roll cannot be delivered
+ */
+async function shareRoll(
+  interaction: RollInteraction,
+  deps: DiceFeatureDeps,
+  visibility: RollVisibility,
+  roll: () => SharedRoll
+): Promise<void> {
+  const toGms = visibility === 'gm' || visibility === 'blind';
+  const destination = toGms ? await findGmDestination(interaction, deps) : null;
+
+  const { text, embed, receipt, entry } = roll();
+
+  if (toGms && destination) {
+    await sendToGms(
+      interaction,
+      destination,
+      formatGmRoll(interaction.user.id, text, visibility)
+    );
+  }
+
+  const recorded = await deps.rollLogRepo.record({
+    discordUserId: interaction.user.id,
+    guildId: interaction.guildId,
+    channelId: interaction.channelId,
+    ...entry,
+    visibility,
+  });
 
-  // Execute the dice roll (pure domain logic)
-  const result = rollDice(params);
+  if (visibility === 'blind') {
+    await interaction.reply({ content: receipt, ephemeral: true });
+  } else if (embed && visibility === 'public') {
+    await interaction.reply({
+      embeds: [new EmbedBuilder(embed)],
+      components: [rollAgainRow(recorded.id)],
+    });
+  } else if (embed) {
+    await interaction.reply({ embeds: [new EmbedBuilder(embed)], ephemeral: true });
+  } else if (visibility === 'public') {
+    await interaction.reply(text);
+  } else {
+    await interaction.reply({ content: text, ephemeral: true });
+  }
+}
+
+/**
+ * Roll an expression with the feature's RNG and share it (see `shareRoll`)
+ *
+ * @throws ValidationError if the expression cannot be rolled, or a GM roll
+ *   cannot be delivered
+ */
+async function rollAndReply(
+  interaction: RollInteraction,
+  notation: string,
+  deps: DiceFeatureDeps,
+  options: RollOptions = {}
+): Promise<void> {
+  const { visibility = 'public', character = null } = options;
+  const format = { ...options.format, character: character?.name };
+
+  const cannotRoll = (error: string) =>
+    new ValidationError(`Cannot roll that: ${error}`, {
+      hint: character
+        ? 'References read your active character, e.g. `1d20+{dex_mod}+{prof}`.'
+        : 'Try something like `2d6+3`, `4d6kh3`, `2d20kl1`, `d6!` or `4d6r<2`.',
+    });
+
+  await shareRoll(interaction, deps, visibility, () => {
+    const parsed = parseDiceExpression(notation, character?.references);
+    if (!parsed.success) {
+      throw cannotRoll(parsed.error);
+    }
+
+    const result = rollDiceExpression(parsed.value, deps.rng);
+    if (!result.success) {
+      throw cannotRoll(result.error);
+    }
+
+    const roll = result.value;
+    return {
+      text: formatRollResult(roll, format),
+      embed: formatRollEmbed(roll, {
+        ...format,
+        // "2d20kh1+5" is an advantage roll however it was asked for
+        advantage: format.advantage ?? asD20Roll(parsed.value)?.advantage,
+        modifier: expressionModifier(parsed.value),
+        rolledBy: interaction.user.displayName,
+      }),
+      receipt: formatBlindRollReceipt(roll.notation, format.label),
+      entry: {
+        characterName: character?.name ?? null,
+        expression: roll.notation,
+        breakdown: roll.breakdown,
+        dice: roll.groups,
+        total: roll.total,
+        label: format.label ?? null,
+      },
+    };
+  });
+}
+
+/**
+ * Roll a dice pool with the feature's RNG and share it (see `shareRoll`)
+ *
+ * @throws ValidationError if the pool cannot be rolled, or a GM roll cannot
+ *   be delivered
+ */
+async function rollPoolAndReply(
+  interaction: RollInteraction,
+  pool: DicePool,
+  deps: DiceFeatureDeps,
+  options: Pick<RollOptions, 'format' | 'visibility'> = {}
+): Promise<void> {
+  const { visibility = 'public' } = options;
+  const label = options.format?.label;
+
+  await shareRoll(interaction, deps, visibility, () => {
+    const result = rollDicePool(pool, deps.rng);
+    if (!result.success) {
+      throw new ValidationError(`Cannot roll that pool: ${result.error}`, {
+        hint: 'Try `count:7 target:8` (World of Darkness) or `count:12 sides:6 target:5` (Shadowrun).',
+      });
+    }
+
+    const roll = result.value;
+    return {
+      text: formatPoolResult(roll, label),
+      embed: formatPoolEmbed(pool, roll, {
+        label,
+        rolledBy: interaction.user.displayName,
+      }),
+      receipt: formatBlindRollReceipt(roll.notation, label),
+      entry: {
+        characterName: null,
+        expression: roll.notation,
+        breakdown: roll.breakdown,
+        dice: [roll.group],
+        total: roll.net,
+        label: label ?? null,
+      },
+    };
+  });
+}
+
+/**
+ * Message context menu: right-click a message > Apps > Roll this
+ */
+export const rollThisMenu = new ContextMenuCommandBuilder()
+  .setName('Roll this')
+  .setType(ApplicationCommandType.Message);
 
-  // Format the result for display
-  const formattedResult = formatRollResult(params, result);
+/**
+ * Handler for the "Roll this" context menu
+ *
+ * Rolls the first dice notation found in the target message (e.g. "2d6 + 3").
+ */
+export async function handleRollThisMenu(
+  interaction: MessageContextMenuCommandInteraction,
+  deps: DiceFeatureDeps
+): Promise<void> {
+  const found = findDiceNotation(interaction.targetMessage.content);
+
+  if (!found) {
+    throw new NotFoundError('No dice notation found in that message.', {
+      hint: 'Try something like `2d6 + 3`.',
+    });
+  }
+
+  // Same limits as /roll
+  const parseResult = diceRollSchema.safeParse(found);
+
+  if (!parseResult.success) {
+    const errors = parseResult.error.errors.map((err) => err.message).join('\n');
+
+    throw new ValidationError(`Cannot roll that:\n${errors}`);
+  }
+
+  await rollAndReply(interaction, toDiceNotation(parseResult.data), deps);
+}
+
+/**
+ * Handler for the "Roll again" button under a public roll
+ *
+ * Rolls the same expression (or pool) and label again as a new public roll by
+ * whoever clicked. `{references}` were filled in when the roll was first
+ * made, so the original values are rolled again.
+ *
+ * @param args - The roll log entry ID
+ * @throws NotFoundError if the roll is not in the roll log, or was not public
+ */
+export async function handleRollAgainButton(
+  interaction: MessageComponentInteraction,
+  args: string[],
+  deps: DiceFeatureDeps
+): Promise<void> {
+  const [entryId] = args;
+  const entry = entryId ? await deps.rollLogRepo.getById(entryId) : null;
+
+  if (!entry || entry.visibility !== 'public') {
+    throw new NotFoundError('That roll can no longer be rolled again.', {
+      hint: 'Roll it yourself with `/roll dice expression:<dice>`.',
+    });
+  }
+
+  const format = { label: entry.label ?? undefined };
+  const pool = parseDicePoolNotation(entry.expression);
+  if (pool) {
+    await rollPoolAndReply(interaction, pool, deps, { format });
+    return;
+  }
 
-  // Send the result back to Discord
-  await interaction.reply(formattedResult);
+  await rollAndReply(interaction, entry.expression, deps, { format });
 }
@@ -1,14 +1,79 @@
+import type { Container } from '../../core/container.js';
+import {
+  DICE_RNG,
+  DM_CHECK,
+  DM_LIST,
+  GUILD_SETTINGS_REPO,
+  ROLL_LOG_REPO,
+} from '../../core/tokens.js';
 import type { FeatureSlice } from '../../core/types.js';
-import { rollCommand, handleRollCommand } from './command.js';
+import {
+  rollCommand,
+  handleRollCommand,
+  rollThisMenu,
+  handleRollThisMenu,
+  handleRollAgainButton,
+} from './command.js';
+import type { DiceFeatureDeps, RollCharacterLookup } from './types.js';
 
 /**
  * Dice rolling feature slice
  *
- * Provides a /roll command that allows users to roll dice with
- * customizable sides, count, modifier, and label.
+ * Provides /roll dice, which rolls dice with customizable sides, count,
+ * modifier, and label (or a full dice expression such as "4d6kh3"), plus a
+ * "Roll this" message context menu that rolls the dice notation found in a
+ * message. /roll pool counts successes on a dice pool, /roll stats shows
+ * the exact odds of an expression and /roll history lists recorded rolls
+ * (GM and blind ones too, for DMs).
+ *
+ * Expressions can reference the roller's active character, e.g.
+ * "1d20+{dex_mod}+{prof}"; the character comes from `findCharacter`.
+ *
+ * Every roll goes through the dnd5e expression engine with the container's
+ * dice RNG and is recorded in the roll log. Rolls can be kept private, shared
+ * with the GM, or rolled blind so that only the GM sees the result.
+ *
+ * Results are shown as embeds; public ones carry a "Roll again" button
+ * (custom ID `roll:again:<roll log entry ID>`) that rolls the same
+ * expression for whoever clicks it.
+ *
+ * @param container - Container to resolve ports from
+ * @param findCharacter - Active character lookup for `{references}`
  */
-export const diceFeature: FeatureSlice = {
-  name: 'roll',
-  command: rollCommand,
-  handler: handleRollCommand,
-};
+export function createDiceFeature(
+  container: Container,
+  findCharacter: RollCharacterLookup
+): FeatureSlice {
+  const deps: DiceFeatureDeps = {
+    rng: container.resolve(DICE_RNG),
+    rollLogRepo: container.resolve(ROLL_LOG_REPO),
+    guildSettingsRepo: container.resolve(GUILD_SETTINGS_REPO),
+    listDms: container.resolve(DM_LIST),
+    isDm: container.resolve(DM_CHECK),
+    findCharacter,
+  };
+
+  return {
+    name: 'roll',
+    command: rollCommand,
+    handler: (interaction) => handleRollCommand(interaction, deps),
+    contextMenus: [
+      {
+        type: 'message',
+        command: rollThisMenu,
+        handler: (interaction) => handleRollThisMenu(interaction, deps),
+      },
+    ],
+    components: {
+      again: (interaction, args) => handleRollAgainButton(interaction, args, deps),
+    },
+    // Private, GM and blind rolls, and the history (which can list GM and
+    // blind rolls for DMs), must not show up in the channel if deferred
+    deferEphemeral: (interaction) =>
+      interaction.isChatInputCommand() &&
+      (interaction.options.getSubcommand() === 'history' ||
+        (interaction.options.getString('visibility') ?? 'public') !== 'public'),
+  };
+}
+
+export type { DiceFeatureDeps, RollCharacter, RollCharacterLookup } from './types.js';
@@ -1,4 +1,16 @@
 import { z } from 'zod';
+import { DICE_LIMITS } from '@discord-bot/dnd5e/engine';
+import { ROLL_HISTORY_MAX_COUNT, ROLL_HISTORY_PAGE_SIZE } from './service.js';
+
+/**
+ * Roll label, shared by both forms of /roll
+ */
+const labelSchema = z.string().max(50, 'Label cannot exceed 50 characters').optional();
+
+/**
+ * Who sees the roll, shared by both forms of /roll
+ */
+const visibilitySchema = z.enum(['public', 'private', 'gm', 'blind']).default('public');
 
 /**
  * Zod schema for dice roll command options
@@ -26,13 +38,92 @@ export const diceRollSchema = z.object({
     .max(1000, 'Modifier cannot be greater than 1000')
     .default(0),
 
-  label: z
-    .string()
-    .max(50, 'Label cannot exceed 50 characters')
-    .optional(),
+  advantage: z.enum(['none', 'advantage', 'disadvantage']).default('none'),
+
+  label: labelSchema,
+
+  visibility: visibilitySchema,
 });
 
 /**
  * TypeScript type derived from the schema
  */
 export type DiceRollInput = z.infer<typeof diceRollSchema>;
+
+/**
+ * Zod schema for /roll with a dice expression (e.g. "4d6kh3" or "2d6+1d4+3")
+ * The expression itself is checked by the dnd5e expression parser
+ */
+export const diceExpressionSchema = z.object({
+  expression: z
+    .string()
+    .trim()
+    .min(1, 'Expression cannot be empty')
+    .max(
+      DICE_LIMITS.maxLength,
+      `Expression cannot exceed ${DICE_LIMITS.maxLength} characters`
+    ),
+
+  label: labelSchema,
+
+  visibility: visibilitySchema,
+});
+
+export type DiceExpressionInput = z.infer<typeof diceExpressionSchema>;
+
+/**
+ * Zod schema for /roll pool options
+ * The target and again faces are checked against the sides by the dnd5e pool roller
+ */
+export const dicePoolSchema = z.object({
+  count: z
+    .number()
+    .int()
+    .min(1, 'Must roll at least 1 die')
+    .max(
+      DICE_LIMITS.maxDice,
+      `Cannot roll more than ${DICE_LIMITS.maxDice} dice at once`
+    ),
+
+  sides: z
+    .number()
+    .int()
+    .min(2, 'Die must have at least 2 sides')
+    .max(DICE_LIMITS.maxSides, `Die cannot have more than ${DICE_LIMITS.maxSides} sides`)
+    .default(10),
+
+  target: z.number().int().min(1, 'Target must be at least 1'),
+
+  subtractOnes: z.boolean().default(false),
+
+  again: z.number().int().min(2, 'Again must be at least 2').optional(),
+
+  label: labelSchema,
+
+  visibility: visibilitySchema,
+});
+
+export type DicePoolInput = z.infer<typeof dicePoolSchema>;
+
+/**
+ * Zod schema for /roll history options
+ */
+export const rollHistorySchema = z.object({
+  user: z.string().optional(),
+
+  page: z
+    .number()
+    .int()
+    .min(1, 'Page must be at least 1')
+    .max(1000, 'Page cannot be greater than 1000')
+    .default(1),
+
+  count: z
+    .number()
+    .int()
+    .min(1, 'Count must be at least 1')
+    .max(ROLL_HISTORY_MAX_COUNT, `Count cannot be greater than ${ROLL_HISTORY_MAX_COUNT}`)
+    .default(ROLL_HISTORY_PAGE_SIZE),
+});
+
+export type RollHistoryInput = z.infer<typeof rollHistorySchema>;
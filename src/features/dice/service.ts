@@ -1,84 +1,530 @@
-import type { DiceRollParams, DiceRollResult, RandomNumberGenerator } from './types.js';
+import type { AdvantageState } from '@discord-bot/dnd5e-types';
+import {
+  asD20Roll,
+  attackOdds,
+  formatHistogram,
+  formatProbability,
+  probabilityAtLeast,
+  summarizeDistribution,
+  type DiceDistribution,
+  type DiceExpression,
+  type DiceExpressionResult,
+  type DiceGroupResult,
+  type DicePool,
+  type DicePoolResult,
+  type DieResult,
+} from '@discord-bot/dnd5e/engine';
+import type { RollLogEntry, RollLogPage, RollVisibility } from '@discord-bot/persistence';
+import type { DiceRollParams, RollEmbed } from './types.js';
 
 /**
- * Default random number generator using Math.random
- * Returns a random integer between 1 and max (inclusive)
+ * Build the dice expression for /roll's sides/count/modifier options
+ *
+ * Advantage rolls a second d20 and keeps one: "2d20kh1" or "2d20kl1".
+ *
+ * Example outputs:
+ * - { sides: 20, count: 1, modifier: 5 } -> "1d20+5"
+ * - { sides: 6, count: 3, modifier: -1 } -> "3d6-1"
+ * - { sides: 20, count: 1, modifier: 2, advantage: 'advantage' } -> "2d20kh1+2"
+ *
+ * @param params - Dice roll parameters
+ * @returns Expression for the dnd5e expression engine
  */
-export const defaultRng: RandomNumberGenerator = (max: number): number => {
-  return Math.floor(Math.random() * max) + 1;
-};
+export function toDiceNotation(params: DiceRollParams): string {
+  const { sides, count, modifier, advantage = 'none' } = params;
+
+  let notation = `${count}d${sides}`;
+  if (advantage !== 'none') {
+    notation = `2d${sides}${advantage === 'advantage' ? 'kh1' : 'kl1'}`;
+  }
+
+  if (modifier > 0) {
+    notation += `+${modifier}`;
+  } else if (modifier < 0) {
+    notation += `-${Math.abs(modifier)}`;
+  }
+
+  return notation;
+}
 
 /**
- * Roll dice with the specified parameters
+ * Natural 20 or 1 of a roll made with a single d20 (e.g. "1d20+5" or "2d20kh1")
  *
- * This is pure domain logic with NO Discord.js dependencies.
- * RNG is injected for testability.
- *
- * @param params - Dice roll parameters
- * @param rng - Random number generator function (defaults to Math.random-based RNG)
- * @returns The result of the dice roll
+ * @returns The natural roll, or null if it is not a single d20 roll or neither 20 nor 1
  */
-export function rollDice(
-  params: DiceRollParams,
-  rng: RandomNumberGenerator = defaultRng
-): DiceRollResult {
-  const { sides, count, modifier, label } = params;
+export function naturalRoll(result: DiceExpressionResult): 20 | 1 | null {
+  const [group, ...others] = result.groups;
+  if (!group || others.length > 0 || group.sides !== 20) {
+    return null;
+  }
 
-  // Roll each die
-  const rolls: number[] = [];
-  for (let i = 0; i < count; i++) {
-    rolls.push(rng(sides));
+  const kept = group.dice.filter((die) => die.status === 'kept');
+  if (kept.length !== 1) {
+    return null;
   }
 
-  // Calculate totals
-  const subtotal = rolls.reduce((sum, roll) => sum + roll, 0);
-  const total = subtotal + modifier;
+  const value = kept[0]!.value;
+  return value === 20 || value === 1 ? value : null;
+}
 
-  return {
-    rolls,
-    modifier,
-    subtotal,
-    total,
-    label,
-  };
+export interface FormatRollOptions {
+  /** Optional label for the roll (e.g., "Attack Roll") */
+  label?: string;
+  /** Character whose values the roll referenced */
+  character?: string;
+  /** Tag the roll with ADV or DIS */
+  advantage?: AdvantageState;
 }
 
 /**
- * Format a dice roll result as a human-readable string
+ * Format a roll from the dnd5e expression engine as a human-readable string
  *
  * Example outputs:
- * - "1d20 + 5 = **18** (rolled: 13)"
- * - "3d6 = **12** (rolled: 4, 5, 3)"
- * - "Attack Roll: 1d20 + 2 = **15** (rolled: 13)"
+ * - "1d20+5 = **18** (1d20 [13] + 5)"
+ * - "**Strength**: 4d6kh3 = **14** (4d6kh3 [5, ~~2~~, 6, 3])"
+ * - "2d20kh1+5 (ADV) = **22** (2d20kh1 [~~8~~, 17] + 5)"
+ * - "1d20 = **20** (1d20 [20]) **NAT 20!**"
+ * - "**Thorin** (Stealth): 1d20+2 = **15** (1d20 [13] + 2 (dex_mod))"
  *
- * @param params - Original roll parameters
- * @param result - Roll result
+ * @param result - Result from the dnd5e expression engine
+ * @param options - Label, character and advantage tag
  * @returns Formatted string
  */
 export function formatRollResult(
-  params: DiceRollParams,
-  result: DiceRollResult
+  result: DiceExpressionResult,
+  options: FormatRollOptions = {}
 ): string {
-  const { sides, count, modifier } = params;
-  const { rolls, total, label } = result;
+  const { label, character, advantage = 'none' } = options;
 
-  // Build the dice notation (e.g., "1d20", "3d6")
-  const diceNotation = `${count}d${sides}`;
+  // Build the label prefix if present; a character leads it
+  let labelPrefix = label ? `**${label}**: ` : '';
+  if (character) {
+    labelPrefix = label ? `**${character}** (${label}): ` : `**${character}**: `;
+  }
 
-  // Build the modifier part (e.g., "+ 5", "- 2", or empty)
-  let modifierPart = '';
-  if (modifier > 0) {
-    modifierPart = ` + ${modifier}`;
-  } else if (modifier < 0) {
-    modifierPart = ` - ${Math.abs(modifier)}`;
+  const advantageTag =
+    advantage === 'none' ? '' : advantage === 'advantage' ? ' (ADV)' : ' (DIS)';
+
+  // Flag natural 20s and 1s on a single d20
+  const natural = naturalRoll(result);
+  const naturalFlag = natural ? ` **NAT ${natural}!**` : '';
+
+  // Assemble the full message
+  return `${labelPrefix}${result.notation}${advantageTag} = **${result.total}** (${result.breakdown})${naturalFlag}`;
+}
+
+/**
+ * Limits of a roll embed's dice list
+ */
+export const ROLL_EMBED_LIMITS = {
+  /** Dice shown per group before the rest collapse into "+N more" */
+  maxDicePerGroup: 20,
+  /** Discord's limit on the length of an embed field */
+  maxFieldLength: 1024,
+} as const;
+
+/**
+ * Embed colors: blurple, green for a natural 20, red for a natural 1
+ */
+const ROLL_EMBED_COLORS = { default: 0x5865f2, 20: 0x57f287, 1: 0xed4245 } as const;
+
+export interface RollEmbedOptions extends FormatRollOptions {
+  /** Name of whoever rolled, shown in the footer */
+  rolledBy?: string;
+  /** Flat modifier of the expression (see `expressionModifier`), shown unless 0 or null */
+  modifier?: number | null;
+}
+
+/**
+ * Format one die of an embed: the highest face is bold, a 1 underlined, and
+ * dice that do not count are struck through.
+ */
+function formatEmbedDie(die: DieResult, sides: number): string {
+  if (die.status !== 'kept') return `~~${die.value}~~`;
+
+  const face = die.exploded ? `${die.value}!` : `${die.value}`;
+  if (die.value === sides) return `**${face}**`;
+  return die.value === 1 ? `__${face}__` : face;
+}
+
+/**
+ * Format a group of an embed, collapsing dice past the limit,
+ * e.g. "40d6 [**6**, 2, ..., +20 more]"
+ */
+function formatEmbedGroup(
+  group: DiceGroupResult,
+  formatDie: (die: DieResult) => string = (die) => formatEmbedDie(die, group.sides)
+): string {
+  const { maxDicePerGroup } = ROLL_EMBED_LIMITS;
+  const dice = group.dice.slice(0, maxDicePerGroup).map(formatDie);
+
+  const hidden = group.dice.length - maxDicePerGroup;
+  if (hidden > 0) {
+    dice.push(`+${hidden} more`);
+  }
+
+  return `${group.notation} [${dice.join(', ')}]`;
+}
+
+/**
+ * List the dice of a roll one group per line, leaving out the groups that
+ * do not fit in an embed field
+ */
+function formatEmbedDice(groups: readonly DiceGroupResult[]): string {
+  const lines: string[] = [];
+  let length = 0;
+
+  for (const [index, group] of groups.entries()) {
+    const line = formatEmbedGroup(group);
+    const left = groups.length - index;
+    const rest = `+${left} more group${left === 1 ? '' : 's'}`;
+    // Leave room for the note about the groups left out
+    if (length + line.length + rest.length + 2 > ROLL_EMBED_LIMITS.maxFieldLength) {
+      lines.push(rest);
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a roll from the dnd5e expression engine as an embed
+ *
+ * Shows the label (after the character, if any), the notation, the flat
+ * modifier, the total and every die. The modifier and advantage come from
+ * the caller, which has the parsed expression.
+ *
+ * @param result - Result from the dnd5e expression engine
+ * @param options - Label, character, advantage tag, modifier and roller
+ * @returns Embed data
+ */
+export function formatRollEmbed(
+  result: DiceExpressionResult,
+  options: RollEmbedOptions = {}
+): RollEmbed {
+  const { label, character, rolledBy, advantage = 'none', modifier = null } = options;
+
+  let title = label ?? 'Roll';
+  if (character) {
+    title = label ? `${character} (${label})` : character;
+  }
+
+  const advantageTag =
+    advantage === 'none' ? '' : advantage === 'advantage' ? ' (ADV)' : ' (DIS)';
+
+  const fields: RollEmbed['fields'] = [
+    { name: 'Notation', value: `\`${result.notation}\`${advantageTag}`, inline: true },
+  ];
+  if (modifier) {
+    fields.push({
+      name: 'Modifier',
+      value: modifier > 0 ? `+${modifier}` : `${modifier}`,
+      inline: true,
+    });
   }
+  fields.push({ name: 'Total', value: `**${result.total}**`, inline: true });
+  if (result.groups.length > 0) {
+    fields.push({ name: 'Dice', value: formatEmbedDice(result.groups) });
+  }
+
+  // Flag natural 20s and 1s on a single d20
+  const natural = naturalRoll(result);
 
-  // Format the individual rolls
-  const rollsList = rolls.join(', ');
+  const embed: RollEmbed = {
+    title,
+    color: ROLL_EMBED_COLORS[natural ?? 'default'],
+    fields,
+  };
+  if (natural) {
+    embed.description = `**NAT ${natural}!**`;
+  }
+  if (rolledBy) {
+    embed.footer = { text: `Rolled by ${rolledBy}` };
+  }
+  return embed;
+}
+
+/**
+ * Format a success-counting pool roll as an embed
+ *
+ * Shows the label, the notation, the successes left after ones, the ones
+ * and every die, successes in bold. A botch is called out in red.
+ *
+ * @param pool - The pool that was rolled
+ * @param result - Result from the dnd5e pool roller
+ * @param options - Label and roller
+ * @returns Embed data
+ */
+export function formatPoolEmbed(
+  pool: DicePool,
+  result: DicePoolResult,
+  options: Pick<RollEmbedOptions, 'label' | 'rolledBy'> = {}
+): RollEmbed {
+  const { label, rolledBy } = options;
 
-  // Build the label prefix if present
+  const cancelled = result.successes - result.net;
+  const successes = cancelled > 0 ? ` (${cancelled} cancelled by ones)` : '';
+
+  const formatDie = (die: DieResult): string => {
+    const face = die.exploded ? `${die.value}!` : `${die.value}`;
+    if (die.value >= pool.target) return `**${face}**`;
+    return die.value === 1 ? `__${face}__` : face;
+  };
+
+  const embed: RollEmbed = {
+    title: label ?? 'Pool',
+    color: result.botch ? ROLL_EMBED_COLORS[1] : ROLL_EMBED_COLORS.default,
+    fields: [
+      { name: 'Notation', value: `\`${result.notation}\``, inline: true },
+      { name: 'Successes', value: `**${result.net}**${successes}`, inline: true },
+      { name: 'Ones', value: `${result.ones}`, inline: true },
+      {
+        name: 'Dice',
+        // Name the dice as the pool does, e.g. "7d10" rather than "7d10!>=10"
+        value: formatEmbedGroup(
+          { ...result.group, notation: `${pool.count}d${pool.sides}` },
+          formatDie
+        ),
+      },
+    ],
+  };
+  if (result.botch) {
+    embed.description = '**Botch!**';
+  }
+  if (rolledBy) {
+    embed.footer = { text: `Rolled by ${rolledBy}` };
+  }
+  return embed;
+}
+
+/**
+ * Format a success-counting pool roll as a human-readable string
+ *
+ * Example outputs:
+ * - "7d10>=8 = **2 successes** (7d10 [**8**, 3, **10**, 7, 1, 5, 2])"
+ * - "**Dodge**: 5d10>=6f1 = **1 success** (5d10 [**9**, 1, **6**, 4, 3]; 1 cancelled by ones)"
+ * - "3d10>=6f1 = **Botch!** (3d10 [4, 1, 2])"
+ *
+ * @param result - Result from the dnd5e pool roller
+ * @param label - Optional label for the roll
+ * @returns Formatted string
+ */
+export function formatPoolResult(result: DicePoolResult, label?: string): string {
   const labelPrefix = label ? `**${label}**: ` : '';
 
-  // Assemble the full message
-  return `${labelPrefix}${diceNotation}${modifierPart} = **${total}** (rolled: ${rollsList})`;
+  if (result.botch) {
+    return `${labelPrefix}${result.notation} = **Botch!** (${result.breakdown})`;
+  }
+
+  const successes = `${result.net} ${result.net === 1 ? 'success' : 'successes'}`;
+  const cancelled = result.successes - result.net;
+  const cancelledNote = cancelled > 0 ? `; ${cancelled} cancelled by ones` : '';
+
+  return `${labelPrefix}${result.notation} = **${successes}** (${result.breakdown}${cancelledNote})`;
+}
+
+/**
+ * Format the exact odds of an expression for /roll stats
+ *
+ * With a target, adds the chance to roll at least that; for a d20 roll plus
+ * flat bonuses the target is treated as an AC, so natural 20s always hit and
+ * natural 1s always miss.
+ *
+ * Example output:
+ * ```
+ * **Odds for 2d20kh1+7**
+ * Mean **17.82**, std dev 4.71, range 8–27
+ * To hit AC 15: **87.75%** (crit 9.75%)
+ * ```text
+ *  8-9  ▏                    0.50%
+ * ...
+ * ```
+ * ```
+ *
+ * @param expression - Parsed expression
+ * @param distribution - Its exact distribution
+ * @param target - Optional target number or AC
+ * @returns Formatted message
+ */
+export function formatRollStats(
+  expression: DiceExpression,
+  distribution: DiceDistribution,
+  target?: number
+): string {
+  const { mean, stdDev, min, max } = summarizeDistribution(distribution);
+  const lines = [
+    `**Odds for ${expression.notation}**`,
+    `Mean **${mean.toFixed(2)}**, std dev ${stdDev.toFixed(2)}, range ${min}–${max}`,
+  ];
+
+  if (target !== undefined) {
+    const d20Roll = asD20Roll(expression);
+    if (d20Roll) {
+      const { hit, crit } = attackOdds({ ...d20Roll, ac: target });
+      lines.push(
+        `To hit AC ${target}: **${formatProbability(hit)}** (crit ${formatProbability(crit)})`
+      );
+    } else {
+      const chance = probabilityAtLeast(distribution, target);
+      lines.push(`Chance of ${target} or more: **${formatProbability(chance)}**`);
+    }
+  }
+
+  lines.push('```text', formatHistogram(distribution), '```');
+  return lines.join('\n');
+}
+
+/**
+ * Format a secret roll for the GMs, naming the roller
+ *
+ * Example outputs:
+ * - "**GM roll** by <@123>: 1d20+3 = **15** (1d20 [12] + 3)"
+ * - "**Blind roll** by <@123>: **Insight**: 1d20+1 = **9** (1d20 [8] + 1)"
+ *
+ * @param rollerId - Discord user ID of the roller
+ * @param rollText - The roll as formatted by formatRollResult
+ * @param visibility - "gm" when the roller saw the result too, "blind" when not
+ */
+export function formatGmRoll(
+  rollerId: string,
+  rollText: string,
+  visibility: 'gm' | 'blind'
+): string {
+  const kind = visibility === 'gm' ? 'GM roll' : 'Blind roll';
+  return `**${kind}** by <@${rollerId}>: ${rollText}`;
+}
+
+/**
+ * Format what the roller sees after a blind roll, without the result
+ *
+ * Example: "**Stealth**: 1d20+3 rolled secretly. Only the GM sees the result."
+ */
+export function formatBlindRollReceipt(notation: string, label?: string): string {
+  const labelPrefix = label ? `**${label}**: ` : '';
+  return `${labelPrefix}${notation} rolled secretly. Only the GM sees the result.`;
+}
+
+/**
+ * Rolls per /roll history page unless `count` is given
+ */
+export const ROLL_HISTORY_PAGE_SIZE = 10;
+
+/**
+ * Most rolls one /roll history page can show
+ */
+export const ROLL_HISTORY_MAX_COUNT = 25;
+
+/**
+ * Longest history line
+ */
+const MAX_HISTORY_LINE_LENGTH = 180;
+
+/**
+ * Characters the lines of a history page share; keeps a full page within
+ * Discord's message limit, so longer pages get shorter lines
+ */
+const HISTORY_LINES_LENGTH = 1800;
+
+/**
+ * Tags of the secret rolls DMs see in the history
+ */
+const VISIBILITY_TAGS: Record<RollVisibility, string> = {
+  public: '',
+  private: ' *(private)*',
+  gm: ' *(GM)*',
+  blind: ' *(blind)*',
+};
+
+/**
+ * Format one roll log entry as a single line.
+ *
+ * Example: "<t:1705312800:f> <@123> (Thorin) **Attack**: 1d20+5 = **18** (1d20 [13] + 5)"
+ *
+ * @param maxLength - Longest line; longer ones are cut short with "..."
+ */
+export function formatRollLogEntry(
+  entry: RollLogEntry,
+  maxLength: number = MAX_HISTORY_LINE_LENGTH
+): string {
+  const seconds = Math.floor(Date.parse(entry.createdAt) / 1000);
+  const tag = VISIBILITY_TAGS[entry.visibility];
+  const character = entry.characterName ? ` (${entry.characterName})` : '';
+  const label = entry.label ? ` **${entry.label}**:` : '';
+
+  const line = `<t:${seconds}:f> <@${entry.discordUserId}>${tag}${character}${label} ${entry.expression} = **${entry.total}** (${entry.breakdown})`;
+  return line.length > maxLength ? `${line.slice(0, maxLength - 3)}...` : line;
+}
+
+/**
+ * Format a page of the roll log for /roll history.
+ *
+ * @param page - Entries of the page and the total number of matching rolls
+ * @param pageNumber - 1-based page number
+ * @param scope - Where the rolls come from, e.g. "in <#123>" or "by <@456>"
+ * @param pageSize - Rolls per page
+ */
+export function formatRollHistory(
+  page: RollLogPage,
+  pageNumber: number,
+  scope: string,
+  pageSize: number = ROLL_HISTORY_PAGE_SIZE
+): string {
+  const pageCount = Math.ceil(page.total / pageSize);
+
+  if (page.total === 0) {
+    return `No rolls ${scope} yet.`;
+  }
+  if (page.entries.length === 0) {
+    return `There is no page ${pageNumber}; rolls ${scope} fill ${pageCount} page${pageCount === 1 ? '' : 's'}.`;
+  }
+
+  const maxLength = Math.min(
+    MAX_HISTORY_LINE_LENGTH,
+    Math.floor(HISTORY_LINES_LENGTH / pageSize)
+  );
+  const lines = [
+    `**Rolls ${scope}** (page ${pageNumber} of ${pageCount}, newest first)`,
+    ...page.entries.map((entry) => formatRollLogEntry(entry, maxLength)),
+  ];
+  if (pageNumber < pageCount) {
+    const count = pageSize === ROLL_HISTORY_PAGE_SIZE ? '' : ` count:${pageSize}`;
+    lines.push(`Use \`page:${pageNumber + 1}${count}\` for older rolls.`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Dice notation such as "d20", "2d6", "1d8 + 3" or "4d6-1"
+ * Not part of a longer word, so "add6" or "2d6x" do not match.
+ */
+const DICE_NOTATION_PATTERN = /(?<![\w])(\d*)d(\d+)(?:\s*([+-])\s*(\d+))?(?![\w])/i;
+
+/**
+ * Find the first dice notation in free text (e.g. a chat message)
+ *
+ * Numbers are returned as written; callers validate them with the schema.
+ *
+ * Example: "I attack with 1d8 + 3 damage" -> { count: 1, sides: 8, modifier: 3 }
+ *
+ * @param text - Text to search
+ * @returns Roll parameters, or null if the text contains no dice notation
+ */
+export function findDiceNotation(text: string): DiceRollParams | null {
+  const match = DICE_NOTATION_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [, count, sides, sign, modifier] = match;
+  const modifierValue = modifier ? parseInt(modifier, 10) : 0;
+
+  return {
+    count: count ? parseInt(count, 10) : 1,
+    sides: parseInt(sides!, 10),
+    modifier: sign === '-' ? -modifierValue : modifierValue,
+  };
 }
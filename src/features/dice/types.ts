@@ -1,3 +1,8 @@
+import type { AdvantageState } from '@discord-bot/dnd5e-types';
+import type { RNG } from '@discord-bot/dnd5e/engine';
+import type { GuildSettingsRepo, RollLogRepo } from '@discord-bot/persistence';
+import type { DmCheckFn, DmListFn } from '../../core/dmCheck.js';
+
 /**
  * Parameters for rolling dice
  */
@@ -17,6 +22,12 @@ export interface DiceRollParams {
    */
   modifier: number;
 
+  /**
+   * Roll a second d20 and keep the higher (advantage) or lower (disadvantage)
+   * Only valid for a single d20
+   */
+  advantage?: AdvantageState;
+
   /**
    * Optional label for the roll (e.g., "Attack Roll", "Damage")
    */
@@ -24,37 +35,66 @@ export interface DiceRollParams {
 }
 
 /**
- * Result of a dice roll operation
+ * A roll rendered as an embed, in the shape Discord's embeds take
+ */
+export interface RollEmbed {
+  title: string;
+  /** Flags such as a natural 20 */
+  description?: string;
+  color: number;
+  fields: { name: string; value: string; inline?: boolean }[];
+  footer?: { text: string };
+}
+
+/**
+ * The active character whose values a /roll expression references, e.g.
+ * "1d20+{dex_mod}"
+ */
+export interface RollCharacter {
+  name: string;
+  /** Values keyed by lowercase reference name, e.g. "dex_mod" or "hp.max" */
+  references: Record<string, number>;
+}
+
+/**
+ * Finds a user's active character in a guild, null if none is set
  */
-export interface DiceRollResult {
+export type RollCharacterLookup = (
+  discordUserId: string,
+  guildId: string
+) => Promise<RollCharacter | null>;
+
+/**
+ * Dependencies of the dice feature
+ */
+export interface DiceFeatureDeps {
   /**
-   * Individual die results
+   * Random number source for every roll (seeded or mocked in tests)
    */
-  rolls: number[];
+  rng: RNG;
 
   /**
-   * Modifier applied
+   * Where every roll is recorded, for /roll history
    */
-  modifier: number;
+  rollLogRepo: RollLogRepo;
 
   /**
-   * Sum of all rolls (before modifier)
+   * Guild settings, for the channel GM rolls are posted in
    */
-  subtotal: number;
+  guildSettingsRepo: GuildSettingsRepo;
 
   /**
-   * Final total (subtotal + modifier)
+   * Lists the DMs that GM rolls are sent to by direct message
    */
-  total: number;
+  listDms: DmListFn;
 
   /**
-   * Optional label
+   * Whether a user is a DM, who also sees GM and blind rolls in /roll history
    */
-  label?: string;
-}
+  isDm: DmCheckFn;
 
-/**
- * Random number generator function signature
- * Returns a random integer between 1 and max (inclusive)
- */
-export type RandomNumberGenerator = (max: number) => number;
+  /**
+   * Resolves `{references}` in expressions to the roller's active character
+   */
+  findCharacter: RollCharacterLookup;
+}
@@ -0,0 +1,35 @@
+/**
+ * All feature slices of the bot.
+ *
+ * `createApp` registers these into its feature registry. Keeping the list here
+ * (free of environment and Discord client setup) lets tests build the same
+ * registry from a container with in-memory repositories.
+ */
+
+import type { Container } from '../core/container.js';
+import type { FeatureSlice } from '../core/types.js';
+import { createDiceFeature } from './dice/index.js';
+import {
+  createCharFeature,
+  createCharacterReferenceLookup,
+  createMacroFeature,
+} from './char/index.js';
+import { createAuditFeature } from './audit/index.js';
+import { createSettingsFeature } from './settings/index.js';
+
+/**
+ * Create every feature slice, resolving dependencies from the container.
+ */
+export function createFeatures(container: Container): FeatureSlice[] {
+  const features = [
+    // /roll expressions like "1d20+{dex_mod}" read the active character
+    createDiceFeature(container, createCharacterReferenceLookup(container)),
+    createCharFeature(container),
+    createMacroFeature(container),
+    createAuditFeature(container),
+  ];
+
+  // Guild admins can toggle every feature except settings itself
+  const toggleable = features.map((feature) => feature.name);
+  return [...features, createSettingsFeature(container, toggleable)];
+}
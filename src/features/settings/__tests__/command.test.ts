@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PermissionFlagsBits } from 'discord.js';
+import { createSimulator, type Simulator } from '../../../testing/index.js';
+
+const admin = { userId: 'admin-1', permissions: PermissionFlagsBits.ManageGuild };
+
+describe('/settings features (end-to-end)', () => {
+  let sim: Simulator;
+
+  beforeEach(async () => {
+    sim = await createSimulator();
+  });
+
+  afterEach(async () => {
+    await sim.close();
+  });
+
+  it('should list every toggleable feature as enabled by default', async () => {
+    const { responses } = await sim.run('/settings features', admin);
+
+    expect(responses[0]).toMatchObject({ kind: 'reply', ephemeral: true });
+    expect(responses[0]?.content).toContain('- `roll`: enabled');
+    expect(responses[0]?.content).toContain('- `char`: enabled');
+    expect(responses[0]?.content).not.toContain('`settings`');
+  });
+
+  it('should disable a feature for the server only', async () => {
+    const toggle = await sim.run('/settings features feature:char enabled:false', admin);
+    expect(toggle.lastContent).toBe('The `char` feature is now disabled in this server.');
+
+    const disabled = await sim.run('/char show');
+    expect(disabled.lastContent).toBe('The "char" feature is disabled in this server.');
+
+    const otherGuild = await sim.run('/char show', { guildId: 'guild-2' });
+    expect(otherGuild.lastEmbed?.description).toContain('No active character set.');
+
+    const roll = await sim.run('/roll dice sides:6');
+    expect(roll.lastEmbed?.fields?.[0]?.value).toBe('`1d6`');
+  });
+
+  it('should re-enable a feature', async () => {
+    await sim.run('/settings features feature:roll enabled:false', admin);
+
+    const toggle = await sim.run('/settings features feature:roll enabled:true', admin);
+    const roll = await sim.run('/roll dice sides:6');
+
+    expect(toggle.lastContent).toBe('The `roll` feature is now enabled in this server.');
+    expect(roll.lastEmbed?.fields?.[0]?.value).toBe('`1d6`');
+  });
+
+  it('should report when nothing changes', async () => {
+    const { lastContent } = await sim.run(
+      '/settings features feature:roll enabled:true',
+      admin
+    );
+
+    expect(lastContent).toBe('The `roll` feature is already enabled in this server.');
+  });
+
+  it('should ask for a feature when only enabled is given', async () => {
+    const { lastEmbed } = await sim.run('/settings features enabled:false', admin);
+
+    expect(lastEmbed?.description).toBe('Choose a `feature` to enable or disable.');
+  });
+
+  it('should require the Manage Server permission', async () => {
+    const { lastEmbed } = await sim.run('/settings features feature:roll enabled:false');
+
+    expect(lastEmbed?.description).toBe(
+      'You need the Manage Server permission to use this.'
+    );
+  });
+});
+
+describe('/settings gm-channel (end-to-end)', () => {
+  let sim: Simulator;
+
+  beforeEach(async () => {
+    sim = await createSimulator();
+  });
+
+  afterEach(async () => {
+    await sim.close();
+  });
+
+  it('should set and clear the GM channel', async () => {
+    const set = await sim.run('/settings gm-channel channel:<#555>', admin);
+    const cleared = await sim.run('/settings gm-channel', admin);
+
+    expect(set.responses[0]).toMatchObject({ kind: 'reply', ephemeral: true });
+    expect(set.lastContent).toBe('GM rolls are now posted in <#555>.');
+    expect(cleared.lastContent).toBe(
+      'GM rolls are now sent to each DM by direct message.'
+    );
+  });
+});
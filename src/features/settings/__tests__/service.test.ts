@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { formatFeatureList, formatToggleResult } from '../service.js';
+
+describe('formatFeatureList', () => {
+  it('should show each feature with its state', () => {
+    const content = formatFeatureList(['roll', 'char'], {
+      guildId: 'guild-1',
+      disabledFeatures: ['char'],
+      gmChannelId: null,
+      updatedAt: '2024-01-15T10:00:00.000Z',
+    });
+
+    expect(content).toContain('- `roll`: enabled\n- `char`: disabled');
+  });
+});
+
+describe('formatToggleResult', () => {
+  it('should confirm changes', () => {
+    expect(formatToggleResult('roll', false, true)).toBe(
+      'The `roll` feature is now disabled in this server.'
+    );
+  });
+
+  it('should say when the feature was already in that state', () => {
+    expect(formatToggleResult('roll', true, false)).toBe(
+      'The `roll` feature is already enabled in this server.'
+    );
+  });
+});
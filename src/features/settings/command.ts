@@ -0,0 +1,135 @@
+import { ChannelType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import type { ChatInputCommandInteraction } from 'discord.js';
+import { NotFoundError, ValidationError } from '../../core/errors.js';
+import { getGuildId } from '../../core/middleware.js';
+import {
+  formatFeatureList,
+  formatGmChannelResult,
+  formatToggleResult,
+} from './service.js';
+import type { SettingsFeatureDeps } from './types.js';
+
+/**
+ * Build the /settings command definition.
+ *
+ * @param toggleableFeatures - Feature names offered as choices
+ */
+export function createSettingsCommand(toggleableFeatures: readonly string[]) {
+  return new SlashCommandBuilder()
+    .setName('settings')
+    .setDescription('Configure the bot for this server')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addSubcommand((sub) =>
+      sub
+        .setName('features')
+        .setDescription('Show, enable or disable features in this server')
+        .addStringOption((option) =>
+          option
+            .setName('feature')
+            .setDescription('Feature to enable or disable')
+            .addChoices(
+              ...toggleableFeatures.map((feature) => ({ name: feature, value: feature }))
+            )
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName('enabled')
+            .setDescription('Whether the feature is available in this server')
+        )
+    )
+    .addSubcommand((sub) =>
+      sub
+        .setName('gm-channel')
+        .setDescription('Post GM rolls in a channel instead of sending them to each DM')
+        .addChannelOption((option) =>
+          option
+            .setName('channel')
+            .setDescription('Channel for GM rolls; leave out to send them by DM again')
+            .addChannelTypes(ChannelType.GuildText)
+        )
+    );
+}
+
+/**
+ * Handler for the /settings command
+ */
+export async function handleSettingsCommand(
+  interaction: ChatInputCommandInteraction,
+  deps: SettingsFeatureDeps
+): Promise<void> {
+  const subcommand = interaction.options.getSubcommand();
+
+  switch (subcommand) {
+    case 'features':
+      await handleFeatures(interaction, deps);
+      break;
+    case 'gm-channel':
+      await handleGmChannel(interaction, deps);
+      break;
+    default:
+      throw new ValidationError(`Unknown subcommand: ${subcommand}`);
+  }
+}
+
+/**
+ * Handler for /settings features
+ */
+async function handleFeatures(
+  interaction: ChatInputCommandInteraction,
+  deps: SettingsFeatureDeps
+): Promise<void> {
+  const guildId = getGuildId(interaction);
+  const feature = interaction.options.getString('feature');
+  const enabled = interaction.options.getBoolean('enabled');
+  const settings = await deps.guildSettingsRepo.getSettings(guildId);
+
+  if (feature === null || enabled === null) {
+    if (feature === null && enabled !== null) {
+      throw new ValidationError('Choose a `feature` to enable or disable.');
+    }
+
+    // Without both options, show the current state
+    const features = feature === null ? deps.toggleableFeatures : [feature];
+    await interaction.reply({
+      content: formatFeatureList(features, settings),
+      ephemeral: true,
+    });
+    return;
+  }
+
+  if (!deps.toggleableFeatures.includes(feature)) {
+    throw new NotFoundError(`Unknown feature "${feature}".`, {
+      hint: `Available: ${deps.toggleableFeatures.join(', ')}`,
+    });
+  }
+
+  const changed = settings.disabledFeatures.includes(feature) === enabled;
+  if (changed) {
+    await deps.guildSettingsRepo.setFeatureEnabled({ guildId, feature, enabled });
+  }
+
+  await interaction.reply({
+    content: formatToggleResult(feature, enabled, changed),
+    ephemeral: true,
+  });
+}
+
+/**
+ * Handler for /settings gm-channel
+ */
+async function handleGmChannel(
+  interaction: ChatInputCommandInteraction,
+  deps: SettingsFeatureDeps
+): Promise<void> {
+  const channelId = interaction.options.getChannel('channel')?.id ?? null;
+
+  await deps.guildSettingsRepo.setGmChannel({
+    guildId: getGuildId(interaction),
+    channelId,
+  });
+
+  await interaction.reply({
+    content: formatGmChannelResult(channelId),
+    ephemeral: true,
+  });
+}
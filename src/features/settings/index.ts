@@ -0,0 +1,46 @@
+/**
+ * Server settings feature slice.
+ *
+ * Provides /settings for members with the Manage Server permission:
+ * - /settings features - Show, enable or disable feature slices in the server
+ * - /settings gm-channel - Choose where GM rolls (/roll dice visibility:gm) go
+ *
+ * The settings feature itself cannot be disabled.
+ */
+
+import { PermissionFlagsBits } from 'discord.js';
+import type { Container } from '../../core/container.js';
+import { GUILD_SETTINGS_REPO } from '../../core/tokens.js';
+import type { FeatureSlice } from '../../core/types.js';
+import { guildOnly, requirePermission } from '../../core/middleware.js';
+import { createSettingsCommand, handleSettingsCommand } from './command.js';
+import type { SettingsFeatureDeps } from './types.js';
+
+/**
+ * Create the settings feature slice.
+ *
+ * @param container - Container to resolve ports from
+ * @param toggleableFeatures - Names of the other feature slices
+ */
+export function createSettingsFeature(
+  container: Container,
+  toggleableFeatures: readonly string[]
+): FeatureSlice {
+  const deps: SettingsFeatureDeps = {
+    guildSettingsRepo: container.resolve(GUILD_SETTINGS_REPO),
+    toggleableFeatures,
+  };
+
+  return {
+    name: 'settings',
+    command: createSettingsCommand(toggleableFeatures),
+    handler: (interaction) => handleSettingsCommand(interaction, deps),
+    middlewares: [
+      guildOnly(),
+      requirePermission(PermissionFlagsBits.ManageGuild, 'Manage Server'),
+    ],
+    deferEphemeral: true,
+  };
+}
+
+export type { SettingsFeatureDeps } from './types.js';
@@ -0,0 +1,49 @@
+import type { GuildSettings } from '@discord-bot/persistence';
+
+/**
+ * Format which features are enabled in a guild.
+ *
+ * @param features - Names of the toggleable features
+ * @param settings - The guild's settings
+ */
+export function formatFeatureList(
+  features: readonly string[],
+  settings: GuildSettings
+): string {
+  const lines = features.map((feature) => {
+    const enabled = !settings.disabledFeatures.includes(feature);
+    return `- \`${feature}\`: ${enabled ? 'enabled' : 'disabled'}`;
+  });
+
+  return [
+    '**Features in this server**',
+    ...lines,
+    '',
+    'Use `/settings features feature:<name> enabled:<true|false>` to change one.',
+  ].join('\n');
+}
+
+/**
+ * Format the confirmation for a feature toggle.
+ */
+export function formatToggleResult(
+  feature: string,
+  enabled: boolean,
+  changed: boolean
+): string {
+  const state = enabled ? 'enabled' : 'disabled';
+  return changed
+    ? `The \`${feature}\` feature is now ${state} in this server.`
+    : `The \`${feature}\` feature is already ${state} in this server.`;
+}
+
+/**
+ * Format the confirmation for a GM channel change.
+ *
+ * @param channelId - The new GM channel, null when GM rolls go out by DM
+ */
+export function formatGmChannelResult(channelId: string | null): string {
+  return channelId
+    ? `GM rolls are now posted in <#${channelId}>.`
+    : 'GM rolls are now sent to each DM by direct message.';
+}
@@ -0,0 +1,10 @@
+import type { GuildSettingsRepo } from '@discord-bot/persistence';
+
+/**
+ * Ports the settings feature depends on
+ */
+export interface SettingsFeatureDeps {
+  guildSettingsRepo: GuildSettingsRepo;
+  /** Names of the feature slices guild admins may toggle */
+  toggleableFeatures: readonly string[];
+}
@@ -1,35 +1,47 @@
 import { createApp } from './app.js';
 import { env } from './core/env.js';
+import { createShutdown } from './core/shutdown.js';
 
 /**
  * Main entry point for the Discord bot
  *
  * This file:
  * 1. Creates the application context
- * 2. Logs in to Discord
+ * 2. Logs in to Discord (or serves the HTTP interactions endpoint)
  * 3. Handles graceful shutdown
  */
 async function main(): Promise<void> {
   try {
     // Create and configure the app
-    const { client, logger } = await createApp();
+    const { client, logger, router, dbClient, httpServer } = await createApp();
 
-    // Login to Discord
-    logger.info('Logging in to Discord...');
-    await client.login(env.DISCORD_TOKEN);
+    if (httpServer) {
+      // Serve the interactions endpoint; no gateway connection needed
+      client.rest.setToken(env.DISCORD_TOKEN);
+      httpServer.listen(env.HTTP_PORT, () => {
+        logger.info(`Serving interactions on port ${env.HTTP_PORT}`);
+      });
+    } else {
+      // Login to Discord
+      logger.info('Logging in to Discord...');
+      await client.login(env.DISCORD_TOKEN);
+    }
 
-    // Handle graceful shutdown
-    process.on('SIGINT', async () => {
-      logger.info('Received SIGINT, shutting down gracefully...');
-      client.destroy();
-      process.exit(0);
+    // Handle graceful shutdown: drain in-flight interactions, then close everything
+    const shutdown = createShutdown({
+      router,
+      client,
+      dbClient,
+      httpServer,
+      logger,
+      timeoutMs: env.SHUTDOWN_TIMEOUT_MS,
     });
 
-    process.on('SIGTERM', async () => {
-      logger.info('Received SIGTERM, shutting down gracefully...');
-      client.destroy();
-      process.exit(0);
-    });
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, async () => {
+        process.exit(await shutdown(signal));
+      });
+    }
   } catch (error) {
     console.error('Failed to start bot:', error);
     process.exit(1);
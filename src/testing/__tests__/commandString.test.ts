@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { ApplicationCommandOptionType, SlashCommandBuilder } from 'discord.js';
+import { parseCommandString } from '../commandString.js';
+
+const rollCommand = new SlashCommandBuilder()
+  .setName('roll')
+  .setDescription('Roll')
+  .addIntegerOption((o) => o.setName('sides').setDescription('Sides').setMinValue(2))
+  .addIntegerOption((o) => o.setName('count').setDescription('Count').setMaxValue(50))
+  .addStringOption((o) => o.setName('label').setDescription('Label').setMaxLength(10))
+  .addBooleanOption((o) => o.setName('secret').setDescription('Secret'))
+  .addUserOption((o) => o.setName('target').setDescription('Target'))
+  .addChannelOption((o) => o.setName('channel').setDescription('Channel'))
+  .toJSON();
+
+const charCommand = new SlashCommandBuilder()
+  .setName('char')
+  .setDescription('Char')
+  .addSubcommand((sub) =>
+    sub
+      .setName('set')
+      .setDescription('Set')
+      .addStringOption((o) => o.setName('name').setDescription('Name').setRequired(true))
+      .addStringOption((o) =>
+        o.setName('attributes').setDescription('Attributes').setRequired(true)
+      )
+  )
+  .addSubcommand((sub) =>
+    sub
+      .setName('show')
+      .setDescription('Show')
+      .addStringOption((o) =>
+        o
+          .setName('view')
+          .setDescription('View')
+          .addChoices({ name: 'Stats', value: 'stats' }, { name: 'HP', value: 'hp' })
+      )
+  )
+  .toJSON();
+
+describe('parseCommandString', () => {
+  it('should coerce option values by type', () => {
+    const parsed = parseCommandString('/roll sides:6 count:2 secret:true', rollCommand);
+
+    expect(parsed.commandName).toBe('roll');
+    expect(parsed.subcommand).toBeNull();
+    expect(Object.fromEntries([...parsed.options].map(([k, v]) => [k, v.value]))).toEqual(
+      {
+        sides: 6,
+        count: 2,
+        secret: true,
+      }
+    );
+  });
+
+  it('should accept user mentions and IDs for user options', () => {
+    expect(
+      parseCommandString('/roll target:<@!123>', rollCommand).options.get('target')
+    ).toEqual({ type: ApplicationCommandOptionType.User, value: '123' });
+    expect(
+      parseCommandString('/roll target:456', rollCommand).options.get('target')?.value
+    ).toBe('456');
+    expect(() => parseCommandString('/roll target:@someone else', rollCommand)).toThrow(
+      'Option "target" must be a user mention or ID'
+    );
+  });
+
+  it('should accept channel mentions and IDs for channel options', () => {
+    expect(
+      parseCommandString('/roll channel:<#789>', rollCommand).options.get('channel')
+    ).toEqual({ type: ApplicationCommandOptionType.Channel, value: '789' });
+    expect(() => parseCommandString('/roll channel:#general', rollCommand)).toThrow(
+      'Option "channel" must be a channel mention or ID'
+    );
+  });
+
+  it('should resolve subcommands', () => {
+    const parsed = parseCommandString('/char show view:stats', charCommand);
+
+    expect(parsed.subcommand).toBe('show');
+    expect(parsed.options.get('view')?.value).toBe('stats');
+  });
+
+  it('should keep spaces, braces and quotes inside values', () => {
+    const parsed = parseCommandString(
+      '/char set name:Bob the Bold attributes:{class:"Wizard Lord", name:"x"}',
+      charCommand
+    );
+
+    expect(parsed.options.get('name')?.value).toBe('Bob the Bold');
+    expect(parsed.options.get('attributes')?.value).toBe(
+      '{class:"Wizard Lord", name:"x"}'
+    );
+  });
+
+  it('should reject unknown options', () => {
+    expect(() => parseCommandString('/roll dice:6', rollCommand)).toThrow(
+      'Unknown option "dice". Valid options: sides, count, label, secret'
+    );
+  });
+
+  it('should reject missing required options', () => {
+    expect(() => parseCommandString('/char set name:Bob', charCommand)).toThrow(
+      'Missing required option "attributes"'
+    );
+  });
+
+  it('should reject missing or unknown subcommands', () => {
+    expect(() => parseCommandString('/char', charCommand)).toThrow(
+      'Expected one of: set, show after "/char"'
+    );
+    expect(() => parseCommandString('/char delete', charCommand)).toThrow(
+      'Expected one of: set, show'
+    );
+  });
+
+  it('should enforce limits and choices like the Discord client', () => {
+    expect(() => parseCommandString('/roll sides:1', rollCommand)).toThrow(
+      'Option "sides" must be at least 2'
+    );
+    expect(() => parseCommandString('/roll count:51', rollCommand)).toThrow(
+      'Option "count" must be at most 50'
+    );
+    expect(() =>
+      parseCommandString('/roll label:far too long label', rollCommand)
+    ).toThrow('Option "label" must be at most 10 characters');
+    expect(() => parseCommandString('/char show view:inventory', charCommand)).toThrow(
+      'Option "view" must be one of: stats, hp'
+    );
+  });
+
+  it('should reject values of the wrong type', () => {
+    expect(() => parseCommandString('/roll sides:six', rollCommand)).toThrow(
+      'Option "sides" must be an integer'
+    );
+    expect(() => parseCommandString('/roll secret:yes', rollCommand)).toThrow(
+      'Option "secret" must be true or false'
+    );
+  });
+
+  it('should reject a command string for a different command', () => {
+    expect(() => parseCommandString('/char show', rollCommand)).toThrow(
+      'Command "/char" does not match "/roll"'
+    );
+  });
+});
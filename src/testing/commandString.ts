@@ -0,0 +1,245 @@
+/**
+ * Parse slash command strings as typed in the Discord client.
+ *
+ * Turns `/char set name:Bob attributes:{str:16}` into the command name,
+ * subcommand and typed option values, using the registered command definition
+ * to tell subcommands from options and to coerce values. Validation mirrors
+ * what the Discord client enforces before an interaction is ever sent
+ * (required options, choices, min/max), so tests fail loudly on typos.
+ */
+
+import { ApplicationCommandOptionType } from 'discord.js';
+import type {
+  APIApplicationCommandOption,
+  RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord.js';
+
+/**
+ * Option value types supported by the simulator
+ */
+export type SimulatedOptionValue = string | number | boolean;
+
+/**
+ * A parsed option with its Discord option type
+ */
+export interface ParsedOption {
+  type: ApplicationCommandOptionType;
+  value: SimulatedOptionValue;
+}
+
+/**
+ * A slash command string resolved against its command definition
+ */
+export interface ParsedCommandString {
+  commandName: string;
+  subcommandGroup: string | null;
+  subcommand: string | null;
+  options: Map<string, ParsedOption>;
+}
+
+const OPTION_NAME_PATTERN = /^([\w-]+):/;
+
+/**
+ * Options that carry a value (as opposed to subcommands and groups)
+ */
+type ValueOption = Exclude<
+  APIApplicationCommandOption,
+  {
+    type:
+      | ApplicationCommandOptionType.Subcommand
+      | ApplicationCommandOptionType.SubcommandGroup;
+  }
+>;
+
+/**
+ * Split the option part of a command string into raw name/value pairs.
+ *
+ * A value runs until the next ` <known option>:` outside of braces, brackets
+ * and double quotes, so values may contain spaces, e.g. `label:Attack Roll`
+ * or `attributes:{class:"Fighter", name:"x"}`.
+ */
+function splitOptions(input: string, knownNames: Set<string>): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  let rest = input.trim();
+
+  while (rest.length > 0) {
+    const nameMatch = OPTION_NAME_PATTERN.exec(rest);
+    if (!nameMatch) {
+      throw new Error(`Expected "<option>:<value>" but found "${rest}"`);
+    }
+
+    const name = nameMatch[1]!;
+    let depth = 0;
+    let inQuotes = false;
+    let end = nameMatch[0].length;
+
+    for (; end < rest.length; end++) {
+      const char = rest[end]!;
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && (char === '{' || char === '[')) {
+        depth++;
+      } else if (!inQuotes && (char === '}' || char === ']')) {
+        depth--;
+      } else if (!inQuotes && depth <= 0 && /\s/.test(char)) {
+        const next = OPTION_NAME_PATTERN.exec(rest.slice(end).trimStart());
+        if (next && knownNames.has(next[1]!)) {
+          break;
+        }
+      }
+    }
+
+    pairs.push([name, rest.slice(nameMatch[0].length, end).trim()]);
+    rest = rest.slice(end).trim();
+  }
+
+  return pairs;
+}
+
+/**
+ * Convert a raw option value to its typed value, enforcing Discord's limits.
+ */
+function coerceOption(option: ValueOption, raw: string): SimulatedOptionValue {
+  const { name } = option;
+
+  switch (option.type) {
+    case ApplicationCommandOptionType.String: {
+      if (option.min_length !== undefined && raw.length < option.min_length) {
+        throw new Error(
+          `Option "${name}" must be at least ${option.min_length} characters`
+        );
+      }
+      if (option.max_length !== undefined && raw.length > option.max_length) {
+        throw new Error(
+          `Option "${name}" must be at most ${option.max_length} characters`
+        );
+      }
+      if (option.choices && !option.choices.some((choice) => choice.value === raw)) {
+        const valid = option.choices.map((choice) => choice.value).join(', ');
+        throw new Error(`Option "${name}" must be one of: ${valid}`);
+      }
+      return raw;
+    }
+
+    case ApplicationCommandOptionType.Integer:
+    case ApplicationCommandOptionType.Number: {
+      const isInteger = option.type === ApplicationCommandOptionType.Integer;
+      const pattern = isInteger ? /^-?\d+$/ : /^-?\d+(\.\d+)?$/;
+      if (!pattern.test(raw)) {
+        throw new Error(
+          `Option "${name}" must be ${isInteger ? 'an integer' : 'a number'}`
+        );
+      }
+      const value = Number(raw);
+      if (option.min_value !== undefined && value < option.min_value) {
+        throw new Error(`Option "${name}" must be at least ${option.min_value}`);
+      }
+      if (option.max_value !== undefined && value > option.max_value) {
+        throw new Error(`Option "${name}" must be at most ${option.max_value}`);
+      }
+      if (option.choices && !option.choices.some((choice) => choice.value === value)) {
+        const valid = option.choices.map((choice) => choice.value).join(', ');
+        throw new Error(`Option "${name}" must be one of: ${valid}`);
+      }
+      return value;
+    }
+
+    case ApplicationCommandOptionType.User: {
+      // A mention as typed in the client, or a bare user ID
+      const userId = /^<@!?(\d+)>$/.exec(raw)?.[1] ?? raw;
+      if (!/^[\w-]+$/.test(userId)) {
+        throw new Error(`Option "${name}" must be a user mention or ID`);
+      }
+      return userId;
+    }
+
+    case ApplicationCommandOptionType.Channel: {
+      // A channel mention as typed in the client, or a bare channel ID
+      const channelId = /^<#(\d+)>$/.exec(raw)?.[1] ?? raw;
+      if (!/^[\w-]+$/.test(channelId)) {
+        throw new Error(`Option "${name}" must be a channel mention or ID`);
+      }
+      return channelId;
+    }
+
+    case ApplicationCommandOptionType.Boolean:
+      if (raw !== 'true' && raw !== 'false') {
+        throw new Error(`Option "${name}" must be true or false`);
+      }
+      return raw === 'true';
+
+    default:
+      throw new Error(`Option "${name}" has a type the simulator does not support`);
+  }
+}
+
+/**
+ * Parse a slash command string against its command definition.
+ *
+ * @param input - Command as typed, e.g. `/roll sides:6 count:2`
+ * @param command - Command definition (`builder.toJSON()`)
+ * @throws Error describing what Discord would have rejected
+ */
+export function parseCommandString(
+  input: string,
+  command: RESTPostAPIApplicationCommandsJSONBody
+): ParsedCommandString {
+  const match = /^\/(\S+)\s*(.*)$/s.exec(input.trim());
+  if (!match) {
+    throw new Error(`Command must start with "/": ${input}`);
+  }
+
+  const commandName = match[1]!;
+  const afterName = match[2]!;
+  if (commandName !== command.name) {
+    throw new Error(`Command "/${commandName}" does not match "/${command.name}"`);
+  }
+
+  let options: APIApplicationCommandOption[] = command.options ?? [];
+  let rest = afterName;
+
+  const takeWord = (type: ApplicationCommandOptionType): string | null => {
+    const candidates = options.filter((option) => option.type === type);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const word = /^(\S+)/.exec(rest)?.[1] ?? '';
+    const selected = candidates.find((option) => option.name === word);
+    if (!selected || !('options' in selected)) {
+      const valid = candidates.map((option) => option.name).join(', ');
+      throw new Error(`Expected one of: ${valid} after "/${commandName}"`);
+    }
+
+    options = selected.options ?? [];
+    rest = rest.slice(word.length).trim();
+    return word;
+  };
+
+  const subcommandGroup = takeWord(ApplicationCommandOptionType.SubcommandGroup);
+  const subcommand = takeWord(ApplicationCommandOptionType.Subcommand);
+
+  const valueOptions = options as ValueOption[];
+  const byName = new Map(valueOptions.map((option) => [option.name, option]));
+  const parsed = new Map<string, ParsedOption>();
+
+  for (const [name, raw] of splitOptions(rest, new Set(byName.keys()))) {
+    const option = byName.get(name);
+    if (!option) {
+      const valid = [...byName.keys()].join(', ') || '(none)';
+      throw new Error(`Unknown option "${name}". Valid options: ${valid}`);
+    }
+    if (parsed.has(name)) {
+      throw new Error(`Option "${name}" was given more than once`);
+    }
+    parsed.set(name, { type: option.type, value: coerceOption(option, raw) });
+  }
+
+  for (const option of valueOptions) {
+    if (option.required && !parsed.has(option.name)) {
+      throw new Error(`Missing required option "${option.name}"`);
+    }
+  }
+
+  return { commandName, subcommandGroup, subcommand, options: parsed };
+}
@@ -0,0 +1,422 @@
+/**
+ * Fake `ChatInputCommandInteraction` and `ButtonInteraction` for offline tests.
+ *
+ * Implements the parts of the interaction API that feature handlers use
+ * (options, reply, deferReply, editReply, deleteReply, followUp, and update
+ * for buttons)
+ * and records every response, plus direct messages and channel posts sent
+ * through `interaction.client`.
+ * Reply-state rules follow discord.js: replying twice, or editing before
+ * replying, throws just like it would against Discord.
+ */
+
+import {
+  ApplicationCommandOptionType,
+  ChannelType,
+  ComponentType,
+  PermissionsBitField,
+} from 'discord.js';
+import type { ButtonInteraction, ChatInputCommandInteraction } from 'discord.js';
+import type { ParsedCommandString, SimulatedOptionValue } from './commandString.js';
+
+/**
+ * Who runs the simulated command, and where
+ */
+export interface SimulatedUser {
+  /** Discord user ID (default: "user-1") */
+  userId?: string;
+  /** Username (default: "tester") */
+  username?: string;
+  /** Guild ID, or null for a direct message (default: "guild-1") */
+  guildId?: string | null;
+  /** Channel ID (default: "channel-1") */
+  channelId?: string;
+  /** Server permissions, e.g. `PermissionFlagsBits.ManageGuild` (default: none) */
+  permissions?: bigint;
+  /** User IDs that `guild.members.fetch` finds (default: every user) */
+  guildMembers?: string[];
+}
+
+/**
+ * How a response was sent
+ */
+export type ResponseKind =
+  | 'reply'
+  | 'deferReply'
+  | 'editReply'
+  | 'deleteReply'
+  | 'followUp'
+  | 'update'
+  | 'deferUpdate';
+
+/**
+ * A response the handler sent, normalized for assertions
+ */
+export interface CapturedResponse {
+  kind: ResponseKind;
+  content?: string;
+  ephemeral: boolean;
+  /** Embeds as API JSON (builders are serialized) */
+  embeds: unknown[];
+  /** Component rows as API JSON (builders are serialized) */
+  components: unknown[];
+}
+
+/**
+ * A message sent outside the interaction, normalized for assertions
+ */
+export interface SentMessage {
+  /** "dm" for `client.users.send`, "channel" for `channel.send` */
+  kind: 'dm' | 'channel';
+  /** Recipient user ID or channel ID */
+  to: string;
+  content?: string;
+  /** Embeds as API JSON (builders are serialized) */
+  embeds: unknown[];
+}
+
+/**
+ * A fake interaction plus the responses and messages recorded on it
+ */
+export interface FakeChatInputInteraction {
+  interaction: ChatInputCommandInteraction;
+  responses: CapturedResponse[];
+  messages: SentMessage[];
+}
+
+/**
+ * A fake button click plus the responses and messages recorded on it
+ */
+export interface FakeButtonInteraction {
+  interaction: ButtonInteraction;
+  responses: CapturedResponse[];
+  messages: SentMessage[];
+}
+
+type Payload =
+  | string
+  | {
+      content?: string;
+      ephemeral?: boolean;
+      embeds?: unknown[];
+      components?: unknown[];
+    };
+
+const toJson = (item: unknown): unknown =>
+  item !== null &&
+  typeof item === 'object' &&
+  'toJSON' in item &&
+  typeof item.toJSON === 'function'
+    ? item.toJSON()
+    : item;
+
+const TYPE_NAMES: Partial<Record<ApplicationCommandOptionType, string>> = {
+  [ApplicationCommandOptionType.String]: 'STRING',
+  [ApplicationCommandOptionType.Integer]: 'INTEGER',
+  [ApplicationCommandOptionType.Number]: 'NUMBER',
+  [ApplicationCommandOptionType.Boolean]: 'BOOLEAN',
+  [ApplicationCommandOptionType.User]: 'USER',
+  [ApplicationCommandOptionType.Channel]: 'CHANNEL',
+};
+
+/**
+ * Simulated user for USER options; the ID doubles as the username
+ */
+const fakeUser = (id: string) => ({
+  id,
+  username: id,
+  tag: id,
+  globalName: id,
+  displayName: id,
+  bot: false,
+});
+
+/**
+ * Simulated text channel for CHANNEL options and `client.channels.fetch`
+ */
+const fakeChannel = (id: string, send?: (payload: Payload) => Promise<void>) => ({
+  id,
+  name: id,
+  type: ChannelType.GuildText,
+  isTextBased: () => true,
+  isSendable: () => true,
+  send: send ?? (async () => undefined),
+});
+
+let interactionCount = 0;
+
+/**
+ * Build what every fake interaction shares: who and where, the client, the
+ * reply state and the recorded responses and messages.
+ */
+function createFakeBase(user: SimulatedUser) {
+  const userId = user.userId ?? 'user-1';
+  const username = user.username ?? 'tester';
+  const guildId = user.guildId === undefined ? 'guild-1' : user.guildId;
+  const responses: CapturedResponse[] = [];
+  const messages: SentMessage[] = [];
+  let replyEphemeral = false;
+
+  const record = (
+    kind: ResponseKind,
+    payload: Payload | undefined,
+    ephemeral: boolean
+  ) => {
+    const body = typeof payload === 'string' ? { content: payload } : (payload ?? {});
+    responses.push({
+      kind,
+      content: body.content,
+      ephemeral,
+      embeds: (body.embeds ?? []).map(toJson),
+      components: (body.components ?? []).map(toJson),
+    });
+  };
+
+  const send = (kind: SentMessage['kind'], to: string) => async (payload: Payload) => {
+    const body = typeof payload === 'string' ? { content: payload } : payload;
+    messages.push({
+      kind,
+      to,
+      content: body.content,
+      embeds: (body.embeds ?? []).map(toJson),
+    });
+  };
+
+  const assertNotResponded = () => {
+    if (interaction.replied || interaction.deferred) {
+      throw new Error('The reply to this interaction has already been sent or deferred.');
+    }
+  };
+
+  const interaction = {
+    id: `interaction-${++interactionCount}`,
+    user: {
+      id: userId,
+      username,
+      tag: username,
+      globalName: username,
+      displayName: username,
+      bot: false,
+    },
+    guildId,
+    guild: guildId
+      ? {
+          id: guildId,
+          name: `Guild ${guildId}`,
+          members: {
+            async fetch(memberId: string) {
+              if (user.guildMembers && !user.guildMembers.includes(memberId)) {
+                throw new Error('Unknown Member');
+              }
+              return { id: memberId, user: fakeUser(memberId) };
+            },
+          },
+        }
+      : null,
+    channelId: user.channelId ?? 'channel-1',
+    client: {
+      users: {
+        send: (recipientId: string, payload: Payload) => send('dm', recipientId)(payload),
+      },
+      channels: {
+        fetch: async (id: string) => fakeChannel(id, send('channel', id)),
+      },
+    },
+    memberPermissions: guildId ? new PermissionsBitField(user.permissions ?? 0n) : null,
+    replied: false,
+    deferred: false,
+    ephemeral: null as boolean | null,
+
+    inGuild: () => guildId !== null,
+    isChatInputCommand: () => false,
+    isAutocomplete: () => false,
+    isMessageComponent: () => false,
+    isButton: () => false,
+    isModalSubmit: () => false,
+    isUserContextMenuCommand: () => false,
+    isMessageContextMenuCommand: () => false,
+    isContextMenuCommand: () => false,
+    isRepliable: () => true,
+
+    async reply(payload: Payload) {
+      assertNotResponded();
+      replyEphemeral = typeof payload === 'object' && payload.ephemeral === true;
+      interaction.replied = true;
+      interaction.ephemeral = replyEphemeral;
+      record('reply', payload, replyEphemeral);
+    },
+
+    async deferReply(payload?: { ephemeral?: boolean }) {
+      assertNotResponded();
+      replyEphemeral = payload?.ephemeral === true;
+      interaction.deferred = true;
+      interaction.ephemeral = replyEphemeral;
+      record('deferReply', undefined, replyEphemeral);
+    },
+
+    async editReply(payload: Payload) {
+      if (!interaction.replied && !interaction.deferred) {
+        throw new Error('The reply to this interaction has not been sent or deferred.');
+      }
+      interaction.replied = true;
+      // Edits keep the visibility of the original response
+      record('editReply', payload, replyEphemeral);
+    },
+
+    async deleteReply() {
+      if (!interaction.replied && !interaction.deferred) {
+        throw new Error('The reply to this interaction has not been sent or deferred.');
+      }
+      record('deleteReply', undefined, replyEphemeral);
+    },
+
+    async followUp(payload: Payload) {
+      if (!interaction.replied && !interaction.deferred) {
+        throw new Error('The reply to this interaction has not been sent or deferred.');
+      }
+      record(
+        'followUp',
+        payload,
+        typeof payload === 'object' && payload.ephemeral === true
+      );
+    },
+  };
+
+  return { interaction, responses, messages, record, assertNotResponded };
+}
+
+/**
+ * Create a fake chat input interaction for a parsed command string.
+ */
+export function createFakeChatInputInteraction(
+  parsed: ParsedCommandString,
+  user: SimulatedUser = {}
+): FakeChatInputInteraction {
+  const { interaction, responses, messages } = createFakeBase(user);
+
+  const getOption = (
+    name: string,
+    type: ApplicationCommandOptionType,
+    required = false
+  ): SimulatedOptionValue | null => {
+    const option = parsed.options.get(name);
+    if (!option) {
+      if (required) {
+        throw new Error(`Option "${name}" is required but was not provided`);
+      }
+      return null;
+    }
+    if (option.type !== type) {
+      throw new Error(
+        `Option "${name}" is of type ${TYPE_NAMES[option.type]}; expected ${TYPE_NAMES[type]}`
+      );
+    }
+    return option.value;
+  };
+
+  // Resolved options as `interaction.options.data` exposes them
+  const optionData = [...parsed.options].map(([name, option]) => ({
+    name,
+    type: option.type,
+    value: option.value,
+  }));
+  const subcommandData = parsed.subcommand
+    ? [
+        {
+          name: parsed.subcommand,
+          type: ApplicationCommandOptionType.Subcommand,
+          options: optionData,
+        },
+      ]
+    : optionData;
+
+  const chatInput = Object.assign(interaction, {
+    commandName: parsed.commandName,
+    isChatInputCommand: () => true,
+
+    options: {
+      data: parsed.subcommandGroup
+        ? [
+            {
+              name: parsed.subcommandGroup,
+              type: ApplicationCommandOptionType.SubcommandGroup,
+              options: subcommandData,
+            },
+          ]
+        : subcommandData,
+      getSubcommandGroup(required = false): string | null {
+        if (required && !parsed.subcommandGroup) {
+          throw new Error('A subcommand group was not selected');
+        }
+        return parsed.subcommandGroup;
+      },
+      getSubcommand(required = true): string | null {
+        if (required && !parsed.subcommand) {
+          throw new Error('A subcommand was not selected');
+        }
+        return parsed.subcommand;
+      },
+      getString: (name: string, required?: boolean) =>
+        getOption(name, ApplicationCommandOptionType.String, required),
+      getInteger: (name: string, required?: boolean) =>
+        getOption(name, ApplicationCommandOptionType.Integer, required),
+      getNumber: (name: string, required?: boolean) =>
+        getOption(name, ApplicationCommandOptionType.Number, required),
+      getBoolean: (name: string, required?: boolean) =>
+        getOption(name, ApplicationCommandOptionType.Boolean, required),
+      getUser(name: string, required?: boolean) {
+        const id = getOption(name, ApplicationCommandOptionType.User, required);
+        return id === null ? null : fakeUser(String(id));
+      },
+      getChannel(name: string, required?: boolean) {
+        const id = getOption(name, ApplicationCommandOptionType.Channel, required);
+        return id === null ? null : fakeChannel(String(id));
+      },
+    },
+  });
+
+  return {
+    interaction: chatInput as unknown as ChatInputCommandInteraction,
+    responses,
+    messages,
+  };
+}
+
+/**
+ * Create a fake click on a button with the given custom ID.
+ *
+ * `update` and `deferUpdate` respond by editing the message the button is on.
+ */
+export function createFakeButtonInteraction(
+  customId: string,
+  user: SimulatedUser = {}
+): FakeButtonInteraction {
+  const { interaction, responses, messages, record, assertNotResponded } =
+    createFakeBase(user);
+
+  const button = Object.assign(interaction, {
+    customId,
+    componentType: ComponentType.Button,
+    message: { id: `message-${interaction.id}` },
+    isMessageComponent: () => true,
+    isButton: () => true,
+
+    async update(payload: Payload) {
+      assertNotResponded();
+      interaction.replied = true;
+      record('update', payload, false);
+    },
+
+    async deferUpdate() {
+      assertNotResponded();
+      interaction.deferred = true;
+      record('deferUpdate', undefined, false);
+    },
+  });
+
+  return {
+    interaction: button as unknown as ButtonInteraction,
+    responses,
+    messages,
+  };
+}
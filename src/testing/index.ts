@@ -0,0 +1,23 @@
+/**
+ * Test kit for running feature commands offline.
+ *
+ * Only for tests; nothing in the bot itself imports from here, and
+ * tsconfig.build.json leaves it out of the build.
+ */
+
+export { createSimulator } from './simulator.js';
+export type { Simulator, SimulatorOptions, SimulationResult } from './simulator.js';
+export { parseCommandString } from './commandString.js';
+export type { ParsedCommandString, ParsedOption } from './commandString.js';
+export {
+  createFakeButtonInteraction,
+  createFakeChatInputInteraction,
+} from './fakeInteraction.js';
+export type {
+  CapturedResponse,
+  FakeButtonInteraction,
+  FakeChatInputInteraction,
+  ResponseKind,
+  SentMessage,
+  SimulatedUser,
+} from './fakeInteraction.js';
@@ -0,0 +1,169 @@
+/**
+ * Offline interaction simulator for end-to-end feature tests.
+ *
+ * Builds the same feature registry and command router as `createApp`, backed
+ * by an in-memory SQLite database, then runs command strings through it:
+ *
+ * ```typescript
+ * const sim = await createSimulator();
+ * const { responses } = await sim.run('/char set name:Bob attributes:{str:16}');
+ * expect(responses[0]?.content).toContain('Bob');
+ * await sim.close();
+ * ```
+ *
+ * Buttons are clicked by custom ID, e.g. one taken from a response's components:
+ *
+ * ```typescript
+ * await sim.click('roll:again:<id>', { userId: 'user-2' });
+ * ```
+ *
+ * No Discord connection, environment variables or network access needed.
+ */
+
+import type { APIEmbed } from 'discord.js';
+import { Logger } from '@discord-bot/logger';
+import type { RNG } from '@discord-bot/dnd5e/engine';
+import { SqliteClient } from '@discord-bot/persistence';
+import { createCommandRouter } from '../core/commandRouter.js';
+import { createContainer, type Container } from '../core/container.js';
+import { createFeatureRegistry } from '../core/featureRegistry.js';
+import type { Middleware } from '../core/middleware.js';
+import { FEATURE_ENABLED_CHECK, registerCorePorts } from '../core/tokens.js';
+import type { FeatureRegistry, FeatureSlice } from '../core/types.js';
+import { createFeatures } from '../features/index.js';
+import { parseCommandString } from './commandString.js';
+import {
+  createFakeButtonInteraction,
+  createFakeChatInputInteraction,
+  type CapturedResponse,
+  type SentMessage,
+  type SimulatedUser,
+} from './fakeInteraction.js';
+
+export interface SimulatorOptions {
+  /**
+   * Global router middlewares (default: none).
+   * Pass a function to build them from the container, e.g. `(c) => [audit(c.resolve(AUDIT_REPO))]`.
+   */
+  middlewares?: Middleware[] | ((container: Container) => Middleware[]);
+  /** Logger for the router and features (default: errors only) */
+  logger?: Logger;
+  /** Dice RNG, e.g. `createMockRNG([17, 4])` for deterministic rolls (default: random) */
+  rng?: RNG;
+  /** Register or override container entries before features are created */
+  setup?: (container: Container) => void;
+  /** Feature slices to register (default: all features of the bot) */
+  features?: (container: Container) => FeatureSlice[];
+}
+
+/**
+ * Outcome of a simulated command or button click
+ */
+export interface SimulationResult {
+  /** Every reply, deferral, edit and follow-up, in order */
+  responses: CapturedResponse[];
+  /** Direct messages and channel posts, in order */
+  messages: SentMessage[];
+  /** Content of the last response that had content */
+  lastContent: string | undefined;
+  /** Last embed of the last response that had embeds (e.g. an error) */
+  lastEmbed: APIEmbed | undefined;
+}
+
+export interface Simulator {
+  /**
+   * Run a command string, e.g. `/roll dice sides:6 count:2`, as the given user.
+   *
+   * @throws Error if the command string would be rejected by Discord
+   */
+  run(command: string, user?: SimulatedUser): Promise<SimulationResult>;
+  /**
+   * Click a button with the given custom ID as the given user.
+   */
+  click(customId: string, user?: SimulatedUser): Promise<SimulationResult>;
+  container: Container;
+  registry: FeatureRegistry;
+  dbClient: SqliteClient;
+  /** Close the in-memory database */
+  close(): Promise<void>;
+}
+
+/**
+ * Summarize the responses and messages of a simulated interaction
+ */
+function toResult(
+  responses: CapturedResponse[],
+  messages: SentMessage[]
+): SimulationResult {
+  const withContent = responses.filter((response) => response.content !== undefined);
+  const withEmbeds = responses.filter((response) => response.embeds.length > 0);
+  const embeds = withEmbeds[withEmbeds.length - 1]?.embeds ?? [];
+  return {
+    responses,
+    messages,
+    lastContent: withContent[withContent.length - 1]?.content,
+    lastEmbed: embeds[embeds.length - 1] as APIEmbed | undefined,
+  };
+}
+
+/**
+ * Create a simulator with a fresh in-memory database.
+ */
+export async function createSimulator(
+  options: SimulatorOptions = {}
+): Promise<Simulator> {
+  const logger = options.logger ?? new Logger({ level: 'error', prefix: 'simulator' });
+  const dbClient = await SqliteClient.create({ dbPath: ':memory:' });
+
+  const container = createContainer();
+  registerCorePorts(container, { logger, dbClient, rng: options.rng });
+  options.setup?.(container);
+
+  const registry = createFeatureRegistry();
+  const features = options.features ?? createFeatures;
+  for (const feature of features(container)) {
+    registry.register(feature);
+  }
+
+  const router = createCommandRouter({
+    registry,
+    logger,
+    middlewares:
+      typeof options.middlewares === 'function'
+        ? options.middlewares(container)
+        : options.middlewares,
+    isFeatureEnabled: container.resolve(FEATURE_ENABLED_CHECK),
+  });
+
+  return {
+    async run(command, user) {
+      const commandName = /^\/(\S+)/.exec(command.trim())?.[1] ?? '';
+      const feature = registry.getByName(commandName);
+      if (!feature) {
+        throw new Error(`No feature registered for "/${commandName}"`);
+      }
+
+      const parsed = parseCommandString(command, feature.command.toJSON());
+      const { interaction, responses, messages } = createFakeChatInputInteraction(
+        parsed,
+        user
+      );
+
+      await router(interaction);
+      return toResult(responses, messages);
+    },
+    async click(customId, user) {
+      const { interaction, responses, messages } = createFakeButtonInteraction(
+        customId,
+        user
+      );
+
+      await router(interaction);
+      return toResult(responses, messages);
+    },
+    container,
+    registry,
+    dbClient,
+    close: () => dbClient.close(),
+  };
+}
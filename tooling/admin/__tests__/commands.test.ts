@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { SqliteClient, SqliteUserRepo } from '@discord-bot/persistence';
-import type { UserRepo } from '@discord-bot/persistence';
-import { setDm, listDms } from '../commands.js';
+import { SqliteAuditRepo, SqliteClient, SqliteUserRepo } from '@discord-bot/persistence';
+import type { AuditRepo, UserRepo } from '@discord-bot/persistence';
+import { setDm, listDms, queryAudit } from '../commands.js';
 
 describe('Admin Commands', () => {
   let client: SqliteClient;
@@ -135,4 +135,52 @@ describe('Admin Commands', () => {
       expect(result[0].discordUserId).toBe('222222222222222222');
     });
   });
+
+  describe('queryAudit', () => {
+    let auditRepo: AuditRepo;
+
+    const record = (discordUserId: string, guildId: string) =>
+      auditRepo.record({
+        discordUserId,
+        guildId,
+        channelId: 'channel-1',
+        command: 'char',
+        subcommand: 'set',
+        options: { name: 'Bob' },
+        durationMs: 5,
+        outcome: 'ok',
+        errorMessage: null,
+      });
+
+    beforeEach(() => {
+      auditRepo = new SqliteAuditRepo(client.kysely);
+    });
+
+    it('should filter by user and guild', async () => {
+      await record('111111111111111111', 'guild-1');
+      await record('222222222222222222', 'guild-1');
+      await record('111111111111111111', 'guild-2');
+
+      const result = await queryAudit(auditRepo, {
+        discordUserId: '111111111111111111',
+        guildId: 'guild-1',
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].options).toEqual({ name: 'Bob' });
+    });
+
+    it('should accept dates for the time range', async () => {
+      await record('111111111111111111', 'guild-1');
+
+      expect(await queryAudit(auditRepo, { since: '2000-01-01' })).toHaveLength(1);
+      expect(await queryAudit(auditRepo, { until: '2000-01-01' })).toHaveLength(0);
+    });
+
+    it('should reject invalid dates', async () => {
+      await expect(queryAudit(auditRepo, { since: 'last tuesday' })).rejects.toThrow(
+        'Invalid since date: last tuesday'
+      );
+    });
+  });
 });
@@ -8,6 +8,7 @@
  * Commands:
  *   set-dm     Grant or revoke DM capability for a user
  *   list-dms   List all users with DM capability
+ *   audit      Query the command audit log
  *
  * Exit codes:
  *   0 - Success
@@ -15,9 +16,9 @@
  *   2 - Runtime/persistence error
  */
 
-import { SqliteClient, SqliteUserRepo } from '@discord-bot/persistence';
+import { SqliteAuditRepo, SqliteClient, SqliteUserRepo } from '@discord-bot/persistence';
 import * as readline from 'node:readline';
-import { setDm, listDms } from './commands.js';
+import { setDm, listDms, queryAudit, type AuditParams } from './commands.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -43,12 +44,34 @@ Usage:
 Commands:
   set-dm      Grant or revoke DM capability for a user
   list-dms    List all users with DM capability
+  audit       Query the command audit log
   help        Show this help message
 
 Examples:
   npm run admin -- set-dm --discord-user-id 123456789 --enabled true
   npm run admin -- set-dm --discord-user-id 123456789 --enabled false --yes
   npm run admin -- list-dms
+  npm run admin -- audit --guild-id 987654321098765432 --since 2024-01-15
+`);
+}
+
+function printAuditUsage(): void {
+  console.log(`
+audit - Query the command audit log (newest first)
+
+Usage:
+  npm run admin -- audit [--discord-user-id <id>] [--guild-id <id>] [--since <date>] [--until <date>] [--limit <n>]
+
+Options:
+  --discord-user-id <id>   Only commands run by this Discord user
+  --guild-id <id>          Only commands run in this guild
+  --since <date>           Only commands at or after this date/time (e.g. 2024-01-15)
+  --until <date>           Only commands before this date/time
+  --limit <n>              Maximum number of entries (default: 50)
+
+Examples:
+  npm run admin -- audit --discord-user-id 123456789012345678
+  npm run admin -- audit --guild-id 987654321098765432 --since 2024-01-15T10:00:00Z --limit 100
 `);
 }
 
@@ -134,6 +157,27 @@ function parseSetDmArgs(flags: Map<string, string>): SetDmArgs | null {
   };
 }
 
+function parseAuditArgs(flags: Map<string, string>): AuditParams | null {
+  const limitStr = flags.get('limit');
+  let limit: number | undefined;
+
+  if (limitStr !== undefined) {
+    limit = Number(limitStr);
+    if (!Number.isInteger(limit) || limit < 1) {
+      console.error('Error: --limit must be a positive integer');
+      return null;
+    }
+  }
+
+  return {
+    discordUserId: flags.get('discord-user-id'),
+    guildId: flags.get('guild-id'),
+    since: flags.get('since'),
+    until: flags.get('until'),
+    limit,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Command Handlers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -235,6 +279,51 @@ async function listDmsCommand(): Promise<number> {
   }
 }
 
+async function auditCommand(flags: Map<string, string>): Promise<number> {
+  const args = parseAuditArgs(flags);
+  if (!args) {
+    printAuditUsage();
+    return 1;
+  }
+
+  let client: SqliteClient | null = null;
+
+  try {
+    // Connect to database
+    client = await SqliteClient.create({ runMigrations: true });
+    const auditRepo = new SqliteAuditRepo(client.kysely);
+
+    const entries = await queryAudit(auditRepo, args);
+
+    if (entries.length === 0) {
+      console.log('\nNo audit entries found.');
+      return 0;
+    }
+
+    console.log(`\nAudit entries (${entries.length}, newest first):\n`);
+
+    for (const entry of entries) {
+      const command = [`/${entry.command}`, entry.subcommand].filter(Boolean).join(' ');
+      const outcome = entry.errorMessage ? `error: ${entry.errorMessage}` : entry.outcome;
+      console.log(
+        `  ${entry.createdAt}  user ${entry.discordUserId}  guild ${entry.guildId ?? 'DM'}  ${command}  (${outcome}, ${entry.durationMs}ms)`
+      );
+      if (Object.keys(entry.options).length > 0) {
+        console.log(`      options: ${JSON.stringify(entry.options)}`);
+      }
+    }
+
+    return 0;
+  } catch (error) {
+    console.error('\nError:', error instanceof Error ? error.message : error);
+    return 2;
+  } finally {
+    if (client) {
+      await client.close();
+    }
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Main
 // ─────────────────────────────────────────────────────────────────────────────
@@ -254,6 +343,10 @@ async function main(): Promise<void> {
       exitCode = await listDmsCommand();
       break;
 
+    case 'audit':
+      exitCode = await auditCommand(flags);
+      break;
+
     case 'help':
     case '--help':
     case '-h':
@@ -5,7 +5,13 @@
  * the CLI parsing and I/O handling for testability.
  */
 
-import type { UserRepo, User } from '@discord-bot/persistence';
+import type {
+  AuditRepo,
+  CommandAuditEntry,
+  QueryAuditParams,
+  UserRepo,
+  User,
+} from '@discord-bot/persistence';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -23,6 +29,16 @@ export interface SetDmParams {
   enabled: boolean;
 }
 
+export interface AuditParams {
+  discordUserId?: string;
+  guildId?: string;
+  /** Date or timestamp, e.g. "2024-01-15" or "2024-01-15T10:30:00Z" */
+  since?: string;
+  /** Date or timestamp (exclusive) */
+  until?: string;
+  limit?: number;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Commands
 // ─────────────────────────────────────────────────────────────────────────────
@@ -78,3 +94,37 @@ export async function setDm(
 export async function listDms(userRepo: UserRepo): Promise<User[]> {
   return userRepo.listDmUsers();
 }
+
+/**
+ * Query the command audit log, newest first.
+ *
+ * @param auditRepo - Audit repository
+ * @param params - Filters; dates are normalized to ISO 8601
+ * @returns Matching audit entries
+ * @throws Error if a date cannot be parsed
+ */
+export async function queryAudit(
+  auditRepo: AuditRepo,
+  params: AuditParams
+): Promise<CommandAuditEntry[]> {
+  const toIso = (name: string, value: string | undefined): string | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const timestamp = Date.parse(value);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid ${name} date: ${value}`);
+    }
+    return new Date(timestamp).toISOString();
+  };
+
+  const query: QueryAuditParams = {
+    discordUserId: params.discordUserId,
+    guildId: params.guildId,
+    since: toIso('since', params.since),
+    until: toIso('until', params.until),
+    limit: params.limit,
+  };
+
+  return auditRepo.query(query);
+}